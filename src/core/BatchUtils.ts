@@ -0,0 +1,363 @@
+import { Either } from 'effect'
+import { type Invocation, type MethodResponse, type Session, CapabilityUris } from './Types.ts'
+import { type ConfigurationError, Errors } from './Errors.ts'
+import { RetryUtils } from './RetryPolicy.ts'
+
+/**
+ * Splitting of method calls to fit the server's request limits - RFC 8620 Section 2
+ */
+
+/**
+ * Limits a request must stay within
+ */
+export interface RequestLimits {
+  readonly maxCallsInRequest: number
+  readonly maxObjectsInGet?: number
+  readonly maxObjectsInSet?: number
+  readonly maxConcurrentRequests?: number
+}
+
+/**
+ * Method calls fitted to the limits, and for each call split in parts the
+ * call ids of its parts in order
+ */
+export interface SplitCalls {
+  readonly methodCalls: ReadonlyArray<Invocation>
+  readonly parts: ReadonlyMap<string, ReadonlyArray<string>>
+}
+
+type Args = Record<string, unknown>
+
+const DEFAULT_MAX_CALLS_IN_REQUEST = 50
+
+const SET_OBJECT_ARGUMENTS = ['create', 'update'] as const
+
+const isRecord = (value: unknown): value is Args =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const chunksOf = <A>(items: ReadonlyArray<A>, size: number): A[][] => {
+  const chunks: A[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Call ids other calls of the request take a result from
+ */
+const referencedCallIds = (methodCalls: ReadonlyArray<Invocation>): Set<string> => {
+  const referenced = new Set<string>()
+  for (const [, args] of methodCalls) {
+    for (const [key, value] of Object.entries(isRecord(args) ? args : {})) {
+      if (key.startsWith('#') && isRecord(value) && typeof value.resultOf === 'string') {
+        referenced.add(value.resultOf)
+      }
+    }
+  }
+  return referenced
+}
+
+/**
+ * Creation ids of the objects a call creates
+ */
+const creationIdsOf = (args: Args): string[] =>
+  ['create', 'emails'].flatMap(name => Object.keys(isRecord(args[name]) ? args[name] : {}))
+
+/**
+ * Creation ids a value refers to with "#", in strings and in keys or patch
+ * paths such as mailboxIds/#k1
+ */
+const creationReferences = (value: unknown, found: Set<string> = new Set()): Set<string> => {
+  if (typeof value === 'string') {
+    if (value.startsWith('#')) {
+      found.add(value.slice(1))
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(item => creationReferences(item, found))
+  } else if (isRecord(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      key.split('/').filter(token => token.startsWith('#')).forEach(token => found.add(token.slice(1)))
+      creationReferences(item, found)
+    }
+  }
+  return found
+}
+
+/**
+ * Indexes of the calls that must go out in the same request, in order: a
+ * call using the result or a creation id of an earlier call joins its group
+ */
+const dependencyGroups = (methodCalls: ReadonlyArray<Invocation>): number[][] => {
+  const parent = methodCalls.map((_, index) => index)
+  const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]!))
+  const join = (a: number, b: number) => {
+    parent[find(b)] = find(a)
+  }
+
+  const callIndex = new Map<string, number>()
+  const creationIndex = new Map<string, number>()
+  methodCalls.forEach(([, args, callId], index) => {
+    const record = isRecord(args) ? args : {}
+    for (const [key, value] of Object.entries(record)) {
+      const sources = key.startsWith('#')
+        ? [isRecord(value) && typeof value.resultOf === 'string' ? callIndex.get(value.resultOf) : undefined]
+        : [...creationReferences(value)].map(id => creationIndex.get(id))
+      sources.forEach(source => source !== undefined && join(source, index))
+    }
+    callIndex.set(callId, index)
+    creationIdsOf(record).forEach(id => creationIndex.set(id, index))
+  })
+
+  const groups = new Map<number, number[]>()
+  methodCalls.forEach((_, index) => {
+    const root = find(index)
+    groups.set(root, [...(groups.get(root) ?? []), index])
+  })
+  return [...groups.values()].sort((a, b) => a[0]! - b[0]!)
+}
+
+/**
+ * A call can only be split when every object it acts on is listed in its own
+ * arguments and no other call needs its whole result. A call guarded by
+ * ifInState is sent whole: after the first part the state has moved, so the
+ * other parts could only go out unguarded.
+ */
+const isSplittable = (args: Args, callId: string, referenced: Set<string>): boolean =>
+  !referenced.has(callId) && (args.ifInState === undefined || args.ifInState === null) &&
+  !Object.keys(args).some(key => key.startsWith('#') || key.startsWith('onSuccess'))
+
+const splitGet = (args: Args, limit: number): Args[] | undefined => {
+  if (!Array.isArray(args.ids) || args.ids.length <= limit) {
+    return undefined
+  }
+  return chunksOf(args.ids, limit).map(ids => ({ ...args, ids }))
+}
+
+/**
+ * Split the create, update and destroy of a /set call into parts of at most
+ * limit objects
+ */
+const splitSet = (args: Args, limit: number): Args[] | undefined => {
+  const destroy = Array.isArray(args.destroy) ? args.destroy : []
+  const operations: Array<readonly [typeof SET_OBJECT_ARGUMENTS[number], string, unknown] | readonly ['destroy', unknown]> = [
+    ...SET_OBJECT_ARGUMENTS.flatMap(name =>
+      Object.entries(isRecord(args[name]) ? args[name] : {}).map(([id, value]) => [name, id, value] as const)
+    ),
+    ...destroy.map(id => ['destroy', id] as const)
+  ]
+  if (operations.length <= limit) {
+    return undefined
+  }
+
+  const { create: _create, update: _update, destroy: _destroy, ...rest } = args
+  return chunksOf(operations, limit).map((chunk) => {
+    const part: Args = { ...rest }
+    for (const operation of chunk) {
+      if (operation[0] === 'destroy') {
+        part.destroy = [...(Array.isArray(part.destroy) ? part.destroy : []), operation[1]]
+      } else {
+        const [name, id, value] = operation
+        part[name] = { ...(isRecord(part[name]) ? part[name] : {}), [id]: value }
+      }
+    }
+    return part
+  })
+}
+
+const mergeObjects = (values: ReadonlyArray<unknown>): Args | null => {
+  const objects = values.filter(isRecord)
+  return objects.length === 0 ? null : Object.assign({}, ...objects)
+}
+
+const mergeArrays = (values: ReadonlyArray<unknown>): unknown[] | null => {
+  const arrays = values.filter(Array.isArray)
+  return arrays.length === 0 ? null : arrays.flat()
+}
+
+const mergeGet = (results: ReadonlyArray<Args>): Args => ({
+  ...results[0],
+  list: mergeArrays(results.map(result => result.list)) ?? [],
+  notFound: mergeArrays(results.map(result => result.notFound))
+})
+
+/**
+ * Merge set parts. Failed parts only add their objects to the not* results,
+ * so the state is that of the parts the server applied.
+ */
+const mergeSet = (results: ReadonlyArray<Args>): Args => {
+  const applied = results.filter(result => typeof result.newState === 'string')
+  return {
+    ...applied[0],
+    newState: applied[applied.length - 1]?.newState,
+    created: mergeObjects(results.map(result => result.created)),
+    updated: mergeObjects(results.map(result => result.updated)),
+    destroyed: mergeArrays(results.map(result => result.destroyed)),
+    notCreated: mergeObjects(results.map(result => result.notCreated)),
+    notUpdated: mergeObjects(results.map(result => result.notUpdated)),
+    notDestroyed: mergeObjects(results.map(result => result.notDestroyed))
+  }
+}
+
+/**
+ * The not* results of a set part the server answered with an error: every
+ * object of the part is not created, updated or destroyed with its type
+ */
+const failedSetPart = (args: Args, error: unknown): Args => {
+  const setError = isRecord(error)
+    ? { type: error.type, ...(typeof error.description === 'string' && { description: error.description }) }
+    : { type: 'serverFail' }
+  const each = (ids: ReadonlyArray<unknown>) => Object.fromEntries(ids.map(id => [String(id), setError]))
+  return {
+    notCreated: each(Object.keys(isRecord(args.create) ? args.create : {})),
+    notUpdated: each(Object.keys(isRecord(args.update) ? args.update : {})),
+    notDestroyed: each(Array.isArray(args.destroy) ? args.destroy : [])
+  }
+}
+
+/**
+ * Batch utility functions
+ */
+export const BatchUtils = {
+  /**
+   * The request limits of the session's core capability. maxBatchSize caps
+   * the calls per request further, and is the limit when the server sets none.
+   */
+  limits: (session: Session, maxBatchSize?: number): RequestLimits => {
+    const core = session.capabilities[CapabilityUris.CORE] ?? {}
+    const serverLimit = core.maxCallsInRequest
+    return {
+      maxCallsInRequest: maxBatchSize === undefined
+        ? serverLimit ?? DEFAULT_MAX_CALLS_IN_REQUEST
+        : Math.min(maxBatchSize, serverLimit ?? maxBatchSize),
+      ...(core.maxObjectsInGet !== undefined && { maxObjectsInGet: core.maxObjectsInGet }),
+      ...(core.maxObjectsInSet !== undefined && { maxObjectsInSet: core.maxObjectsInSet }),
+      ...(core.maxConcurrentRequests !== undefined && { maxConcurrentRequests: core.maxConcurrentRequests })
+    }
+  },
+
+  /**
+   * Split /get calls with more ids than maxObjectsInGet, and /set calls with
+   * more objects than maxObjectsInSet, into consecutive calls. The parts get
+   * call ids "<callId>:<n>". Sets guarded by ifInState are never split.
+   */
+  splitCalls: (methodCalls: ReadonlyArray<Invocation>, limits: RequestLimits): SplitCalls => {
+    const referenced = referencedCallIds(methodCalls)
+    const calls: Invocation[] = []
+    const parts = new Map<string, string[]>()
+
+    for (const call of methodCalls) {
+      const [name, args, callId] = call
+      const split = !isRecord(args) || !isSplittable(args, callId, referenced)
+        ? undefined
+        : name.endsWith('/get') && limits.maxObjectsInGet !== undefined
+          ? splitGet(args, limits.maxObjectsInGet)
+          : name.endsWith('/set') && limits.maxObjectsInSet !== undefined
+            ? splitSet(args, limits.maxObjectsInSet)
+            : undefined
+
+      if (split === undefined) {
+        calls.push(call)
+        continue
+      }
+      const partIds = split.map((_, index) => `${callId}:${index}`)
+      parts.set(callId, partIds)
+      split.forEach((partArgs, index) => calls.push([name, partArgs, partIds[index]!]))
+    }
+
+    return { methodCalls: calls, parts }
+  },
+
+  /**
+   * Group method calls into requests of at most maxCallsInRequest calls.
+   * Calls taking a result reference or a creation id from another call go in
+   * the same request as it; fails when such a chain has more calls than fit.
+   */
+  chunk: (methodCalls: ReadonlyArray<Invocation>, limits: RequestLimits): Either.Either<Invocation[][], ConfigurationError> => {
+    const chunks: number[][] = []
+    let current: number[] = []
+    for (const group of dependencyGroups(methodCalls)) {
+      if (group.length > limits.maxCallsInRequest) {
+        const callIds = group.map(index => methodCalls[index]![2]).join(', ')
+        return Either.left(Errors.configuration(
+          `Calls ${callIds} depend on each other and do not fit in ${limits.maxCallsInRequest} calls per request`,
+          'maxCallsInRequest'
+        ))
+      }
+      if (current.length + group.length > limits.maxCallsInRequest) {
+        chunks.push(current)
+        current = []
+      }
+      current.push(...group)
+    }
+    if (current.length > 0) {
+      chunks.push(current)
+    }
+    return Either.right(chunks.map(chunk => chunk.sort((a, b) => a - b).map(index => methodCalls[index]!)))
+  },
+
+  /**
+   * Whether any of the calls changes server state, so requests with them
+   * must go out one after another
+   */
+  changesState: (methodCalls: ReadonlyArray<Invocation>): boolean =>
+    methodCalls.some(([name]) => RetryUtils.isMutating(name)),
+
+  /**
+   * Merge the responses to the parts of each split call back into one response
+   * under its call id, in the order of the calls: lists, notFound, and the set
+   * results are joined, the state is the first part's and newState the last
+   * part's. The objects of a failed set part are reported in the not* results
+   * next to the parts the server applied; otherwise a failed part's error is
+   * the response.
+   */
+  mergeResponses: (methodResponses: ReadonlyArray<MethodResponse>, split: SplitCalls): MethodResponse[] => {
+    const { parts } = split
+    const callIndex = new Map(split.methodCalls.map(([, , callId], index) => [callId, index]))
+    const ordered = [...methodResponses].sort((a, b) =>
+      (callIndex.get(a[2]) ?? Number.MAX_SAFE_INTEGER) - (callIndex.get(b[2]) ?? Number.MAX_SAFE_INTEGER))
+    if (parts.size === 0) {
+      return ordered
+    }
+
+    const callIdOfPart = new Map<string, string>()
+    for (const [callId, partIds] of parts) {
+      for (const partId of partIds) {
+        callIdOfPart.set(partId, callId)
+      }
+    }
+
+    const argsOfPart = new Map(split.methodCalls.map(([, args, callId]) => [callId, isRecord(args) ? args : {}]))
+
+    const merged: MethodResponse[] = []
+    const done = new Set<string>()
+    for (const response of ordered) {
+      const callId = callIdOfPart.get(response[2])
+      if (callId === undefined) {
+        merged.push(response)
+        continue
+      }
+      if (done.has(callId)) {
+        continue
+      }
+      done.add(callId)
+
+      const partIds = new Set(parts.get(callId))
+      const partResponses = ordered.filter(([, , id]) => partIds.has(id))
+      const applied = partResponses.find(([name]) => name !== 'error')
+      const error = partResponses.find(([name]) => name === 'error')
+      if (error && (applied === undefined || !applied[0].endsWith('/set'))) {
+        merged.push(['error', error[1], callId])
+        continue
+      }
+
+      const name = applied![0]
+      const results = partResponses.map(([partName, result, partId]) =>
+        partName === 'error'
+          ? failedSetPart(argsOfPart.get(partId) ?? {}, result)
+          : isRecord(result) ? result : {})
+      merged.push([name, name.endsWith('/get') ? mergeGet(results) : mergeSet(results), callId])
+    }
+    return merged
+  }
+}
@@ -0,0 +1,153 @@
+import { Option, Schema } from 'effect'
+import {
+  type Capability,
+  type Invocation,
+  type Session,
+  CapabilityUris,
+  MailCapability,
+  SubmissionCapability,
+  VacationResponseCapability,
+  WebSocketCapability
+} from './Types.ts'
+
+/**
+ * Capability negotiation and typed capability accessors - RFC 8620 Section 2
+ */
+
+/**
+ * Capabilities a request must list in "using" for the methods of each data type
+ */
+export const MethodCapabilities: Readonly<Record<string, ReadonlyArray<string>>> = {
+  Mailbox: [CapabilityUris.MAIL],
+  Thread: [CapabilityUris.MAIL],
+  Email: [CapabilityUris.MAIL],
+  SearchSnippet: [CapabilityUris.MAIL],
+  Identity: [CapabilityUris.SUBMISSION],
+  // onSuccessUpdateEmail/onSuccessDestroyEmail make an implicit Email/set
+  EmailSubmission: [CapabilityUris.MAIL, CapabilityUris.SUBMISSION],
+  VacationResponse: [CapabilityUris.VACATION_RESPONSE]
+}
+
+const CAPABILITY_ORDER: ReadonlyArray<string> = Object.values(CapabilityUris)
+
+/**
+ * Decode the capability from the account, or from the session when the
+ * account does not list it with its properties
+ */
+const accountCapability = <A, I>(
+  schema: Schema.Schema<A, I>,
+  uri: string,
+  session: Session,
+  accountId: string
+): A | undefined => {
+  const fromAccount = session.accounts[accountId]?.accountCapabilities[uri]
+  if (fromAccount === undefined) {
+    return undefined
+  }
+  const decode = Schema.decodeUnknownOption(schema)
+  return Option.getOrUndefined(Option.orElse(decode(fromAccount), () => decode(session.capabilities[uri])))
+}
+
+/**
+ * Capability utility functions
+ */
+export const CapabilityUtils = {
+  /**
+   * The capabilities a request with these method calls uses: core, plus those
+   * of each method's data type
+   */
+  forMethodCalls: (methodCalls: ReadonlyArray<Invocation>): string[] => {
+    const needed = new Set<string>([CapabilityUris.CORE])
+    for (const [name] of methodCalls) {
+      const dataType = name.split('/')[0] ?? ''
+      for (const uri of MethodCapabilities[dataType] ?? []) {
+        needed.add(uri)
+      }
+    }
+    const rank = (uri: string) => {
+      const index = CAPABILITY_ORDER.indexOf(uri)
+      return index === -1 ? CAPABILITY_ORDER.length : index
+    }
+    return [...needed].sort((a, b) => rank(a) - rank(b))
+  },
+
+  /**
+   * Check if the server advertises a capability
+   */
+  isSupported: (session: Session, uri: string): boolean =>
+    Object.hasOwn(session.capabilities, uri),
+
+  /**
+   * The capabilities in using that the server does not advertise
+   */
+  unsupported: (session: Session, using: ReadonlyArray<string>): string[] =>
+    using.filter((uri) => !CapabilityUtils.isSupported(session, uri)),
+
+  core: (session: Session): Capability | undefined =>
+    session.capabilities[CapabilityUris.CORE],
+
+  mail: (session: Session, accountId: string): MailCapability | undefined =>
+    accountCapability(MailCapability, CapabilityUris.MAIL, session, accountId),
+
+  submission: (session: Session, accountId: string): SubmissionCapability | undefined =>
+    accountCapability(SubmissionCapability, CapabilityUris.SUBMISSION, session, accountId),
+
+  vacationResponse: (session: Session, accountId: string): VacationResponseCapability | undefined =>
+    accountCapability(VacationResponseCapability, CapabilityUris.VACATION_RESPONSE, session, accountId),
+
+  webSocket: (session: Session): WebSocketCapability | undefined =>
+    Option.getOrUndefined(Schema.decodeUnknownOption(WebSocketCapability)(session.capabilities[CapabilityUris.WEBSOCKET])),
+
+  /**
+   * The capability object of an extension, from the account or else the session
+   */
+  extension: (session: Session, uri: string, accountId?: string): Record<string, unknown> | undefined =>
+    (accountId === undefined ? undefined : session.accounts[accountId]?.accountCapabilities[uri]) ??
+    session.capabilities[uri],
+
+  /**
+   * Deepest mailbox nesting allowed, or null for no limit
+   */
+  maxMailboxDepth: (session: Session, accountId: string): number | null =>
+    CapabilityUtils.mail(session, accountId)?.maxMailboxDepth ?? null,
+
+  /**
+   * Most mailboxes an email may be in, or null for no limit
+   */
+  maxMailboxesPerEmail: (session: Session, accountId: string): number | null =>
+    CapabilityUtils.mail(session, accountId)?.maxMailboxesPerEmail ?? null,
+
+  /**
+   * Longest mailbox name allowed, in UTF-8 octets
+   */
+  maxSizeMailboxName: (session: Session, accountId: string): number | undefined =>
+    CapabilityUtils.mail(session, accountId)?.maxSizeMailboxName,
+
+  /**
+   * Largest total size of the attachments of an email, in octets
+   */
+  maxSizeAttachmentsPerEmail: (session: Session, accountId: string): number | undefined =>
+    CapabilityUtils.mail(session, accountId)?.maxSizeAttachmentsPerEmail,
+
+  /**
+   * Properties Email/query can sort by
+   */
+  emailQuerySortOptions: (session: Session, accountId: string): ReadonlyArray<string> =>
+    CapabilityUtils.mail(session, accountId)?.emailQuerySortOptions ?? [],
+
+  mayCreateTopLevelMailbox: (session: Session, accountId: string): boolean =>
+    CapabilityUtils.mail(session, accountId)?.mayCreateTopLevelMailbox ?? false,
+
+  /**
+   * Longest delay, in seconds, a submission may be scheduled for; 0 when
+   * delayed sending is not supported
+   */
+  maxDelayedSend: (session: Session, accountId: string): number =>
+    CapabilityUtils.submission(session, accountId)?.maxDelayedSend ?? 0,
+
+  /**
+   * SMTP extensions the submission server supports, by EHLO keyword
+   */
+  submissionExtensions: (session: Session, accountId: string): Readonly<Record<string, ReadonlyArray<string>>> =>
+    CapabilityUtils.submission(session, accountId)?.submissionExtensions ?? {}
+}
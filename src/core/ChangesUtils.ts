@@ -0,0 +1,111 @@
+import { Effect } from 'effect'
+import { JMAPMethodError } from './Errors.ts'
+
+/**
+ * Utilities for state-based delta synchronisation with Foo/changes methods
+ */
+
+/**
+ * One page of a Foo/changes response
+ */
+export interface ChangesPage<Id extends string = string> {
+  readonly oldState: string
+  readonly newState: string
+  readonly hasMoreChanges: boolean
+  readonly created: ReadonlyArray<Id>
+  readonly updated: ReadonlyArray<Id>
+  readonly destroyed: ReadonlyArray<Id>
+}
+
+/**
+ * Merged delta between two states
+ */
+export interface ChangesDelta<Id extends string = string> {
+  readonly oldState: string
+  readonly newState: string
+  readonly created: ReadonlyArray<Id>
+  readonly updated: ReadonlyArray<Id>
+  readonly destroyed: ReadonlyArray<Id>
+}
+
+/**
+ * Merge a later page of changes into an accumulated delta
+ *
+ * An id created and then destroyed within the delta is dropped entirely, an id
+ * created and then updated stays "created", and an id updated and then
+ * destroyed is only reported as destroyed.
+ */
+export const mergeChanges = <Id extends string>(
+  delta: ChangesDelta<Id>,
+  page: ChangesPage<Id>
+): ChangesDelta<Id> => {
+  const created = new Set(delta.created)
+  const updated = new Set(delta.updated)
+  const destroyed = new Set(delta.destroyed)
+
+  for (const id of page.created) {
+    if (destroyed.delete(id)) {
+      updated.add(id)
+    } else {
+      created.add(id)
+    }
+  }
+
+  for (const id of page.updated) {
+    if (!created.has(id)) {
+      updated.add(id)
+    }
+  }
+
+  for (const id of page.destroyed) {
+    updated.delete(id)
+    if (!created.delete(id)) {
+      destroyed.add(id)
+    }
+  }
+
+  return {
+    oldState: delta.oldState,
+    newState: page.newState,
+    created: Array.from(created),
+    updated: Array.from(updated),
+    destroyed: Array.from(destroyed)
+  }
+}
+
+/**
+ * Fetch changes page by page until hasMoreChanges is false and return the merged delta
+ */
+export const collectChanges = <Id extends string, E, R>(
+  fetchPage: (sinceState: string) => Effect.Effect<ChangesPage<Id>, E, R>,
+  sinceState: string
+): Effect.Effect<ChangesDelta<Id>, E | JMAPMethodError, R> =>
+  Effect.gen(function* () {
+    let delta: ChangesDelta<Id> = {
+      oldState: sinceState,
+      newState: sinceState,
+      created: [],
+      updated: [],
+      destroyed: []
+    }
+
+    while (true) {
+      const page = yield* fetchPage(delta.newState)
+      const previousState = delta.newState
+      delta = mergeChanges(delta, page)
+
+      if (!page.hasMoreChanges) {
+        return delta
+      }
+
+      // A server that keeps reporting more changes without moving the state would loop forever
+      if (page.newState === previousState) {
+        return yield* Effect.fail(
+          JMAPMethodError.fromMethodError({
+            type: 'serverFail',
+            description: `hasMoreChanges returned without advancing past state ${previousState}`
+          })
+        )
+      }
+    }
+  })
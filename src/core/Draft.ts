@@ -0,0 +1,158 @@
+import type { EmailBodyPartCreate, EmailCreate } from '../schemas/Email.ts'
+import { type EmailAddress, type Id, StandardKeywords, dateToJMAPDate } from '../schemas/Common.ts'
+import { MimeTypes } from './EmailUtils.ts'
+
+/**
+ * Building Email/set create objects from a high-level draft - RFC 8621 Section 4.6
+ */
+
+/**
+ * An address as an EmailAddress, "name@example.com" or "Name <name@example.com>"
+ */
+export type DraftAddress = EmailAddress | string
+
+/**
+ * An uploaded blob attached to the draft
+ */
+export interface DraftAttachment {
+  readonly blobId: string
+  readonly type: string
+  readonly name?: string
+}
+
+/**
+ * An uploaded image referenced from the HTML body as "cid:<cid>"
+ */
+export interface DraftInlineImage extends DraftAttachment {
+  readonly cid: string
+}
+
+/**
+ * A message to compose
+ */
+export interface Draft {
+  readonly from: DraftAddress | ReadonlyArray<DraftAddress>
+  readonly to?: ReadonlyArray<DraftAddress>
+  readonly cc?: ReadonlyArray<DraftAddress>
+  readonly bcc?: ReadonlyArray<DraftAddress>
+  readonly replyTo?: ReadonlyArray<DraftAddress>
+  readonly subject?: string
+  readonly textBody?: string
+  readonly htmlBody?: string
+
+  /**
+   * Images shown in the HTML body; ignored without one
+   */
+  readonly inlineImages?: ReadonlyArray<DraftInlineImage>
+  readonly attachments?: ReadonlyArray<DraftAttachment>
+
+  /**
+   * Message-IDs of the message replied to, and of its thread
+   */
+  readonly inReplyTo?: ReadonlyArray<string>
+  readonly references?: ReadonlyArray<string>
+  readonly sentAt?: Date
+}
+
+/**
+ * Ids of the parts whose content goes in bodyValues
+ */
+export const DraftPartIds = {
+  TEXT: 'text',
+  HTML: 'html'
+} as const
+
+const NAMED_ADDRESS = /^\s*"?(.*?)"?\s*<([^<>]+)>\s*$/
+
+/**
+ * Normalize a draft address to an EmailAddress
+ */
+export const toEmailAddress = (address: DraftAddress): EmailAddress => {
+  if (typeof address !== 'string') {
+    return address
+  }
+  const named = address.match(NAMED_ADDRESS)
+  return named
+    ? { name: named[1] || null, email: named[2]!.trim() }
+    : { name: null, email: address.trim() }
+}
+
+const toAddressList = (addresses: ReadonlyArray<DraftAddress> | undefined) =>
+  addresses && addresses.length > 0 ? addresses.map(toEmailAddress) : undefined
+
+const attachmentPart = (attachment: DraftAttachment): EmailBodyPartCreate => ({
+  blobId: attachment.blobId,
+  type: attachment.type,
+  disposition: 'attachment',
+  ...(attachment.name !== undefined && { name: attachment.name })
+})
+
+const inlineImagePart = (image: DraftInlineImage): EmailBodyPartCreate => ({
+  ...attachmentPart(image),
+  disposition: 'inline',
+  cid: image.cid
+})
+
+const multipart = (type: string, subParts: ReadonlyArray<EmailBodyPartCreate>): EmailBodyPartCreate =>
+  subParts.length === 1 ? subParts[0]! : { type, subParts }
+
+/**
+ * Body structure of a draft:
+ * multipart/mixed [ multipart/alternative [ text, multipart/related [ html, images ] ], attachments ]
+ * with each multipart left out when it would have a single part.
+ */
+const bodyStructure = (draft: Draft): EmailBodyPartCreate => {
+  const textPart: EmailBodyPartCreate = { partId: DraftPartIds.TEXT, type: MimeTypes.TEXT_PLAIN }
+  const htmlPart: EmailBodyPartCreate = { partId: DraftPartIds.HTML, type: MimeTypes.TEXT_HTML }
+
+  const alternatives: EmailBodyPartCreate[] = []
+  if (draft.textBody !== undefined || draft.htmlBody === undefined) {
+    alternatives.push(textPart)
+  }
+  if (draft.htmlBody !== undefined) {
+    const images = (draft.inlineImages ?? []).map(inlineImagePart)
+    alternatives.push(multipart(MimeTypes.MULTIPART_RELATED, [htmlPart, ...images]))
+  }
+
+  const attachments = (draft.attachments ?? []).map(attachmentPart)
+  return multipart(MimeTypes.MULTIPART_MIXED, [
+    multipart(MimeTypes.MULTIPART_ALTERNATIVE, alternatives),
+    ...attachments
+  ])
+}
+
+/**
+ * Build the Email/set create object for a draft stored in the given mailbox.
+ * The email gets the $draft and $seen keywords; a draft with neither text nor
+ * HTML gets an empty text body.
+ */
+export const buildDraft = (draft: Draft, mailboxId: Id): EmailCreate => {
+  const from = (Array.isArray(draft.from) ? draft.from : [draft.from] as ReadonlyArray<DraftAddress>).map(toEmailAddress)
+  const to = toAddressList(draft.to)
+  const cc = toAddressList(draft.cc)
+  const bcc = toAddressList(draft.bcc)
+  const replyTo = toAddressList(draft.replyTo)
+
+  return {
+    mailboxIds: { [mailboxId]: true },
+    keywords: { [StandardKeywords.DRAFT]: true, [StandardKeywords.SEEN]: true },
+    from,
+    ...(to && { to }),
+    ...(cc && { cc }),
+    ...(bcc && { bcc }),
+    ...(replyTo && { replyTo }),
+    ...(draft.subject !== undefined && { subject: draft.subject }),
+    ...(draft.inReplyTo && draft.inReplyTo.length > 0 && { inReplyTo: draft.inReplyTo }),
+    ...(draft.references && draft.references.length > 0 && { references: draft.references }),
+    ...(draft.sentAt && { sentAt: dateToJMAPDate(draft.sentAt) }),
+    bodyStructure: bodyStructure(draft),
+    bodyValues: {
+      ...((draft.textBody !== undefined || draft.htmlBody === undefined) && {
+        [DraftPartIds.TEXT]: { value: draft.textBody ?? '' }
+      }),
+      ...(draft.htmlBody !== undefined && {
+        [DraftPartIds.HTML]: { value: draft.htmlBody }
+      })
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { Either } from 'effect'
+import type { EmailAddress, Filter } from '../schemas/Common.ts'
+import { type Email, type EmailComparator, type EmailFilterCondition, EmailHelpers } from '../schemas/Email.ts'
+import { type JMAPMethodError, Errors } from './Errors.ts'
+import { FilterUtils } from './FilterUtils.ts'
+
+/**
+ * Client-side evaluation of Email/query filters and sorts - RFC 8621 Section 4.4
+ */
+
+/**
+ * Collation algorithms for comparing strings - RFC 4790
+ */
+export const CollationAlgorithms = {
+  ASCII_CASEMAP: 'i;ascii-casemap',
+  UNICODE_CASEMAP: 'i;unicode-casemap',
+  OCTET: 'i;octet'
+} as const
+
+/**
+ * What a filter or sort needs to know beyond the email itself
+ */
+export interface EmailQueryContext {
+  /**
+   * The emails of an email's thread, for the thread keyword conditions and
+   * sorts. Without it an email is taken to be alone in its thread.
+   */
+  readonly threadEmails?: (email: Email) => ReadonlyArray<Email>
+}
+
+/**
+ * Orders emails as a sort does: negative when a comes first
+ */
+export type EmailOrder = (a: Email, b: Email) => number
+
+const DEFAULT_COLLATION = CollationAlgorithms.UNICODE_CASEMAP
+
+const SUPPORTED_COLLATIONS: ReadonlyArray<string> = Object.values(CollationAlgorithms)
+
+// Header fields also available as parsed properties, for header conditions
+// on emails fetched without their raw headers
+const HEADER_PROPERTIES: Readonly<Record<string, keyof Email>> = {
+  'subject': 'subject',
+  'from': 'from',
+  'to': 'to',
+  'cc': 'cc',
+  'bcc': 'bcc',
+  'sender': 'sender',
+  'reply-to': 'replyTo',
+  'message-id': 'messageId',
+  'in-reply-to': 'inReplyTo',
+  'references': 'references'
+}
+
+const fold = (collation: string, value: string): string => {
+  switch (collation) {
+    case CollationAlgorithms.OCTET:
+      return value
+    case CollationAlgorithms.ASCII_CASEMAP:
+      return value.replace(/[A-Z]/g, char => char.toLowerCase())
+    default:
+      // Case folded after compatibility decomposition, as RFC 5051 does
+      return value.normalize('NFKD').toLowerCase().normalize('NFKD')
+  }
+}
+
+const contains = (haystack: string, needle: string): boolean =>
+  fold(DEFAULT_COLLATION, haystack).includes(fold(DEFAULT_COLLATION, needle))
+
+const addressText = (addresses: ReadonlyArray<EmailAddress> | null | undefined): string =>
+  (addresses ?? []).map(address => address.name ? `${address.name} <${address.email}>` : address.email).join(', ')
+
+/**
+ * Text of the body parts whose values were fetched, HTML without its tags
+ */
+const bodyText = (email: Email): string => {
+  const htmlPartIds = new Set((email.htmlBody ?? []).map(part => part.partId))
+  const textPartIds = new Set((email.textBody ?? []).map(part => part.partId))
+  return Object.entries(email.bodyValues ?? {})
+    .filter(([partId]) => textPartIds.has(partId) || htmlPartIds.has(partId) || (textPartIds.size === 0 && htmlPartIds.size === 0))
+    .map(([partId, { value }]) => textPartIds.has(partId) ? value : value.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' '))
+    .join('\n')
+}
+
+const headerValues = (email: Email, name: string): ReadonlyArray<string> | undefined => {
+  const lower = name.toLowerCase()
+  const raw = Object.entries(email.headers ?? {})
+    .filter(([field]) => field.toLowerCase() === lower)
+    .flatMap(([, values]) => values)
+  if (raw.length > 0) {
+    return raw
+  }
+  const property = HEADER_PROPERTIES[lower]
+  const value = property === undefined ? undefined : email[property]
+  if (value === null || value === undefined) {
+    return undefined
+  }
+  if (typeof value === 'string') {
+    return [value]
+  }
+  return Array.isArray(value)
+    ? [value.map(item => typeof item === 'string' ? item : addressText([item as EmailAddress])).join(', ')]
+    : undefined
+}
+
+/**
+ * A header condition: [name] matches emails with the header, [name, text]
+ * those where one of its values contains the text
+ */
+const matchesHeader = (email: Email, header: ReadonlyArray<string>): boolean => {
+  const [name, text] = header
+  if (name === undefined) {
+    return true
+  }
+  const values = headerValues(email, name)
+  return values !== undefined && (text === undefined || values.some(value => contains(value, text)))
+}
+
+const threadOf = (email: Email, context: EmailQueryContext): ReadonlyArray<Email> =>
+  context.threadEmails?.(email) ?? [email]
+
+const compareNumbers = (a: number, b: number): number => a - b
+
+const dateOf = (date: string | null | undefined): number =>
+  date ? Date.parse(date) : 0
+
+/**
+ * Email query utility functions
+ */
+export const EmailQueryUtils = {
+  /**
+   * Compare strings with a collation algorithm. Unknown algorithms compare
+   * as i;unicode-casemap.
+   */
+  collate: (collation: string, a: string, b: string): number => {
+    const [x, y] = [fold(collation, a), fold(collation, b)]
+    return x < y ? -1 : x > y ? 1 : 0
+  },
+
+  isSupportedCollation: (collation: string): boolean =>
+    SUPPORTED_COLLATIONS.includes(collation),
+
+  /**
+   * Subject without its reply and forward markers - RFC 5256 Section 2.1
+   */
+  baseSubject: (subject: string): string => {
+    let base = subject.replace(/\s+/g, ' ').trim()
+    for (let previous = ''; previous !== base;) {
+      previous = base
+      base = base
+        .replace(/\s*\((fwd)\)$/i, '')
+        .replace(/^((re|fwd?)\s*(\[[^\]]*\])?\s*:\s*|\[[^\]]*\]\s*(?=.))/i, '')
+        .trim()
+    }
+    return base
+  },
+
+  /**
+   * Check a single condition. Every property of the condition must match.
+   * Text conditions match a case-insensitive substring.
+   */
+  matchesCondition: (condition: EmailFilterCondition, email: Email, context: EmailQueryContext = {}): boolean => {
+    const mailboxIds = EmailHelpers.getMailboxIds(email)
+    const thread = () => threadOf(email, context)
+    const { inMailboxOtherThan, allInThreadHaveKeyword, someInThreadHaveKeyword, noneInThreadHaveKeyword, header } = condition
+    return (condition.inMailbox === undefined || EmailHelpers.isInMailbox(email, condition.inMailbox)) &&
+      (inMailboxOtherThan === undefined || mailboxIds.some(id => !inMailboxOtherThan.includes(id))) &&
+      (condition.before === undefined || dateOf(email.receivedAt) < dateOf(condition.before)) &&
+      (condition.after === undefined || dateOf(email.receivedAt) >= dateOf(condition.after)) &&
+      (condition.minSize === undefined || email.size >= condition.minSize) &&
+      (condition.maxSize === undefined || email.size < condition.maxSize) &&
+      (allInThreadHaveKeyword === undefined ||
+        thread().every(member => EmailHelpers.hasKeyword(member, allInThreadHaveKeyword))) &&
+      (someInThreadHaveKeyword === undefined ||
+        thread().some(member => EmailHelpers.hasKeyword(member, someInThreadHaveKeyword))) &&
+      (noneInThreadHaveKeyword === undefined ||
+        !thread().some(member => EmailHelpers.hasKeyword(member, noneInThreadHaveKeyword))) &&
+      (condition.hasKeyword === undefined || EmailHelpers.hasKeyword(email, condition.hasKeyword)) &&
+      (condition.notKeyword === undefined || !EmailHelpers.hasKeyword(email, condition.notKeyword)) &&
+      (condition.hasAttachment === undefined || EmailHelpers.hasAttachments(email) === condition.hasAttachment) &&
+      (condition.from === undefined || contains(addressText(email.from), condition.from)) &&
+      (condition.to === undefined || contains(addressText(email.to), condition.to)) &&
+      (condition.cc === undefined || contains(addressText(email.cc), condition.cc)) &&
+      (condition.bcc === undefined || contains(addressText(email.bcc), condition.bcc)) &&
+      (condition.subject === undefined || contains(email.subject ?? '', condition.subject)) &&
+      (condition.body === undefined || contains(bodyText(email), condition.body)) &&
+      (condition.text === undefined || contains(
+        [addressText(email.from), addressText(email.to), addressText(email.cc), addressText(email.bcc), email.subject ?? '', bodyText(email)].join('\n'),
+        condition.text
+      )) &&
+      (header === undefined || matchesHeader(email, header))
+  },
+
+  /**
+   * Check a condition or an AND/OR/NOT over nested filters
+   */
+  matches: (filter: Filter<EmailFilterCondition>, email: Email, context: EmailQueryContext = {}): boolean => {
+    if (!FilterUtils.isOperator(filter)) {
+      return EmailQueryUtils.matchesCondition(filter, email, context)
+    }
+    const results = filter.conditions.map(condition => EmailQueryUtils.matches(condition, email, context))
+    switch (filter.operator) {
+      case 'AND':
+        return results.every(Boolean)
+      case 'OR':
+        return results.some(Boolean)
+      case 'NOT':
+        return !results.some(Boolean)
+    }
+  },
+
+  /**
+   * The emails matching the filter, in order
+   */
+  filter: (emails: ReadonlyArray<Email>, filter: Filter<EmailFilterCondition>, context: EmailQueryContext = {}): Email[] =>
+    emails.filter(email => EmailQueryUtils.matches(filter, email, context)),
+
+  /**
+   * Order of one comparator. Fails with unsupportedSort for properties and
+   * collations the RFC does not define.
+   */
+  compareBy: (comparator: EmailComparator, context: EmailQueryContext = {}): Either.Either<EmailOrder, JMAPMethodError> => {
+    const collation = comparator.collation ?? DEFAULT_COLLATION
+    if (!EmailQueryUtils.isSupportedCollation(collation)) {
+      return Either.left(Errors.methodError('unsupportedSort', `Unsupported collation ${collation}`))
+    }
+    const text = (a: string, b: string) => EmailQueryUtils.collate(collation, a, b)
+    const keyword = comparator.keyword ?? ''
+    const flag = (test: (email: Email) => boolean): EmailOrder => (a, b) => Number(test(a)) - Number(test(b))
+    // The first address's name, or its email when it has none - RFC 8621 Section 4.4.2
+    const firstAddress = (addresses: ReadonlyArray<EmailAddress> | null | undefined) =>
+      addresses?.[0]?.name || addresses?.[0]?.email || ''
+
+    let order: EmailOrder
+    switch (comparator.property) {
+      case 'receivedAt':
+        order = (a, b) => compareNumbers(dateOf(a.receivedAt), dateOf(b.receivedAt))
+        break
+      case 'sentAt':
+        order = (a, b) => compareNumbers(dateOf(a.sentAt), dateOf(b.sentAt))
+        break
+      case 'size':
+        order = (a, b) => compareNumbers(a.size, b.size)
+        break
+      case 'from':
+        order = (a, b) => text(firstAddress(a.from), firstAddress(b.from))
+        break
+      case 'to':
+        order = (a, b) => text(firstAddress(a.to), firstAddress(b.to))
+        break
+      case 'subject':
+        order = (a, b) => text(EmailQueryUtils.baseSubject(a.subject ?? ''), EmailQueryUtils.baseSubject(b.subject ?? ''))
+        break
+      case 'hasKeyword':
+        order = flag(email => EmailHelpers.hasKeyword(email, keyword))
+        break
+      case 'allInThreadHaveKeyword':
+        order = flag(email => threadOf(email, context).every(member => EmailHelpers.hasKeyword(member, keyword)))
+        break
+      case 'someInThreadHaveKeyword':
+        order = flag(email => threadOf(email, context).some(member => EmailHelpers.hasKeyword(member, keyword)))
+        break
+      default:
+        return Either.left(Errors.methodError('unsupportedSort', `Unsupported sort property ${comparator.property}`))
+    }
+    return Either.right(comparator.isAscending === false ? (a, b) => order(b, a) : order)
+  },
+
+  /**
+   * Order of a list of comparators: by the first, then the next for emails
+   * the first finds equal
+   */
+  comparator: (sort: ReadonlyArray<EmailComparator>, context: EmailQueryContext = {}): Either.Either<EmailOrder, JMAPMethodError> =>
+    Either.map(
+      Either.all(sort.map(comparator => EmailQueryUtils.compareBy(comparator, context))),
+      (orders): EmailOrder => (a, b) => {
+        for (const order of orders) {
+          const result = order(a, b)
+          if (result !== 0) {
+            return result
+          }
+        }
+        return 0
+      }
+    ),
+
+  /**
+   * The emails sorted, keeping the given order of emails the sort finds equal
+   */
+  sort: (emails: ReadonlyArray<Email>, sort: ReadonlyArray<EmailComparator>, context: EmailQueryContext = {}): Either.Either<Email[], JMAPMethodError> =>
+    Either.map(EmailQueryUtils.comparator(sort, context), order => [...emails].sort(order))
+}
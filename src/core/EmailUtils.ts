@@ -25,6 +25,7 @@ export const MimeTypes = {
   IMAGE_JPEG: "image/jpeg",
   IMAGE_GIF: "image/gif",
   APPLICATION_PDF: "application/pdf",
+  MESSAGE_RFC822: "message/rfc822",
 
   isText: (mimeType: string): boolean => mimeType.startsWith("text/"),
 
@@ -312,6 +313,16 @@ export const AttachmentUtils = {
   getRegular: (attachments: EmailAttachment[]): EmailAttachment[] =>
     attachments.filter((att) => att.isInline !== true && att.cid === undefined),
 
+  /**
+   * Get attached messages, such as forwarded emails
+   */
+  getMessages: (
+    attachments: ReadonlyArray<EmailAttachment>,
+  ): EmailAttachment[] =>
+    attachments.filter(
+      (att) => att.type.toLowerCase() === MimeTypes.MESSAGE_RFC822,
+    ),
+
   /**
    * Calculate total attachment size
    */
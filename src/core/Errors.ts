@@ -19,6 +19,8 @@ export class NetworkError extends Data.TaggedError("NetworkError")<{
   readonly message: string;
   readonly cause?: Error;
   readonly status?: number;
+  /** Milliseconds the server asked to wait before retrying (Retry-After) */
+  readonly retryAfter?: number;
 }> {}
 
 /**
@@ -54,6 +56,7 @@ export const MethodErrorType = Schema.Literal(
   "invalidArguments",
   "invalidPatch",
   "invalidProperties",
+  "invalidResultReference",
   "notFound",
   "notJSON",
   "notRequest",
@@ -64,6 +67,7 @@ export const MethodErrorType = Schema.Literal(
   "serverPartialFail",
   "serverUnavailable",
   "singleton",
+  "stateMismatch",
   "tooLarge",
   "tooManyChanges",
   "unknownCapability",
@@ -115,6 +119,28 @@ export class JMAPMethodError extends Data.TaggedError("JMAPMethodError")<{
   }
 }
 
+/**
+ * Every method error of a batch, for callers collecting all failures
+ */
+export class JMAPBatchError extends Data.TaggedError("JMAPBatchError")<{
+  readonly errors: ReadonlyArray<JMAPMethodError>;
+}> {
+  override get message(): string {
+    return `${this.errors.length} method call(s) failed: ${this.errors
+      .map((error) => `${error.callId ?? "?"} ${error.type}`)
+      .join(", ")}`;
+  }
+}
+
+/**
+ * Blob upload and download errors
+ */
+export class BlobError extends Data.TaggedError("BlobError")<{
+  readonly message: string;
+  readonly reason: "tooLarge" | "notFound" | "rejected";
+  readonly status?: number;
+}> {}
+
 /**
  * Validation error for schema validation failures
  */
@@ -134,6 +160,46 @@ export class ConfigurationError extends Data.TaggedError("ConfigurationError")<{
   readonly field?: string;
 }> {}
 
+/**
+ * Request-level error types - RFC 8620 Section 3.6.1
+ */
+export const RequestErrorType = Schema.Literal(
+  "unknownCapability",
+  "notJSON",
+  "notRequest",
+  "limit",
+);
+
+export type RequestErrorType = Schema.Schema.Type<typeof RequestErrorType>;
+
+/**
+ * A whole request rejected by the server, answered with an RFC 7807
+ * problem details object instead of a Response
+ */
+export class JMAPRequestError extends Data.TaggedError("JMAPRequestError")<{
+  readonly type: RequestErrorType;
+  readonly status: number;
+  readonly detail?: string;
+  /** Name of the limit exceeded, for the "limit" type */
+  readonly limit?: string;
+}> {
+  /**
+   * The problem details object of the error
+   */
+  toProblem(): Record<string, unknown> {
+    return {
+      type: `urn:ietf:params:jmap:error:${this.type}`,
+      status: this.status,
+      ...(this.detail !== undefined && { detail: this.detail }),
+      ...(this.limit !== undefined && { limit: this.limit }),
+    };
+  }
+
+  override get message(): string {
+    return this.detail ?? `JMAP Request Error: ${this.type}`;
+  }
+}
+
 /**
  * Union of all possible JMAP errors
  */
@@ -143,6 +209,9 @@ export type AllJMAPErrors =
   | AuthenticationError
   | SessionError
   | JMAPMethodError
+  | JMAPRequestError
+  | JMAPBatchError
+  | BlobError
   | ValidationError
   | ConfigurationError;
 
@@ -150,12 +219,23 @@ export type AllJMAPErrors =
  * Helper functions for creating common errors
  */
 export const Errors = {
-  network: (message: string, cause?: Error, status?: number): NetworkError => {
-    const params: { message: string; cause?: Error; status?: number } = {
+  network: (
+    message: string,
+    cause?: Error,
+    status?: number,
+    retryAfter?: number,
+  ): NetworkError => {
+    const params: {
+      message: string;
+      cause?: Error;
+      status?: number;
+      retryAfter?: number;
+    } = {
       message,
     };
     if (cause !== undefined) params.cause = cause;
     if (status !== undefined) params.status = status;
+    if (retryAfter !== undefined) params.retryAfter = retryAfter;
     return new NetworkError(params);
   },
 
@@ -171,6 +251,19 @@ export const Errors = {
     return new SessionError(params);
   },
 
+  blob: (
+    message: string,
+    reason: BlobError["reason"],
+    status?: number,
+  ): BlobError => {
+    const params: { message: string; reason: BlobError["reason"]; status?: number } = {
+      message,
+      reason,
+    };
+    if (status !== undefined) params.status = status;
+    return new BlobError(params);
+  },
+
   validation: (
     message: string,
     errors: Array<{ path: ReadonlyArray<string | number>; message: string }>,
@@ -199,4 +292,7 @@ export const Errors = {
     if (callId !== undefined) params.callId = callId;
     return new JMAPMethodError(params);
   },
+
+  batch: (errors: ReadonlyArray<JMAPMethodError>): JMAPBatchError =>
+    new JMAPBatchError({ errors }),
 };
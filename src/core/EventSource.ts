@@ -0,0 +1,91 @@
+import { Option, Stream } from 'effect'
+
+/**
+ * Server-sent events decoding for the JMAP event source - RFC 8620 Section 7.3
+ */
+
+/**
+ * A dispatched server-sent event
+ */
+export interface ServerSentEvent {
+  /**
+   * Event type, "message" unless the server named one
+   */
+  readonly event: string
+  readonly data: string
+
+  /**
+   * Last event id seen on the connection, to resume with Last-Event-ID
+   */
+  readonly id?: string
+
+  /**
+   * Reconnection time requested by the server, in milliseconds
+   */
+  readonly retry?: number
+}
+
+interface ParserState {
+  readonly event: string
+  readonly data: ReadonlyArray<string>
+  readonly id: string | undefined
+  readonly retry: number | undefined
+}
+
+const initialState: ParserState = { event: '', data: [], id: undefined, retry: undefined }
+
+/**
+ * Feed one line to the parser, returning the next state and the event
+ * dispatched by a blank line, if any
+ */
+const parseLine = (state: ParserState, line: string): readonly [ParserState, Option.Option<ServerSentEvent>] => {
+  if (line === '') {
+    // The id persists across events, everything else is reset
+    const next: ParserState = { ...initialState, id: state.id }
+    if (state.data.length === 0) {
+      return [next, Option.none()]
+    }
+    const event: { -readonly [K in keyof ServerSentEvent]: ServerSentEvent[K] } = {
+      event: state.event || 'message',
+      data: state.data.join('\n')
+    }
+    if (state.id !== undefined) event.id = state.id
+    if (state.retry !== undefined) event.retry = state.retry
+    return [next, Option.some(event)]
+  }
+
+  if (line.startsWith(':')) {
+    return [state, Option.none()]
+  }
+
+  const colon = line.indexOf(':')
+  const field = colon === -1 ? line : line.slice(0, colon)
+  const rawValue = colon === -1 ? '' : line.slice(colon + 1)
+  const value = rawValue.startsWith(' ') ? rawValue.slice(1) : rawValue
+
+  switch (field) {
+    case 'event':
+      return [{ ...state, event: value }, Option.none()]
+    case 'data':
+      return [{ ...state, data: [...state.data, value] }, Option.none()]
+    case 'id':
+      return [value.includes('\0') ? state : { ...state, id: value }, Option.none()]
+    case 'retry':
+      return [/^\d+$/.test(value) ? { ...state, retry: Number(value) } : state, Option.none()]
+    default:
+      return [state, Option.none()]
+  }
+}
+
+/**
+ * Decode a text/event-stream body into its events
+ */
+export const decodeServerSentEvents = <E, R>(
+  body: Stream.Stream<Uint8Array, E, R>
+): Stream.Stream<ServerSentEvent, E, R> =>
+  body.pipe(
+    Stream.decodeText(),
+    Stream.splitLines,
+    Stream.mapAccum(initialState, parseLine),
+    Stream.filterMap((event) => event)
+  )
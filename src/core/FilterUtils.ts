@@ -0,0 +1,107 @@
+import type { Filter, FilterOperator, FilterOperatorType, Id, JMAPDate, UnsignedInt } from '../schemas/Common.ts'
+import { StandardKeywords, dateToJMAPDate } from '../schemas/Common.ts'
+import type { EmailFilterCondition } from '../schemas/Email.ts'
+import type { MailboxFilterCondition, MailboxRole } from '../schemas/Mailbox.ts'
+
+/**
+ * Combinators for building query filters - RFC 8620 Section 5.5
+ */
+
+const operator = <C>(type: FilterOperatorType, conditions: ReadonlyArray<Filter<C>>): FilterOperator<C> => ({
+  operator: type,
+  conditions
+})
+
+const toJMAPDate = (date: Date | JMAPDate): JMAPDate =>
+  date instanceof Date ? dateToJMAPDate(date) : date
+
+/**
+ * Operators shared by every kind of filter
+ */
+export const FilterUtils = {
+  /**
+   * Match when every filter matches
+   */
+  and: <C>(...conditions: ReadonlyArray<Filter<C>>): FilterOperator<C> => operator('AND', conditions),
+
+  /**
+   * Match when at least one filter matches
+   */
+  or: <C>(...conditions: ReadonlyArray<Filter<C>>): FilterOperator<C> => operator('OR', conditions),
+
+  /**
+   * Match when none of the filters match
+   */
+  not: <C>(...conditions: ReadonlyArray<Filter<C>>): FilterOperator<C> => operator('NOT', conditions),
+
+  /**
+   * Check if a filter is an operator rather than a condition
+   */
+  isOperator: <C>(filter: Filter<C>): filter is FilterOperator<C> =>
+    typeof filter === 'object' && filter !== null && 'operator' in filter && 'conditions' in filter
+}
+
+/**
+ * Email filter combinators, e.g.
+ * EmailFilters.or(EmailFilters.and(EmailFilters.inMailbox(inboxId), EmailFilters.unread()), EmailFilters.flagged())
+ */
+export const EmailFilters = {
+  and: (...conditions: ReadonlyArray<Filter<EmailFilterCondition>>) => FilterUtils.and(...conditions),
+  or: (...conditions: ReadonlyArray<Filter<EmailFilterCondition>>) => FilterUtils.or(...conditions),
+  not: (...conditions: ReadonlyArray<Filter<EmailFilterCondition>>) => FilterUtils.not(...conditions),
+
+  inMailbox: (mailboxId: Id): EmailFilterCondition => ({ inMailbox: mailboxId }),
+  inMailboxOtherThan: (mailboxIds: ReadonlyArray<Id>): EmailFilterCondition => ({ inMailboxOtherThan: mailboxIds }),
+
+  /**
+   * Received before the given time
+   */
+  before: (date: Date | JMAPDate): EmailFilterCondition => ({ before: toJMAPDate(date) }),
+
+  /**
+   * Received at or after the given time
+   */
+  after: (date: Date | JMAPDate): EmailFilterCondition => ({ after: toJMAPDate(date) }),
+
+  minSize: (size: UnsignedInt): EmailFilterCondition => ({ minSize: size }),
+  maxSize: (size: UnsignedInt): EmailFilterCondition => ({ maxSize: size }),
+
+  hasKeyword: (keyword: string): EmailFilterCondition => ({ hasKeyword: keyword }),
+  notKeyword: (keyword: string): EmailFilterCondition => ({ notKeyword: keyword }),
+  unread: (): EmailFilterCondition => ({ notKeyword: StandardKeywords.SEEN }),
+  flagged: (): EmailFilterCondition => ({ hasKeyword: StandardKeywords.FLAGGED }),
+  hasAttachment: (hasAttachment: boolean = true): EmailFilterCondition => ({ hasAttachment }),
+
+  text: (text: string): EmailFilterCondition => ({ text }),
+  from: (text: string): EmailFilterCondition => ({ from: text }),
+  to: (text: string): EmailFilterCondition => ({ to: text }),
+  cc: (text: string): EmailFilterCondition => ({ cc: text }),
+  bcc: (text: string): EmailFilterCondition => ({ bcc: text }),
+  subject: (text: string): EmailFilterCondition => ({ subject: text }),
+  body: (text: string): EmailFilterCondition => ({ body: text }),
+
+  /**
+   * Has the header, or has it containing the value
+   */
+  header: (name: string, value?: string): EmailFilterCondition => ({
+    header: value === undefined ? [name] : [name, value]
+  })
+}
+
+/**
+ * Mailbox filter combinators
+ */
+export const MailboxFilters = {
+  and: (...conditions: ReadonlyArray<Filter<MailboxFilterCondition>>) => FilterUtils.and(...conditions),
+  or: (...conditions: ReadonlyArray<Filter<MailboxFilterCondition>>) => FilterUtils.or(...conditions),
+  not: (...conditions: ReadonlyArray<Filter<MailboxFilterCondition>>) => FilterUtils.not(...conditions),
+
+  /**
+   * Children of the mailbox, or top-level mailboxes for null
+   */
+  parentId: (parentId: Id | null): MailboxFilterCondition => ({ parentId }),
+  name: (name: string): MailboxFilterCondition => ({ name }),
+  role: (role: MailboxRole | null): MailboxFilterCondition => ({ role }),
+  hasAnyRole: (hasAnyRole: boolean = true): MailboxFilterCondition => ({ hasAnyRole }),
+  isSubscribed: (isSubscribed: boolean = true): MailboxFilterCondition => ({ isSubscribed })
+}
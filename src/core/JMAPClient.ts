@@ -1,7 +1,10 @@
-import { Context, Effect, Layer, Schedule, Duration } from 'effect'
-import { HttpClient, HttpClientRequest, HttpBody } from '@effect/platform'
+import { Context, Duration, Effect, Either, Layer } from 'effect'
+import { HttpClient, HttpClientRequest, HttpClientResponse, HttpBody } from '@effect/platform'
 import { Session, Request, Response, Invocation } from './Types.ts'
-import { SessionError, NetworkError, AuthenticationError, JMAPMethodError, MethodError, Errors } from './Errors.ts'
+import { SessionError, NetworkError, AuthenticationError, JMAPMethodError, ConfigurationError, MethodError, Errors } from './Errors.ts'
+import { CapabilityUtils } from './Capabilities.ts'
+import { BatchUtils } from './BatchUtils.ts'
+import { type RetryPolicy, defaultRetryPolicy, RetryUtils } from './RetryPolicy.ts'
 import * as Schema from 'effect/Schema'
 
 /**
@@ -16,6 +19,23 @@ export interface JMAPClientConfig {
   readonly retryDelay?: number
   readonly maxBatchSize?: number
   readonly enableRequestLogging?: boolean
+
+  /**
+   * How API requests are retried. maxRetries and retryDelay (milliseconds)
+   * set its maxRetries and baseDelay.
+   */
+  readonly retryPolicy?: Partial<RetryPolicy>
+}
+
+/**
+ * Options for a single batch
+ */
+export interface BatchOptions {
+  /**
+   * Fail the whole batch on the first "error" method response (default true).
+   * When false, error responses are returned in place for per-call handling.
+   */
+  readonly failOnMethodError?: boolean
 }
 
 /**
@@ -28,25 +48,41 @@ export interface JMAPClientInterface {
   readonly getSession: Effect.Effect<Session, SessionError | NetworkError | AuthenticationError, HttpClient.HttpClient>
 
   /**
-   * Send a JMAP request
+   * Send a JMAP request. Fails with ConfigurationError, before sending, when
+   * the server does not support a capability in its using.
    */
   readonly request: <T>(
     request: Request,
     responseSchema: Schema.Schema<T>
-  ) => Effect.Effect<T, JMAPMethodError | NetworkError | AuthenticationError | SessionError, HttpClient.HttpClient>
+  ) => Effect.Effect<T, JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError, HttpClient.HttpClient>
 
   /**
-   * Send a batch of method calls in a single request
+   * Send a batch of method calls. using defaults to the capabilities of the
+   * methods called. Gets and sets over the server's maxObjectsInGet and
+   * maxObjectsInSet are split into parts whose results are merged back, and
+   * batches over maxCallsInRequest go out as several requests, at most
+   * maxConcurrentRequests at a time. Calls that use each other's results or
+   * creation ids stay in one request, failing with ConfigurationError when
+   * they do not fit in one.
    */
   readonly batch: (
     methodCalls: ReadonlyArray<Invocation>,
-    using?: ReadonlyArray<string>
-  ) => Effect.Effect<Response, JMAPMethodError | NetworkError | AuthenticationError | SessionError, HttpClient.HttpClient>
+    using?: ReadonlyArray<string>,
+    options?: BatchOptions
+  ) => Effect.Effect<Response, JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError, HttpClient.HttpClient>
 
   /**
    * Get the current session state for synchronization
    */
   readonly getSessionState: Effect.Effect<string, SessionError | NetworkError | AuthenticationError, HttpClient.HttpClient>
+
+  /**
+   * Send a plain HTTP request to a session URL (upload, download, event source)
+   * with the client's credentials. Non-401 statuses are left to the caller.
+   */
+  readonly execute: (
+    request: HttpClientRequest.HttpClientRequest
+  ) => Effect.Effect<HttpClientResponse.HttpClientResponse, NetworkError | AuthenticationError, HttpClient.HttpClient>
 }
 
 /**
@@ -68,20 +104,38 @@ interface SessionState {
 }
 
 /**
- * Live implementation of JMAP Client
+ * Sends one JMAP request envelope and returns the undecoded response envelope
  */
-const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
+export type JMAPTransport = (
+  request: Request,
+  session: Session
+) => Effect.Effect<unknown, NetworkError | AuthenticationError | SessionError, HttpClient.HttpClient>
+
+/**
+ * Live implementation of JMAP Client. Requests are POSTed to the session
+ * apiUrl unless another transport is given; the session, uploads and
+ * downloads always go over HTTP.
+ */
+export const makeJMAPClientLive = (config: JMAPClientConfig, transport?: JMAPTransport): JMAPClientInterface => {
   let sessionState: SessionState | null = null
 
+  // Request permits are shared by every request through this client, sized
+  // by the session's maxConcurrentRequests and rebuilt when a refreshed
+  // session changes it. Requests already running finish on the old permits.
+  let requestPermits: { readonly limit: number, readonly semaphore: Effect.Semaphore } | null = null
+
   const defaultHeaders = {
     'Content-Type': 'application/json',
     'Authorization': `Bearer ${config.bearerToken}`,
     'User-Agent': config.userAgent ?? 'effect-jmap/0.1.0'
   }
 
-  const retrySchedule = Schedule.exponential(Duration.millis(config.retryDelay ?? 1000)).pipe(
-    Schedule.intersect(Schedule.recurs(config.maxRetries ?? 3))
-  )
+  const retryPolicy: RetryPolicy = {
+    ...defaultRetryPolicy,
+    ...(config.maxRetries !== undefined && { maxRetries: config.maxRetries }),
+    ...(config.retryDelay !== undefined && { baseDelay: Duration.millis(config.retryDelay) }),
+    ...config.retryPolicy
+  }
 
   const logRequest = (message: string, data?: unknown) =>
     config.enableRequestLogging
@@ -98,20 +152,29 @@ const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
       config.timeout ? HttpClientRequest.setUrlParam('timeout', config.timeout.toString()) : (req) => req
     )
 
-    const response = yield* httpClient.execute(request).pipe(
-      Effect.retry(retrySchedule),
-      Effect.catchAll(error =>
-        Effect.fail(Errors.network('Failed to connect to JMAP server', error))
+    const attempt = Effect.gen(function* () {
+      const response = yield* httpClient.execute(request).pipe(
+        Effect.catchAll(error =>
+          Effect.fail(Errors.network('Failed to connect to JMAP server', error))
+        )
       )
-    )
 
-    if (response.status === 401) {
-      yield* Effect.fail(Errors.authentication('Invalid bearer token'))
-    }
+      if (response.status === 401) {
+        return yield* Effect.fail(Errors.authentication('Invalid bearer token'))
+      }
 
-    if (response.status !== 200) {
-      yield* Effect.fail(Errors.network(`HTTP ${response.status}`, undefined, response.status))
-    }
+      if (response.status !== 200) {
+        const retryAfter = yield* RetryUtils.retryAfterMillis(response.headers['retry-after'])
+        return yield* Effect.fail(Errors.network(`HTTP ${response.status}`, undefined, response.status, retryAfter))
+      }
+
+      return response
+    })
+
+    const response = yield* RetryUtils.retry(retryPolicy, attempt, Either.match({
+      onLeft: (error) => error._tag === 'NetworkError' ? RetryUtils.forError(retryPolicy, error) : undefined,
+      onRight: () => undefined
+    }))
 
     const jsonText = yield* response.text.pipe(
       Effect.catchAll(() =>
@@ -137,6 +200,13 @@ const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
       lastUpdated: new Date()
     }
 
+    const { maxConcurrentRequests } = BatchUtils.limits(session)
+    if (maxConcurrentRequests !== requestPermits?.limit) {
+      requestPermits = maxConcurrentRequests === undefined
+        ? null
+        : { limit: maxConcurrentRequests, semaphore: Effect.unsafeMakeSemaphore(maxConcurrentRequests) }
+    }
+
     return session
   })
 
@@ -154,8 +224,7 @@ const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
     return sessionState.session
   })
 
-  const executeJMAPRequest = (request: Request) => Effect.gen(function* () {
-    const session = yield* getSession
+  const postRequest: JMAPTransport = (request, session) => Effect.gen(function* () {
     const httpClient = yield* HttpClient.HttpClient
 
     const requestBody = JSON.stringify(request)
@@ -172,7 +241,6 @@ const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
     )
 
     const response = yield* httpClient.execute(httpRequest).pipe(
-      Effect.retry(retrySchedule),
       Effect.catchAll(error =>
         Effect.fail(Errors.network('Failed to send JMAP request', error))
       )
@@ -185,7 +253,8 @@ const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
     }
 
     if (response.status !== 200) {
-      yield* Effect.fail(Errors.network(`HTTP ${response.status}`, undefined, response.status))
+      const retryAfter = yield* RetryUtils.retryAfterMillis(response.headers['retry-after'])
+      yield* Effect.fail(Errors.network(`HTTP ${response.status}`, undefined, response.status, retryAfter))
     }
 
     const jsonText = yield* response.text.pipe(
@@ -201,26 +270,55 @@ const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
       yield* Effect.fail(Errors.network('Invalid JSON response', error instanceof Error ? error : undefined))
     }
 
-    const jmapResponse = yield* Schema.decodeUnknown(Response)(jsonData).pipe(
-      Effect.catchAll(error =>
-        Effect.fail(Errors.network('Invalid JMAP response format', error))
+    return jsonData
+  })
+
+  const send = transport ?? postRequest
+
+  // Fail on the first method error in the response, unless asked not to
+  const checkMethodErrors = (response: Response, options: BatchOptions) => {
+    const error = options.failOnMethodError === false
+      ? undefined
+      : response.methodResponses.find(([methodName]) => methodName === 'error')
+    return error === undefined
+      ? Effect.succeed(response)
+      : Effect.fail(JMAPMethodError.fromMethodError(error[1] as MethodError, error[2]))
+  }
+
+  const executeJMAPRequest = (request: Request, options: BatchOptions = {}) => Effect.gen(function* () {
+    const session = yield* getSession
+
+    const unsupported = CapabilityUtils.unsupported(session, request.using)
+    if (unsupported.length > 0) {
+      return yield* Effect.fail(Errors.configuration(`Server does not support ${unsupported.join(', ')}`, 'using'))
+    }
+
+    const attempt = Effect.gen(function* () {
+      const jsonData = yield* (requestPermits === null
+        ? send(request, session)
+        : requestPermits.semaphore.withPermits(1)(send(request, session)))
+
+      return yield* Schema.decodeUnknown(Response)(jsonData).pipe(
+        Effect.catchAll(error =>
+          Effect.fail(Errors.network('Invalid JMAP response format', error))
+        )
       )
-    )
+    })
+
+    // Only requests that cannot apply their changes twice are sent again
+    const jmapResponse = yield* (!RetryUtils.isRetryable(request)
+      ? attempt
+      : RetryUtils.retry(retryPolicy, attempt, Either.match({
+          onLeft: (error) => error._tag === 'NetworkError' ? RetryUtils.forError(retryPolicy, error) : undefined,
+          onRight: (response) => RetryUtils.forResponse(retryPolicy, response)
+        })))
 
     yield* logRequest('Received JMAP response', {
       methodResponses: jmapResponse.methodResponses.length,
       sessionState: jmapResponse.sessionState
     })
 
-    // Check for method errors in response
-    for (const [methodName, result, callId] of jmapResponse.methodResponses) {
-      if (methodName === 'error') {
-        const methodError = result as MethodError
-        yield* Effect.fail(JMAPMethodError.fromMethodError(methodError, callId))
-      }
-    }
-
-    return jmapResponse
+    return yield* checkMethodErrors(jmapResponse, options)
   })
 
   const request: JMAPClient['request'] = <T>(
@@ -240,46 +338,34 @@ const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
 
   const batch: JMAPClient['batch'] = (
     methodCalls: ReadonlyArray<Invocation>,
-    using: ReadonlyArray<string> = ['urn:ietf:params:jmap:core', 'urn:ietf:params:jmap:mail']
+    using: ReadonlyArray<string> = CapabilityUtils.forMethodCalls(methodCalls),
+    options?: BatchOptions
   ) => Effect.gen(function* () {
-    const maxBatchSize = config.maxBatchSize ?? 50
-
-    // Split large batches into smaller chunks
-    if (methodCalls.length > maxBatchSize) {
-      const chunks: Invocation[][] = []
-      for (let i = 0; i < methodCalls.length; i += maxBatchSize) {
-        chunks.push(Array.from(methodCalls.slice(i, i + maxBatchSize)))
-      }
-
-      // Execute chunks sequentially and combine results
-      const allResponses = []
-      let latestSessionState = ''
-
-      for (const chunk of chunks) {
-        const chunkRequest: Request = {
-          using,
-          methodCalls: chunk
-        }
-        const chunkResponse = yield* executeJMAPRequest(chunkRequest)
-        allResponses.push(...chunkResponse.methodResponses)
-        latestSessionState = chunkResponse.sessionState
-      }
-
-      const combinedResponse: Response = {
-        methodResponses: allResponses,
-        sessionState: latestSessionState
-      }
+    const session = yield* getSession
+    const limits = BatchUtils.limits(session, config.maxBatchSize)
+    const split = BatchUtils.splitCalls(methodCalls, limits)
+    const chunks = yield* BatchUtils.chunk(split.methodCalls, limits)
 
-      return combinedResponse
+    if (chunks.length <= 1 && split.parts.size === 0) {
+      return yield* executeJMAPRequest({ using, methodCalls }, options)
     }
 
-    // Single batch request
-    const request: Request = {
-      using,
-      methodCalls
+    // Calls depending on each other share a chunk; chunks only go out
+    // together when none of them changes state
+    const responses = yield* Effect.forEach(
+      chunks,
+      (chunk) => executeJMAPRequest({ using, methodCalls: chunk }, { failOnMethodError: false }),
+      { concurrency: BatchUtils.changesState(split.methodCalls) ? 1 : limits.maxConcurrentRequests ?? 1 }
+    )
+
+    const combinedResponse: Response = {
+      methodResponses: BatchUtils.mergeResponses(responses.flatMap((response) => response.methodResponses), split),
+      sessionState: responses[responses.length - 1]?.sessionState ?? session.state
     }
 
-    return yield* executeJMAPRequest(request)
+    // Errors are checked once split calls are merged, so set parts the
+    // server applied are reported with the ones it did not
+    return yield* checkMethodErrors(combinedResponse, options ?? {})
   })
 
   const getSessionState: JMAPClient['getSessionState'] = Effect.gen(function* () {
@@ -287,11 +373,37 @@ const makeJMAPClientLive = (config: JMAPClientConfig): JMAPClientInterface => {
     return session.state
   })
 
+  const execute: JMAPClient['execute'] = (request) => Effect.gen(function* () {
+    const httpClient = yield* HttpClient.HttpClient
+
+    yield* logRequest('Sending HTTP request', { method: request.method, url: request.url })
+
+    // Not retried: streamed request bodies cannot be replayed
+    const response = yield* httpClient.execute(
+      request.pipe(
+        HttpClientRequest.setHeader('Authorization', defaultHeaders.Authorization),
+        HttpClientRequest.setHeader('User-Agent', defaultHeaders['User-Agent'])
+      )
+    ).pipe(
+      Effect.catchAll(error =>
+        Effect.fail(Errors.network(`Failed to send ${request.method} ${request.url}`, error))
+      )
+    )
+
+    if (response.status === 401) {
+      sessionState = null
+      return yield* Effect.fail(Errors.authentication('Bearer token expired or invalid'))
+    }
+
+    return response
+  })
+
   return {
     getSession,
     request,
     batch,
-    getSessionState
+    getSessionState,
+    execute
   }
 }
 
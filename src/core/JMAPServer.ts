@@ -0,0 +1,217 @@
+import { Effect } from 'effect'
+import { type HttpApp, HttpRouter, HttpServerRequest, HttpServerResponse } from '@effect/platform'
+import * as Schema from 'effect/Schema'
+import { type MethodResponse, type Response, type Session, Request } from './Types.ts'
+import { type JMAPMethodError, JMAPRequestError, Errors } from './Errors.ts'
+import { CapabilityUtils, MethodCapabilities } from './Capabilities.ts'
+import { resolveResultReferences } from './ResponseUtils.ts'
+
+/**
+ * JMAP server toolkit - RFC 8620 Section 3
+ *
+ * The server-side counterpart of JMAPClient: parses Request envelopes,
+ * dispatches their method calls to handlers by method name, and builds the
+ * Response.
+ */
+
+/**
+ * What a method handler knows of the request it is called in
+ */
+export interface MethodContext {
+  readonly callId: string
+  readonly using: ReadonlyArray<string>
+
+  /**
+   * Ids of the objects created so far in the request, by creation id. A
+   * handler creating objects adds them, and looks up "#" ids in it.
+   */
+  readonly createdIds: Map<string, string>
+}
+
+/**
+ * Handler of one method. Its arguments have their result references
+ * resolved but are otherwise as the client sent them, to be decoded by the
+ * handler (see typedMethod); failing with a JMAPMethodError answers the call
+ * with an error.
+ */
+export type MethodHandler<R = never> = (
+  args: Record<string, unknown>,
+  context: MethodContext
+) => Effect.Effect<Record<string, unknown>, JMAPMethodError, R>
+
+/**
+ * JMAP Server Configuration
+ */
+export interface JMAPServerConfig<R = never> {
+  /**
+   * Session served to clients. A request may only use its capabilities, and
+   * the maxCallsInRequest and maxSizeRequest of its core capability are enforced.
+   */
+  readonly session: Session
+
+  /**
+   * Handlers by method name, e.g. "Mailbox/get". Core/echo is built in.
+   */
+  readonly methods: Readonly<Record<string, MethodHandler<R>>>
+
+  /**
+   * Capabilities a request must use to call the methods of each data type
+   * (default MethodCapabilities)
+   */
+  readonly methodCapabilities?: Readonly<Record<string, ReadonlyArray<string>>>
+}
+
+/**
+ * JMAP Server Interface
+ */
+export interface JMAPServer<R = never> {
+  readonly session: Session
+
+  /**
+   * Answer a request body. Fails with a request-level error when the body is
+   * not a request the server processes at all.
+   */
+  readonly handle: (body: unknown) => Effect.Effect<Response, JMAPRequestError, R>
+
+  /**
+   * Answers a request posted as JSON, and request-level errors with a
+   * problem details response
+   */
+  readonly httpApp: HttpApp.Default<never, R>
+
+  /**
+   * Serves the session on GET /session and the API on POST /api, to be
+   * mounted with HttpRouter.mount
+   */
+  readonly router: HttpRouter.HttpRouter<never, R>
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const echo: MethodHandler = (args) => Effect.succeed(args)
+
+/**
+ * The error response of a failed call - RFC 8620 Section 3.6.2
+ */
+const errorResponse = (error: JMAPMethodError, callId: string): MethodResponse => [
+  'error',
+  {
+    ...(isRecord(error.details) && error.details),
+    type: error.type,
+    ...(error.description !== undefined && { description: error.description })
+  },
+  callId
+]
+
+/**
+ * Make a JMAP server from its method handlers
+ */
+export const makeJMAPServer = <R = never>(config: JMAPServerConfig<R>): JMAPServer<R> => {
+  const { session } = config
+  const methods: Readonly<Record<string, MethodHandler<R>>> = { 'Core/echo': echo, ...config.methods }
+  const methodCapabilities = config.methodCapabilities ?? MethodCapabilities
+  const core = CapabilityUtils.core(session)
+
+  const dispatch = (
+    [name, args, callId]: readonly [string, unknown, string],
+    using: ReadonlyArray<string>,
+    methodResponses: ReadonlyArray<MethodResponse>,
+    createdIds: Map<string, string>
+  ): Effect.Effect<MethodResponse, never, R> =>
+    Effect.gen(function* () {
+      const handler = methods[name]
+      const needed = methodCapabilities[name.split('/')[0] ?? ''] ?? []
+      if (handler === undefined || !needed.every(uri => using.includes(uri))) {
+        return yield* Effect.fail(Errors.methodError('unknownMethod', `Unknown method ${name}`))
+      }
+      if (!isRecord(args)) {
+        return yield* Effect.fail(Errors.methodError('invalidArguments', 'The arguments must be an object'))
+      }
+      const resolved = yield* resolveResultReferences(args, methodResponses, callId)
+      const result = yield* handler(resolved, { callId, using, createdIds })
+      const response: MethodResponse = [name, result, callId]
+      return response
+    }).pipe(
+      Effect.catchAllDefect(() => Effect.fail(Errors.methodError('serverFail', `Unexpected failure in ${name}`))),
+      Effect.catchAll(error => Effect.succeed(errorResponse(error, callId)))
+    )
+
+  const handle = (body: unknown): Effect.Effect<Response, JMAPRequestError, R> =>
+    Effect.gen(function* () {
+      const request = yield* Schema.decodeUnknown(Request)(body).pipe(
+        Effect.mapError(() => new JMAPRequestError({ type: 'notRequest', status: 400, detail: 'Not a JMAP Request object' }))
+      )
+      const unsupported = CapabilityUtils.unsupported(session, request.using)
+      if (unsupported.length > 0) {
+        return yield* Effect.fail(new JMAPRequestError({
+          type: 'unknownCapability',
+          status: 400,
+          detail: `Unknown capabilities: ${unsupported.join(', ')}`
+        }))
+      }
+      if (core?.maxCallsInRequest !== undefined && request.methodCalls.length > core.maxCallsInRequest) {
+        return yield* Effect.fail(new JMAPRequestError({
+          type: 'limit',
+          status: 400,
+          limit: 'maxCallsInRequest',
+          detail: `More than ${core.maxCallsInRequest} method calls`
+        }))
+      }
+
+      const createdIds = new Map(Object.entries(request.createdIds ?? {}))
+      const methodResponses: MethodResponse[] = []
+      for (const call of request.methodCalls) {
+        methodResponses.push(yield* dispatch(call, request.using, methodResponses, createdIds))
+      }
+      return {
+        methodResponses,
+        sessionState: session.state,
+        // Only returned to clients that sent createdIds
+        ...(request.createdIds !== undefined && { createdIds: Object.fromEntries(createdIds) })
+      }
+    })
+
+  const httpApp: HttpApp.Default<never, R> = Effect.gen(function* () {
+    const request = yield* HttpServerRequest.HttpServerRequest
+    return yield* request.text.pipe(
+      Effect.mapError(() => new JMAPRequestError({ type: 'notRequest', status: 400, detail: 'The request body could not be read' })),
+      Effect.filterOrFail(
+        text => core?.maxSizeRequest === undefined || new TextEncoder().encode(text).length <= core.maxSizeRequest,
+        () => new JMAPRequestError({ type: 'limit', status: 400, limit: 'maxSizeRequest', detail: 'The request is too large' })
+      ),
+      Effect.flatMap(text => Effect.try({
+        try: (): unknown => JSON.parse(text),
+        catch: () => new JMAPRequestError({ type: 'notJSON', status: 400, detail: 'The request body is not JSON' })
+      })),
+      Effect.flatMap(handle),
+      Effect.map(response => HttpServerResponse.unsafeJson(response)),
+      Effect.catchTag('JMAPRequestError', error =>
+        Effect.succeed(HttpServerResponse.unsafeJson(error.toProblem(), { status: error.status, contentType: 'application/problem+json' })))
+    )
+  })
+
+  const router = HttpRouter.empty.pipe(
+    HttpRouter.get('/session', Effect.succeed(HttpServerResponse.unsafeJson(session))),
+    HttpRouter.post('/api', httpApp)
+  )
+
+  return { session, handle, httpApp, router }
+}
+
+/**
+ * A method handler whose arguments are decoded with argumentsSchema, failing
+ * with invalidArguments when they do not match, and whose result is encoded
+ * with resultSchema
+ */
+export const typedMethod = <A, I, B, BI extends Record<string, unknown>, R = never>(
+  argumentsSchema: Schema.Schema<A, I>,
+  resultSchema: Schema.Schema<B, BI>,
+  handler: (args: A, context: MethodContext) => Effect.Effect<B, JMAPMethodError, R>
+): MethodHandler<R> =>
+  (args, context) =>
+    Schema.decodeUnknown(argumentsSchema)(args).pipe(
+      Effect.mapError(error => Errors.methodError('invalidArguments', error.message)),
+      Effect.flatMap(decoded => handler(decoded, context)),
+      Effect.flatMap(result => Effect.orDie(Schema.encode(resultSchema)(result)))
+    )
@@ -0,0 +1,253 @@
+import { Cause, Context, Deferred, Duration, Effect, ExecutionStrategy, Layer, Option, PubSub, Scope, Stream } from 'effect'
+import { HttpClient, Socket } from '@effect/platform'
+import { JMAPClientService, makeJMAPClientLive } from './JMAPClient.ts'
+import type { JMAPClientInterface, JMAPClientConfig, JMAPTransport } from './JMAPClient.ts'
+import { type Session, CapabilityUris, WebSocketCapability } from './Types.ts'
+import { NetworkError, AuthenticationError, SessionError, Errors } from './Errors.ts'
+import { StateChange } from '../schemas/Push.ts'
+import * as Schema from 'effect/Schema'
+
+/**
+ * JMAP over WebSocket - RFC 8887
+ */
+
+/**
+ * Options for push over the WebSocket connection
+ */
+export interface WebSocketPushOptions {
+  /**
+   * Data type names to be notified about (default all)
+   */
+  readonly dataTypes?: ReadonlyArray<string>
+
+  /**
+   * pushState of the last StateChange received, to get the changes missed since
+   */
+  readonly pushState?: string
+}
+
+/**
+ * JMAP client speaking the "jmap" WebSocket subprotocol
+ */
+export interface JMAPWebSocketClientInterface extends JMAPClientInterface {
+  /**
+   * Enable push on the connection and stream the StateChange objects it
+   * delivers. Push settings are per connection, so the latest call's
+   * dataTypes apply to every subscriber.
+   */
+  readonly stateChanges: (
+    options?: WebSocketPushOptions
+  ) => Stream.Stream<StateChange, NetworkError | AuthenticationError | SessionError, HttpClient.HttpClient>
+}
+
+/**
+ * JMAP WebSocket Client Service Tag
+ */
+export const JMAPWebSocketClientService = Context.GenericTag<JMAPWebSocketClientInterface>('JMAPWebSocketClientService')
+
+/**
+ * One open WebSocket with its in-flight requests
+ */
+interface Connection {
+  readonly capability: WebSocketCapability
+  readonly send: (message: unknown) => Effect.Effect<void, NetworkError>
+  readonly pending: Map<string, Deferred.Deferred<unknown, NetworkError>>
+  readonly pushes: PubSub.PubSub<StateChange>
+  readonly closed: Deferred.Deferred<never, NetworkError>
+}
+
+/**
+ * Problem details sent in place of a Response - RFC 8887 Section 4.3.4
+ */
+const RequestErrorMessage = Schema.Struct({
+  '@type': Schema.Literal('RequestError'),
+  requestId: Schema.optional(Schema.String),
+  type: Schema.String,
+  status: Schema.optional(Schema.Number),
+  detail: Schema.optional(Schema.String)
+})
+
+/**
+ * Response to a request, whose other members are the Response object -
+ * RFC 8887 Section 4.3.3
+ */
+const ResponseMessage = Schema.Struct({
+  '@type': Schema.Literal('Response'),
+  requestId: Schema.optional(Schema.String)
+})
+
+/**
+ * Messages the server sends over the connection
+ */
+const ServerMessage = Schema.Union(ResponseMessage, RequestErrorMessage, StateChange)
+
+// Members past those of the message schemas are kept: they are the Response
+const decodeServerMessage = Schema.decodeUnknownOption(Schema.parseJson(ServerMessage), { onExcessProperty: 'preserve' })
+
+const decodeCapability = (session: Session) =>
+  Schema.decodeUnknown(WebSocketCapability)(session.capabilities[CapabilityUris.WEBSOCKET]).pipe(
+    Effect.catchAll(error =>
+      Effect.fail(Errors.session('Server does not support JMAP over WebSocket', error))
+    )
+  )
+
+/**
+ * Live implementation of the WebSocket client. The connection is opened on
+ * first use, reopened after it drops, and closed with the layer's scope.
+ */
+const makeJMAPWebSocketClientLive = (config: JMAPClientConfig) => Effect.gen(function* () {
+  const layerScope = yield* Effect.scope
+  const webSocketConstructor = yield* Socket.WebSocketConstructor
+
+  let current: Connection | null = null
+  let nextRequestId = 0
+  const connectLock = yield* Effect.makeSemaphore(1)
+  const decoder = new TextDecoder()
+
+  const handleMessage = (connection: Connection, data: string | Uint8Array) => Effect.gen(function* () {
+    const message = decodeServerMessage(typeof data === 'string' ? data : decoder.decode(data))
+    if (Option.isNone(message)) {
+      return
+    }
+
+    switch (message.value['@type']) {
+      case 'Response': {
+        const deferred = message.value.requestId === undefined ? undefined : connection.pending.get(message.value.requestId)
+        if (deferred) yield* Deferred.succeed(deferred, message.value)
+        return
+      }
+      case 'RequestError': {
+        const { requestId, type, status, detail } = message.value
+        const error = Errors.network(detail ? `${type}: ${detail}` : type, undefined, status)
+        // Without a requestId the failed request is unknown, so every
+        // request waiting on the connection fails
+        const deferreds = requestId === undefined
+          ? [...connection.pending.values()]
+          : [connection.pending.get(requestId)].filter(deferred => deferred !== undefined)
+        yield* Effect.forEach(deferreds, deferred => Deferred.fail(deferred, error), { discard: true })
+        return
+      }
+      case 'StateChange': {
+        yield* PubSub.publish(connection.pushes, message.value)
+        return
+      }
+    }
+  })
+
+  const connect = (session: Session) => Effect.gen(function* () {
+    const capability = yield* decodeCapability(session)
+    const connectionScope = yield* Scope.fork(layerScope, ExecutionStrategy.sequential)
+
+    const socket = yield* Socket.makeWebSocket(capability.url, { protocols: 'jmap' }).pipe(
+      Effect.provideService(Socket.WebSocketConstructor, webSocketConstructor),
+      Scope.extend(connectionScope)
+    )
+    const write = yield* Scope.extend(socket.writer, connectionScope)
+
+    const connection: Connection = {
+      capability,
+      send: (message) => write(JSON.stringify(message)).pipe(
+        Effect.catchAll(error =>
+          Effect.fail(Errors.network('Failed to send over WebSocket', error))
+        )
+      ),
+      pending: new Map(),
+      pushes: yield* PubSub.unbounded<StateChange>(),
+      closed: yield* Deferred.make<never, NetworkError>()
+    }
+
+    yield* socket.runRaw((data) => handleMessage(connection, data)).pipe(
+      Effect.exit,
+      Effect.flatMap((exit) => Effect.gen(function* () {
+        if (current === connection) current = null
+        const error = exit._tag === 'Failure' ? Cause.squash(exit.cause) : undefined
+        yield* Deferred.fail(
+          connection.closed,
+          Errors.network('WebSocket connection closed', error instanceof Error ? error : undefined)
+        )
+        yield* Scope.close(connectionScope, exit)
+      })),
+      Effect.forkIn(layerScope)
+    )
+
+    return connection
+  })
+
+  const getConnection = (session: Session) =>
+    connectLock.withPermits(1)(
+      Effect.suspend(() =>
+        current !== null
+          ? Effect.succeed(current)
+          : Effect.tap(connect(session), (connection) => { current = connection })
+      )
+    )
+
+  const sendRequest: JMAPTransport = (request, session) => Effect.gen(function* () {
+    const connection = yield* getConnection(session)
+    const id = `r${nextRequestId++}`
+    const response = yield* Deferred.make<unknown, NetworkError>()
+    connection.pending.set(id, response)
+
+    yield* connection.send({ '@type': 'Request', id, ...request })
+
+    const awaitResponse = Deferred.await(response).pipe(
+      Effect.raceFirst(Deferred.await(connection.closed))
+    )
+    return yield* (config.timeout === undefined
+      ? awaitResponse
+      : Effect.timeoutFail(awaitResponse, {
+          duration: Duration.millis(config.timeout),
+          onTimeout: () => Errors.network(`No WebSocket response within ${config.timeout}ms`)
+        })
+    ).pipe(
+      Effect.ensuring(Effect.sync(() => connection.pending.delete(id)))
+    )
+  })
+
+  const client = makeJMAPClientLive(config, sendRequest)
+
+  const stateChanges: JMAPWebSocketClientInterface['stateChanges'] = (options = {}) =>
+    Stream.unwrapScoped(
+      Effect.gen(function* () {
+        const session = yield* client.getSession
+        const connection = yield* getConnection(session)
+
+        if (!connection.capability.supportsPush) {
+          return yield* Effect.fail(Errors.session('Server does not support push over WebSocket'))
+        }
+
+        const subscription = yield* PubSub.subscribe(connection.pushes)
+        yield* connection.send({
+          '@type': 'WebSocketPushEnable',
+          dataTypes: options.dataTypes ?? null,
+          ...(options.pushState !== undefined && { pushState: options.pushState })
+        })
+
+        return Stream.fromQueue(subscription).pipe(
+          Stream.interruptWhen(Deferred.await(connection.closed))
+        )
+      })
+    )
+
+  const webSocketClient: JMAPWebSocketClientInterface = {
+    ...client,
+    stateChanges
+  }
+  return webSocketClient
+})
+
+/**
+ * Live layer for JMAP over WebSocket, providing both the JMAPClientService
+ * used by the services and JMAPWebSocketClientService for push.
+ *
+ * The connection authenticates with whatever WebSocketConstructor is
+ * provided; in Node, supply one that sets the Authorization header.
+ */
+export const JMAPWebSocketClientLive = (
+  config: JMAPClientConfig
+): Layer.Layer<JMAPClientInterface | JMAPWebSocketClientInterface, never, HttpClient.HttpClient | Socket.WebSocketConstructor> =>
+  Layer.scopedContext(
+    Effect.map(makeJMAPWebSocketClientLive(config), (client) =>
+      Context.make(JMAPClientService, client).pipe(Context.add(JMAPWebSocketClientService, client))
+    )
+  )
@@ -0,0 +1,803 @@
+import { Clock, Effect } from 'effect'
+import type {
+  Email,
+  EmailAttachment,
+  EmailBodyPart,
+  EmailBodyPartCreate,
+  EmailBodyValues,
+  EmailCreate,
+  EmailHeader,
+  EmailHeaders
+} from '../schemas/Email.ts'
+import { Common, type EmailAddress, type JMAPDate, dateToJMAPDate } from '../schemas/Common.ts'
+import { EmailProcessingError, HTMLUtils, MimeTypes } from './EmailUtils.ts'
+
+/**
+ * Parsing and serializing raw messages - RFC 5322, RFC 2045-2047 and RFC 2231
+ */
+
+const CRLF = '\r\n'
+
+/**
+ * Bytes as a string with one character per byte, so that raw messages can be
+ * split with string operations without decoding them
+ */
+const bytesToBinary = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return binary
+}
+
+const binaryToBytes = (binary: string): Uint8Array => {
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i) & 0xff
+  }
+  return bytes
+}
+
+const decodeCharset = (bytes: Uint8Array, charset: string | null | undefined): string => {
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text)
+
+/**
+ * Header text as UTF-8 bytes in a binary string, for addresses and other
+ * fields without an encoded-word form (RFC 6532)
+ */
+const utf8Binary = (text: string): string => bytesToBinary(utf8(text))
+
+const isAscii = (text: string): boolean => /^[\x00-\x7f]*$/.test(text)
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g
+
+const HEADER_SPECIALS = /[()<>[\]:;@\\,."]/
+
+/**
+ * A header value split at top-level separators, ignoring those in quoted
+ * strings, comments and angle brackets
+ */
+const splitUnquoted = (value: string, separator: string): string[] => {
+  const items: string[] = []
+  let current = ''
+  let quoted = false
+  let depth = 0
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!
+    if (quoted && char === '\\') {
+      current += char + (value[i + 1] ?? '')
+      i++
+      continue
+    }
+    if (char === '"') quoted = !quoted
+    else if (!quoted && (char === '(' || char === '<')) depth++
+    else if (!quoted && (char === ')' || char === '>')) depth = Math.max(0, depth - 1)
+    if (char === separator && !quoted && depth === 0) {
+      items.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  items.push(current)
+  return items
+}
+
+const unquote = (value: string): string => {
+  const trimmed = value.trim()
+  return trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2
+    ? trimmed.slice(1, -1).replace(/\\(.)/g, '$1')
+    : trimmed
+}
+
+const wrapLines = (text: string, width: number): string =>
+  (text.match(new RegExp(`.{1,${width}}`, 'g')) ?? []).join(CRLF)
+
+/**
+ * Content transfer and header encodings
+ */
+export const MimeUtils = {
+  /**
+   * Decode base64, ignoring line breaks and other characters outside the alphabet
+   */
+  decodeBase64: (input: string): Uint8Array => {
+    const cleaned = input.replace(/[^A-Za-z0-9+/]/g, '')
+    const padded = cleaned.slice(0, cleaned.length - (cleaned.length % 4 === 1 ? 1 : 0))
+    return binaryToBytes(atob(padded + '='.repeat((4 - (padded.length % 4)) % 4)))
+  },
+
+  /**
+   * Encode base64 in lines of 76 characters
+   */
+  encodeBase64: (bytes: Uint8Array): string => wrapLines(btoa(bytesToBinary(bytes)), 76),
+
+  /**
+   * Decode quoted-printable; in headers (RFC 2047 "Q") an underscore is a space
+   */
+  decodeQuotedPrintable: (input: string, header: boolean = false): Uint8Array => {
+    const text = (header ? input.replace(/_/g, ' ') : input).replace(/=\r?\n/g, '')
+    const bytes: number[] = []
+    for (let i = 0; i < text.length; i++) {
+      const hex = text[i] === '=' ? text.slice(i + 1, i + 3) : ''
+      if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+        bytes.push(parseInt(hex, 16))
+        i += 2
+      } else {
+        bytes.push(text.charCodeAt(i) & 0xff)
+      }
+    }
+    return Uint8Array.from(bytes)
+  },
+
+  /**
+   * Encode quoted-printable with CRLF line breaks and lines of at most 76 characters
+   */
+  encodeQuotedPrintable: (bytes: Uint8Array): string =>
+    bytesToBinary(bytes).split(/\r?\n/).map(line => {
+      let encoded = ''
+      let length = 0
+      for (let i = 0; i < line.length; i++) {
+        const code = line.charCodeAt(i)
+        const atEnd = i === line.length - 1
+        const literal = (code >= 33 && code <= 126 && code !== 61) || ((code === 32 || code === 9) && !atEnd)
+        const token = literal ? line[i]! : `=${code.toString(16).toUpperCase().padStart(2, '0')}`
+        if (length + token.length > (atEnd ? 76 : 75)) {
+          encoded += `=${CRLF}`
+          length = 0
+        }
+        encoded += token
+        length += token.length
+      }
+      return encoded
+    }).join(CRLF),
+
+  /**
+   * Decode RFC 2047 encoded words. Adjacent words are joined before decoding
+   * so characters split between them survive.
+   */
+  decodeEncodedWords: (value: string): string => {
+    const segments: Array<string | { charset: string; bytes: number[] }> = []
+    let lastIndex = 0
+
+    for (const match of value.matchAll(ENCODED_WORD)) {
+      const between = value.slice(lastIndex, match.index)
+      const previous = segments[segments.length - 1]
+      const adjacent = typeof previous === 'object' && /^\s*$/.test(between)
+      if (!adjacent) segments.push(between)
+
+      const charset = match[1]!.split('*')[0]!.toLowerCase()
+      const bytes = match[2]!.toUpperCase() === 'B'
+        ? MimeUtils.decodeBase64(match[3]!)
+        : MimeUtils.decodeQuotedPrintable(match[3]!, true)
+      if (adjacent && previous.charset === charset) {
+        previous.bytes.push(...bytes)
+      } else {
+        segments.push({ charset, bytes: Array.from(bytes) })
+      }
+      lastIndex = match.index + match[0].length
+    }
+
+    return segments
+      .map(segment => typeof segment === 'string' ? segment : decodeCharset(Uint8Array.from(segment.bytes), segment.charset))
+      .join('') + value.slice(lastIndex)
+  },
+
+  /**
+   * Encode text as RFC 2047 "B" encoded words of at most 75 characters,
+   * leaving ASCII text as it is
+   */
+  encodeEncodedWords: (text: string): string => {
+    if (isAscii(text)) return text
+    const words: string[] = []
+    let chunk = ''
+    for (const char of text) {
+      if (utf8(chunk + char).length > 45) {
+        words.push(chunk)
+        chunk = ''
+      }
+      chunk += char
+    }
+    words.push(chunk)
+    return words.map(word => `=?UTF-8?B?${btoa(bytesToBinary(utf8(word)))}?=`).join(' ')
+  },
+
+  /**
+   * Split a structured header such as Content-Type into its value and
+   * parameters, joining RFC 2231 continuations and decoding charsets
+   */
+  parseParameters: (header: string): { value: string; params: Record<string, string> } => {
+    const [value = '', ...rest] = splitUnquoted(header, ';')
+    const sections = new Map<string, Array<{ index: number; extended: boolean; value: string }>>()
+
+    for (const param of rest) {
+      const equals = param.indexOf('=')
+      if (equals <= 0) continue
+      const key = param.slice(0, equals).trim().toLowerCase()
+      const raw = unquote(param.slice(equals + 1))
+      const section = key.match(/^(.+?)(?:\*(\d+))?(\*)?$/)!
+      const name = section[1]!
+      const list = sections.get(name) ?? []
+      list.push({ index: section[2] === undefined ? 0 : Number(section[2]), extended: section[3] === '*', value: raw })
+      sections.set(name, list)
+    }
+
+    const params: Record<string, string> = {}
+    for (const [name, list] of sections) {
+      const ordered = list.sort((a, b) => a.index - b.index)
+      if (!ordered.some(section => section.extended)) {
+        params[name] = MimeUtils.decodeEncodedWords(ordered.map(section => section.value).join(''))
+        continue
+      }
+      let charset = 'utf-8'
+      const bytes: number[] = []
+      ordered.forEach((section, i) => {
+        let text = section.value
+        if (section.extended && i === 0) {
+          const [encoding = '', , encoded = ''] = text.split("'")
+          charset = encoding || charset
+          text = encoded
+        }
+        const decoded = section.extended
+          ? text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+          : text
+        bytes.push(...binaryToBytes(decoded))
+      })
+      params[name] = decodeCharset(Uint8Array.from(bytes), charset)
+    }
+
+    return { value: value.trim(), params }
+  },
+
+  /**
+   * Format a header parameter, with RFC 2231 encoding for non-ASCII values
+   */
+  formatParameter: (name: string, value: string): string =>
+    isAscii(value)
+      ? `${name}="${value.replace(/(["\\])/g, '\\$1')}"`
+      : `${name}*=utf-8''${encodeURIComponent(value).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)}`
+}
+
+/**
+ * Parse an address-list header. Group syntax is flattened and encoded words
+ * in display names are decoded.
+ */
+const parseAddressList = (value: string): EmailAddress[] => {
+  const items: string[] = []
+  let current = ''
+  let quoted = false
+  let depth = 0
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]!
+    if (quoted && char === '\\') {
+      current += char + (value[i + 1] ?? '')
+      i++
+      continue
+    }
+    if (char === '"') quoted = !quoted
+    else if (!quoted && (char === '(' || char === '<')) depth++
+    else if (!quoted && (char === ')' || char === '>')) depth = Math.max(0, depth - 1)
+
+    if (!quoted && depth === 0 && char === ':') {
+      current = ''
+    } else if (!quoted && depth === 0 && (char === ',' || char === ';')) {
+      items.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  items.push(current)
+
+  return items.map(item => item.trim()).filter(item => item.length > 0).map(item => {
+    const angle = item.match(/^([\s\S]*?)<([^<>]*)>/)
+    if (angle) {
+      const name = MimeUtils.decodeEncodedWords(unquote(angle[1]!.replace(/\([^)]*\)/g, ''))).trim()
+      return { name: name || null, email: angle[2]!.trim() }
+    }
+    const comment = item.match(/\(([^)]*)\)/)
+    const name = comment ? MimeUtils.decodeEncodedWords(comment[1]!).trim() : ''
+    return { name: name || null, email: item.replace(/\([^)]*\)/g, '').trim() }
+  })
+}
+
+/**
+ * Message-IDs of a header, without their angle brackets as in RFC 8621
+ */
+const parseMessageIds = (value: string): string[] => {
+  const ids = value.match(/<[^<>]+>/g)
+  return ids
+    ? ids.map(id => id.slice(1, -1).trim())
+    : value.split(/\s+/).filter(id => id.length > 0)
+}
+
+const parseDate = (value: string): JMAPDate | null => {
+  const date = new Date(value.replace(/\([^)]*\)/g, '').trim())
+  return Number.isNaN(date.getTime()) ? null : dateToJMAPDate(date)
+}
+
+/**
+ * A parsed message in the shape Email/get and Email/parse return. Leaf body
+ * parts get local blobIds whose content is in ParsedMessage.blobs.
+ */
+export type ParsedEmail = Pick<
+  Email,
+  | 'messageId'
+  | 'inReplyTo'
+  | 'references'
+  | 'sender'
+  | 'from'
+  | 'to'
+  | 'cc'
+  | 'bcc'
+  | 'replyTo'
+  | 'subject'
+  | 'sentAt'
+  | 'headers'
+  | 'textBody'
+  | 'htmlBody'
+  | 'attachments'
+  | 'bodyValues'
+  | 'hasAttachment'
+  | 'preview'
+  | 'size'
+> & {
+  readonly bodyStructure: EmailBodyPart
+}
+
+export interface ParsedMessage {
+  readonly email: ParsedEmail
+  readonly blobs: Record<string, Uint8Array>
+}
+
+interface MimeNode {
+  readonly headers: ReadonlyArray<EmailHeader>
+  readonly type: string
+  readonly params: Record<string, string>
+  readonly body: string
+  readonly subParts?: ReadonlyArray<MimeNode>
+}
+
+const splitHead = (binary: string): { head: string; body: string } => {
+  if (/^\r?\n/.test(binary)) {
+    return { head: '', body: binary.replace(/^\r?\n/, '') }
+  }
+  const separator = /\r?\n\r?\n/.exec(binary)
+  return separator
+    ? { head: binary.slice(0, separator.index), body: binary.slice(separator.index + separator[0].length) }
+    : { head: binary, body: '' }
+}
+
+/**
+ * Unfolded header fields, with raw 8-bit values read as UTF-8 (RFC 6532)
+ */
+const parseHeaderFields = (head: string): EmailHeader[] => {
+  const fields: Array<{ name: string; value: string }> = []
+  for (const line of head.split(/\r?\n/)) {
+    const last = fields[fields.length - 1]
+    if (/^[ \t]/.test(line) && last) {
+      last.value += line
+      continue
+    }
+    const colon = line.indexOf(':')
+    if (colon > 0) {
+      fields.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1) })
+    }
+  }
+  return fields.map(field => ({ name: field.name, value: decodeCharset(binaryToBytes(field.value), 'utf-8').trim() }))
+}
+
+const headerValue = (headers: ReadonlyArray<EmailHeader>, name: string): string | undefined =>
+  headers.find(header => header.name.toLowerCase() === name)?.value
+
+const toHeaderRecord = (headers: ReadonlyArray<EmailHeader>): EmailHeaders => {
+  const record: Record<string, string[]> = {}
+  for (const header of headers) {
+    const key = Object.keys(record).find(name => name.toLowerCase() === header.name.toLowerCase()) ?? header.name
+    record[key] = [...(record[key] ?? []), header.value]
+  }
+  return record
+}
+
+/**
+ * The parts of a multipart body; the preamble and epilogue are dropped
+ */
+const splitMultipart = (body: string, boundary: string): string[] => {
+  const parts: string[] = []
+  let current: string[] | null = null
+  for (const line of body.split(/(?<=\n)/)) {
+    const trimmed = line.replace(/[ \t]*\r?\n$/, '')
+    if (trimmed === `--${boundary}` || trimmed === `--${boundary}--`) {
+      if (current) parts.push(current.join('').replace(/\r?\n$/, ''))
+      if (trimmed === `--${boundary}--`) return parts
+      current = []
+    } else {
+      current?.push(line)
+    }
+  }
+  if (current) parts.push(current.join(''))
+  return parts
+}
+
+const parseNode = (binary: string, defaultType: string): MimeNode => {
+  const { head, body } = splitHead(binary)
+  const headers = parseHeaderFields(head)
+  const contentType = headerValue(headers, 'content-type')
+  const { value, params } = contentType ? MimeUtils.parseParameters(contentType) : { value: defaultType, params: {} }
+  const type = value.includes('/') ? value.toLowerCase() : MimeTypes.TEXT_PLAIN
+
+  if (MimeTypes.isMultipart(type) && params.boundary) {
+    const childType = type === 'multipart/digest' ? 'message/rfc822' : MimeTypes.TEXT_PLAIN
+    return {
+      headers,
+      type,
+      params,
+      body,
+      subParts: splitMultipart(body, params.boundary).map(part => parseNode(part, childType))
+    }
+  }
+  return { headers, type, params, body }
+}
+
+const decodeBody = (node: MimeNode): Uint8Array => {
+  const encoding = headerValue(node.headers, 'content-transfer-encoding')?.toLowerCase()
+  return encoding === 'base64'
+    ? MimeUtils.decodeBase64(node.body)
+    : encoding === 'quoted-printable'
+      ? MimeUtils.decodeQuotedPrintable(node.body)
+      : binaryToBytes(node.body)
+}
+
+const isInlineMediaType = (type: string): boolean =>
+  type.startsWith('image/') || type.startsWith('audio/') || type.startsWith('video/')
+
+/**
+ * Choose textBody, htmlBody and attachments the way RFC 8621 Section 4.1.4
+ * describes it
+ */
+const parseStructure = (
+  parts: ReadonlyArray<EmailBodyPart>,
+  multipartType: string,
+  inAlternative: boolean,
+  htmlBody: EmailBodyPart[] | null,
+  textBody: EmailBodyPart[] | null,
+  attachments: EmailBodyPart[]
+): void => {
+  const textLength = textBody ? textBody.length : -1
+  const htmlLength = htmlBody ? htmlBody.length : -1
+
+  parts.forEach((part, i) => {
+    const type = part.type ?? MimeTypes.TEXT_PLAIN
+    const isInline = part.disposition !== 'attachment' &&
+      (type === MimeTypes.TEXT_PLAIN || type === MimeTypes.TEXT_HTML || isInlineMediaType(type)) &&
+      (i === 0 || (multipartType !== 'related' && (isInlineMediaType(type) || !part.name)))
+
+    if (MimeTypes.isMultipart(type)) {
+      const subMultipartType = MimeTypes.getSubType(type)
+      parseStructure(part.subParts ?? [], subMultipartType, inAlternative || subMultipartType === 'alternative', htmlBody, textBody, attachments)
+    } else if (isInline) {
+      if (multipartType === 'alternative') {
+        if (type === MimeTypes.TEXT_PLAIN) textBody?.push(part)
+        else if (type === MimeTypes.TEXT_HTML) htmlBody?.push(part)
+        else attachments.push(part)
+        return
+      }
+      if (inAlternative) {
+        if (type === MimeTypes.TEXT_PLAIN) htmlBody = null
+        if (type === MimeTypes.TEXT_HTML) textBody = null
+      }
+      textBody?.push(part)
+      htmlBody?.push(part)
+      if ((!textBody || !htmlBody) && isInlineMediaType(type)) {
+        attachments.push(part)
+      }
+    } else {
+      attachments.push(part)
+    }
+  })
+
+  if (multipartType === 'alternative' && textBody && htmlBody) {
+    if (textLength === textBody.length && htmlLength !== htmlBody.length) {
+      textBody.push(...htmlBody.slice(htmlLength))
+    }
+    if (htmlLength === htmlBody.length && textLength !== textBody.length) {
+      htmlBody.push(...textBody.slice(textLength))
+    }
+  }
+}
+
+const PREVIEW_LENGTH = 256
+
+/**
+ * Raw message parsing
+ */
+export const MimeParser = {
+  /**
+   * Parse a raw message (such as an .eml file) into the library's Email
+   * shape. Parsing is lenient: malformed input gives a best-effort result.
+   */
+  parse: (raw: Uint8Array | string): ParsedMessage => {
+    const binary = typeof raw === 'string' ? bytesToBinary(utf8(raw)) : bytesToBinary(raw)
+    const root = parseNode(binary, MimeTypes.TEXT_PLAIN)
+    const blobs: Record<string, Uint8Array> = {}
+    const contents = new Map<string, { bytes: Uint8Array; charset: string | null }>()
+    let nextPartId = 1
+
+    const toBodyPart = (node: MimeNode): EmailBodyPart => {
+      const disposition = headerValue(node.headers, 'content-disposition')
+      const { value: dispositionType, params: dispositionParams } = disposition
+        ? MimeUtils.parseParameters(disposition)
+        : { value: '', params: {} }
+      const contentId = headerValue(node.headers, 'content-id')
+      const language = headerValue(node.headers, 'content-language')
+      const charset = node.params.charset ?? (MimeTypes.isText(node.type) ? 'us-ascii' : null)
+
+      const common = {
+        headers: toHeaderRecord(node.headers),
+        type: node.type,
+        name: dispositionParams.filename ?? node.params.name ?? null,
+        charset: node.subParts ? null : charset,
+        disposition: dispositionType ? dispositionType.toLowerCase() : null,
+        cid: contentId ? contentId.replace(/^\s*<|>\s*$/g, '') : null,
+        language: language ? language.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0) : null,
+        location: headerValue(node.headers, 'content-location') ?? null
+      }
+
+      if (node.subParts) {
+        return { ...common, subParts: node.subParts.map(toBodyPart) }
+      }
+
+      const partId = String(nextPartId++)
+      const blobId = `mime-part-${partId}`
+      const bytes = decodeBody(node)
+      blobs[blobId] = bytes
+      contents.set(partId, { bytes, charset })
+      return { ...common, partId, blobId, size: Common.createUnsignedInt(bytes.length) }
+    }
+
+    const bodyStructure = toBodyPart(root)
+    const textBody: EmailBodyPart[] = []
+    const htmlBody: EmailBodyPart[] = []
+    const attachmentParts: EmailBodyPart[] = []
+    parseStructure([bodyStructure], 'mixed', false, htmlBody, textBody, attachmentParts)
+
+    const bodyValues: Record<string, EmailBodyValues[string]> = {}
+    for (const part of [...textBody, ...htmlBody]) {
+      const content = part.partId ? contents.get(part.partId) : undefined
+      if (content && part.type && MimeTypes.isText(part.type)) {
+        const value = decodeCharset(content.bytes, content.charset)
+        bodyValues[part.partId!] = { value, isEncodingProblem: value.includes('\uFFFD'), isTruncated: false }
+      }
+    }
+
+    const attachments: EmailAttachment[] = attachmentParts.map(part => ({
+      blobId: part.blobId!,
+      type: part.type ?? MimeTypes.APPLICATION_OCTET_STREAM,
+      name: part.name,
+      size: part.size ?? Common.createUnsignedInt(0),
+      cid: part.cid,
+      disposition: part.disposition,
+      isInline: part.disposition === 'inline'
+    }))
+
+    const previewSource = textBody.find(part => part.partId && bodyValues[part.partId])
+    const previewText = previewSource
+      ? bodyValues[previewSource.partId!]!.value
+      : HTMLUtils.extractText(htmlBody.map(part => bodyValues[part.partId ?? '']?.value ?? '').join(' '))
+
+    const header = (name: string) => headerValue(root.headers, name)
+    const addresses = (name: string) => {
+      const value = header(name)
+      return value === undefined ? null : parseAddressList(value)
+    }
+    const messageIds = (name: string) => {
+      const value = header(name)
+      return value === undefined ? null : parseMessageIds(value)
+    }
+    const subject = header('subject')
+    const date = header('date')
+
+    return {
+      email: {
+        messageId: messageIds('message-id'),
+        inReplyTo: messageIds('in-reply-to'),
+        references: messageIds('references'),
+        sender: addresses('sender'),
+        from: addresses('from'),
+        to: addresses('to'),
+        cc: addresses('cc'),
+        bcc: addresses('bcc'),
+        replyTo: addresses('reply-to'),
+        subject: subject === undefined ? null : MimeUtils.decodeEncodedWords(subject),
+        sentAt: date === undefined ? null : parseDate(date),
+        headers: toHeaderRecord(root.headers),
+        bodyStructure,
+        textBody,
+        htmlBody,
+        attachments,
+        bodyValues,
+        hasAttachment: attachments.some(attachment => !attachment.cid && attachment.disposition !== 'inline'),
+        preview: previewText.replace(/\s+/g, ' ').trim().slice(0, PREVIEW_LENGTH),
+        size: Common.createUnsignedInt(binary.length)
+      },
+      blobs
+    }
+  }
+}
+
+const formatAddress = (address: EmailAddress): string => {
+  if (!address.name) return address.email
+  const name = !isAscii(address.name)
+    ? MimeUtils.encodeEncodedWords(address.name)
+    : HEADER_SPECIALS.test(address.name)
+      ? `"${address.name.replace(/(["\\])/g, '\\$1')}"`
+      : address.name
+  return `${name} <${address.email}>`
+}
+
+/**
+ * A header line folded at spaces to lines of at most 78 characters where possible
+ */
+const foldHeader = (name: string, value: string): string => {
+  const lines: string[] = []
+  let line = `${name}:`
+  for (const word of value.split(' ')) {
+    if (line.length + word.length + 1 > 78 && line.trim().length > name.length + 1) {
+      lines.push(line)
+      line = ''
+    }
+    line += ` ${word}`
+  }
+  lines.push(line)
+  return lines.join(CRLF)
+}
+
+const formatDate = (date: Date): string =>
+  date.toUTCString().replace('GMT', '+0000')
+
+const formatMessageIds = (ids: ReadonlyArray<string>): string =>
+  ids.map(id => (id.startsWith('<') ? id : `<${id}>`)).join(' ')
+
+const newBoundary = (): string => `=_${globalThis.crypto.randomUUID()}`
+
+/**
+ * The body structure of an email given as textBody/htmlBody/attachments
+ */
+const composeStructure = (email: EmailCreate): EmailBodyPartCreate | null => {
+  const single = (parts: ReadonlyArray<EmailBodyPartCreate>): EmailBodyPartCreate =>
+    parts.length === 1 ? parts[0]! : { type: MimeTypes.MULTIPART_MIXED, subParts: parts }
+
+  const text = email.textBody ?? []
+  const html = email.htmlBody ?? []
+  const body = text.length > 0 && html.length > 0
+    ? [{ type: MimeTypes.MULTIPART_ALTERNATIVE, subParts: [single(text), single(html)] }]
+    : [...text, ...html]
+  const parts = [...body, ...(email.attachments ?? [])]
+  return parts.length === 0 ? null : single(parts)
+}
+
+/**
+ * Content-Transfer-Encoding and encoded content of a leaf part
+ */
+const encodeContent = (type: string, bytes: Uint8Array): { encoding: string; content: string } => {
+  const isMessage = type.toLowerCase().startsWith('message/')
+  if (!MimeTypes.isText(type) && !isMessage) {
+    return { encoding: 'base64', content: MimeUtils.encodeBase64(bytes) }
+  }
+  const binary = bytesToBinary(bytes)
+  const sevenBit = isAscii(binary) && binary.split(/\r?\n/).every(line => line.length <= 998 && !line.includes('\r'))
+  if (sevenBit) {
+    return { encoding: '7bit', content: binary.replace(/\r?\n/g, CRLF) }
+  }
+  // Attached messages may only be 7bit, 8bit or binary (RFC 2046 Section 5.2.1)
+  return isMessage
+    ? { encoding: '8bit', content: binary.replace(/\r?\n/g, CRLF) }
+    : { encoding: 'quoted-printable', content: MimeUtils.encodeQuotedPrintable(bytes) }
+}
+
+const serializeLeaf = (part: EmailBodyPartCreate, bytes: Uint8Array, charset: string | null | undefined): string[] => {
+  const contentType = [
+    part.type,
+    ...(MimeTypes.isText(part.type) && charset ? [MimeUtils.formatParameter('charset', charset)] : []),
+    ...(part.name ? [MimeUtils.formatParameter('name', part.name)] : [])
+  ].join('; ')
+  const disposition = part.disposition ?? (part.name ? 'attachment' : null)
+  const { encoding, content } = encodeContent(part.type, bytes)
+
+  const headers = [
+    foldHeader('Content-Type', contentType),
+    ...(disposition
+      ? [foldHeader('Content-Disposition', [disposition, ...(part.name ? [MimeUtils.formatParameter('filename', part.name)] : [])].join('; '))]
+      : []),
+    ...(part.cid ? [`Content-ID: <${part.cid}>`] : []),
+    ...(part.language && part.language.length > 0 ? [`Content-Language: ${part.language.join(', ')}`] : []),
+    ...(part.location ? [foldHeader('Content-Location', part.location)] : []),
+    `Content-Transfer-Encoding: ${encoding}`
+  ]
+  return [...headers.map(utf8Binary), '', content]
+}
+
+const serializePart = (
+  part: EmailBodyPartCreate,
+  email: EmailCreate,
+  blobs: Record<string, Uint8Array>
+): Effect.Effect<string[], EmailProcessingError> =>
+  Effect.gen(function* () {
+    if (part.subParts) {
+      const boundary = newBoundary()
+      const lines = [`Content-Type: ${part.type}; ${MimeUtils.formatParameter('boundary', boundary)}`, '']
+      for (const subPart of part.subParts) {
+        lines.push(`--${boundary}`, ...(yield* serializePart(subPart, email, blobs)))
+      }
+      lines.push(`--${boundary}--`)
+      return lines
+    }
+
+    const value = part.partId !== undefined ? email.bodyValues?.[part.partId]?.value : undefined
+    if (value !== undefined) {
+      return serializeLeaf(part, utf8(value), 'utf-8')
+    }
+    const blob = part.blobId !== undefined ? blobs[part.blobId] : undefined
+    if (blob !== undefined) {
+      return serializeLeaf(part, blob, part.charset)
+    }
+    return yield* Effect.fail(new EmailProcessingError({
+      message: part.partId !== undefined
+        ? `No body value for part ${part.partId}`
+        : `No content for blob ${part.blobId ?? '(none)'}`
+    }))
+  })
+
+/**
+ * Raw message serialization
+ */
+export const MimeSerializer = {
+  /**
+   * Serialize an email, such as one made by buildDraft, to a raw message for
+   * Email/import. Text parts come from bodyValues and other parts from the
+   * given blob contents. Without sentAt the message is dated now, and
+   * without messageId one is generated.
+   */
+  serialize: (
+    email: EmailCreate,
+    blobs: Record<string, Uint8Array> = {}
+  ): Effect.Effect<Uint8Array, EmailProcessingError> =>
+    Effect.gen(function* () {
+      const now = yield* Clock.currentTimeMillis
+      const date = new Date(email.sentAt ?? now)
+      const fromDomain = email.from?.[0]?.email.split('@')[1] ?? 'localhost'
+      const messageId = email.messageId && email.messageId.length > 0
+        ? email.messageId
+        : [`${globalThis.crypto.randomUUID()}@${fromDomain}`]
+
+      const addressHeader = (name: string, addresses: ReadonlyArray<EmailAddress> | undefined) =>
+        addresses && addresses.length > 0 ? [foldHeader(name, addresses.map(formatAddress).join(', '))] : []
+
+      const headers = [
+        ...addressHeader('From', email.from),
+        ...addressHeader('Sender', email.sender),
+        ...addressHeader('Reply-To', email.replyTo),
+        ...addressHeader('To', email.to),
+        ...addressHeader('Cc', email.cc),
+        ...addressHeader('Bcc', email.bcc),
+        ...(email.subject !== undefined ? [foldHeader('Subject', MimeUtils.encodeEncodedWords(email.subject))] : []),
+        `Date: ${formatDate(date)}`,
+        `Message-ID: ${formatMessageIds(messageId)}`,
+        ...(email.inReplyTo && email.inReplyTo.length > 0 ? [foldHeader('In-Reply-To', formatMessageIds(email.inReplyTo))] : []),
+        ...(email.references && email.references.length > 0 ? [foldHeader('References', formatMessageIds(email.references))] : []),
+        'MIME-Version: 1.0'
+      ]
+
+      const structure = email.bodyStructure ?? composeStructure(email)
+      const body = structure
+        ? yield* serializePart(structure, email, blobs)
+        : serializeLeaf({ type: MimeTypes.TEXT_PLAIN }, new Uint8Array(), 'utf-8')
+      return binaryToBytes([...headers.map(utf8Binary), ...body].join(CRLF))
+    })
+}
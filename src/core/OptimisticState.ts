@@ -0,0 +1,195 @@
+import { Effect } from 'effect'
+import * as Schema from 'effect/Schema'
+import { callMethod } from './RequestBuilder.ts'
+import { collectChanges } from './ChangesUtils.ts'
+import { JMAPMethodError, Errors } from './Errors.ts'
+import type { PatchObject } from '../schemas/Common.ts'
+
+/**
+ * Optimistic concurrency for /set with ifInState - RFC 8620 Section 5.3
+ */
+
+/**
+ * What to send in the guarded /set call
+ */
+export interface OptimisticChanges {
+  readonly create?: Readonly<Record<string, unknown>>
+  readonly update?: Readonly<Record<string, PatchObject>>
+  readonly destroy?: ReadonlyArray<string>
+}
+
+/**
+ * The objects a change is computed from
+ */
+export interface OptimisticStateOptions<A, I> {
+  readonly accountId: string
+
+  /**
+   * Data type whose /get, /changes and /set methods are called, e.g. "Mailbox"
+   */
+  readonly dataType: string
+  readonly ids: ReadonlyArray<string>
+  readonly properties?: ReadonlyArray<string>
+
+  /**
+   * Schema of the objects the /get returns
+   */
+  readonly schema: Schema.Schema<A, I>
+
+  /**
+   * Times to rebase and send again after a stateMismatch, extra rebase
+   * rounds included (default 3)
+   */
+  readonly maxRetries?: number
+}
+
+const OptimisticGetResponse = <A, I>(schema: Schema.Schema<A, I>) =>
+  Schema.Struct({
+    state: Schema.String,
+    list: Schema.Array(schema)
+  })
+
+const OptimisticChangesResponse = Schema.Struct({
+  oldState: Schema.String,
+  newState: Schema.String,
+  hasMoreChanges: Schema.Boolean,
+  created: Schema.Array(Schema.String),
+  updated: Schema.Array(Schema.String),
+  destroyed: Schema.Array(Schema.String)
+})
+
+/**
+ * Result of the guarded /set call, whatever the data type
+ */
+export const OptimisticSetResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  created: Schema.optional(Schema.NullOr(Schema.Record({ key: Schema.String, value: Schema.Any }))),
+  updated: Schema.optional(Schema.NullOr(Schema.Record({ key: Schema.String, value: Schema.Any }))),
+  destroyed: Schema.optional(Schema.NullOr(Schema.Array(Schema.String))),
+  notCreated: Schema.optional(Schema.NullOr(Schema.Record({ key: Schema.String, value: Schema.Any }))),
+  notUpdated: Schema.optional(Schema.NullOr(Schema.Record({ key: Schema.String, value: Schema.Any }))),
+  notDestroyed: Schema.optional(Schema.NullOr(Schema.Record({ key: Schema.String, value: Schema.Any })))
+})
+
+export type OptimisticSetResponse = Schema.Schema.Type<typeof OptimisticSetResponse>
+
+const hasChanges = (changes: OptimisticChanges): boolean =>
+  Object.keys(changes.create ?? {}).length > 0 ||
+  Object.keys(changes.update ?? {}).length > 0 ||
+  (changes.destroy ?? []).length > 0
+
+/**
+ * Read the objects, compute the changes from them and send those guarded by
+ * ifInState. When another client changed the data type in between, the
+ * server answers stateMismatch: the objects that changed are read again, the
+ * changes computed again from them, and sent again with the new state. Each
+ * send and each rebase round past the first counts toward maxRetries. The
+ * client sends the guarded set whole even over maxObjectsInSet, so a
+ * mismatch always fails all of it.
+ *
+ * The state guards every object of the data type in the account, so compute
+ * should only touch the objects it is given. With no changes nothing is sent.
+ */
+export const withOptimisticState = <A extends { readonly id: string }, I>(
+  options: OptimisticStateOptions<A, I>,
+  compute: (objects: ReadonlyArray<A>) => OptimisticChanges
+) =>
+  Effect.gen(function* () {
+    const { accountId, dataType, ids, schema } = options
+    const maxRetries = options.maxRetries ?? 3
+    const getArgs = { accountId, ...(options.properties !== undefined && { properties: options.properties }) }
+
+    const get = (getIds: ReadonlyArray<string>) =>
+      callMethod(`${dataType}/get`, { ...getArgs, ids: getIds }, OptimisticGetResponse(schema))
+
+    const changesSince = (sinceState: string) =>
+      collectChanges(
+        (state) => callMethod(`${dataType}/changes`, { accountId, sinceState: state }, OptimisticChangesResponse),
+        sinceState
+      )
+
+    // Sets sent again and extra rebase rounds, both bounded by maxRetries
+    let retries = 0
+
+    /**
+     * Bring the objects up to date from state: read again those updated since,
+     * and drop those destroyed
+     */
+    const rebase = (objects: ReadonlyArray<A>, state: string) =>
+      Effect.gen(function* () {
+        let current = objects
+        let since = state
+        while (true) {
+          const delta = yield* changesSince(since).pipe(
+            Effect.catchIf(
+              (error): error is JMAPMethodError => error._tag === 'JMAPMethodError' && error.type === 'cannotCalculateChanges',
+              () => Effect.succeed(null)
+            )
+          )
+          if (delta === null) {
+            const fresh = yield* get(ids)
+            return { objects: fresh.list, state: fresh.state }
+          }
+
+          const wanted = new Set(ids)
+          const destroyed = new Set(delta.destroyed)
+          const changed = [...delta.created, ...delta.updated].filter(id => wanted.has(id))
+          current = current.filter(object => !destroyed.has(object.id))
+          if (changed.length === 0) {
+            return { objects: current, state: delta.newState }
+          }
+
+          const fresh = yield* get(changed)
+          const freshById = new Map(fresh.list.map(object => [object.id, object]))
+          const known = new Set(current.map(object => object.id))
+          current = [
+            ...current.map(object => freshById.get(object.id) ?? object),
+            ...fresh.list.filter(object => !known.has(object.id))
+          ]
+
+          // More changes may have landed between the /changes and the /get
+          if (fresh.state === delta.newState) {
+            return { objects: current, state: delta.newState }
+          }
+          if (++retries > maxRetries) {
+            return yield* Effect.fail(Errors.methodError('stateMismatch', `${dataType} kept changing while rebasing`))
+          }
+          since = delta.newState
+        }
+      })
+
+    const initial = yield* get(ids)
+    let objects: ReadonlyArray<A> = initial.list
+    let state = initial.state
+
+    while (true) {
+      const changes = compute(objects)
+      if (!hasChanges(changes)) {
+        const unchanged: OptimisticSetResponse = { accountId, oldState: state, newState: state }
+        return unchanged
+      }
+
+      const result = yield* callMethod(
+        `${dataType}/set`,
+        { accountId, ifInState: state, ...changes },
+        OptimisticSetResponse
+      ).pipe(
+        Effect.map(response => ({ response, mismatch: false as const })),
+        Effect.catchIf(
+          (error): error is JMAPMethodError =>
+            error._tag === 'JMAPMethodError' && error.type === 'stateMismatch' && retries < maxRetries,
+          () => Effect.succeed({ response: null, mismatch: true as const })
+        )
+      )
+      if (!result.mismatch) {
+        return result.response
+      }
+
+      retries++
+      const rebased = yield* rebase(objects, state)
+      objects = rebased.objects
+      state = rebased.state
+    }
+  })
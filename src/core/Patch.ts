@@ -0,0 +1,140 @@
+import type { PatchObject } from '../schemas/Common.ts'
+import type { EmailMutable } from '../schemas/Email.ts'
+import type { MailboxMutable } from '../schemas/Mailbox.ts'
+
+/**
+ * PatchObjects for /set updates - RFC 8620 Section 5.3
+ */
+
+/**
+ * Properties of T whose values are maps, such as keywords and mailboxIds
+ */
+export type PatchMapProperty<T> = {
+  [K in keyof T & string]-?: NonNullable<T[K]> extends { readonly [key: string]: unknown } ? K : never
+}[keyof T & string]
+
+/**
+ * Value of an entry of a map property of T
+ */
+export type PatchMapValue<T, K extends keyof T> =
+  NonNullable<T[K]> extends { readonly [key: string]: infer V } ? V : never
+
+/**
+ * Builds a PatchObject for an object of type T. Every method returns a new
+ * builder, so a partly built patch can be shared.
+ */
+export interface PatchBuilder<T> {
+  /**
+   * Replace a whole property, or reset it to its default with null
+   */
+  readonly set: <K extends keyof T & string>(property: K, value: T[K] | null) => PatchBuilder<T>
+
+  /**
+   * Set one entry of a map property, or remove it with null, leaving the
+   * other entries as they are
+   */
+  readonly setEntry: <K extends PatchMapProperty<T>>(
+    property: K,
+    key: string,
+    value: PatchMapValue<T, K> | null
+  ) => PatchBuilder<T>
+
+  readonly build: () => PatchObject
+}
+
+/**
+ * Escape a reference token of a JSON Pointer - RFC 6901 Section 3
+ */
+export const escapePointerToken = (token: string): string =>
+  token.replace(/~/g, '~0').replace(/\//g, '~1')
+
+/**
+ * JSON Pointer path of the reference tokens, without the leading "/"
+ */
+export const pointerPath = (...tokens: ReadonlyArray<string>): string =>
+  tokens.map(escapePointerToken).join('/')
+
+type Operation =
+  | { readonly property: string; readonly value: unknown }
+  | { readonly property: string; readonly key: string; readonly value: unknown }
+
+/**
+ * Turn the operations into a PatchObject. A path must not be a prefix of
+ * another, so entries set after their whole property are merged into its
+ * value, and setting a whole property drops its earlier entries.
+ */
+const toPatchObject = (operations: ReadonlyArray<Operation>): PatchObject => {
+  const whole = new Map<string, unknown>()
+  const entries = new Map<string, Map<string, unknown>>()
+
+  for (const operation of operations) {
+    if (!('key' in operation)) {
+      whole.set(operation.property, operation.value)
+      entries.delete(operation.property)
+    } else if (whole.has(operation.property)) {
+      const { [operation.key]: _, ...rest } = (whole.get(operation.property) ?? {}) as Record<string, unknown>
+      whole.set(operation.property, operation.value === null ? rest : { ...rest, [operation.key]: operation.value })
+    } else {
+      const propertyEntries = entries.get(operation.property) ?? new Map<string, unknown>()
+      propertyEntries.set(operation.key, operation.value)
+      entries.set(operation.property, propertyEntries)
+    }
+  }
+
+  const patch: Record<string, unknown> = Object.fromEntries(
+    [...whole].map(([property, value]) => [escapePointerToken(property), value])
+  )
+  for (const [property, propertyEntries] of entries) {
+    for (const [key, value] of propertyEntries) {
+      patch[pointerPath(property, key)] = value
+    }
+  }
+  return patch
+}
+
+const makeBuilder = <T>(operations: ReadonlyArray<Operation>): PatchBuilder<T> => ({
+  set: (property, value) => makeBuilder([...operations, { property, value }]),
+  setEntry: (property, key, value) => makeBuilder([...operations, { property, key, value }]),
+  build: () => toPatchObject(operations)
+})
+
+/**
+ * An empty patch builder for objects of type T
+ */
+export const makePatchBuilder = <T>(): PatchBuilder<T> => makeBuilder([])
+
+/**
+ * Patches for the Email properties that can change after creation
+ */
+export const EmailPatch = {
+  builder: (): PatchBuilder<EmailMutable> => makePatchBuilder<EmailMutable>(),
+
+  /**
+   * Add and remove keywords, keeping every other keyword
+   */
+  keywords: (add: ReadonlyArray<string>, remove: ReadonlyArray<string> = []): PatchObject =>
+    remove
+      .reduce(
+        (builder, keyword) => builder.setEntry('keywords', keyword, null),
+        add.reduce((builder, keyword) => builder.setEntry('keywords', keyword, true), EmailPatch.builder())
+      )
+      .build(),
+
+  /**
+   * Add to and remove from mailboxes, keeping the email in its other mailboxes
+   */
+  mailboxes: (add: ReadonlyArray<string>, remove: ReadonlyArray<string> = []): PatchObject =>
+    add
+      .reduce(
+        (builder, mailboxId) => builder.setEntry('mailboxIds', mailboxId, true),
+        remove.reduce((builder, mailboxId) => builder.setEntry('mailboxIds', mailboxId, null), EmailPatch.builder())
+      )
+      .build()
+}
+
+/**
+ * Patches for Mailbox properties
+ */
+export const MailboxPatch = {
+  builder: (): PatchBuilder<MailboxMutable> => makePatchBuilder<MailboxMutable>()
+}
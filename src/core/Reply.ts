@@ -0,0 +1,259 @@
+import type { Email } from '../schemas/Email.ts'
+import type { EmailAddress } from '../schemas/Common.ts'
+import { type Identity, IdentityHelpers } from '../schemas/Identity.ts'
+import { EmailHelpers } from '../schemas/Email.ts'
+import type { Draft, DraftAttachment, DraftInlineImage } from './Draft.ts'
+import { HTMLUtils } from './EmailUtils.ts'
+
+/**
+ * Reply, reply-all and forward drafts for an existing email - RFC 5322 Section 3.6.4
+ */
+
+/**
+ * What to write above the quoted or forwarded message
+ */
+export interface ReplyOptions {
+  readonly textBody?: string
+  readonly htmlBody?: string
+
+  /**
+   * Include the original message below the new text (default true)
+   */
+  readonly quote?: boolean
+
+  /**
+   * All identities of the account, so reply-all leaves out every address we
+   * send as and not only the one replying
+   */
+  readonly identities?: ReadonlyArray<Identity>
+}
+
+const SUBJECT_PREFIXES = /^\s*(?:(?:re|fwd?|aw|sv)\s*(?:\[\d+\])?\s*:\s*)+/i
+
+/**
+ * A subject without its Re:/Fwd: prefixes, however many there are
+ */
+export const baseSubject = (subject: string | null | undefined): string =>
+  (subject ?? '').replace(SUBJECT_PREFIXES, '').trim()
+
+export const replySubject = (subject: string | null | undefined): string =>
+  `Re: ${baseSubject(subject)}`
+
+export const forwardSubject = (subject: string | null | undefined): string =>
+  `Fwd: ${baseSubject(subject)}`
+
+/**
+ * Message-IDs of the thread up to and including the email, for the
+ * References header of a reply or forward
+ */
+const threadReferences = (email: Email): string[] => {
+  const parents = email.references && email.references.length > 0
+    ? email.references
+    : email.inReplyTo ?? []
+  return Array.from(new Set([...parents, ...(email.messageId ?? [])]))
+}
+
+const formatAddress = (address: EmailAddress): string =>
+  address.name ? `${address.name} <${address.email}>` : address.email
+
+const formatAddresses = (addresses: ReadonlyArray<EmailAddress> | null | undefined): string =>
+  (addresses ?? []).map(formatAddress).join(', ')
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const textToHtml = (text: string): string =>
+  escapeHtml(text).replace(/\r?\n/g, '<br>')
+
+const originalText = (email: Email): string => {
+  const text = EmailHelpers.getTextContent(email)
+  if (text !== undefined) return text
+  const html = EmailHelpers.getHTMLContent(email)
+  return html !== undefined ? HTMLUtils.extractText(html) : ''
+}
+
+const originalHtml = (email: Email): string | undefined => {
+  const html = EmailHelpers.getHTMLContent(email)
+  if (html !== undefined) return html
+  const text = EmailHelpers.getTextContent(email)
+  return text !== undefined ? textToHtml(text) : undefined
+}
+
+const isOwnAddress = (address: string, identity: Identity, options: ReplyOptions): boolean =>
+  [identity, ...(options.identities ?? [])].some(own => IdentityHelpers.matchesAddress(own, address))
+
+const dedupeAddresses = (addresses: ReadonlyArray<EmailAddress>): EmailAddress[] => {
+  const seen = new Set<string>()
+  return addresses.filter(address => {
+    const key = address.email.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * The address to send from: the identity's own, or for a wildcard identity
+ * the address of ours the email was sent to
+ */
+const fromAddress = (email: Email, identity: Identity): EmailAddress => {
+  if (IdentityHelpers.isWildcard(identity)) {
+    const recipient = EmailHelpers.getAllRecipients(email)
+      .find(address => IdentityHelpers.matchesAddress(identity, address.email))
+    if (recipient) return { name: identity.name || null, email: recipient.email }
+  }
+  return { name: identity.name || null, email: identity.email }
+}
+
+/**
+ * Who a reply goes to: Reply-To, else From, else Sender. Replying to an email
+ * we sent ourselves goes to its original recipients instead.
+ */
+const replyTargets = (email: Email, identity: Identity, options: ReplyOptions): EmailAddress[] => {
+  const targets = [email.replyTo, email.from, email.sender]
+    .find(addresses => addresses && addresses.length > 0) ?? []
+  return targets.every(address => isOwnAddress(address.email, identity, options))
+    ? [...(email.to ?? [])]
+    : [...targets]
+}
+
+const attribution = (email: Email): string => {
+  const sender = email.from?.[0] ?? email.sender?.[0]
+  const date = email.sentAt ?? email.receivedAt
+  return `On ${date}, ${sender ? formatAddress(sender) : 'unknown sender'} wrote:`
+}
+
+const SIGNATURE_SEPARATOR = '-- \n'
+
+const textSignature = (identity: Identity): string =>
+  !identity.textSignature
+    ? ''
+    : identity.textSignature.startsWith(SIGNATURE_SEPARATOR)
+      ? `\n\n${identity.textSignature}`
+      : `\n\n${SIGNATURE_SEPARATOR}${identity.textSignature}`
+
+const htmlSignature = (identity: Identity): string =>
+  identity.htmlSignature
+    ? `<br><br>-- <br>${identity.htmlSignature}`
+    : identity.textSignature
+      ? `<br><br>-- <br>${textToHtml(identity.textSignature)}`
+      : ''
+
+/**
+ * Text and HTML bodies: the new text and signature, then the original below.
+ * An HTML body is only written when the original or the options have one.
+ */
+const composeBodies = (
+  email: Email,
+  identity: Identity,
+  options: ReplyOptions,
+  quoted: { readonly text: (text: string) => string; readonly html: (html: string) => string }
+): Pick<Draft, 'textBody' | 'htmlBody'> => {
+  const quote = options.quote !== false
+  const text = options.textBody ?? ''
+  const textBody = text + textSignature(identity) + (quote ? `\n\n${quoted.text(originalText(email))}` : '')
+
+  const original = originalHtml(email)
+  if (options.htmlBody === undefined && EmailHelpers.getHTMLContent(email) === undefined) {
+    return { textBody }
+  }
+  const html = options.htmlBody ?? textToHtml(text)
+  const htmlBody = html + htmlSignature(identity) + (quote && original !== undefined ? quoted.html(original) : '')
+  return { textBody, htmlBody }
+}
+
+const quoteReply = (email: Email) => ({
+  text: (text: string) =>
+    `${attribution(email)}\n${text.split(/\r?\n/).map(line => line.startsWith('>') ? `>${line}` : `> ${line}`).join('\n')}`,
+  html: (html: string) =>
+    `<br><br><div>${escapeHtml(attribution(email))}</div><blockquote type="cite">${html}</blockquote>`
+})
+
+const baseReply = (email: Email, identity: Identity, options: ReplyOptions): Omit<Draft, 'to' | 'cc'> => ({
+  from: fromAddress(email, identity),
+  ...(identity.replyTo && identity.replyTo.length > 0 && { replyTo: identity.replyTo }),
+  ...(identity.bcc && identity.bcc.length > 0 && { bcc: identity.bcc }),
+  subject: replySubject(email.subject),
+  ...(email.messageId && email.messageId.length > 0 && { inReplyTo: email.messageId }),
+  references: threadReferences(email),
+  ...composeBodies(email, identity, options, quoteReply(email))
+})
+
+/**
+ * Draft a reply to the sender of an email
+ */
+export const buildReply = (email: Email, identity: Identity, options: ReplyOptions = {}): Draft => ({
+  ...baseReply(email, identity, options),
+  to: dedupeAddresses(replyTargets(email, identity, options))
+})
+
+/**
+ * Draft a reply to the sender and every other recipient of an email, leaving
+ * out our own addresses and anyone listed twice
+ */
+export const buildReplyAll = (email: Email, identity: Identity, options: ReplyOptions = {}): Draft => {
+  const notOwn = (address: EmailAddress) => !isOwnAddress(address.email, identity, options)
+  const to = dedupeAddresses([...replyTargets(email, identity, options), ...(email.to ?? [])].filter(notOwn))
+  const toEmails = new Set(to.map(address => address.email.toLowerCase()))
+  const cc = dedupeAddresses((email.cc ?? []).filter(notOwn))
+    .filter(address => !toEmails.has(address.email.toLowerCase()))
+
+  return {
+    ...baseReply(email, identity, options),
+    to,
+    ...(cc.length > 0 && { cc })
+  }
+}
+
+const forwardHeaders = (email: Email): string[] => [
+  `From: ${formatAddresses(email.from)}`,
+  `Date: ${email.sentAt ?? email.receivedAt}`,
+  `Subject: ${email.subject ?? ''}`,
+  `To: ${formatAddresses(email.to)}`,
+  ...(email.cc && email.cc.length > 0 ? [`Cc: ${formatAddresses(email.cc)}`] : [])
+]
+
+const quoteForward = (email: Email) => ({
+  text: (text: string) =>
+    ['---------- Forwarded message ----------', ...forwardHeaders(email), '', text].join('\n'),
+  html: (html: string) =>
+    `<br><br><div>---------- Forwarded message ----------<br>${forwardHeaders(email).map(escapeHtml).join('<br>')}</div><br>${html}`
+})
+
+/**
+ * Draft a forward of an email without recipients. The original attachments
+ * are carried over by blobId, and its inline images too when forwarded as HTML.
+ */
+export const buildForward = (email: Email, identity: Identity, options: ReplyOptions = {}): Draft => {
+  const bodies = composeBodies(email, identity, options, quoteForward(email))
+  const attachments: DraftAttachment[] = []
+  const inlineImages: DraftInlineImage[] = []
+
+  for (const attachment of email.attachments ?? []) {
+    const part: DraftAttachment = {
+      blobId: attachment.blobId,
+      type: attachment.type,
+      ...(attachment.name && { name: attachment.name })
+    }
+    if (attachment.cid && bodies.htmlBody !== undefined && options.quote !== false) {
+      inlineImages.push({ ...part, cid: attachment.cid })
+    } else if (!attachment.cid || attachment.isInline !== true) {
+      attachments.push(part)
+    }
+  }
+
+  return {
+    from: fromAddress(email, identity),
+    ...(identity.replyTo && identity.replyTo.length > 0 && { replyTo: identity.replyTo }),
+    ...(identity.bcc && identity.bcc.length > 0 && { bcc: identity.bcc }),
+    subject: forwardSubject(email.subject),
+    references: threadReferences(email),
+    ...bodies,
+    ...(inlineImages.length > 0 && { inlineImages }),
+    ...(attachments.length > 0 && { attachments })
+  }
+}
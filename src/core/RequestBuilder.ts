@@ -0,0 +1,254 @@
+import { Effect, Either, Record } from 'effect'
+import { HttpClient } from '@effect/platform'
+import * as Schema from 'effect/Schema'
+import { JMAPClientService } from './JMAPClient.ts'
+import type { JMAPClientInterface, BatchOptions } from './JMAPClient.ts'
+import type { Invocation, Response, ResultReference } from './Types.ts'
+import { JMAPMethodError, JMAPBatchError, NetworkError, AuthenticationError, SessionError, ConfigurationError, Errors } from './Errors.ts'
+import { extractMethodResponse } from './ResponseUtils.ts'
+import { CapabilityUtils } from './Capabilities.ts'
+
+/**
+ * Typed request building with result references - RFC 8620 Section 3.7
+ */
+
+/**
+ * A method call added to a request, decoding its result with the schema it
+ * was added with
+ */
+export interface MethodCall<A> {
+  readonly name: string
+  readonly arguments: Record<string, unknown>
+  readonly callId: string
+
+  /**
+   * Decode this call's result from the response of its request
+   */
+  readonly decode: (response: Response) => Effect.Effect<A, JMAPMethodError>
+
+  /**
+   * Reference a value in this call's result from a later call in the same request
+   */
+  readonly ref: (path: string) => ResultReference
+}
+
+/**
+ * Method arguments where the properties in K are taken from earlier results,
+ * e.g. ReferenceArguments<EmailGetArguments, 'ids'> has '#ids' instead of 'ids'
+ */
+export type ReferenceArguments<Args, K extends keyof Args & string> = Omit<Args, K> & {
+  readonly [P in K as `#${P}`]: ResultReference
+}
+
+/**
+ * Commonly referenced result paths
+ */
+export const ResultPaths = {
+  /** ids of a Foo/query response */
+  IDS: '/ids',
+  /** ids of every object in a Foo/get response */
+  LIST_IDS: '/list/*/id',
+  /** created ids of a Foo/changes response */
+  CREATED: '/created',
+  /** updated ids of a Foo/changes response */
+  UPDATED: '/updated',
+  /** email ids of every thread in a Thread/get response */
+  THREAD_EMAIL_IDS: '/list/*/emailIds',
+  /** thread ids of every email in an Email/get response */
+  EMAIL_THREAD_IDS: '/list/*/threadId'
+} as const
+
+/**
+ * Decoded results of a tuple or record of method calls
+ */
+export type MethodResults<Calls> = {
+  -readonly [K in keyof Calls]: Calls[K] extends MethodCall<infer A> ? A : never
+}
+
+/**
+ * Per-call outcomes of a tuple or record of method calls
+ */
+export type MethodOutcomes<Calls> = {
+  -readonly [K in keyof Calls]: Calls[K] extends MethodCall<infer A> ? Either.Either<A, JMAPMethodError> : never
+}
+
+/**
+ * Tuple or record of method calls
+ */
+export type MethodCalls = ReadonlyArray<MethodCall<unknown>> | Readonly<Record<string, MethodCall<unknown>>>
+
+/**
+ * Builder collecting the method calls of a single JMAP request
+ */
+export interface RequestBuilder {
+  /**
+   * Add a method call whose response decodes with the given schema
+   */
+  readonly call: <A, I>(
+    name: string,
+    args: Record<string, unknown>,
+    responseSchema: Schema.Schema<A, I>
+  ) => MethodCall<A>
+
+  /**
+   * The invocations added so far, in order
+   */
+  readonly invocations: () => ReadonlyArray<Invocation>
+
+  /**
+   * Send all calls as one request
+   */
+  readonly send: Effect.Effect<
+    Response,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Send all calls as one request and decode the results of the given calls,
+   * returned in the same tuple or record shape
+   */
+  readonly execute: <const Calls extends MethodCalls>(
+    calls: Calls
+  ) => Effect.Effect<
+    MethodResults<Calls>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Send all calls as one request and return an Either per given call, so a
+   * failed call does not discard the results of the others. Only a client
+   * that cannot return error responses in place fails with JMAPMethodError.
+   */
+  readonly executeEither: <const Calls extends MethodCalls>(
+    calls: Calls
+  ) => Effect.Effect<
+    MethodOutcomes<Calls>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Send all calls as one request, failing with every method error together
+   * when any of the given calls failed
+   */
+  readonly executeAll: <const Calls extends MethodCalls>(
+    calls: Calls
+  ) => Effect.Effect<
+    MethodResults<Calls>,
+    JMAPBatchError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+}
+
+/**
+ * Create an empty request builder. The capabilities in using default to
+ * those of the methods called.
+ */
+export const makeRequestBuilder = (using?: ReadonlyArray<string>): RequestBuilder => {
+  const calls: Array<Invocation> = []
+
+  const call: RequestBuilder['call'] = <A, I>(
+    name: string,
+    args: Record<string, unknown>,
+    responseSchema: Schema.Schema<A, I>
+  ) => {
+    const callId = `c${calls.length}`
+    const methodCall: MethodCall<A> = {
+      name,
+      arguments: args,
+      callId,
+      decode: (response) => extractMethodResponse(response, name, callId, responseSchema),
+      ref: (path) => ({ resultOf: callId, name, path })
+    }
+    calls.push([name, args, callId])
+    return methodCall
+  }
+
+  const invocations: RequestBuilder['invocations'] = () => [...calls]
+
+  const sendWith = (options?: BatchOptions) => Effect.gen(function* () {
+    const client = yield* JMAPClientService
+    return yield* client.batch(invocations(), using ?? CapabilityUtils.forMethodCalls(calls), options)
+  })
+
+  const send: RequestBuilder['send'] = sendWith()
+
+  const decodeAll = <Out, E>(
+    calls: MethodCalls,
+    decode: (methodCall: MethodCall<unknown>) => Effect.Effect<Out, E>
+  ) =>
+    Array.isArray(calls)
+      ? Effect.all(calls.map(decode))
+      : Effect.all(Record.map(calls as Readonly<Record<string, MethodCall<unknown>>>, decode))
+
+  const execute: RequestBuilder['execute'] = <const Calls extends MethodCalls>(calls: Calls) =>
+    Effect.gen(function* () {
+      const response = yield* send
+      const results = yield* decodeAll(calls, (methodCall) => decodeResult(response, methodCall))
+      return results as MethodResults<Calls>
+    })
+
+  const executeEither: RequestBuilder['executeEither'] = <const Calls extends MethodCalls>(calls: Calls) =>
+    Effect.gen(function* () {
+      const response = yield* sendWith({ failOnMethodError: false })
+      const outcomes = yield* decodeAll(calls, (methodCall) => Effect.either(decodeResult(response, methodCall)))
+      return outcomes as MethodOutcomes<Calls>
+    })
+
+  const executeAll: RequestBuilder['executeAll'] = <const Calls extends MethodCalls>(calls: Calls) =>
+    Effect.gen(function* () {
+      const outcomes: ReadonlyArray<Either.Either<unknown, JMAPMethodError>> | Readonly<Record<string, Either.Either<unknown, JMAPMethodError>>> =
+        yield* executeEither(calls).pipe(
+          Effect.catchTag('JMAPMethodError', (error) => Effect.fail(Errors.batch([error])))
+        )
+      const errors = Object.values(outcomes).flatMap((outcome) => Either.isLeft(outcome) ? [outcome.left] : [])
+
+      if (errors.length > 0) {
+        return yield* Effect.fail(Errors.batch(errors))
+      }
+
+      const results = Array.isArray(outcomes)
+        ? outcomes.map((outcome) => Either.getOrThrow(outcome))
+        : Record.map(outcomes as Readonly<Record<string, Either.Either<unknown, JMAPMethodError>>>, (outcome) => Either.getOrThrow(outcome))
+      return results as MethodResults<Calls>
+    })
+
+  return {
+    call,
+    invocations,
+    send,
+    execute,
+    executeEither,
+    executeAll
+  }
+}
+
+/**
+ * Send a single method call and decode its response
+ */
+export const callMethod = <A, I>(
+  name: string,
+  args: Record<string, unknown>,
+  responseSchema: Schema.Schema<A, I>,
+  using?: ReadonlyArray<string>
+): Effect.Effect<
+  A,
+  JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+  JMAPClientInterface | HttpClient.HttpClient
+> =>
+  Effect.gen(function* () {
+    const request = makeRequestBuilder(using)
+    const [result] = yield* request.execute([request.call(name, args, responseSchema)])
+    return result
+  })
+
+/**
+ * Decode the result of one call from the response of its request
+ */
+export const decodeResult = <A>(
+  response: Response,
+  methodCall: MethodCall<A>
+): Effect.Effect<A, JMAPMethodError> =>
+  methodCall.decode(response)
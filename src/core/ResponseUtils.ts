@@ -1,7 +1,7 @@
 import { Effect } from 'effect'
 import * as Schema from 'effect/Schema'
-import { JMAPMethodError } from './Errors.ts'
-import { Response, MethodResponse } from './Types.ts'
+import { JMAPMethodError, MethodError } from './Errors.ts'
+import { Response, MethodResponse, ResultReference } from './Types.ts'
 
 /**
  * Extract and validate a method response from a JMAP batch response
@@ -30,6 +30,24 @@ export const extractMethodResponse = <A, I, R>(
   );
 
   if (!methodResponse) {
+    // The call failed as a whole: surface its own method error
+    const errorResponse = response.methodResponses.find(
+      ([name, _, id]: MethodResponse) => name === "error" && id === callId,
+    );
+    if (errorResponse) {
+      return Schema.decodeUnknown(MethodError)(errorResponse[1]).pipe(
+        Effect.catchAll(() =>
+          Effect.succeed<MethodError>({
+            type: "serverFail",
+            description: `Malformed error response for ${methodName}`,
+          }),
+        ),
+        Effect.flatMap((error) =>
+          Effect.fail(JMAPMethodError.fromMethodError(error, callId)),
+        ),
+      );
+    }
+
     return Effect.fail(
       JMAPMethodError.fromMethodError(
         {
@@ -57,3 +75,127 @@ export const extractMethodResponse = <A, I, R>(
     ),
   );
 };
+
+const referenceError = (description: string, callId?: string): JMAPMethodError =>
+  JMAPMethodError.fromMethodError(
+    { type: "invalidResultReference", description },
+    callId,
+  );
+
+/**
+ * Evaluate a result reference path (RFC 8620 Section 3.7) against a value.
+ * The path is a JSON Pointer where "*" maps the rest of the path over an
+ * array, flattening array results into one list.
+ */
+export const evaluateResultPath = (
+  value: unknown,
+  path: string,
+): Effect.Effect<unknown, JMAPMethodError> => {
+  if (path !== "" && !path.startsWith("/")) {
+    return Effect.fail(referenceError(`Invalid path: ${path}`));
+  }
+
+  const tokens = path
+    .split("/")
+    .slice(1)
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+
+  const evaluate = (
+    current: unknown,
+    remaining: ReadonlyArray<string>,
+  ): Effect.Effect<unknown, JMAPMethodError> => {
+    const [token, ...rest] = remaining;
+    if (token === undefined) {
+      return Effect.succeed(current);
+    }
+
+    if (Array.isArray(current)) {
+      if (token === "*") {
+        return Effect.forEach(current, (item) => evaluate(item, rest)).pipe(
+          Effect.map((results) =>
+            results.flatMap((result) =>
+              Array.isArray(result) ? result : [result],
+            ),
+          ),
+        );
+      }
+
+      const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : -1;
+      if (index < 0 || index >= current.length) {
+        return Effect.fail(referenceError(`Path ${path} not found`));
+      }
+      return evaluate(current[index], rest);
+    }
+
+    if (
+      typeof current === "object" &&
+      current !== null &&
+      Object.prototype.hasOwnProperty.call(current, token)
+    ) {
+      return evaluate((current as Record<string, unknown>)[token], rest);
+    }
+
+    return Effect.fail(referenceError(`Path ${path} not found`));
+  };
+
+  return evaluate(value, tokens);
+};
+
+/**
+ * Replace every "#name" result reference argument with the value it points
+ * to in an earlier method response of the same request
+ */
+export const resolveResultReferences = (
+  args: Record<string, unknown>,
+  methodResponses: ReadonlyArray<MethodResponse>,
+  callId?: string,
+): Effect.Effect<Record<string, unknown>, JMAPMethodError> =>
+  Effect.gen(function* () {
+    const resolved: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(args)) {
+      if (!key.startsWith("#")) {
+        resolved[key] = value;
+        continue;
+      }
+
+      const name = key.slice(1);
+      if (Object.prototype.hasOwnProperty.call(args, name)) {
+        return yield* Effect.fail(
+          referenceError(`Both ${name} and ${key} given`, callId),
+        );
+      }
+
+      const reference = yield* Schema.decodeUnknown(ResultReference)(
+        value,
+      ).pipe(
+        Effect.catchAll(() =>
+          Effect.fail(referenceError(`Malformed reference in ${key}`, callId)),
+        ),
+      );
+
+      const source = methodResponses.find(
+        ([methodName, , id]) =>
+          id === reference.resultOf && methodName === reference.name,
+      );
+      if (!source) {
+        return yield* Effect.fail(
+          referenceError(
+            `No ${reference.name} response with call id ${reference.resultOf}`,
+            callId,
+          ),
+        );
+      }
+
+      resolved[name] = yield* evaluateResultPath(source[1], reference.path).pipe(
+        Effect.mapError((error) =>
+          JMAPMethodError.fromMethodError(
+            { type: error.type, description: error.message },
+            callId,
+          ),
+        ),
+      );
+    }
+
+    return resolved;
+  });
@@ -0,0 +1,192 @@
+import { Clock, Duration, Effect, Either, Metric } from 'effect'
+import { HttpClientError } from '@effect/platform'
+import type { MethodErrorType, NetworkError } from './Errors.ts'
+import type { Request, Response } from './Types.ts'
+
+/**
+ * Retrying of JMAP API requests - RFC 8620 Section 3.6
+ */
+
+/**
+ * When and how often a request is retried
+ */
+export interface RetryPolicy {
+  /**
+   * Retries after the first attempt; 0 disables retrying
+   */
+  readonly maxRetries: number
+
+  /**
+   * Delay before the first retry, doubled for each one after
+   */
+  readonly baseDelay: Duration.DurationInput
+
+  /**
+   * Longest delay before a retry, for backoff and for a Retry-After from the
+   * server alike
+   */
+  readonly maxDelay: Duration.DurationInput
+
+  /**
+   * HTTP statuses of a request the server did not process
+   */
+  readonly retryStatuses: ReadonlyArray<number>
+
+  /**
+   * Method errors of a call worth sending again
+   */
+  readonly retryMethodErrors: ReadonlyArray<MethodErrorType>
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxRetries: 3,
+  baseDelay: Duration.seconds(1),
+  maxDelay: Duration.seconds(30),
+  retryStatuses: [429, 503],
+  retryMethodErrors: ['rateLimit', 'serverUnavailable', 'serverFail']
+}
+
+/**
+ * Why an attempt is retried, and after how long when the server said so
+ */
+export interface RetryDecision {
+  readonly reason: string
+  readonly retryAfter?: Duration.Duration
+}
+
+/**
+ * Metrics of the retry policy
+ */
+export const RetryMetrics = {
+  /**
+   * Retries made, tagged with their reason: the HTTP status, the method error
+   * type, or "transport"
+   */
+  retries: Metric.counter('jmap_client_retries', {
+    description: 'JMAP API requests sent again after a failed attempt',
+    incremental: true
+  }),
+
+  /**
+   * Requests that still failed after their last retry
+   */
+  exhausted: Metric.counter('jmap_client_retries_exhausted', {
+    description: 'JMAP API requests given up on after maxRetries retries',
+    incremental: true
+  })
+}
+
+// Methods that change server state and are not safe to send twice
+const MUTATING_METHOD = /\/(?:set|copy|import)$/
+
+/**
+ * Delay asked for by a Retry-After header, given in seconds or as an HTTP date
+ */
+export const parseRetryAfter = (value: string | undefined, now: number): Duration.Duration | undefined => {
+  if (value === undefined) {
+    return undefined
+  }
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return Duration.seconds(Number(trimmed))
+  }
+  const date = Date.parse(trimmed)
+  return Number.isNaN(date) ? undefined : Duration.millis(Math.max(0, date - now))
+}
+
+/**
+ * Retry policy utility functions
+ */
+export const RetryUtils = {
+  /**
+   * Whether a method changes server state, so it is not safe to send twice
+   */
+  isMutating: (name: string): boolean =>
+    MUTATING_METHOD.test(name),
+
+  /**
+   * A request may be sent again when every /set, /copy and /import call in it
+   * is guarded with ifInState, so a repeat cannot apply its changes twice
+   */
+  isRetryable: (request: Request): boolean =>
+    request.methodCalls.every(([name, args]) =>
+      !RetryUtils.isMutating(name) || typeof args?.ifInState === 'string'
+    ),
+
+  /**
+   * Decide on a failed attempt: a retry status, with its Retry-After, or a
+   * transport failure before any response
+   */
+  forError: (policy: RetryPolicy, error: NetworkError): RetryDecision | undefined => {
+    if (error.status !== undefined) {
+      return policy.retryStatuses.includes(error.status)
+        ? { reason: String(error.status), ...(error.retryAfter !== undefined && { retryAfter: Duration.millis(error.retryAfter) }) }
+        : undefined
+    }
+    return HttpClientError.isHttpClientError(error.cause) && error.cause._tag === 'RequestError' && error.cause.reason === 'Transport'
+      ? { reason: 'transport' }
+      : undefined
+  },
+
+  /**
+   * Decide on a response: the first retryable method error in it. Once a
+   * call changing state succeeded, sending the request again would fail it
+   * with stateMismatch, so the response is kept as it is.
+   */
+  forResponse: (policy: RetryPolicy, response: Response): RetryDecision | undefined => {
+    if (response.methodResponses.some(([name]) => RetryUtils.isMutating(name))) {
+      return undefined
+    }
+    const error = response.methodResponses.find(([name, result]) =>
+      name === 'error' && policy.retryMethodErrors.includes(result?.type)
+    )
+    return error === undefined ? undefined : { reason: error[1].type }
+  },
+
+  /**
+   * Exponential backoff delay before retry number attempt (from 0)
+   */
+  backoff: (policy: RetryPolicy, attempt: number): Duration.Duration =>
+    Duration.min(Duration.times(Duration.decode(policy.baseDelay), 2 ** attempt), Duration.decode(policy.maxDelay)),
+
+  /**
+   * Run effect, running it again while decide returns a decision and retries
+   * are left. Every retry and every exhausted policy is counted in RetryMetrics.
+   */
+  retry: <A, E, R>(
+    policy: RetryPolicy,
+    effect: Effect.Effect<A, E, R>,
+    decide: (result: Either.Either<A, E>) => RetryDecision | undefined
+  ): Effect.Effect<A, E, R> => {
+    const attempt = (retries: number): Effect.Effect<A, E, R> =>
+      Effect.flatMap(Effect.either(effect), (result) => {
+        const decision = decide(result)
+        if (decision === undefined) {
+          return result
+        }
+        if (retries >= policy.maxRetries) {
+          return Effect.zipRight(
+            policy.maxRetries > 0 ? Metric.increment(RetryMetrics.exhausted) : Effect.void,
+            result
+          )
+        }
+        const delay = decision.retryAfter === undefined
+          ? RetryUtils.backoff(policy, retries)
+          : Duration.min(decision.retryAfter, Duration.decode(policy.maxDelay))
+        return Metric.increment(Metric.tagged(RetryMetrics.retries, 'reason', decision.reason)).pipe(
+          Effect.zipRight(Effect.sleep(delay)),
+          Effect.zipRight(attempt(retries + 1))
+        )
+      })
+    return attempt(0)
+  },
+
+  /**
+   * The Retry-After of a response as milliseconds from now
+   */
+  retryAfterMillis: (header: string | undefined): Effect.Effect<number | undefined> =>
+    Effect.map(Clock.currentTimeMillis, (now) => {
+      const delay = parseRetryAfter(header, now)
+      return delay === undefined ? undefined : Duration.toMillis(delay)
+    })
+}
@@ -5,7 +5,19 @@ import { Schema } from 'effect'
  */
 
 /**
- * Capability object defining what operations the server supports
+ * Capability URIs used as session capability keys and in a request's "using"
+ */
+export const CapabilityUris = {
+  CORE: 'urn:ietf:params:jmap:core',
+  MAIL: 'urn:ietf:params:jmap:mail',
+  SUBMISSION: 'urn:ietf:params:jmap:submission',
+  VACATION_RESPONSE: 'urn:ietf:params:jmap:vacationresponse',
+  WEBSOCKET: 'urn:ietf:params:jmap:websocket'
+} as const
+
+/**
+ * Capability object defining what operations the server supports.
+ * Properties of other capabilities are preserved for their own schemas.
  */
 export const Capability = Schema.Struct({
   maxSizeUpload: Schema.optional(Schema.Number),
@@ -16,10 +28,64 @@ export const Capability = Schema.Struct({
   maxObjectsInGet: Schema.optional(Schema.Number),
   maxObjectsInSet: Schema.optional(Schema.Number),
   collationAlgorithms: Schema.optional(Schema.Array(Schema.String))
-})
+}).annotations({ parseOptions: { onExcessProperty: 'preserve' } })
 
 export type Capability = Schema.Schema.Type<typeof Capability>
 
+/**
+ * Mail capability (urn:ietf:params:jmap:mail) of an account - RFC 8621 Section 1.3.1.
+ * A null maximum means there is no limit.
+ */
+export const MailCapability = Schema.Struct({
+  maxMailboxesPerEmail: Schema.Union(Schema.Number, Schema.Null),
+  maxMailboxDepth: Schema.Union(Schema.Number, Schema.Null),
+  maxSizeMailboxName: Schema.Number,
+  maxSizeAttachmentsPerEmail: Schema.Number,
+  emailQuerySortOptions: Schema.Array(Schema.String),
+  mayCreateTopLevelMailbox: Schema.Boolean
+})
+
+export type MailCapability = Schema.Schema.Type<typeof MailCapability>
+
+/**
+ * Submission capability (urn:ietf:params:jmap:submission) of an account -
+ * RFC 8621 Section 1.3.2. submissionExtensions maps EHLO keywords to their arguments.
+ */
+export const SubmissionCapability = Schema.Struct({
+  maxDelayedSend: Schema.Number,
+  submissionExtensions: Schema.Record({
+    key: Schema.String,
+    value: Schema.Array(Schema.String)
+  })
+})
+
+export type SubmissionCapability = Schema.Schema.Type<typeof SubmissionCapability>
+
+/**
+ * Vacation response capability (urn:ietf:params:jmap:vacationresponse) -
+ * RFC 8621 Section 1.3.3. It has no properties.
+ */
+export const VacationResponseCapability = Schema.Struct({})
+
+export type VacationResponseCapability = Schema.Schema.Type<typeof VacationResponseCapability>
+
+/**
+ * Capability of an extension without its own schema
+ */
+export const ExtensionCapability = Schema.Record({ key: Schema.String, value: Schema.Unknown })
+
+export type ExtensionCapability = Schema.Schema.Type<typeof ExtensionCapability>
+
+/**
+ * WebSocket capability (urn:ietf:params:jmap:websocket) - RFC 8887 Section 4
+ */
+export const WebSocketCapability = Schema.Struct({
+  url: Schema.String,
+  supportsPush: Schema.Boolean
+})
+
+export type WebSocketCapability = Schema.Schema.Type<typeof WebSocketCapability>
+
 /**
  * Account object containing account information
  */
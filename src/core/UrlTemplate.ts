@@ -0,0 +1,23 @@
+/**
+ * Session URL templates - RFC 6570 level 1, as used by the JMAP session
+ * uploadUrl, downloadUrl and eventSourceUrl properties
+ */
+
+/**
+ * Percent-encode everything outside the RFC 3986 unreserved set
+ */
+const encodeValue = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+
+/**
+ * Expand the {variable} expressions of a URL template. Variables that are not
+ * given expand to an empty string.
+ */
+export const expandUrlTemplate = (
+  template: string,
+  variables: Readonly<Record<string, string | number | undefined>>
+): string =>
+  template.replace(/\{([A-Za-z0-9_.]+)\}/g, (_, name: string) => {
+    const value = variables[name]
+    return value === undefined ? '' : encodeValue(String(value))
+  })
@@ -1,4 +1,20 @@
 export * from './Types.js'
 export * from './Errors.js'
 export * from './JMAPClient.js'
-export * from './EmailUtils.js'
\ No newline at end of file
+export * from './EmailUtils.js'
+export * from './ChangesUtils.js'
+export * from './RequestBuilder.js'
+export * from './UrlTemplate.js'
+export * from './EventSource.js'
+export * from './JMAPWebSocketClient.js'
+export * from './FilterUtils.js'
+export * from './Draft.js'
+export * from './Reply.js'
+export * from './Mime.js'
+export * from './Capabilities.js'
+export * from './BatchUtils.js'
+export * from './RetryPolicy.js'
+export * from './Patch.js'
+export * from './OptimisticState.js'
+export * from './JMAPServer.js'
+export * from './EmailQuery.js'
\ No newline at end of file
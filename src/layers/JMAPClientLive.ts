@@ -1,6 +1,7 @@
 import { Layer } from 'effect'
-import { HttpClient } from '@effect/platform'
+import { HttpClient, Socket } from '@effect/platform'
 import { type JMAPClient, JMAPClientLive as JMAPClientLiveImpl, type JMAPClientConfig, defaultConfig } from '../core/JMAPClient.ts'
+import { type JMAPWebSocketClientInterface, JMAPWebSocketClientLive } from '../core/JMAPWebSocketClient.ts'
 
 /**
  * Re-export the live implementation with the proper layer type
@@ -27,4 +28,13 @@ export const createJMAPClient = (sessionUrl: string, bearerToken: string): Layer
  * Convenience function to create a live JMAP client layer with custom config
  */
 export const createJMAPClientWithConfig = (config: JMAPClientConfig): Layer.Layer<JMAPClient, never, HttpClient.HttpClient> =>
-  JMAPClientLiveImpl(config)
\ No newline at end of file
+  JMAPClientLiveImpl(config)
+
+/**
+ * Convenience function to create a JMAP over WebSocket client layer with default config
+ */
+export const createJMAPWebSocketClient = (
+  sessionUrl: string,
+  bearerToken: string
+): Layer.Layer<JMAPClient | JMAPWebSocketClientInterface, never, HttpClient.HttpClient | Socket.WebSocketConstructor> =>
+  JMAPWebSocketClientLive(defaultConfig(sessionUrl, bearerToken))
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Effect, Layer } from 'effect'
+import { HttpClient, HttpClientResponse, HttpServerRequest, HttpServerResponse } from '@effect/platform'
+import { type JMAPClient, JMAPClientLive, defaultConfig } from '../core/JMAPClient.ts'
+import type { MemoryServer } from './MemoryServer.ts'
+
+/**
+ * HttpClient answering every request with the memory server's HTTP app,
+ * without a network
+ */
+export const memoryHttpClient = (server: MemoryServer): Layer.Layer<HttpClient.HttpClient> =>
+  Layer.succeed(
+    HttpClient.HttpClient,
+    HttpClient.make((request, url) =>
+      Effect.gen(function* () {
+        const webRequest = new Request(url, {
+          method: request.method,
+          headers: request.headers,
+          ...(request.body._tag === 'Uint8Array' && { body: request.body.body })
+        })
+        const response = yield* Effect.provideService(
+          server.httpApp,
+          HttpServerRequest.HttpServerRequest,
+          HttpServerRequest.fromWeb(webRequest)
+        )
+        return HttpClientResponse.fromWeb(request, HttpServerResponse.toWeb(response))
+      })
+    )
+  )
+
+/**
+ * Live JMAP client talking to a memory server, for tests that check what
+ * calls do to the data. Provides the HttpClient the services need too.
+ */
+export const JMAPClientMemory = (server: MemoryServer): Layer.Layer<JMAPClient | HttpClient.HttpClient> =>
+  Layer.provideMerge(
+    JMAPClientLive({ ...defaultConfig(server.sessionUrl, 'memory-token'), maxRetries: 0 }),
+    memoryHttpClient(server)
+  )
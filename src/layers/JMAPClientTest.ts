@@ -1,4 +1,5 @@
 import { Context, Effect, Layer } from 'effect'
+import { HttpClient } from '@effect/platform'
 import type { JMAPClient } from '../core/JMAPClient.ts'
 import type { Session, Request, Response, Invocation } from '../core/Types.ts'
 import { Errors } from '../core/Errors.ts'
@@ -127,11 +128,28 @@ const makeJMAPClientTest = (config: JMAPTestConfig): JMAPClient => {
     return sessionState.state
   })
 
+  const execute: JMAPClient['execute'] = (request) => Effect.gen(function* () {
+    yield* simulateDelay
+
+    if (config.simulateErrors) {
+      yield* Effect.fail(Errors.network('Simulated HTTP error'))
+    }
+
+    // Plain HTTP goes through whatever HttpClient the test provides
+    const httpClient = yield* HttpClient.HttpClient
+    return yield* httpClient.execute(request).pipe(
+      Effect.catchAll(error =>
+        Effect.fail(Errors.network(`Failed to send ${request.method} ${request.url}`, error))
+      )
+    )
+  })
+
   return {
     getSession,
     request,
     batch,
-    getSessionState
+    getSessionState,
+    execute
   }
 }
 
@@ -176,7 +194,7 @@ export const defaultTestConfig = (): JMAPTestConfig => ({
     apiUrl: 'https://test.example.com/jmap/',
     downloadUrl: 'https://test.example.com/download/{accountId}/{blobId}/{name}?accept={type}',
     uploadUrl: 'https://test.example.com/upload/{accountId}/',
-    eventSourceUrl: 'https://test.example.com/eventSource?types={types}&closeAfter={closeAfter}&ping={ping}',
+    eventSourceUrl: 'https://test.example.com/eventSource?types={types}&closeafter={closeafter}&ping={ping}',
     state: 'test-session-state-123'
   },
   simulateErrors: false,
@@ -0,0 +1,1153 @@
+import { Clock, Effect, Either } from 'effect'
+import { type HttpApp, HttpServerRequest, HttpServerResponse } from '@effect/platform'
+import * as Schema from 'effect/Schema'
+import { type Response, type Session, CapabilityUris } from '../core/Types.ts'
+import { type MethodErrorType, type JMAPMethodError, type JMAPRequestError, Errors } from '../core/Errors.ts'
+import { type MethodHandler, makeJMAPServer } from '../core/JMAPServer.ts'
+import { type EmailQueryContext, CollationAlgorithms, EmailQueryUtils } from '../core/EmailQuery.ts'
+import { Email, EmailComparator, EmailFilter } from '../schemas/Email.ts'
+
+/**
+ * In-memory JMAP server - RFC 8620 and RFC 8621
+ *
+ * Keeps the Mailbox, Email, Thread and Identity objects of one account and
+ * answers /get, /set, /query, /changes and /queryChanges on them as a real
+ * server would, so tests can check what calls actually do to the data.
+ */
+
+export type MemoryDataType = 'Mailbox' | 'Email' | 'Thread' | 'Identity'
+
+/**
+ * Options for a memory server
+ */
+export interface MemoryServerOptions {
+  readonly accountId?: string
+  readonly username?: string
+
+  /**
+   * Origin of the session's URLs (default http://localhost)
+   */
+  readonly baseUrl?: string
+
+  /**
+   * Objects the server starts with, given as for a /set create. They may
+   * carry their id; Email mailboxIds refer to mailbox ids.
+   */
+  readonly mailboxes?: ReadonlyArray<Record<string, unknown>>
+  readonly emails?: ReadonlyArray<Record<string, unknown>>
+  readonly identities?: ReadonlyArray<Record<string, unknown>>
+}
+
+/**
+ * A running memory server
+ */
+export interface MemoryServer {
+  readonly session: Session
+  readonly sessionUrl: string
+  readonly accountId: string
+
+  /**
+   * Answer a request posted to the API URL. Fails with a request-level
+   * error when the body is not a request the server can process.
+   */
+  readonly handle: (body: unknown) => Effect.Effect<Response, JMAPRequestError>
+
+  /**
+   * Serves the session at sessionUrl and the API at the session's apiUrl.
+   * Any bearer token is accepted.
+   */
+  readonly httpApp: HttpApp.Default
+
+  /**
+   * The objects of a data type with all their properties, as /get returns them
+   */
+  readonly objects: (dataType: MemoryDataType) => ReadonlyArray<Record<string, unknown>>
+
+  /**
+   * Current state string of a data type
+   */
+  readonly state: (dataType: MemoryDataType) => string
+}
+
+type Args = Record<string, unknown>
+
+type JMAPObject = Args & { readonly id: string }
+
+interface SetError {
+  readonly type: string
+  readonly description?: string
+  readonly properties?: ReadonlyArray<string>
+}
+
+interface Change {
+  readonly state: number
+  readonly id: string
+  readonly kind: 'created' | 'updated' | 'destroyed'
+
+  /**
+   * Only the counts of a mailbox changed
+   */
+  readonly countsOnly?: boolean
+}
+
+interface Store {
+  readonly objects: Map<string, JMAPObject>
+  readonly log: Array<Change>
+  state: number
+}
+
+/**
+ * Per call: the ids of the objects created so far in the request, by
+ * creation id, and the time of the call
+ */
+interface RequestContext {
+  readonly createdIds: Map<string, string>
+  readonly now: number
+}
+
+type Handler = (args: Args, context: RequestContext) => Effect.Effect<Args, JMAPMethodError>
+
+interface SetSpec {
+  /**
+   * Properties only the server sets
+   */
+  readonly serverSet: ReadonlyArray<string>
+
+  /**
+   * Properties a patch may change
+   */
+  readonly mutable: ReadonlyArray<string>
+  readonly create: (props: Args, context: RequestContext, id: string) => Either.Either<JMAPObject, SetError>
+  readonly created: (object: JMAPObject) => Args
+  readonly update: (object: JMAPObject, patched: Args, context: RequestContext) => Either.Either<JMAPObject, SetError>
+  readonly destroy: (object: JMAPObject, args: Args) => SetError | undefined
+}
+
+interface QuerySpec<A extends { readonly id: string; readonly threadId?: unknown }> {
+  readonly conditions: ReadonlyArray<string>
+  readonly sortProperties: ReadonlyArray<string>
+
+  /**
+   * The objects to query, in the form the filter and order take
+   */
+  readonly objects: () => ReadonlyArray<A>
+
+  /**
+   * Test of a filter whose conditions are all supported
+   */
+  readonly filter: (filter: Args) => Either.Either<(object: A) => boolean, JMAPMethodError>
+
+  /**
+   * Order of a sort whose properties and collations are all supported
+   */
+  readonly order: (sort: ReadonlyArray<Args>) => Either.Either<(a: A, b: A) => number, JMAPMethodError>
+}
+
+// Query results kept for /queryChanges, the least recently used are dropped first
+const QUERY_RESULTS_LIMIT = 100
+
+const MAILBOX_COUNTS = ['totalEmails', 'unreadEmails', 'totalThreads', 'unreadThreads']
+
+const FULL_RIGHTS = {
+  mayReadItems: true,
+  mayAddItems: true,
+  mayRemoveItems: true,
+  maySetSeen: true,
+  maySetKeywords: true,
+  mayCreateChild: true,
+  mayRename: true,
+  mayDelete: true,
+  maySubmit: true
+}
+
+const EMAIL_HEADER_PROPERTIES = [
+  'messageId', 'inReplyTo', 'references', 'sender', 'from', 'to', 'cc', 'bcc', 'replyTo', 'subject', 'sentAt'
+]
+
+const EMAIL_DEFAULT_PROPERTIES = [
+  'id', 'blobId', 'threadId', 'mailboxIds', 'keywords', 'size', 'receivedAt', ...EMAIL_HEADER_PROPERTIES,
+  'hasAttachment', 'preview', 'bodyValues', 'textBody', 'htmlBody', 'attachments'
+]
+
+const EMAIL_CREATE_PROPERTIES = [
+  'mailboxIds', 'keywords', 'receivedAt', ...EMAIL_HEADER_PROPERTIES,
+  'headers', 'bodyStructure', 'bodyValues', 'textBody', 'htmlBody', 'attachments'
+]
+
+const isRecord = (value: unknown): value is Args =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const hasKey = (value: unknown, key: string): boolean =>
+  isRecord(value) && value[key] === true
+
+const methodError = (type: MethodErrorType, description?: string): JMAPMethodError =>
+  Errors.methodError(type, description)
+
+const invalidProperties = (properties: ReadonlyArray<string>, description?: string): SetError => ({
+  type: 'invalidProperties',
+  properties,
+  ...(description !== undefined && { description })
+})
+
+const unescapePointerToken = (token: string): string =>
+  token.replace(/~1/g, '/').replace(/~0/g, '~')
+
+/**
+ * Apply a PatchObject to a copy of object - RFC 8620 Section 5.3
+ */
+const applyPatch = (object: JMAPObject, patch: Args): Either.Either<JMAPObject, SetError> => {
+  const paths = Object.keys(patch)
+  if (paths.some(path => paths.some(other => other.startsWith(`${path}/`)))) {
+    return Either.left({ type: 'invalidPatch', description: 'A patch path is a prefix of another' })
+  }
+
+  const next: JMAPObject = structuredClone(object)
+  for (const [path, value] of Object.entries(patch)) {
+    const tokens = path.split('/').map(unescapePointerToken)
+    const last = tokens.pop()!
+    let target: Args = next
+    for (const token of tokens) {
+      const child = target[token]
+      if (!isRecord(child)) {
+        return Either.left({ type: 'invalidPatch', description: `Nothing to patch at ${path}` })
+      }
+      target = child
+    }
+    if (value === null && tokens.length > 0) {
+      delete target[last]
+    } else {
+      target[last] = value
+    }
+  }
+  return Either.right(next)
+}
+
+const compareNumbers = (a: number, b: number): number => a - b
+
+const textOf = (value: unknown): string => typeof value === 'string' ? value : ''
+
+const dateOf = (value: unknown): number => typeof value === 'string' ? Date.parse(value) : 0
+
+const addressesOf = (value: unknown): ReadonlyArray<Args> =>
+  Array.isArray(value) ? value.filter(isRecord) : []
+
+const contains = (haystack: string, needle: string): boolean =>
+  haystack.toLowerCase().includes(needle.toLowerCase())
+
+const byteLength = (value: string): number => new TextEncoder().encode(value).length
+
+/**
+ * Make a new in-memory JMAP server
+ */
+export const makeMemoryServer = (options: MemoryServerOptions = {}): MemoryServer => {
+  const accountId = options.accountId ?? 'account-1'
+  const baseUrl = options.baseUrl ?? 'http://localhost'
+  const sessionPath = '/jmap/session'
+  const apiPath = '/jmap/api/'
+
+  const session: Session = {
+    capabilities: {
+      [CapabilityUris.CORE]: {
+        maxSizeUpload: 50000000,
+        maxConcurrentUpload: 4,
+        maxSizeRequest: 10000000,
+        maxConcurrentRequests: 4,
+        maxCallsInRequest: 16,
+        maxObjectsInGet: 500,
+        maxObjectsInSet: 500,
+        collationAlgorithms: Object.values(CollationAlgorithms)
+      },
+      [CapabilityUris.MAIL]: {},
+      [CapabilityUris.SUBMISSION]: {}
+    },
+    accounts: {
+      [accountId]: {
+        name: options.username ?? 'test@example.com',
+        isPersonal: true,
+        isReadOnly: false,
+        accountCapabilities: {
+          [CapabilityUris.MAIL]: {
+            maxMailboxesPerEmail: null,
+            maxMailboxDepth: null,
+            maxSizeMailboxName: 255,
+            maxSizeAttachmentsPerEmail: 50000000,
+            emailQuerySortOptions: ['receivedAt', 'sentAt', 'size', 'from', 'to', 'subject', 'hasKeyword', 'allInThreadHaveKeyword', 'someInThreadHaveKeyword'],
+            mayCreateTopLevelMailbox: true
+          },
+          [CapabilityUris.SUBMISSION]: {
+            maxDelayedSend: 0,
+            submissionExtensions: {}
+          }
+        }
+      }
+    },
+    primaryAccounts: {
+      [CapabilityUris.MAIL]: accountId,
+      [CapabilityUris.SUBMISSION]: accountId
+    },
+    username: options.username ?? 'test@example.com',
+    apiUrl: `${baseUrl}${apiPath}`,
+    downloadUrl: `${baseUrl}/jmap/download/{accountId}/{blobId}/{name}?accept={type}`,
+    uploadUrl: `${baseUrl}/jmap/upload/{accountId}/`,
+    eventSourceUrl: `${baseUrl}/jmap/eventsource/?types={types}&closeafter={closeafter}&ping={ping}`,
+    state: '0'
+  }
+
+  const makeStore = (): Store => ({ objects: new Map(), log: [], state: 0 })
+  const stores: Record<MemoryDataType, Store> = {
+    Mailbox: makeStore(),
+    Email: makeStore(),
+    Thread: makeStore(),
+    Identity: makeStore()
+  }
+
+  // Stores changed by the current method call, whose state moves on with it
+  const dirty = new Set<Store>()
+  let nextId = 1
+  const newId = (prefix: string) => `${prefix}${nextId++}`
+
+  const record = (store: Store, change: Omit<Change, 'state'>) => {
+    store.log.push({ ...change, state: store.state + 1 })
+    dirty.add(store)
+  }
+
+  const commit = () => {
+    for (const store of dirty) {
+      store.state++
+    }
+    dirty.clear()
+  }
+
+  const resolveId = (id: unknown, context: RequestContext): string | undefined =>
+    typeof id !== 'string' ? undefined : id.startsWith('#') ? context.createdIds.get(id.slice(1)) : id
+
+  const emails = () => [...stores.Email.objects.values()]
+
+  const threadEmails = (threadId: unknown): ReadonlyArray<JMAPObject> => {
+    const thread = typeof threadId === 'string' ? stores.Thread.objects.get(threadId) : undefined
+    const emailIds = Array.isArray(thread?.emailIds) ? thread.emailIds as ReadonlyArray<string> : []
+    return emailIds.flatMap(id => stores.Email.objects.get(id) ?? [])
+  }
+
+  // Mailbox
+
+  const mailboxView = (mailbox: JMAPObject): JMAPObject => {
+    const inMailbox = emails().filter(email => hasKey(email.mailboxIds, mailbox.id))
+    const unread = inMailbox.filter(email => !hasKey(email.keywords, '$seen'))
+    const threads = (list: ReadonlyArray<JMAPObject>) => new Set(list.map(email => email.threadId)).size
+    return {
+      ...mailbox,
+      totalEmails: inMailbox.length,
+      unreadEmails: unread.length,
+      totalThreads: threads(inMailbox),
+      unreadThreads: threads(unread),
+      myRights: FULL_RIGHTS
+    }
+  }
+
+  const countsChanged = (mailboxIds: Iterable<string>) => {
+    for (const id of new Set(mailboxIds)) {
+      if (stores.Mailbox.objects.has(id)) {
+        record(stores.Mailbox, { id, kind: 'updated', countsOnly: true })
+      }
+    }
+  }
+
+  const isAncestor = (ancestorId: string, mailboxId: string | null): boolean => {
+    for (let id = mailboxId; id !== null;) {
+      if (id === ancestorId) {
+        return true
+      }
+      const parentId = stores.Mailbox.objects.get(id)?.parentId
+      id = typeof parentId === 'string' ? parentId : null
+    }
+    return false
+  }
+
+  const validateMailbox = (mailbox: JMAPObject): Either.Either<JMAPObject, SetError> => {
+    if (typeof mailbox.name !== 'string' || mailbox.name.length === 0) {
+      return Either.left(invalidProperties(['name'], 'A mailbox needs a name'))
+    }
+    if (mailbox.parentId !== null && (typeof mailbox.parentId !== 'string' || !stores.Mailbox.objects.has(mailbox.parentId))) {
+      return Either.left(invalidProperties(['parentId'], 'No such parent mailbox'))
+    }
+    if (mailbox.parentId !== null && isAncestor(mailbox.id, mailbox.parentId)) {
+      return Either.left(invalidProperties(['parentId'], 'A mailbox cannot be its own descendant'))
+    }
+    if (mailbox.role !== null && (typeof mailbox.role !== 'string' ||
+      [...stores.Mailbox.objects.values()].some(other => other.id !== mailbox.id && other.role === mailbox.role))) {
+      return Either.left(invalidProperties(['role'], 'Another mailbox has this role'))
+    }
+    if (typeof mailbox.sortOrder !== 'number' || mailbox.sortOrder < 0) {
+      return Either.left(invalidProperties(['sortOrder']))
+    }
+    if (typeof mailbox.isSubscribed !== 'boolean') {
+      return Either.left(invalidProperties(['isSubscribed']))
+    }
+    return Either.right(mailbox)
+  }
+
+  const mailboxSet: SetSpec = {
+    serverSet: ['id', ...MAILBOX_COUNTS, 'myRights'],
+    mutable: ['name', 'parentId', 'role', 'sortOrder', 'isSubscribed'],
+    create: (props, context, id) =>
+      validateMailbox({
+        id,
+        name: props.name,
+        parentId: props.parentId === undefined || props.parentId === null ? null : resolveId(props.parentId, context) ?? props.parentId,
+        role: props.role ?? null,
+        sortOrder: props.sortOrder ?? 0,
+        isSubscribed: props.isSubscribed ?? false
+      }),
+    created: mailboxView,
+    update: (mailbox, patched, context) =>
+      validateMailbox({
+        ...patched,
+        id: mailbox.id,
+        parentId: patched.parentId === null || patched.parentId === undefined ? null : resolveId(patched.parentId, context) ?? patched.parentId,
+        role: patched.role ?? null,
+        sortOrder: patched.sortOrder ?? 0,
+        isSubscribed: patched.isSubscribed ?? false
+      }),
+    destroy: (mailbox, args) => {
+      if ([...stores.Mailbox.objects.values()].some(other => other.parentId === mailbox.id)) {
+        return { type: 'mailboxHasChild' }
+      }
+      const contained = emails().filter(email => hasKey(email.mailboxIds, mailbox.id))
+      if (contained.length > 0 && args.onDestroyRemoveEmails !== true) {
+        return { type: 'mailboxHasEmail' }
+      }
+      for (const email of contained) {
+        const { [mailbox.id]: _, ...mailboxIds } = email.mailboxIds as Args
+        if (Object.keys(mailboxIds).length === 0) {
+          destroyEmail(email)
+        } else {
+          updateEmail(email, { ...email, mailboxIds })
+        }
+      }
+      return undefined
+    }
+  }
+
+  const matchesMailbox = (mailbox: JMAPObject, condition: Args) =>
+    (condition.parentId === undefined || mailbox.parentId === condition.parentId) &&
+    (condition.name === undefined || contains(textOf(mailbox.name), textOf(condition.name))) &&
+    (condition.role === undefined || mailbox.role === condition.role) &&
+    (condition.hasAnyRole === undefined || (mailbox.role !== null) === condition.hasAnyRole) &&
+    (condition.isSubscribed === undefined || mailbox.isSubscribed === condition.isSubscribed)
+
+  const compareMailboxes = (a: JMAPObject, b: JMAPObject, comparator: Args) => {
+    const order = comparator.property === 'sortOrder'
+      ? compareNumbers(Number(a.sortOrder), Number(b.sortOrder))
+      : EmailQueryUtils.collate(textOf(comparator.collation) || CollationAlgorithms.UNICODE_CASEMAP, textOf(a.name), textOf(b.name))
+    return comparator.isAscending === false ? -order : order
+  }
+
+  const mailboxQuery: QuerySpec<JMAPObject> = {
+    conditions: ['parentId', 'name', 'role', 'hasAnyRole', 'isSubscribed'],
+    sortProperties: ['sortOrder', 'name'],
+    objects: () => [...stores.Mailbox.objects.values()],
+    filter: (filter) => Either.right((mailbox) => evaluateFilter(filter, condition => matchesMailbox(mailbox, condition))),
+    order: (sort) => Either.right((a, b) =>
+      sort.reduce((order, comparator) => order !== 0 ? order : compareMailboxes(a, b, comparator), 0))
+  }
+
+  // Email and Thread
+
+  const addToThread = (email: JMAPObject) => {
+    const threadId = email.threadId as string
+    const thread = stores.Thread.objects.get(threadId)
+    const emailIds = [...(thread?.emailIds as ReadonlyArray<string> ?? []), email.id]
+      .map(id => id === email.id ? email : stores.Email.objects.get(id)!)
+      .sort((a, b) => compareNumbers(dateOf(a.receivedAt), dateOf(b.receivedAt)))
+      .map(member => member.id)
+    stores.Thread.objects.set(threadId, { id: threadId, emailIds })
+    record(stores.Thread, { id: threadId, kind: thread === undefined ? 'created' : 'updated' })
+  }
+
+  const removeFromThread = (email: JMAPObject) => {
+    const threadId = email.threadId as string
+    const emailIds = (stores.Thread.objects.get(threadId)?.emailIds as ReadonlyArray<string> ?? []).filter(id => id !== email.id)
+    if (emailIds.length === 0) {
+      stores.Thread.objects.delete(threadId)
+      record(stores.Thread, { id: threadId, kind: 'destroyed' })
+    } else {
+      stores.Thread.objects.set(threadId, { id: threadId, emailIds })
+      record(stores.Thread, { id: threadId, kind: 'updated' })
+    }
+  }
+
+  const updateEmail = (email: JMAPObject, next: JMAPObject) => {
+    stores.Email.objects.set(email.id, next)
+    record(stores.Email, { id: email.id, kind: 'updated' })
+    countsChanged([...Object.keys(email.mailboxIds as Args), ...Object.keys(next.mailboxIds as Args)])
+  }
+
+  const destroyEmail = (email: JMAPObject) => {
+    stores.Email.objects.delete(email.id)
+    record(stores.Email, { id: email.id, kind: 'destroyed' })
+    removeFromThread(email)
+    countsChanged(Object.keys(email.mailboxIds as Args))
+  }
+
+  /**
+   * The mailboxIds with creation ids resolved, or an error when they do not
+   * name at least one existing mailbox
+   */
+  const resolveMailboxIds = (value: unknown, context: RequestContext): Either.Either<Args, SetError> => {
+    if (!isRecord(value)) {
+      return Either.left(invalidProperties(['mailboxIds'], 'An email must be in at least one mailbox'))
+    }
+    const mailboxIds: Args = {}
+    for (const [key, included] of Object.entries(value)) {
+      const id = resolveId(key, context)
+      if (included !== true || id === undefined || !stores.Mailbox.objects.has(id)) {
+        return Either.left(invalidProperties(['mailboxIds'], `No such mailbox: ${key}`))
+      }
+      mailboxIds[id] = true
+    }
+    return Object.keys(mailboxIds).length === 0
+      ? Either.left(invalidProperties(['mailboxIds'], 'An email must be in at least one mailbox'))
+      : Either.right(mailboxIds)
+  }
+
+  const validKeywords = (value: unknown): value is Args =>
+    isRecord(value) && Object.values(value).every(included => included === true)
+
+  /**
+   * The thread of an email replying to or referencing one already stored
+   */
+  const threadFor = (props: Args): string | undefined => {
+    const referenced = new Set([
+      ...(Array.isArray(props.inReplyTo) ? props.inReplyTo : []),
+      ...(Array.isArray(props.references) ? props.references : [])
+    ])
+    const parent = emails().find(email =>
+      Array.isArray(email.messageId) && email.messageId.some(messageId => referenced.has(messageId)))
+    return parent?.threadId as string | undefined
+  }
+
+  const normalizePart = (part: Args, blobId: string, bodyValues: Args): Args => {
+    const value = typeof part.partId === 'string' && isRecord(bodyValues[part.partId])
+      ? textOf((bodyValues[part.partId] as Args).value)
+      : undefined
+    return {
+      size: value === undefined ? 0 : byteLength(value),
+      name: null,
+      type: 'text/plain',
+      charset: null,
+      disposition: null,
+      cid: null,
+      language: null,
+      location: null,
+      ...part,
+      ...(typeof part.partId === 'string' && part.blobId === undefined && { blobId: `${blobId}-${part.partId}` })
+    }
+  }
+
+  const preview = (email: Args): string => {
+    const bodyValues = email.bodyValues as Args
+    const valueOf = (parts: unknown) =>
+      addressesOf(parts).map(part => bodyValues[textOf(part.partId)]).find(isRecord)?.value
+    const text = valueOf(email.textBody) ?? textOf(valueOf(email.htmlBody)).replace(/<[^>]*>/g, ' ')
+    return textOf(text).replace(/\s+/g, ' ').trim().slice(0, 256)
+  }
+
+  const makeEmail = (props: Args, context: RequestContext, id: string): Either.Either<JMAPObject, SetError> => {
+    const unknown = Object.keys(props).filter(property => !EMAIL_CREATE_PROPERTIES.includes(property))
+    if (unknown.length > 0) {
+      return Either.left(invalidProperties(unknown))
+    }
+    if (props.keywords !== undefined && !validKeywords(props.keywords)) {
+      return Either.left(invalidProperties(['keywords']))
+    }
+    return Either.flatMap(resolveMailboxIds(props.mailboxIds, context), (mailboxIds) => {
+      const blobId = newId('B')
+      const bodyValues = isRecord(props.bodyValues) ? props.bodyValues : {}
+      const attachments = addressesOf(props.attachments).map((attachment): Args => ({
+        name: null,
+        size: 0,
+        cid: null,
+        disposition: 'attachment',
+        type: 'application/octet-stream',
+        ...attachment
+      }))
+      if (attachments.some(attachment => typeof attachment.blobId !== 'string')) {
+        return Either.left(invalidProperties(['attachments'], 'An attachment needs a blobId'))
+      }
+
+      const email: JMAPObject = {
+        ...Object.fromEntries(EMAIL_HEADER_PROPERTIES.map(property => [property, props[property] ?? null])),
+        ...props,
+        id,
+        blobId,
+        threadId: threadFor(props) ?? newId('T'),
+        mailboxIds,
+        keywords: props.keywords ?? {},
+        receivedAt: props.receivedAt ?? new Date(context.now).toISOString(),
+        bodyValues,
+        textBody: addressesOf(props.textBody).map(part => normalizePart(part, blobId, bodyValues)),
+        htmlBody: addressesOf(props.htmlBody).map(part => normalizePart(part, blobId, bodyValues)),
+        attachments,
+        hasAttachment: attachments.length > 0
+      }
+      const size = byteLength(JSON.stringify([email.subject, bodyValues])) +
+        attachments.reduce((total, attachment) => total + Number(attachment.size), 0)
+      return Either.right({ ...email, size, preview: preview(email) })
+    })
+  }
+
+  const emailSet: SetSpec = {
+    serverSet: ['id', 'blobId', 'threadId', 'size', 'hasAttachment', 'preview'],
+    mutable: ['keywords', 'mailboxIds'],
+    create: makeEmail,
+    created: (email) => ({ id: email.id, blobId: email.blobId, threadId: email.threadId, size: email.size }),
+    update: (email, patched, context) => {
+      const keywords = patched.keywords ?? {}
+      if (!validKeywords(keywords)) {
+        return Either.left(invalidProperties(['keywords']))
+      }
+      return Either.map(resolveMailboxIds(patched.mailboxIds, context), (mailboxIds) => ({ ...email, keywords, mailboxIds }))
+    },
+    destroy: () => undefined
+  }
+
+  // Stored emails are replaced rather than changed, so each is decoded once
+  const decodedEmails = new WeakMap<JMAPObject, Email>()
+  const decodeEmail = (email: JMAPObject): Email => {
+    const cached = decodedEmails.get(email)
+    if (cached !== undefined) {
+      return cached
+    }
+    const decoded = Schema.decodeUnknownSync(Email)(email)
+    decodedEmails.set(email, decoded)
+    return decoded
+  }
+
+  const threadContext: EmailQueryContext = {
+    threadEmails: (email) => threadEmails(email.threadId).map(decodeEmail)
+  }
+
+  const emailQuery: QuerySpec<Email> = {
+    conditions: [
+      'inMailbox', 'inMailboxOtherThan', 'before', 'after', 'minSize', 'maxSize',
+      'allInThreadHaveKeyword', 'someInThreadHaveKeyword', 'noneInThreadHaveKeyword', 'hasKeyword', 'notKeyword',
+      'hasAttachment', 'text', 'from', 'to', 'cc', 'bcc', 'subject', 'body', 'header'
+    ],
+    sortProperties: ['receivedAt', 'sentAt', 'size', 'from', 'to', 'subject', 'hasKeyword', 'allInThreadHaveKeyword', 'someInThreadHaveKeyword'],
+    objects: () => emails().map(decodeEmail),
+    filter: (filter) =>
+      Schema.decodeUnknownEither(EmailFilter)(filter).pipe(
+        Either.mapLeft(error => methodError('invalidArguments', error.message)),
+        Either.map(decoded => (email: Email) => EmailQueryUtils.matches(decoded, email, threadContext))
+      ),
+    order: (sort) =>
+      Schema.decodeUnknownEither(Schema.Array(EmailComparator))(sort).pipe(
+        Either.mapLeft(error => methodError('unsupportedSort', error.message)),
+        Either.flatMap(comparators => EmailQueryUtils.comparator(comparators, threadContext))
+      )
+  }
+
+  const emailView = (email: JMAPObject, args: Args): JMAPObject => {
+    const fetchAll = args.fetchAllBodyValues === true
+    const parts = [
+      ...(fetchAll || args.fetchTextBodyValues === true ? addressesOf(email.textBody) : []),
+      ...(fetchAll || args.fetchHTMLBodyValues === true ? addressesOf(email.htmlBody) : [])
+    ]
+    const maxBytes = typeof args.maxBodyValueBytes === 'number' && args.maxBodyValueBytes > 0 ? args.maxBodyValueBytes : undefined
+    const stored = email.bodyValues as Args
+    const bodyValues: Args = {}
+    for (const partId of parts.map(part => textOf(part.partId))) {
+      const value = stored[partId]
+      if (isRecord(value)) {
+        const text = textOf(value.value)
+        bodyValues[partId] = maxBytes !== undefined && byteLength(text) > maxBytes
+          ? { ...value, value: new TextDecoder().decode(new TextEncoder().encode(text).slice(0, maxBytes)).replace(/�$/, ''), isTruncated: true }
+          : value
+      }
+    }
+    return { ...email, bodyValues }
+  }
+
+  // Identity
+
+  const validateIdentity = (identity: JMAPObject): Either.Either<JMAPObject, SetError> => {
+    const invalid = ['name', 'email', 'textSignature', 'htmlSignature'].filter(property => typeof identity[property] !== 'string')
+    if (invalid.length > 0 || !textOf(identity.email).includes('@')) {
+      return Either.left(invalidProperties(invalid.length > 0 ? invalid : ['email']))
+    }
+    return Either.right(identity)
+  }
+
+  const identitySet: SetSpec = {
+    serverSet: ['id', 'mayDelete'],
+    mutable: ['name', 'replyTo', 'bcc', 'textSignature', 'htmlSignature'],
+    create: (props, _, id) =>
+      validateIdentity({
+        id,
+        name: props.name ?? '',
+        email: props.email,
+        replyTo: props.replyTo ?? null,
+        bcc: props.bcc ?? null,
+        textSignature: props.textSignature ?? '',
+        htmlSignature: props.htmlSignature ?? '',
+        mayDelete: true
+      }),
+    created: (identity) => identity,
+    update: (identity, patched) =>
+      validateIdentity({
+        ...patched,
+        id: identity.id,
+        name: patched.name ?? '',
+        textSignature: patched.textSignature ?? '',
+        htmlSignature: patched.htmlSignature ?? ''
+      }),
+    destroy: () => undefined
+  }
+
+  // Standard methods - RFC 8620 Section 5
+
+  const views: Record<MemoryDataType, (object: JMAPObject, args: Args) => JMAPObject> = {
+    Mailbox: mailboxView,
+    Email: emailView,
+    Thread: (thread) => thread,
+    Identity: (identity) => identity
+  }
+
+  const defaultProperties: Partial<Record<MemoryDataType, ReadonlyArray<string>>> = {
+    Email: EMAIL_DEFAULT_PROPERTIES
+  }
+
+  const get = (dataType: MemoryDataType): Handler => (args, context) =>
+    Effect.gen(function* () {
+      const store = stores[dataType]
+      if (args.ids !== undefined && args.ids !== null && !Array.isArray(args.ids)) {
+        return yield* Effect.fail(methodError('invalidArguments', 'ids must be an array or null'))
+      }
+      const ids: ReadonlyArray<unknown> = Array.isArray(args.ids) ? args.ids : [...store.objects.keys()]
+      const properties = Array.isArray(args.properties) ? args.properties as ReadonlyArray<string> : defaultProperties[dataType]
+
+      const list: Args[] = []
+      const notFound: string[] = []
+      for (const requested of ids) {
+        const id = resolveId(requested, context)
+        const object = id === undefined ? undefined : store.objects.get(id)
+        if (object === undefined) {
+          notFound.push(String(requested))
+          continue
+        }
+        const view = views[dataType](object, args)
+        list.push(properties === undefined
+          ? view
+          : Object.fromEntries(['id', ...properties].filter(property => property in view).map(property => [property, view[property]])))
+      }
+      return { accountId, state: String(store.state), list, notFound }
+    })
+
+  const set = (dataType: MemoryDataType, spec: SetSpec): Handler => (args, context) =>
+    Effect.gen(function* () {
+      const store = stores[dataType]
+      const oldState = String(store.state)
+      if (args.ifInState !== undefined && args.ifInState !== null && args.ifInState !== oldState) {
+        return yield* Effect.fail(methodError('stateMismatch', `State is ${oldState}, not ${String(args.ifInState)}`))
+      }
+
+      const created: Args = {}
+      const notCreated: Args = {}
+      for (const [creationId, props] of Object.entries(isRecord(args.create) ? args.create : {})) {
+        const serverSet = isRecord(props) ? spec.serverSet.filter(property => property in props) : []
+        const result = !isRecord(props)
+          ? Either.left<SetError>(invalidProperties([], 'Not an object'))
+          : serverSet.length > 0
+            ? Either.left(invalidProperties(serverSet, 'Properties set by the server'))
+            : spec.create(props, context, newId(dataType.charAt(0)))
+        if (Either.isLeft(result)) {
+          notCreated[creationId] = result.left
+          continue
+        }
+        const object = result.right
+        store.objects.set(object.id, object)
+        record(store, { id: object.id, kind: 'created' })
+        if (dataType === 'Email') {
+          addToThread(object)
+          countsChanged(Object.keys(object.mailboxIds as Args))
+        }
+        context.createdIds.set(creationId, object.id)
+        created[creationId] = spec.created(views[dataType](object, {}))
+      }
+
+      const updated: Args = {}
+      const notUpdated: Args = {}
+      for (const [requested, patch] of Object.entries(isRecord(args.update) ? args.update : {})) {
+        const id = resolveId(requested, context) ?? requested
+        const object = store.objects.get(id)
+        if (object === undefined) {
+          notUpdated[requested] = { type: 'notFound' }
+          continue
+        }
+        const immutable = Object.keys(isRecord(patch) ? patch : {})
+          .map(path => unescapePointerToken(path.split('/')[0]!))
+          .filter(property => !spec.mutable.includes(property))
+        const result = !isRecord(patch)
+          ? Either.left<SetError>({ type: 'invalidPatch' })
+          : immutable.length > 0
+            ? Either.left(invalidProperties(immutable, 'Properties that cannot be changed'))
+            : Either.flatMap(applyPatch(object, patch), patched => spec.update(object, patched, context))
+        if (Either.isLeft(result)) {
+          notUpdated[requested] = result.left
+          continue
+        }
+        if (dataType === 'Email') {
+          updateEmail(object, result.right)
+        } else {
+          store.objects.set(id, result.right)
+          record(store, { id, kind: 'updated' })
+        }
+        updated[id] = null
+      }
+
+      const destroyed: string[] = []
+      const notDestroyed: Args = {}
+      for (const requested of Array.isArray(args.destroy) ? args.destroy : []) {
+        const id = resolveId(requested, context) ?? String(requested)
+        const object = store.objects.get(id)
+        const error = object === undefined ? { type: 'notFound' } : spec.destroy(object, args)
+        if (object === undefined || error !== undefined) {
+          notDestroyed[String(requested)] = error
+          continue
+        }
+        if (dataType === 'Email') {
+          destroyEmail(object)
+        } else {
+          store.objects.delete(id)
+          record(store, { id, kind: 'destroyed' })
+        }
+        destroyed.push(id)
+      }
+
+      commit()
+      const nonEmpty = (name: string, value: Args | ReadonlyArray<string>) =>
+        Object.keys(value).length > 0 ? { [name]: value } : {}
+      return {
+        accountId,
+        oldState,
+        newState: String(store.state),
+        ...nonEmpty('created', created),
+        ...nonEmpty('updated', updated),
+        ...nonEmpty('destroyed', destroyed),
+        ...nonEmpty('notCreated', notCreated),
+        ...nonEmpty('notUpdated', notUpdated),
+        ...nonEmpty('notDestroyed', notDestroyed)
+      }
+    })
+
+  const parseState = (state: unknown, store: Store): number | undefined => {
+    const value = typeof state === 'string' && /^\d+$/.test(state) ? Number(state) : undefined
+    return value !== undefined && value <= store.state ? value : undefined
+  }
+
+  const changes = (dataType: MemoryDataType): Handler => (args) =>
+    Effect.gen(function* () {
+      const store = stores[dataType]
+      const since = parseState(args.sinceState, store)
+      if (since === undefined) {
+        return yield* Effect.fail(methodError('cannotCalculateChanges', `Unknown state ${String(args.sinceState)}`))
+      }
+      const maxChanges = typeof args.maxChanges === 'number' ? args.maxChanges : undefined
+      if (maxChanges !== undefined && maxChanges < 1) {
+        return yield* Effect.fail(methodError('invalidArguments', 'maxChanges must be positive'))
+      }
+
+      // Whole states only, as few as fit in maxChanges
+      const entries = store.log.filter(change => change.state > since)
+      let upTo = since
+      const ids = new Set<string>()
+      for (let state = since + 1; state <= store.state; state++) {
+        const stateIds = entries.filter(change => change.state === state).map(change => change.id)
+        const count = new Set([...ids, ...stateIds]).size
+        if (maxChanges !== undefined && count > maxChanges) {
+          if (upTo === since) {
+            return yield* Effect.fail(methodError('cannotCalculateChanges', 'More changes in one state than maxChanges'))
+          }
+          break
+        }
+        stateIds.forEach(id => ids.add(id))
+        upTo = state
+      }
+
+      const created: string[] = []
+      const updated: string[] = []
+      const destroyed: string[] = []
+      for (const id of ids) {
+        const history = entries.filter(change => change.id === id && change.state <= upTo)
+        const first = history[0]!.kind
+        const last = history[history.length - 1]!.kind
+        if (first === 'created' && last !== 'destroyed') {
+          created.push(id)
+        } else if (first !== 'created' && last === 'destroyed') {
+          destroyed.push(id)
+        } else if (first !== 'created') {
+          updated.push(id)
+        }
+      }
+
+      const countsOnly = entries.every(change => change.state > upTo || change.kind !== 'updated' || change.countsOnly === true)
+      return {
+        accountId,
+        oldState: String(since),
+        newState: String(upTo),
+        hasMoreChanges: upTo < store.state,
+        created,
+        updated,
+        destroyed,
+        ...(dataType === 'Mailbox' && { updatedProperties: countsOnly && updated.length > 0 ? MAILBOX_COUNTS : null })
+      }
+    })
+
+  const validateFilter = <A extends JMAPObject | Email>(filter: unknown, spec: QuerySpec<A>): JMAPMethodError | undefined => {
+    if (!isRecord(filter)) {
+      return methodError('invalidArguments', 'A filter must be an object')
+    }
+    if (filter.operator !== undefined) {
+      if (!['AND', 'OR', 'NOT'].includes(textOf(filter.operator)) || !Array.isArray(filter.conditions)) {
+        return methodError('invalidArguments', 'Invalid filter operator')
+      }
+      return filter.conditions.map(condition => validateFilter(condition, spec)).find(error => error !== undefined)
+    }
+    const unsupported = Object.keys(filter).filter(name => !spec.conditions.includes(name))
+    return unsupported.length > 0 ? methodError('unsupportedFilter', `Unsupported filter: ${unsupported.join(', ')}`) : undefined
+  }
+
+  const evaluateFilter = (filter: Args, test: (condition: Args) => boolean): boolean => {
+    if (filter.operator === undefined) {
+      return test(filter)
+    }
+    const results = (filter.conditions as ReadonlyArray<Args>).map(condition => evaluateFilter(condition, test))
+    return filter.operator === 'AND'
+      ? results.every(Boolean)
+      : filter.operator === 'OR'
+        ? results.some(Boolean)
+        : !results.some(Boolean)
+  }
+
+  /**
+   * Every id matching the query, in order
+   */
+  const runQuery = <A extends JMAPObject | Email>(dataType: MemoryDataType, spec: QuerySpec<A>, args: Args) =>
+    Effect.gen(function* () {
+      const filterError = args.filter === undefined || args.filter === null ? undefined : validateFilter(args.filter, spec)
+      if (filterError !== undefined) {
+        return yield* Effect.fail(filterError)
+      }
+      const sort = Array.isArray(args.sort) ? args.sort.filter(isRecord) : []
+      const badSort = sort.find(comparator =>
+        !spec.sortProperties.includes(textOf(comparator.property)) ||
+        (comparator.collation !== undefined && !EmailQueryUtils.isSupportedCollation(textOf(comparator.collation))))
+      if (badSort !== undefined) {
+        return yield* Effect.fail(methodError('unsupportedSort', `Unsupported sort: ${textOf(badSort.property)}`))
+      }
+
+      const test = isRecord(args.filter) ? yield* spec.filter(args.filter) : () => true
+      const order = yield* spec.order(sort)
+      const matching = spec.objects().filter(test).sort(order)
+
+      if (dataType !== 'Email' || args.collapseThreads !== true) {
+        return matching.map(object => object.id)
+      }
+      const threads = new Set<unknown>()
+      return matching.filter(email => !threads.has(email.threadId) && threads.add(email.threadId)).map(email => email.id)
+    })
+
+  // Query results by query and state, for /queryChanges, in order of last use
+  const queryResults = new Map<string, ReadonlyArray<string>>()
+  const queryKey = (dataType: MemoryDataType, args: Args, state: string) =>
+    JSON.stringify([dataType, args.filter ?? null, args.sort ?? [], args.collapseThreads === true, state])
+
+  const rememberQuery = (key: string, ids: ReadonlyArray<string>) => {
+    queryResults.delete(key)
+    queryResults.set(key, ids)
+    for (const oldest of queryResults.keys()) {
+      if (queryResults.size <= QUERY_RESULTS_LIMIT) break
+      queryResults.delete(oldest)
+    }
+  }
+
+  const recallQuery = (key: string): ReadonlyArray<string> | undefined => {
+    const ids = queryResults.get(key)
+    if (ids !== undefined) rememberQuery(key, ids)
+    return ids
+  }
+
+  const query = <A extends JMAPObject | Email>(dataType: MemoryDataType, spec: QuerySpec<A>): Handler => (args) =>
+    Effect.gen(function* () {
+      const ids = yield* runQuery(dataType, spec, args)
+      const queryState = String(stores[dataType].state)
+      rememberQuery(queryKey(dataType, args, queryState), ids)
+
+      if (args.limit !== undefined && (typeof args.limit !== 'number' || args.limit < 0)) {
+        return yield* Effect.fail(methodError('invalidArguments', 'limit must not be negative'))
+      }
+      let position: number
+      if (typeof args.anchor === 'string') {
+        const index = ids.indexOf(args.anchor)
+        if (index === -1) {
+          return yield* Effect.fail(methodError('anchorNotFound'))
+        }
+        position = Math.max(0, index + (typeof args.anchorOffset === 'number' ? args.anchorOffset : 0))
+      } else {
+        const requested = typeof args.position === 'number' ? args.position : 0
+        position = requested < 0 ? Math.max(0, ids.length + requested) : requested
+      }
+
+      return {
+        accountId,
+        queryState,
+        canCalculateChanges: true,
+        position,
+        ids: ids.slice(position, typeof args.limit === 'number' ? position + args.limit : undefined),
+        ...(args.calculateTotal === true && { total: ids.length }),
+        ...(dataType === 'Email' && { collapseThreads: args.collapseThreads === true })
+      }
+    })
+
+  /**
+   * Objects that may have moved in or out of a query since state. For
+   * emails that is every email of a thread with a changed email, as thread
+   * keywords and collapsing depend on the whole thread.
+   */
+  const changedSince = (dataType: MemoryDataType, since: number): Set<string> => {
+    const changed = new Set(stores[dataType].log.filter(change => change.state > since).map(change => change.id))
+    if (dataType !== 'Email') {
+      return changed
+    }
+    const threads = new Set(stores.Thread.log.filter(change => change.state > since).map(change => change.id))
+    for (const id of changed) {
+      const threadId = stores.Email.objects.get(id)?.threadId
+      if (typeof threadId === 'string') {
+        threads.add(threadId)
+      }
+    }
+    for (const email of emails()) {
+      if (threads.has(email.threadId as string)) {
+        changed.add(email.id)
+      }
+    }
+    return changed
+  }
+
+  const queryChanges = <A extends JMAPObject | Email>(dataType: MemoryDataType, spec: QuerySpec<A>): Handler => (args) =>
+    Effect.gen(function* () {
+      const store = stores[dataType]
+      const since = parseState(args.sinceQueryState, store)
+      const old = since === undefined ? undefined : recallQuery(queryKey(dataType, args, String(since)))
+      if (since === undefined || old === undefined) {
+        return yield* Effect.fail(methodError('cannotCalculateChanges', `Unknown query state ${String(args.sinceQueryState)}`))
+      }
+
+      const ids = yield* runQuery(dataType, spec, args)
+      const newQueryState = String(store.state)
+      rememberQuery(queryKey(dataType, args, newQueryState), ids)
+
+      // Changed objects are removed and added again at their new index
+      const changed = changedSince(dataType, since)
+      const current = new Set(ids)
+      const previous = new Set(old)
+      const removed = old.filter(id => !current.has(id) || changed.has(id))
+      const added = ids
+        .map((id, index) => ({ id, index }))
+        .filter(({ id }) => !previous.has(id) || changed.has(id))
+      if (typeof args.maxChanges === 'number' && removed.length + added.length > args.maxChanges) {
+        return yield* Effect.fail(methodError('tooManyChanges'))
+      }
+
+      return {
+        accountId,
+        oldQueryState: String(since),
+        newQueryState,
+        removed,
+        added,
+        ...(args.calculateTotal === true && { total: ids.length }),
+        ...(dataType === 'Email' && { collapseThreads: args.collapseThreads === true })
+      }
+    })
+
+  const methods: Record<string, Handler> = {
+    'Mailbox/get': get('Mailbox'),
+    'Mailbox/set': set('Mailbox', mailboxSet),
+    'Mailbox/changes': changes('Mailbox'),
+    'Mailbox/query': query('Mailbox', mailboxQuery),
+    'Mailbox/queryChanges': queryChanges('Mailbox', mailboxQuery),
+    'Email/get': get('Email'),
+    'Email/set': set('Email', emailSet),
+    'Email/changes': changes('Email'),
+    'Email/query': query('Email', emailQuery),
+    'Email/queryChanges': queryChanges('Email', emailQuery),
+    'Thread/get': get('Thread'),
+    'Thread/changes': changes('Thread'),
+    'Identity/get': get('Identity'),
+    'Identity/set': set('Identity', identitySet),
+    'Identity/changes': changes('Identity')
+  }
+
+  /**
+   * Run a handler for the server's account, moving the state of the data
+   * types it changed on after it
+   */
+  const forAccount = (handler: Handler): MethodHandler => (args, { createdIds }) =>
+    Effect.gen(function* () {
+      if (args.accountId !== accountId) {
+        return yield* Effect.fail(methodError('accountNotFound'))
+      }
+      return yield* handler(args, { createdIds, now: yield* Clock.currentTimeMillis })
+    }).pipe(Effect.ensuring(Effect.sync(commit)))
+
+  const server = makeJMAPServer({
+    session,
+    methods: Object.fromEntries(Object.entries(methods).map(([name, handler]) => [name, forAccount(handler)]))
+  })
+
+  const httpApp: HttpApp.Default = Effect.gen(function* () {
+    const request = yield* HttpServerRequest.HttpServerRequest
+    const path = new URL(request.url, baseUrl).pathname
+    if (path === sessionPath && request.method === 'GET') {
+      return HttpServerResponse.unsafeJson(session)
+    }
+    if (path !== apiPath || request.method !== 'POST') {
+      return HttpServerResponse.empty({ status: 404 })
+    }
+    return yield* server.httpApp
+  })
+
+  // Seed objects
+  const seedContext: RequestContext = { createdIds: new Map(), now: Date.now() }
+  const seed = (dataType: MemoryDataType, spec: SetSpec, objects: ReadonlyArray<Args>) => {
+    for (const { id, ...props } of objects) {
+      const result = spec.create(props, seedContext, typeof id === 'string' ? id : newId(dataType.charAt(0)))
+      if (Either.isLeft(result)) {
+        throw new Error(`Invalid ${dataType} ${String(id)}: ${JSON.stringify(result.left)}`)
+      }
+      stores[dataType].objects.set(result.right.id, result.right)
+      if (dataType === 'Email') {
+        addToThread(result.right)
+      }
+    }
+  }
+  seed('Mailbox', mailboxSet, options.mailboxes ?? [])
+  seed('Email', emailSet, options.emails ?? [])
+  seed('Identity', identitySet, options.identities ?? [])
+  for (const store of Object.values(stores)) {
+    store.log.length = 0
+  }
+  dirty.clear()
+
+  return {
+    session,
+    sessionUrl: `${baseUrl}${sessionPath}`,
+    accountId,
+    handle: server.handle,
+    httpApp,
+    objects: (dataType) =>
+      [...stores[dataType].objects.values()].map(object => views[dataType](object, { fetchAllBodyValues: true })),
+    state: (dataType) => String(stores[dataType].state)
+  }
+}
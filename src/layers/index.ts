@@ -1,2 +1,4 @@
 export * from './JMAPClientLive.js'
-export * from './JMAPClientTest.js'
\ No newline at end of file
+export * from './JMAPClientTest.js'
+export * from './MemoryServer.js'
+export * from './JMAPClientMemory.js'
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { Schema } from 'effect'
+import { Id, UnsignedInt } from './Common.ts'
+
+/**
+ * JMAP binary data schemas - RFC 8620 Section 6
+ */
+
+/**
+ * Response body of a blob upload to the session uploadUrl
+ */
+export const BlobUploadResponse = Schema.Struct({
+  accountId: Schema.String,
+  blobId: Id,
+  type: Schema.String,
+  size: UnsignedInt
+})
+
+export type BlobUploadResponse = Schema.Schema.Type<typeof BlobUploadResponse>
@@ -1,4 +1,4 @@
-import { Schema } from 'effect'
+import { ParseResult, Schema } from 'effect'
 
 /**
  * Common JMAP schemas used across different object types
@@ -58,6 +58,8 @@ export const PatchObject = () =>
     value: Schema.Any
   })
 
+export type PatchObject = Schema.Schema.Type<ReturnType<typeof PatchObject>>
+
 /**
  * JMAP Blob reference
  */
@@ -140,11 +142,54 @@ export type Comparator = Schema.Schema.Type<typeof Comparator>
 
 /**
  * JMAP FilterCondition - base interface for filters
+ *
+ * @deprecated Use `Filter` with a condition schema, e.g. `Filter(EmailFilterCondition)`
  */
 export const FilterCondition = Schema.Struct({
   operator: Schema.optional(Schema.Literal('AND', 'OR', 'NOT'))
 })
 
+/**
+ * JMAP FilterOperator - combines conditions of the same kind, RFC 8620 Section 5.5
+ */
+export const FilterOperatorType = Schema.Literal('AND', 'OR', 'NOT')
+
+export type FilterOperatorType = Schema.Schema.Type<typeof FilterOperatorType>
+
+export interface FilterOperator<C> {
+  readonly operator: FilterOperatorType
+  readonly conditions: ReadonlyArray<Filter<C>>
+}
+
+/**
+ * A filter is either a condition or an operator over nested filters
+ */
+export type Filter<C> = C | FilterOperator<C>
+
+/**
+ * Schema for filters built from the given condition schema
+ */
+export const Filter = <A, I>(condition: Schema.Schema<A, I>): Schema.Schema<Filter<A>, Filter<I>> => {
+  // A condition with only optional properties matches any object, so a
+  // malformed operator would otherwise decode as an empty, match-all condition
+  const notOperator = Schema.declare([condition], {
+    decode: (condition) => (input, options, ast) =>
+      typeof input === 'object' && input !== null && 'operator' in input
+        ? ParseResult.fail(new ParseResult.Type(ast, input, 'Expected a filter condition, not an operator'))
+        : ParseResult.decodeUnknown(condition)(input, options),
+    encode: (condition) => (input, options) => ParseResult.encodeUnknown(condition)(input, options)
+  })
+
+  const filter: Schema.Schema<Filter<A>, Filter<I>> = Schema.Union(
+    Schema.Struct({
+      operator: FilterOperatorType,
+      conditions: Schema.Array(Schema.suspend((): Schema.Schema<Filter<A>, Filter<I>> => filter))
+    }),
+    notOperator
+  )
+  return filter
+}
+
 /**
  * JMAP UpdateMap - for tracking which properties to update
  */
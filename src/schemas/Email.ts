@@ -1,5 +1,5 @@
 import { Schema } from 'effect'
-import { Id, UnsignedInt, JMAPDate, EmailAddress, Keywords, Comparator } from './Common.ts'
+import { Id, UnsignedInt, JMAPDate, EmailAddress, Keywords, Comparator, Filter, PatchObject } from './Common.ts'
 
 /**
  * JMAP Email schemas - RFC 8621 Section 4
@@ -195,6 +195,26 @@ export const EmailFilterCondition = Schema.Struct({
 
 export type EmailFilterCondition = Schema.Schema.Type<typeof EmailFilterCondition>
 
+/**
+ * Email filter - a condition or AND/OR/NOT over nested filters
+ */
+export const EmailFilter = Filter(EmailFilterCondition)
+
+export type EmailFilter = Filter<EmailFilterCondition>
+
+/**
+ * Email sort comparator - RFC 8621 Section 4.4.2. keyword names the keyword
+ * of the hasKeyword, allInThreadHaveKeyword and someInThreadHaveKeyword sorts.
+ */
+export const EmailComparator = Schema.extend(
+  Comparator,
+  Schema.Struct({
+    keyword: Schema.optional(Schema.String)
+  })
+)
+
+export type EmailComparator = Schema.Schema.Type<typeof EmailComparator>
+
 /**
  * Email properties that can be set during creation/update
  */
@@ -208,6 +228,86 @@ export const EmailMutable = Schema.Struct({
 
 export type EmailMutable = Schema.Schema.Type<typeof EmailMutable>
 
+/**
+ * Body part of a new email - either a leaf with a blobId or a partId into
+ * bodyValues, or a multipart with subParts
+ */
+export interface EmailBodyPartCreate {
+  readonly partId?: string | undefined
+  readonly blobId?: string | undefined
+  readonly type: string
+  readonly name?: string | null | undefined
+  readonly charset?: string | null | undefined
+  readonly disposition?: string | null | undefined
+  readonly cid?: string | null | undefined
+  readonly language?: ReadonlyArray<string> | null | undefined
+  readonly location?: string | null | undefined
+  readonly subParts?: ReadonlyArray<EmailBodyPartCreate> | undefined
+}
+
+export const EmailBodyPartCreate: Schema.Schema<EmailBodyPartCreate> = Schema.Struct({
+  partId: Schema.optional(Schema.String),
+  blobId: Schema.optional(Schema.String),
+  type: Schema.String,
+  name: Schema.optional(Schema.Union(Schema.String, Schema.Null)),
+  charset: Schema.optional(Schema.Union(Schema.String, Schema.Null)),
+  disposition: Schema.optional(Schema.Union(Schema.String, Schema.Null)),
+  cid: Schema.optional(Schema.Union(Schema.String, Schema.Null)),
+  language: Schema.optional(Schema.Union(Schema.Array(Schema.String), Schema.Null)),
+  location: Schema.optional(Schema.Union(Schema.String, Schema.Null)),
+  subParts: Schema.optional(Schema.Array(Schema.suspend((): Schema.Schema<EmailBodyPartCreate> => EmailBodyPartCreate)))
+})
+
+/**
+ * Properties of a new email for Email/set create - RFC 8621 Section 4.6.
+ * The body is given either as bodyStructure, or as textBody/htmlBody/attachments.
+ */
+export const EmailCreate = Schema.Struct({
+  mailboxIds: Schema.Record({
+    key: Id,
+    value: Schema.Boolean
+  }),
+  keywords: Schema.optional(Keywords),
+  receivedAt: Schema.optional(JMAPDate),
+  messageId: Schema.optional(Schema.Array(Schema.String)),
+  inReplyTo: Schema.optional(Schema.Array(Schema.String)),
+  references: Schema.optional(Schema.Array(Schema.String)),
+  sender: Schema.optional(Schema.Array(EmailAddress)),
+  from: Schema.optional(Schema.Array(EmailAddress)),
+  to: Schema.optional(Schema.Array(EmailAddress)),
+  cc: Schema.optional(Schema.Array(EmailAddress)),
+  bcc: Schema.optional(Schema.Array(EmailAddress)),
+  replyTo: Schema.optional(Schema.Array(EmailAddress)),
+  subject: Schema.optional(Schema.String),
+  sentAt: Schema.optional(JMAPDate),
+  bodyStructure: Schema.optional(EmailBodyPartCreate),
+  bodyValues: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: Schema.Struct({
+      value: Schema.String,
+      isEncodingProblem: Schema.optional(Schema.Boolean),
+      isTruncated: Schema.optional(Schema.Boolean)
+    })
+  })),
+  textBody: Schema.optional(Schema.Array(EmailBodyPartCreate)),
+  htmlBody: Schema.optional(Schema.Array(EmailBodyPartCreate)),
+  attachments: Schema.optional(Schema.Array(EmailBodyPartCreate))
+})
+
+export type EmailCreate = Schema.Schema.Type<typeof EmailCreate>
+
+/**
+ * Server-set properties of a created email
+ */
+export const EmailCreated = Schema.Struct({
+  id: Id,
+  blobId: Schema.String,
+  threadId: Id,
+  size: UnsignedInt
+})
+
+export type EmailCreated = Schema.Schema.Type<typeof EmailCreated>
+
 /**
  * Arguments for Email/get method
  */
@@ -244,11 +344,12 @@ export const EmailSetArguments = Schema.Struct({
   ifInState: Schema.optional(Schema.String),
   create: Schema.optional(Schema.Record({
     key: Schema.String,
-    value: EmailMutable
+    value: EmailCreate
   })),
+  // Values are PatchObjects: whole properties or JSON Pointer paths into them
   update: Schema.optional(Schema.Record({
     key: Id,
-    value: Schema.partial(EmailMutable)
+    value: Schema.Union(Schema.partial(EmailMutable), PatchObject())
   })),
   destroy: Schema.optional(Schema.Array(Id))
 })
@@ -264,7 +365,7 @@ export const EmailSetResponse = Schema.Struct({
   newState: Schema.String,
   created: Schema.optional(Schema.Record({
     key: Schema.String,
-    value: Email
+    value: EmailCreated
   })),
   updated: Schema.optional(Schema.Record({
     key: Id,
@@ -287,13 +388,39 @@ export const EmailSetResponse = Schema.Struct({
 
 export type EmailSetResponse = Schema.Schema.Type<typeof EmailSetResponse>
 
+/**
+ * Arguments for Email/changes method
+ */
+export const EmailChangesArguments = Schema.Struct({
+  accountId: Schema.String,
+  sinceState: Schema.String,
+  maxChanges: Schema.optional(UnsignedInt)
+})
+
+export type EmailChangesArguments = Schema.Schema.Type<typeof EmailChangesArguments>
+
+/**
+ * Response for Email/changes method
+ */
+export const EmailChangesResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  hasMoreChanges: Schema.Boolean,
+  created: Schema.Array(Id),
+  updated: Schema.Array(Id),
+  destroyed: Schema.Array(Id)
+})
+
+export type EmailChangesResponse = Schema.Schema.Type<typeof EmailChangesResponse>
+
 /**
  * Arguments for Email/query method
  */
 export const EmailQueryArguments = Schema.Struct({
   accountId: Schema.String,
-  filter: Schema.optional(EmailFilterCondition),
-  sort: Schema.optional(Schema.Array(Comparator)),
+  filter: Schema.optional(EmailFilter),
+  sort: Schema.optional(Schema.Array(EmailComparator)),
   position: Schema.optional(UnsignedInt),
   anchor: Schema.optional(Id),
   anchorOffset: Schema.optional(Schema.Number),
@@ -325,8 +452,8 @@ export type EmailQueryResponse = Schema.Schema.Type<typeof EmailQueryResponse>
  */
 export const EmailQueryChangesArguments = Schema.Struct({
   accountId: Schema.String,
-  filter: Schema.optional(EmailFilterCondition),
-  sort: Schema.optional(Schema.Array(Comparator)),
+  filter: Schema.optional(EmailFilter),
+  sort: Schema.optional(Schema.Array(EmailComparator)),
   sinceQueryState: Schema.String,
   maxChanges: Schema.optional(UnsignedInt),
   upToId: Schema.optional(Id),
@@ -438,6 +565,49 @@ export const EmailImportResponse = Schema.Struct({
 
 export type EmailImportResponse = Schema.Schema.Type<typeof EmailImportResponse>
 
+/**
+ * An email parsed from a blob by Email/parse. It is in no mailbox, so id,
+ * mailboxIds, keywords and receivedAt are null, and threadId is null unless
+ * the server knows which thread it would join.
+ */
+export const EmailParsed = Schema.Struct({
+  ...PartialEmail.fields,
+  id: Schema.Union(Id, Schema.Null, Schema.Undefined)
+})
+
+export type EmailParsed = Schema.Schema.Type<typeof EmailParsed>
+
+/**
+ * Arguments for Email/parse method
+ */
+export const EmailParseArguments = Schema.Struct({
+  accountId: Schema.String,
+  blobIds: Schema.Array(Schema.String),
+  properties: Schema.optional(Schema.Array(Schema.String)),
+  bodyProperties: Schema.optional(Schema.Array(Schema.String)),
+  fetchTextBodyValues: Schema.optional(Schema.Boolean),
+  fetchHTMLBodyValues: Schema.optional(Schema.Boolean),
+  fetchAllBodyValues: Schema.optional(Schema.Boolean),
+  maxBodyValueBytes: Schema.optional(UnsignedInt)
+})
+
+export type EmailParseArguments = Schema.Schema.Type<typeof EmailParseArguments>
+
+/**
+ * Response for Email/parse method
+ */
+export const EmailParseResponse = Schema.Struct({
+  accountId: Schema.String,
+  parsed: Schema.optional(Schema.Union(Schema.Record({
+    key: Schema.String,
+    value: EmailParsed
+  }), Schema.Null)),
+  notParsable: Schema.optional(Schema.Union(Schema.Array(Schema.String), Schema.Null)),
+  notFound: Schema.optional(Schema.Union(Schema.Array(Schema.String), Schema.Null))
+})
+
+export type EmailParseResponse = Schema.Schema.Type<typeof EmailParseResponse>
+
 /**
  * Standard email properties for convenience
  */
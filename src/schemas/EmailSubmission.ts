@@ -0,0 +1,314 @@
+import { Schema } from 'effect'
+import { Id, UnsignedInt, JMAPDate, PatchObject } from './Common.ts'
+
+/**
+ * JMAP EmailSubmission schemas - RFC 8621 Section 7
+ */
+
+/**
+ * SMTP address with optional MAIL FROM / RCPT TO parameters
+ */
+export const SubmissionAddress = Schema.Struct({
+  email: Schema.String,
+  parameters: Schema.optional(Schema.Union(
+    Schema.Record({
+      key: Schema.String,
+      value: Schema.Union(Schema.String, Schema.Null)
+    }),
+    Schema.Null
+  ))
+})
+
+export type SubmissionAddress = Schema.Schema.Type<typeof SubmissionAddress>
+
+/**
+ * SMTP envelope - derived from the email headers when not given
+ */
+export const Envelope = Schema.Struct({
+  mailFrom: SubmissionAddress,
+  rcptTo: Schema.Array(SubmissionAddress)
+})
+
+export type Envelope = Schema.Schema.Type<typeof Envelope>
+
+/**
+ * Whether the submission may still be canceled
+ */
+export const UndoStatus = Schema.Literal('pending', 'final', 'canceled')
+
+export type UndoStatus = Schema.Schema.Type<typeof UndoStatus>
+
+/**
+ * Delivery status of one recipient
+ */
+export const DeliveryStatus = Schema.Struct({
+  smtpReply: Schema.String,
+  delivered: Schema.Literal('queued', 'yes', 'no', 'unknown'),
+  displayed: Schema.Literal('unknown', 'yes')
+})
+
+export type DeliveryStatus = Schema.Schema.Type<typeof DeliveryStatus>
+
+/**
+ * Core EmailSubmission object
+ */
+export const EmailSubmission = Schema.Struct({
+  id: Id,
+  identityId: Id,
+  emailId: Id,
+  threadId: Id,
+  envelope: Schema.Union(Envelope, Schema.Null),
+  sendAt: JMAPDate,
+  undoStatus: UndoStatus,
+  deliveryStatus: Schema.Union(
+    Schema.Record({
+      key: Schema.String,
+      value: DeliveryStatus
+    }),
+    Schema.Null
+  ),
+  dsnBlobIds: Schema.Array(Id),
+  mdnBlobIds: Schema.Array(Id)
+})
+
+export type EmailSubmission = Schema.Schema.Type<typeof EmailSubmission>
+
+/**
+ * EmailSubmission with only some properties, as returned for created objects
+ * or when properties are requested
+ */
+export const PartialEmailSubmission = Schema.Struct({
+  id: Id,
+  identityId: Schema.optional(Id),
+  emailId: Schema.optional(Id),
+  threadId: Schema.optional(Id),
+  envelope: Schema.optional(Schema.Union(Envelope, Schema.Null)),
+  sendAt: Schema.optional(JMAPDate),
+  undoStatus: Schema.optional(UndoStatus),
+  deliveryStatus: Schema.optional(Schema.Union(
+    Schema.Record({
+      key: Schema.String,
+      value: DeliveryStatus
+    }),
+    Schema.Null
+  )),
+  dsnBlobIds: Schema.optional(Schema.Array(Id)),
+  mdnBlobIds: Schema.optional(Schema.Array(Id))
+})
+
+export type PartialEmailSubmission = Schema.Schema.Type<typeof PartialEmailSubmission>
+
+/**
+ * Properties of a new EmailSubmission
+ */
+export const EmailSubmissionCreate = Schema.Struct({
+  identityId: Id,
+  emailId: Id,
+  envelope: Schema.optional(Schema.Union(Envelope, Schema.Null))
+})
+
+export type EmailSubmissionCreate = Schema.Schema.Type<typeof EmailSubmissionCreate>
+
+/**
+ * Only undoStatus can be changed, and only to "canceled"
+ */
+export const EmailSubmissionUpdate = Schema.Struct({
+  undoStatus: Schema.Literal('canceled')
+})
+
+export type EmailSubmissionUpdate = Schema.Schema.Type<typeof EmailSubmissionUpdate>
+
+/**
+ * EmailSubmission filter conditions for queries
+ */
+export const EmailSubmissionFilterCondition = Schema.Struct({
+  identityIds: Schema.optional(Schema.Array(Id)),
+  emailIds: Schema.optional(Schema.Array(Id)),
+  threadIds: Schema.optional(Schema.Array(Id)),
+  undoStatus: Schema.optional(UndoStatus),
+  before: Schema.optional(JMAPDate),
+  after: Schema.optional(JMAPDate)
+})
+
+export type EmailSubmissionFilterCondition = Schema.Schema.Type<typeof EmailSubmissionFilterCondition>
+
+/**
+ * Arguments for EmailSubmission/get method
+ */
+export const EmailSubmissionGetArguments = Schema.Struct({
+  accountId: Schema.String,
+  ids: Schema.Union(Schema.Array(Id), Schema.Null),
+  properties: Schema.optional(Schema.Array(Schema.String))
+})
+
+export type EmailSubmissionGetArguments = Schema.Schema.Type<typeof EmailSubmissionGetArguments>
+
+/**
+ * Response for EmailSubmission/get method
+ */
+export const EmailSubmissionGetResponse = Schema.Struct({
+  accountId: Schema.String,
+  state: Schema.String,
+  list: Schema.Array(EmailSubmission),
+  notFound: Schema.Array(Id)
+})
+
+export type EmailSubmissionGetResponse = Schema.Schema.Type<typeof EmailSubmissionGetResponse>
+
+/**
+ * Arguments for EmailSubmission/changes method
+ */
+export const EmailSubmissionChangesArguments = Schema.Struct({
+  accountId: Schema.String,
+  sinceState: Schema.String,
+  maxChanges: Schema.optional(UnsignedInt)
+})
+
+export type EmailSubmissionChangesArguments = Schema.Schema.Type<typeof EmailSubmissionChangesArguments>
+
+/**
+ * Response for EmailSubmission/changes method
+ */
+export const EmailSubmissionChangesResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  hasMoreChanges: Schema.Boolean,
+  created: Schema.Array(Id),
+  updated: Schema.Array(Id),
+  destroyed: Schema.Array(Id)
+})
+
+export type EmailSubmissionChangesResponse = Schema.Schema.Type<typeof EmailSubmissionChangesResponse>
+
+/**
+ * Arguments for EmailSubmission/query method
+ */
+export const EmailSubmissionQueryArguments = Schema.Struct({
+  accountId: Schema.String,
+  filter: Schema.optional(EmailSubmissionFilterCondition),
+  sort: Schema.optional(Schema.Array(Schema.Struct({
+    property: Schema.Literal('emailId', 'threadId', 'sentAt'),
+    isAscending: Schema.optional(Schema.Boolean)
+  }))),
+  position: Schema.optional(UnsignedInt),
+  anchor: Schema.optional(Id),
+  anchorOffset: Schema.optional(Schema.Number),
+  limit: Schema.optional(UnsignedInt),
+  calculateTotal: Schema.optional(Schema.Boolean)
+})
+
+export type EmailSubmissionQueryArguments = Schema.Schema.Type<typeof EmailSubmissionQueryArguments>
+
+/**
+ * Response for EmailSubmission/query method
+ */
+export const EmailSubmissionQueryResponse = Schema.Struct({
+  accountId: Schema.String,
+  queryState: Schema.String,
+  canCalculateChanges: Schema.Boolean,
+  position: UnsignedInt,
+  ids: Schema.Array(Id),
+  total: Schema.optional(UnsignedInt),
+  limit: Schema.optional(UnsignedInt)
+})
+
+export type EmailSubmissionQueryResponse = Schema.Schema.Type<typeof EmailSubmissionQueryResponse>
+
+/**
+ * Arguments for EmailSubmission/queryChanges method
+ */
+export const EmailSubmissionQueryChangesArguments = Schema.Struct({
+  accountId: Schema.String,
+  filter: Schema.optional(EmailSubmissionFilterCondition),
+  sort: Schema.optional(Schema.Array(Schema.Struct({
+    property: Schema.Literal('emailId', 'threadId', 'sentAt'),
+    isAscending: Schema.optional(Schema.Boolean)
+  }))),
+  sinceQueryState: Schema.String,
+  maxChanges: Schema.optional(UnsignedInt),
+  upToId: Schema.optional(Id),
+  calculateTotal: Schema.optional(Schema.Boolean)
+})
+
+export type EmailSubmissionQueryChangesArguments = Schema.Schema.Type<typeof EmailSubmissionQueryChangesArguments>
+
+/**
+ * Response for EmailSubmission/queryChanges method
+ */
+export const EmailSubmissionQueryChangesResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldQueryState: Schema.String,
+  newQueryState: Schema.String,
+  total: Schema.optional(UnsignedInt),
+  removed: Schema.Array(Id),
+  added: Schema.Array(Schema.Struct({
+    id: Id,
+    index: UnsignedInt
+  }))
+})
+
+export type EmailSubmissionQueryChangesResponse = Schema.Schema.Type<typeof EmailSubmissionQueryChangesResponse>
+
+/**
+ * Arguments for EmailSubmission/set method
+ *
+ * onSuccessUpdateEmail and onSuccessDestroyEmail are keyed by EmailSubmission
+ * id, or "#" + creation id for submissions created in the same call. The
+ * server applies them with an implicit Email/set once the submission succeeds.
+ */
+export const EmailSubmissionSetArguments = Schema.Struct({
+  accountId: Schema.String,
+  ifInState: Schema.optional(Schema.String),
+  create: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: EmailSubmissionCreate
+  })),
+  update: Schema.optional(Schema.Record({
+    key: Id,
+    value: EmailSubmissionUpdate
+  })),
+  destroy: Schema.optional(Schema.Array(Id)),
+  onSuccessUpdateEmail: Schema.optional(Schema.Union(
+    Schema.Record({
+      key: Schema.String,
+      value: PatchObject()
+    }),
+    Schema.Null
+  )),
+  onSuccessDestroyEmail: Schema.optional(Schema.Union(Schema.Array(Schema.String), Schema.Null))
+})
+
+export type EmailSubmissionSetArguments = Schema.Schema.Type<typeof EmailSubmissionSetArguments>
+
+/**
+ * Response for EmailSubmission/set method
+ */
+export const EmailSubmissionSetResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  created: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: PartialEmailSubmission
+  })),
+  updated: Schema.optional(Schema.Record({
+    key: Id,
+    value: Schema.Union(PartialEmailSubmission, Schema.Null)
+  })),
+  destroyed: Schema.optional(Schema.Array(Id)),
+  notCreated: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: Schema.Any
+  })),
+  notUpdated: Schema.optional(Schema.Record({
+    key: Id,
+    value: Schema.Any
+  })),
+  notDestroyed: Schema.optional(Schema.Record({
+    key: Id,
+    value: Schema.Any
+  }))
+})
+
+export type EmailSubmissionSetResponse = Schema.Schema.Type<typeof EmailSubmissionSetResponse>
@@ -0,0 +1,226 @@
+import { Schema } from 'effect'
+import { Id, UnsignedInt, EmailAddress } from './Common.ts'
+import type { Email } from './Email.ts'
+
+/**
+ * JMAP Identity schemas - RFC 8621 Section 6
+ */
+
+/**
+ * Core Identity object - an address the user may send from. The email may be
+ * a wildcard such as "*@example.com" for a whole domain.
+ */
+export const Identity = Schema.Struct({
+  id: Id,
+  name: Schema.String,
+  email: Schema.String,
+  replyTo: Schema.Union(Schema.Array(EmailAddress), Schema.Null),
+  bcc: Schema.Union(Schema.Array(EmailAddress), Schema.Null),
+  textSignature: Schema.String,
+  htmlSignature: Schema.String,
+  mayDelete: Schema.Boolean
+})
+
+export type Identity = Schema.Schema.Type<typeof Identity>
+
+/**
+ * Identity with only some properties, as returned for created and updated
+ * objects or when properties are requested
+ */
+export const PartialIdentity = Schema.Struct({
+  id: Id,
+  name: Schema.optional(Schema.String),
+  email: Schema.optional(Schema.String),
+  replyTo: Schema.optional(Schema.Union(Schema.Array(EmailAddress), Schema.Null)),
+  bcc: Schema.optional(Schema.Union(Schema.Array(EmailAddress), Schema.Null)),
+  textSignature: Schema.optional(Schema.String),
+  htmlSignature: Schema.optional(Schema.String),
+  mayDelete: Schema.optional(Schema.Boolean)
+})
+
+export type PartialIdentity = Schema.Schema.Type<typeof PartialIdentity>
+
+/**
+ * Identity properties that can be set during creation/update
+ */
+export const IdentityMutable = Schema.Struct({
+  name: Schema.optional(Schema.String),
+  replyTo: Schema.optional(Schema.Union(Schema.Array(EmailAddress), Schema.Null)),
+  bcc: Schema.optional(Schema.Union(Schema.Array(EmailAddress), Schema.Null)),
+  textSignature: Schema.optional(Schema.String),
+  htmlSignature: Schema.optional(Schema.String)
+})
+
+export type IdentityMutable = Schema.Schema.Type<typeof IdentityMutable>
+
+/**
+ * Properties of a new Identity - email is immutable once created
+ */
+export const IdentityCreate = Schema.Struct({
+  ...IdentityMutable.fields,
+  email: Schema.String
+})
+
+export type IdentityCreate = Schema.Schema.Type<typeof IdentityCreate>
+
+/**
+ * Arguments for Identity/get method
+ */
+export const IdentityGetArguments = Schema.Struct({
+  accountId: Schema.String,
+  ids: Schema.Union(Schema.Array(Id), Schema.Null),
+  properties: Schema.optional(Schema.Array(Schema.String))
+})
+
+export type IdentityGetArguments = Schema.Schema.Type<typeof IdentityGetArguments>
+
+/**
+ * Response for Identity/get method
+ */
+export const IdentityGetResponse = Schema.Struct({
+  accountId: Schema.String,
+  state: Schema.String,
+  list: Schema.Array(Identity),
+  notFound: Schema.Array(Id)
+})
+
+export type IdentityGetResponse = Schema.Schema.Type<typeof IdentityGetResponse>
+
+/**
+ * Arguments for Identity/changes method
+ */
+export const IdentityChangesArguments = Schema.Struct({
+  accountId: Schema.String,
+  sinceState: Schema.String,
+  maxChanges: Schema.optional(UnsignedInt)
+})
+
+export type IdentityChangesArguments = Schema.Schema.Type<typeof IdentityChangesArguments>
+
+/**
+ * Response for Identity/changes method
+ */
+export const IdentityChangesResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  hasMoreChanges: Schema.Boolean,
+  created: Schema.Array(Id),
+  updated: Schema.Array(Id),
+  destroyed: Schema.Array(Id)
+})
+
+export type IdentityChangesResponse = Schema.Schema.Type<typeof IdentityChangesResponse>
+
+/**
+ * Arguments for Identity/set method
+ */
+export const IdentitySetArguments = Schema.Struct({
+  accountId: Schema.String,
+  ifInState: Schema.optional(Schema.String),
+  create: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: IdentityCreate
+  })),
+  update: Schema.optional(Schema.Record({
+    key: Id,
+    value: IdentityMutable
+  })),
+  destroy: Schema.optional(Schema.Array(Id))
+})
+
+export type IdentitySetArguments = Schema.Schema.Type<typeof IdentitySetArguments>
+
+/**
+ * Response for Identity/set method. Created identities carry only the id and
+ * the properties the server set or changed.
+ */
+export const IdentitySetResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  created: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: PartialIdentity
+  })),
+  updated: Schema.optional(Schema.Record({
+    key: Id,
+    value: Schema.Union(PartialIdentity.omit('id'), Schema.Null)
+  })),
+  destroyed: Schema.optional(Schema.Array(Id)),
+  notCreated: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: Schema.Any
+  })),
+  notUpdated: Schema.optional(Schema.Record({
+    key: Id,
+    value: Schema.Any
+  })),
+  notDestroyed: Schema.optional(Schema.Record({
+    key: Id,
+    value: Schema.Any
+  }))
+})
+
+export type IdentitySetResponse = Schema.Schema.Type<typeof IdentitySetResponse>
+
+/**
+ * Addresses an email was delivered to, in order of preference for replying
+ */
+const recipientAddresses = (email: Pick<Email, 'to' | 'cc' | 'headers'>): string[] => {
+  const deliveredTo = Object.entries(email.headers ?? {})
+    .filter(([name]) => name.toLowerCase() === 'delivered-to')
+    .flatMap(([, values]) => values)
+    .flatMap(value => value.match(/[^\s<>,]+@[^\s<>,]+/g) ?? [])
+
+  return [
+    ...(email.to ?? []).map(address => address.email),
+    ...(email.cc ?? []).map(address => address.email),
+    ...deliveredTo
+  ].map(address => address.toLowerCase())
+}
+
+/**
+ * Identity utility functions
+ */
+export const IdentityHelpers = {
+  /**
+   * Check if an identity is a wildcard for a whole domain
+   */
+  isWildcard: (identity: Identity): boolean =>
+    identity.email.startsWith('*@'),
+
+  /**
+   * Check if an identity sends as the given address, exactly or by wildcard
+   */
+  matchesAddress: (identity: Identity, address: string): boolean => {
+    const identityEmail = identity.email.toLowerCase()
+    const candidate = address.toLowerCase()
+    return IdentityHelpers.isWildcard(identity)
+      ? candidate.endsWith(identityEmail.slice(1))
+      : candidate === identityEmail
+  },
+
+  /**
+   * Pick the identity to reply to an email from: an exact match on its to, cc
+   * or Delivered-To addresses (in that order), then a wildcard match, then the
+   * account's primary identity (the one that cannot be deleted).
+   */
+  findReplyIdentity: (
+    identities: ReadonlyArray<Identity>,
+    email: Pick<Email, 'to' | 'cc' | 'headers'>
+  ): Identity | null => {
+    const addresses = recipientAddresses(email)
+    const exact = identities.filter(identity => !IdentityHelpers.isWildcard(identity))
+    const wildcards = identities.filter(IdentityHelpers.isWildcard)
+
+    for (const candidates of [exact, wildcards]) {
+      for (const address of addresses) {
+        const match = candidates.find(identity => IdentityHelpers.matchesAddress(identity, address))
+        if (match) return match
+      }
+    }
+
+    return identities.find(identity => !identity.mayDelete) ?? identities[0] ?? null
+  }
+}
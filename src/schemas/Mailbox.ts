@@ -1,5 +1,5 @@
 import { Schema } from 'effect'
-import { Id, UnsignedInt } from './Common.ts'
+import { Id, UnsignedInt, Filter, PatchObject } from './Common.ts'
 
 /**
  * JMAP Mailbox schemas - RFC 8621 Section 2
@@ -60,6 +60,25 @@ export const Mailbox = Schema.Struct({
 
 export type Mailbox = Schema.Schema.Type<typeof Mailbox>
 
+/**
+ * Partial Mailbox object for responses where specific properties are requested
+ */
+export const PartialMailbox = Schema.Struct({
+  id: Id,
+  name: Schema.optional(Schema.String),
+  parentId: Schema.optional(Schema.Union(Id, Schema.Null)),
+  role: Schema.optional(Schema.Union(MailboxRole, Schema.Null)),
+  sortOrder: Schema.optional(UnsignedInt),
+  totalEmails: Schema.optional(UnsignedInt),
+  unreadEmails: Schema.optional(UnsignedInt),
+  totalThreads: Schema.optional(UnsignedInt),
+  unreadThreads: Schema.optional(UnsignedInt),
+  myRights: Schema.optional(MailboxRights),
+  isSubscribed: Schema.optional(Schema.Boolean)
+})
+
+export type PartialMailbox = Schema.Schema.Type<typeof PartialMailbox>
+
 /**
  * Mailbox filter for query operations
  */
@@ -75,6 +94,13 @@ export const MailboxFilterCondition = Schema.Struct({
 
 export type MailboxFilterCondition = Schema.Schema.Type<typeof MailboxFilterCondition>
 
+/**
+ * Mailbox filter - a condition or AND/OR/NOT over nested filters
+ */
+export const MailboxFilter = Filter(MailboxFilterCondition)
+
+export type MailboxFilter = Filter<MailboxFilterCondition>
+
 /**
  * Mailbox properties that can be set during creation/update
  */
@@ -121,9 +147,10 @@ export const MailboxSetArguments = Schema.Struct({
     key: Schema.String,
     value: MailboxMutable
   })),
+  // Values are PatchObjects: whole properties or JSON Pointer paths into them
   update: Schema.optional(Schema.Record({
     key: Id,
-    value: Schema.partial(MailboxMutable)
+    value: Schema.Union(Schema.partial(MailboxMutable), PatchObject())
   })),
   destroy: Schema.optional(Schema.Array(Id))
 })
@@ -162,12 +189,40 @@ export const MailboxSetResponse = Schema.Struct({
 
 export type MailboxSetResponse = Schema.Schema.Type<typeof MailboxSetResponse>
 
+/**
+ * Arguments for Mailbox/changes method
+ */
+export const MailboxChangesArguments = Schema.Struct({
+  accountId: Schema.String,
+  sinceState: Schema.String,
+  maxChanges: Schema.optional(UnsignedInt)
+})
+
+export type MailboxChangesArguments = Schema.Schema.Type<typeof MailboxChangesArguments>
+
+/**
+ * Response for Mailbox/changes method
+ * updatedProperties is set when only the counts (totalEmails, unreadEmails, ...) changed
+ */
+export const MailboxChangesResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  hasMoreChanges: Schema.Boolean,
+  created: Schema.Array(Id),
+  updated: Schema.Array(Id),
+  destroyed: Schema.Array(Id),
+  updatedProperties: Schema.optional(Schema.Union(Schema.Array(Schema.String), Schema.Null))
+})
+
+export type MailboxChangesResponse = Schema.Schema.Type<typeof MailboxChangesResponse>
+
 /**
  * Arguments for Mailbox/query method
  */
 export const MailboxQueryArguments = Schema.Struct({
   accountId: Schema.String,
-  filter: Schema.optional(MailboxFilterCondition),
+  filter: Schema.optional(MailboxFilter),
   sort: Schema.optional(Schema.Array(Schema.Struct({
     property: Schema.String,
     isAscending: Schema.optional(Schema.Boolean)
@@ -201,7 +256,7 @@ export type MailboxQueryResponse = Schema.Schema.Type<typeof MailboxQueryRespons
  */
 export const MailboxQueryChangesArguments = Schema.Struct({
   accountId: Schema.String,
-  filter: Schema.optional(MailboxFilterCondition),
+  filter: Schema.optional(MailboxFilter),
   sort: Schema.optional(Schema.Array(Schema.Struct({
     property: Schema.String,
     isAscending: Schema.optional(Schema.Boolean)
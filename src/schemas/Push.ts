@@ -0,0 +1,30 @@
+import { Schema } from 'effect'
+
+/**
+ * JMAP push schemas - RFC 8620 Section 7
+ */
+
+/**
+ * New state string per data type name (e.g. "Email", "Mailbox") of one account
+ */
+export const TypeState = Schema.Record({
+  key: Schema.String,
+  value: Schema.String
+})
+
+export type TypeState = Schema.Schema.Type<typeof TypeState>
+
+/**
+ * StateChange object - the accounts whose data changed and their new states.
+ * pushState is only sent over WebSocket (RFC 8887 Section 4.3.5).
+ */
+export const StateChange = Schema.Struct({
+  '@type': Schema.Literal('StateChange'),
+  changed: Schema.Record({
+    key: Schema.String,
+    value: TypeState
+  }),
+  pushState: Schema.optional(Schema.String)
+})
+
+export type StateChange = Schema.Schema.Type<typeof StateChange>
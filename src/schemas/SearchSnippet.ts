@@ -0,0 +1,70 @@
+import { Schema } from 'effect'
+import { Id } from './Common.ts'
+import { EmailFilter } from './Email.ts'
+
+/**
+ * JMAP SearchSnippet schemas - RFC 8621 Section 5
+ */
+
+/**
+ * Why an email matched a search. subject and preview are HTML with the
+ * matching terms wrapped in <mark></mark>, or null when nothing in that
+ * part matched.
+ */
+export const SearchSnippet = Schema.Struct({
+  emailId: Id,
+  subject: Schema.Union(Schema.String, Schema.Null),
+  preview: Schema.Union(Schema.String, Schema.Null)
+})
+
+export type SearchSnippet = Schema.Schema.Type<typeof SearchSnippet>
+
+/**
+ * Arguments for SearchSnippet/get method. The filter should be the one the
+ * emails were found with by Email/query.
+ */
+export const SearchSnippetGetArguments = Schema.Struct({
+  accountId: Schema.String,
+  filter: Schema.optional(Schema.Union(EmailFilter, Schema.Null)),
+  emailIds: Schema.Array(Id)
+})
+
+export type SearchSnippetGetArguments = Schema.Schema.Type<typeof SearchSnippetGetArguments>
+
+/**
+ * Response for SearchSnippet/get method
+ */
+export const SearchSnippetGetResponse = Schema.Struct({
+  accountId: Schema.String,
+  list: Schema.Array(SearchSnippet),
+  notFound: Schema.Union(Schema.Array(Id), Schema.Null)
+})
+
+export type SearchSnippetGetResponse = Schema.Schema.Type<typeof SearchSnippetGetResponse>
+
+/**
+ * SearchSnippet utility functions
+ */
+export const SearchSnippetHelpers = {
+  /**
+   * The highlighted terms of a snippet, in order
+   */
+  highlightedTerms: (snippet: string | null): string[] =>
+    snippet === null
+      ? []
+      : Array.from(snippet.matchAll(/<mark>(.*?)<\/mark>/gs), match => match[1] ?? ''),
+
+  /**
+   * A snippet as plain text, without the <mark> tags and HTML entities
+   */
+  toPlainText: (snippet: string | null): string | null =>
+    snippet === null
+      ? null
+      : snippet
+          .replace(/<\/?mark>/g, '')
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>')
+          .replace(/&quot;/g, '"')
+          .replace(/&#39;/g, "'")
+          .replace(/&amp;/g, '&')
+}
@@ -0,0 +1,65 @@
+import { Schema } from 'effect'
+import { Id, UnsignedInt } from './Common.ts'
+
+/**
+ * JMAP Thread schemas - RFC 8621 Section 3
+ */
+
+/**
+ * Core Thread object - the emails in a thread, sorted by receivedAt
+ */
+export const Thread = Schema.Struct({
+  id: Id,
+  emailIds: Schema.Array(Id)
+})
+
+export type Thread = Schema.Schema.Type<typeof Thread>
+
+/**
+ * Arguments for Thread/get method
+ */
+export const ThreadGetArguments = Schema.Struct({
+  accountId: Schema.String,
+  ids: Schema.Union(Schema.Array(Id), Schema.Null),
+  properties: Schema.optional(Schema.Array(Schema.String))
+})
+
+export type ThreadGetArguments = Schema.Schema.Type<typeof ThreadGetArguments>
+
+/**
+ * Response for Thread/get method
+ */
+export const ThreadGetResponse = Schema.Struct({
+  accountId: Schema.String,
+  state: Schema.String,
+  list: Schema.Array(Thread),
+  notFound: Schema.Array(Id)
+})
+
+export type ThreadGetResponse = Schema.Schema.Type<typeof ThreadGetResponse>
+
+/**
+ * Arguments for Thread/changes method
+ */
+export const ThreadChangesArguments = Schema.Struct({
+  accountId: Schema.String,
+  sinceState: Schema.String,
+  maxChanges: Schema.optional(UnsignedInt)
+})
+
+export type ThreadChangesArguments = Schema.Schema.Type<typeof ThreadChangesArguments>
+
+/**
+ * Response for Thread/changes method
+ */
+export const ThreadChangesResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  hasMoreChanges: Schema.Boolean,
+  created: Schema.Array(Id),
+  updated: Schema.Array(Id),
+  destroyed: Schema.Array(Id)
+})
+
+export type ThreadChangesResponse = Schema.Schema.Type<typeof ThreadChangesResponse>
@@ -0,0 +1,123 @@
+import { Schema } from 'effect'
+import { Id, JMAPDate, jmapDateToDate } from './Common.ts'
+
+/**
+ * JMAP VacationResponse schemas - RFC 8621 Section 8
+ */
+
+/**
+ * The only VacationResponse id - there is exactly one per account
+ */
+export const VACATION_RESPONSE_ID = 'singleton'
+
+export const VacationResponseId = Schema.Literal(VACATION_RESPONSE_ID)
+
+export type VacationResponseId = Schema.Schema.Type<typeof VacationResponseId>
+
+/**
+ * Core VacationResponse object. While enabled, the server auto-replies to
+ * mail received between fromDate and toDate (either may be open-ended).
+ */
+export const VacationResponse = Schema.Struct({
+  id: VacationResponseId,
+  isEnabled: Schema.Boolean,
+  fromDate: Schema.Union(JMAPDate, Schema.Null),
+  toDate: Schema.Union(JMAPDate, Schema.Null),
+  subject: Schema.Union(Schema.String, Schema.Null),
+  textBody: Schema.Union(Schema.String, Schema.Null),
+  htmlBody: Schema.Union(Schema.String, Schema.Null)
+})
+
+export type VacationResponse = Schema.Schema.Type<typeof VacationResponse>
+
+/**
+ * VacationResponse properties that can be updated
+ */
+export const VacationResponseMutable = Schema.Struct({
+  isEnabled: Schema.optional(Schema.Boolean),
+  fromDate: Schema.optional(Schema.Union(JMAPDate, Schema.Null)),
+  toDate: Schema.optional(Schema.Union(JMAPDate, Schema.Null)),
+  subject: Schema.optional(Schema.Union(Schema.String, Schema.Null)),
+  textBody: Schema.optional(Schema.Union(Schema.String, Schema.Null)),
+  htmlBody: Schema.optional(Schema.Union(Schema.String, Schema.Null))
+})
+
+export type VacationResponseMutable = Schema.Schema.Type<typeof VacationResponseMutable>
+
+/**
+ * Arguments for VacationResponse/get method
+ */
+export const VacationResponseGetArguments = Schema.Struct({
+  accountId: Schema.String,
+  ids: Schema.Union(Schema.Array(Id), Schema.Null),
+  properties: Schema.optional(Schema.Array(Schema.String))
+})
+
+export type VacationResponseGetArguments = Schema.Schema.Type<typeof VacationResponseGetArguments>
+
+/**
+ * Response for VacationResponse/get method
+ */
+export const VacationResponseGetResponse = Schema.Struct({
+  accountId: Schema.String,
+  state: Schema.String,
+  list: Schema.Array(VacationResponse),
+  notFound: Schema.Array(Id)
+})
+
+export type VacationResponseGetResponse = Schema.Schema.Type<typeof VacationResponseGetResponse>
+
+/**
+ * Arguments for VacationResponse/set method. The singleton can only be
+ * updated; creating or destroying it is always rejected by the server.
+ */
+export const VacationResponseSetArguments = Schema.Struct({
+  accountId: Schema.String,
+  ifInState: Schema.optional(Schema.String),
+  update: Schema.optional(Schema.Record({
+    key: VacationResponseId,
+    value: VacationResponseMutable
+  }))
+})
+
+export type VacationResponseSetArguments = Schema.Schema.Type<typeof VacationResponseSetArguments>
+
+/**
+ * Response for VacationResponse/set method
+ */
+export const VacationResponseSetResponse = Schema.Struct({
+  accountId: Schema.String,
+  oldState: Schema.String,
+  newState: Schema.String,
+  updated: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: Schema.Union(VacationResponseMutable, Schema.Null)
+  })),
+  notUpdated: Schema.optional(Schema.Record({
+    key: Schema.String,
+    value: Schema.Any
+  }))
+})
+
+export type VacationResponseSetResponse = Schema.Schema.Type<typeof VacationResponseSetResponse>
+
+/**
+ * VacationResponse utility functions
+ */
+export const VacationResponseHelpers = {
+  /**
+   * Check if the server would auto-reply to mail received at the given time
+   */
+  isActive: (vacationResponse: VacationResponse, at: Date = new Date()): boolean =>
+    vacationResponse.isEnabled &&
+    (vacationResponse.fromDate === null || jmapDateToDate(vacationResponse.fromDate) <= at) &&
+    (vacationResponse.toDate === null || at < jmapDateToDate(vacationResponse.toDate)),
+
+  /**
+   * Check if an enabled vacation response has not started yet
+   */
+  isScheduled: (vacationResponse: VacationResponse, at: Date = new Date()): boolean =>
+    vacationResponse.isEnabled &&
+    vacationResponse.fromDate !== null &&
+    at < jmapDateToDate(vacationResponse.fromDate)
+}
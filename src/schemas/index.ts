@@ -1,3 +1,10 @@
 export * from './Common.js'
 export * from './Mailbox.js'
-export * from './Email.js'
\ No newline at end of file
+export * from './Email.js'
+export * from './Thread.js'
+export * from './Blob.js'
+export * from './Push.js'
+export * from './EmailSubmission.js'
+export * from './Identity.js'
+export * from './VacationResponse.js'
+export * from './SearchSnippet.js'
\ No newline at end of file
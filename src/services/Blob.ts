@@ -0,0 +1,227 @@
+import { Context, Deferred, Effect, Layer, Stream } from 'effect'
+import { HttpClient, HttpClientRequest, HttpClientResponse, HttpBody } from '@effect/platform'
+import { JMAPClientService } from '../core/JMAPClient.ts'
+import type { JMAPClientInterface } from '../core/JMAPClient.ts'
+import { type Session, CapabilityUris } from '../core/Types.ts'
+import { BlobError, NetworkError, AuthenticationError, SessionError, Errors } from '../core/Errors.ts'
+import { expandUrlTemplate } from '../core/UrlTemplate.ts'
+import { BlobUploadResponse } from '../schemas/Blob.ts'
+import * as Schema from 'effect/Schema'
+
+/**
+ * Options for a blob upload
+ */
+export interface BlobUploadOptions {
+  /**
+   * Media type of the data, sent as the Content-Type
+   */
+  readonly type: string
+
+  /**
+   * Size in bytes when known up front, checked against maxSizeUpload before sending
+   */
+  readonly size?: number
+}
+
+/**
+ * Options for a blob download
+ */
+export interface BlobDownloadOptions {
+  /**
+   * File name for the {name} template variable (defaults to the blob id)
+   */
+  readonly name?: string
+
+  /**
+   * Media type for the {type} template variable (defaults to application/octet-stream)
+   */
+  readonly type?: string
+}
+
+/**
+ * Blob Service Interface
+ */
+export interface BlobService {
+  /**
+   * Stream data to the session uploadUrl, honouring the server's maxSizeUpload
+   * and maxConcurrentUpload limits
+   */
+  readonly upload: (
+    accountId: string,
+    data: Stream.Stream<Uint8Array, unknown>,
+    options: BlobUploadOptions
+  ) => Effect.Effect<
+    BlobUploadResponse,
+    BlobError | NetworkError | AuthenticationError | SessionError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Stream a blob from the session downloadUrl
+   */
+  readonly download: (
+    accountId: string,
+    blobId: string,
+    options?: BlobDownloadOptions
+  ) => Stream.Stream<
+    Uint8Array,
+    BlobError | NetworkError | AuthenticationError | SessionError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+}
+
+/**
+ * Blob Service Tag
+ */
+export const BlobService = Context.GenericTag<BlobService>('BlobService')
+
+/**
+ * Live implementation of Blob Service
+ */
+const makeBlobServiceLive = (): BlobService => {
+  // Upload permits are shared by every upload through this service, sized by
+  // the session's maxConcurrentUpload and rebuilt when a refreshed session
+  // changes it. Uploads already running finish on the old permits.
+  let uploadPermits: { readonly limit: number, readonly semaphore: Effect.Semaphore } | null = null
+
+  const permitsFor = (limit: number) => {
+    if (uploadPermits === null || uploadPermits.limit !== limit) {
+      uploadPermits = { limit, semaphore: Effect.unsafeMakeSemaphore(limit) }
+    }
+    return uploadPermits.semaphore
+  }
+
+  const coreLimits = (session: Session) => session.capabilities[CapabilityUris.CORE] ?? {}
+
+  const tooLarge = (maxSizeUpload: number) =>
+    Errors.blob(`Upload exceeds the server limit of ${maxSizeUpload} bytes`, 'tooLarge', 413)
+
+  const readBody = (response: HttpClientResponse.HttpClientResponse) =>
+    response.text.pipe(
+      Effect.catchAll(() => Effect.fail(Errors.network('Failed to read response body')))
+    )
+
+  const upload: BlobService['upload'] = (accountId, data, options) =>
+    Effect.gen(function* () {
+      const client = yield* JMAPClientService
+      const session = yield* client.getSession
+      const { maxSizeUpload, maxConcurrentUpload } = coreLimits(session)
+
+      if (maxSizeUpload !== undefined && options.size !== undefined && options.size > maxSizeUpload) {
+        return yield* Effect.fail(tooLarge(maxSizeUpload))
+      }
+
+      // Without a known size the limit is enforced while streaming. The client
+      // reports a failed body as a NetworkError, so the overflow is kept to
+      // fail with instead.
+      const overflow = yield* Deferred.make<never, BlobError>()
+      const body = maxSizeUpload === undefined
+        ? data
+        : data.pipe(
+            Stream.mapAccumEffect(0, (sent, chunk): Effect.Effect<readonly [number, Uint8Array], BlobError> =>
+              sent + chunk.length > maxSizeUpload
+                ? Effect.zipRight(Deferred.fail(overflow, tooLarge(maxSizeUpload)), Deferred.await(overflow))
+                : Effect.succeed([sent + chunk.length, chunk])
+            )
+          )
+
+      const request = HttpClientRequest.post(expandUrlTemplate(session.uploadUrl, { accountId })).pipe(
+        HttpClientRequest.setBody(HttpBody.stream(body, options.type, options.size))
+      )
+
+      const send = client.execute(request).pipe(
+        Effect.catchTag('NetworkError', (error): Effect.Effect<never, NetworkError | BlobError> =>
+          Effect.flatMap(Deferred.isDone(overflow), (overflowed) =>
+            overflowed ? Deferred.await(overflow) : Effect.fail<NetworkError | BlobError>(error)
+          )
+        )
+      )
+
+      const response = yield* (maxConcurrentUpload === undefined ? send : permitsFor(maxConcurrentUpload).withPermits(1)(send))
+
+      if (response.status === 413) {
+        return yield* Effect.fail(Errors.blob('Upload rejected as too large', 'tooLarge', 413))
+      }
+
+      const text = yield* readBody(response)
+
+      if (response.status !== 200 && response.status !== 201) {
+        return yield* Effect.fail(Errors.blob(`Upload failed with HTTP ${response.status}: ${text}`, 'rejected', response.status))
+      }
+
+      return yield* Schema.decodeUnknown(Schema.parseJson(BlobUploadResponse))(text).pipe(
+        Effect.catchAll(error =>
+          Effect.fail(Errors.network('Invalid upload response format', error))
+        )
+      )
+    })
+
+  const download: BlobService['download'] = (accountId, blobId, options = {}) =>
+    Stream.unwrap(
+      Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        const session = yield* client.getSession
+
+        const url = expandUrlTemplate(session.downloadUrl, {
+          accountId,
+          blobId,
+          name: options.name ?? blobId,
+          type: options.type ?? 'application/octet-stream'
+        })
+        const response = yield* client.execute(HttpClientRequest.get(url))
+
+        if (response.status === 404) {
+          return yield* Effect.fail(Errors.blob(`Blob ${blobId} not found`, 'notFound', 404))
+        }
+
+        if (response.status !== 200) {
+          return yield* Effect.fail(Errors.blob(`Download failed with HTTP ${response.status}`, 'rejected', response.status))
+        }
+
+        return response.stream.pipe(
+          Stream.mapError(error => Errors.network(`Failed to read blob ${blobId}`, error))
+        )
+      })
+    )
+
+  return {
+    upload,
+    download
+  }
+}
+
+/**
+ * Live layer for Blob Service
+ */
+export const BlobServiceLive = Layer.succeed(BlobService, makeBlobServiceLive())
+
+/**
+ * Convenience functions for in-memory blobs
+ */
+export const BlobOperations = {
+  /**
+   * Upload a byte array or string
+   */
+  uploadBytes: (accountId: string, data: Uint8Array | string, type: string) =>
+    Effect.gen(function* () {
+      const service = yield* BlobService
+      const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+      return yield* service.upload(accountId, Stream.make(bytes), { type, size: bytes.length })
+    }),
+
+  /**
+   * Download a blob into a single byte array
+   */
+  downloadBytes: (accountId: string, blobId: string, options?: BlobDownloadOptions) =>
+    Effect.gen(function* () {
+      const service = yield* BlobService
+      const chunks = yield* Stream.runCollect(service.download(accountId, blobId, options))
+      const bytes = new Uint8Array(Array.from(chunks).reduce((total, chunk) => total + chunk.length, 0))
+      let offset = 0
+      for (const chunk of chunks) {
+        bytes.set(chunk, offset)
+        offset += chunk.length
+      }
+      return bytes
+    })
+}
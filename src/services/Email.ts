@@ -1,17 +1,24 @@
 import { Context, Effect, Layer } from "effect";
 import { HttpClient } from "@effect/platform";
 
-import { JMAPClientService } from "../core/JMAPClient.ts";
 import type { JMAPClientInterface } from "../core/JMAPClient.ts";
-import { Invocation } from "../core/Types.ts";
 import {
   JMAPMethodError,
   NetworkError,
   AuthenticationError,
   SessionError,
+  ConfigurationError,
 } from "../core/Errors.ts";
-import { extractMethodResponse } from "../core/ResponseUtils.ts";
-import { BodyUtils } from "../core/EmailUtils.ts";
+import { collectChanges } from "../core/ChangesUtils.ts";
+import {
+  makeRequestBuilder,
+  callMethod,
+  ResultPaths,
+  type ReferenceArguments,
+} from "../core/RequestBuilder.ts";
+import { AttachmentUtils } from "../core/EmailUtils.ts";
+import { EmailPatch } from "../core/Patch.ts";
+import { type Draft, buildDraft } from "../core/Draft.ts";
 import { updateFilter } from "../core/TypeUtils.ts";
 import {
   Email as EmailType,
@@ -19,6 +26,8 @@ import {
   EmailGetResponse,
   EmailSetArguments,
   EmailSetResponse,
+  EmailChangesArguments,
+  EmailChangesResponse,
   EmailQueryArguments,
   EmailQueryResponse,
   EmailQueryChangesArguments,
@@ -27,14 +36,45 @@ import {
   EmailCopyResponse,
   EmailImportArguments,
   EmailImportResponse,
-  EmailMutable,
+  EmailParseArguments,
+  EmailParseResponse,
+  type EmailParsed,
+  type EmailAttachment,
+  EmailCreated,
   EmailFilterCondition,
-  EmailHelpers,
   StandardProperties,
 } from "../schemas/Email.ts";
-import { Id, Common, Keywords, StandardKeywords } from "../schemas/Common.ts";
+import {
+  type SearchSnippet,
+  SearchSnippetGetArguments,
+  SearchSnippetGetResponse,
+} from "../schemas/SearchSnippet.ts";
+import {
+  Id,
+  Common,
+  type PatchObject,
+  StandardKeywords,
+} from "../schemas/Common.ts";
+import { ThreadService, ThreadServiceLive } from "./Thread.ts";
+import { MailboxOperations } from "./Mailbox.ts";
 import * as Schema from "effect/Schema";
 
+/**
+ * An email found by a search, with the snippet showing why it matched
+ */
+export interface EmailSearchResult {
+  readonly email: EmailType;
+  readonly snippet: SearchSnippet;
+}
+
+/**
+ * A message attached to an email, parsed with Email/parse
+ */
+export interface AttachedEmail {
+  readonly attachment: EmailAttachment;
+  readonly email: EmailParsed;
+}
+
 /**
  * Email Service Interface
  */
@@ -46,7 +86,7 @@ export interface EmailService {
     args: EmailGetArguments,
   ) => Effect.Effect<
     Schema.Schema.Type<typeof EmailGetResponse>,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -57,7 +97,18 @@ export interface EmailService {
     args: EmailSetArguments,
   ) => Effect.Effect<
     Schema.Schema.Type<typeof EmailSetResponse>,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >;
+
+  /**
+   * Get email changes since a known state
+   */
+  readonly changes: (
+    args: EmailChangesArguments,
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof EmailChangesResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -68,7 +119,7 @@ export interface EmailService {
     args: EmailQueryArguments,
   ) => Effect.Effect<
     Schema.Schema.Type<typeof EmailQueryResponse>,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -79,7 +130,7 @@ export interface EmailService {
     args: EmailQueryChangesArguments,
   ) => Effect.Effect<
     Schema.Schema.Type<typeof EmailQueryChangesResponse>,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -90,7 +141,7 @@ export interface EmailService {
     args: EmailCopyArguments,
   ) => Effect.Effect<
     EmailCopyResponse,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -101,7 +152,44 @@ export interface EmailService {
     args: EmailImportArguments,
   ) => Effect.Effect<
     EmailImportResponse,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >;
+
+  /**
+   * Parse blobs holding raw messages, such as message/rfc822 attachments
+   */
+  readonly parse: (
+    args: EmailParseArguments,
+  ) => Effect.Effect<
+    EmailParseResponse,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >;
+
+  /**
+   * Parse every message/rfc822 attachment of an email in one Email/parse
+   * call. Text and HTML body values are fetched unless the options say
+   * otherwise; attachments the server cannot parse are left out.
+   */
+  readonly parseAttachedEmails: (
+    accountId: string,
+    email: Pick<EmailType, "attachments">,
+    options?: Omit<EmailParseArguments, "accountId" | "blobIds">,
+  ) => Effect.Effect<
+    readonly AttachedEmail[],
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >;
+
+  /**
+   * Get search snippets highlighting why emails matched a filter
+   */
+  readonly getSearchSnippets: (
+    args: SearchSnippetGetArguments,
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof SearchSnippetGetResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -118,12 +206,13 @@ export interface EmailService {
     },
   ) => Effect.Effect<
     readonly EmailType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
   /**
-   * Search emails by text
+   * Search emails by text, pairing each with its highlighted subject and
+   * preview. Email/query, Email/get and SearchSnippet/get go in one request.
    */
   readonly search: (
     accountId: string,
@@ -134,8 +223,21 @@ export interface EmailService {
       properties?: string[];
     },
   ) => Effect.Effect<
-    readonly EmailType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    readonly EmailSearchResult[],
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >;
+
+  /**
+   * Compose a draft and store it in a mailbox, normally Drafts
+   */
+  readonly createDraft: (
+    accountId: string,
+    mailboxId: Id,
+    draft: Draft,
+  ) => Effect.Effect<
+    EmailCreated,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -148,7 +250,26 @@ export interface EmailService {
     limit?: number,
   ) => Effect.Effect<
     readonly EmailType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >;
+
+  /**
+   * Get one page of changes together with the created and updated emails,
+   * in a single Email/changes → Email/get request. Continue from
+   * changes.newState while changes.hasMoreChanges is true.
+   */
+  readonly syncChanges: (
+    accountId: string,
+    sinceState: string,
+    properties?: ReadonlyArray<string>,
+  ) => Effect.Effect<
+    {
+      readonly changes: EmailChangesResponse;
+      readonly created: EmailGetResponse["list"];
+      readonly updated: EmailGetResponse["list"];
+    },
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -161,7 +282,7 @@ export interface EmailService {
     read: boolean,
   ) => Effect.Effect<
     readonly EmailType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -174,7 +295,7 @@ export interface EmailService {
     flagged: boolean,
   ) => Effect.Effect<
     readonly EmailType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -188,7 +309,7 @@ export interface EmailService {
     toMailboxId: Id,
   ) => Effect.Effect<
     readonly EmailType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -202,7 +323,7 @@ export interface EmailService {
     keywordsToRemove: string[],
   ) => Effect.Effect<
     readonly EmailType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -215,7 +336,7 @@ export interface EmailService {
     maxBodyValueBytes?: number,
   ) => Effect.Effect<
     readonly EmailType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 
@@ -228,7 +349,7 @@ export interface EmailService {
     maxBodyValueBytes?: number,
   ) => Effect.Effect<
     EmailType | null,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >;
 }
@@ -243,99 +364,82 @@ export const EmailService = Context.GenericTag<EmailService>("EmailService");
  */
 const makeEmailServiceLive = (): EmailService => {
   const get: EmailService["get"] = (args) =>
-    Effect.gen(function* () {
-      const client = yield* JMAPClientService;
-      const callId = `email-get-${Date.now()}`;
-
-      const methodCall: Invocation = ["Email/get", args, callId];
-
-      const response = yield* client.batch([methodCall]);
-      return yield* extractMethodResponse(
-        response,
-        "Email/get",
-        callId,
-        EmailGetResponse,
-      );
-    });
+    callMethod("Email/get", args, EmailGetResponse);
 
   const set: EmailService["set"] = (args) =>
-    Effect.gen(function* () {
-      const client = yield* JMAPClientService;
-      const callId = `email-set-${Date.now()}`;
+    callMethod("Email/set", args, EmailSetResponse);
 
-      const methodCall: Invocation = ["Email/set", args, callId];
-
-      const response = yield* client.batch([methodCall]);
-      return yield* extractMethodResponse(
-        response,
-        "Email/set",
-        callId,
-        EmailSetResponse,
-      );
-    });
+  const changes: EmailService["changes"] = (args) =>
+    callMethod("Email/changes", args, EmailChangesResponse);
 
   const query: EmailService["query"] = (args) =>
-    Effect.gen(function* () {
-      const client = yield* JMAPClientService;
-      const callId = `email-query-${Date.now()}`;
-
-      const methodCall: Invocation = ["Email/query", args, callId];
-
-      const response = yield* client.batch([methodCall]);
-      return yield* extractMethodResponse(
-        response,
-        "Email/query",
-        callId,
-        EmailQueryResponse,
-      );
-    });
+    callMethod("Email/query", args, EmailQueryResponse);
 
   const queryChanges: EmailService["queryChanges"] = (args) =>
-    Effect.gen(function* () {
-      const client = yield* JMAPClientService;
-      const callId = `email-queryChanges-${Date.now()}`;
+    callMethod("Email/queryChanges", args, EmailQueryChangesResponse);
 
-      const methodCall: Invocation = ["Email/queryChanges", args, callId];
+  const copy: EmailService["copy"] = (args) =>
+    callMethod("Email/copy", args, EmailCopyResponse);
 
-      const response = yield* client.batch([methodCall]);
-      return yield* extractMethodResponse(
-        response,
-        "Email/queryChanges",
-        callId,
-        EmailQueryChangesResponse,
-      );
-    });
+  const emailImport: EmailService["import"] = (args) =>
+    callMethod("Email/import", args, EmailImportResponse);
 
-  const copy: EmailService["copy"] = (args) =>
+  const parse: EmailService["parse"] = (args) =>
+    callMethod("Email/parse", args, EmailParseResponse);
+
+  const parseAttachedEmails: EmailService["parseAttachedEmails"] = (
+    accountId,
+    email,
+    options = {},
+  ) =>
     Effect.gen(function* () {
-      const client = yield* JMAPClientService;
-      const callId = `email-copy-${Date.now()}`;
+      const attachments = AttachmentUtils.getMessages(email.attachments ?? []);
+      if (attachments.length === 0) {
+        return [];
+      }
 
-      const methodCall: Invocation = ["Email/copy", args, callId];
+      const result = yield* parse({
+        accountId,
+        blobIds: Array.from(new Set(attachments.map((attachment) => attachment.blobId))),
+        fetchTextBodyValues: true,
+        fetchHTMLBodyValues: true,
+        ...options,
+      });
 
-      const response = yield* client.batch([methodCall]);
-      return yield* extractMethodResponse(
-        response,
-        "Email/copy",
-        callId,
-        EmailCopyResponse,
-      );
+      return attachments.flatMap((attachment) => {
+        const parsed = result.parsed?.[attachment.blobId];
+        return parsed ? [{ attachment, email: parsed }] : [];
+      });
     });
 
-  const emailImport: EmailService["import"] = (args) =>
+  const getSearchSnippets: EmailService["getSearchSnippets"] = (args) =>
+    callMethod("SearchSnippet/get", args, SearchSnippetGetResponse);
+
+  /**
+   * Run Email/query and an Email/get of its ids in a single request
+   */
+  const queryAndGet = (
+    queryArgs: EmailQueryArguments,
+    properties?: ReadonlyArray<string>,
+  ) =>
     Effect.gen(function* () {
-      const client = yield* JMAPClientService;
-      const callId = `email-import-${Date.now()}`;
+      const request = makeRequestBuilder();
+      const queryCall = request.call(
+        "Email/query",
+        queryArgs,
+        EmailQueryResponse,
+      );
 
-      const methodCall: Invocation = ["Email/import", args, callId];
+      const getArgs: ReferenceArguments<EmailGetArguments, "ids"> = {
+        accountId: queryArgs.accountId,
+        "#ids": queryCall.ref(ResultPaths.IDS),
+        properties,
+      };
+      const getCall = request.call("Email/get", getArgs, EmailGetResponse);
 
-      const response = yield* client.batch([methodCall]);
-      return yield* extractMethodResponse(
-        response,
-        "Email/import",
-        callId,
-        EmailImportResponse,
-      );
+      const [getResult] = yield* request.execute([getCall]);
+
+      return getResult.list.filter((email): email is EmailType => email.blobId != null);
     });
 
   const getByMailbox: EmailService["getByMailbox"] = (
@@ -343,8 +447,8 @@ const makeEmailServiceLive = (): EmailService => {
     mailboxId,
     options = {},
   ) =>
-    Effect.gen(function* () {
-      const queryResult = yield* query({
+    queryAndGet(
+      {
         accountId,
         filter: {
           inMailbox: mailboxId,
@@ -353,20 +457,9 @@ const makeEmailServiceLive = (): EmailService => {
         limit: options.limit
           ? Common.createUnsignedInt(options.limit)
           : undefined,
-      });
-
-      if (queryResult.ids.length === 0) {
-        return [];
-      }
-
-      const getResult = yield* get({
-        accountId,
-        ids: queryResult.ids,
-        properties: options.properties,
-      });
-
-      return getResult.list.filter((email): email is EmailType => email.blobId != null);
-    });
+      },
+      options.properties,
+    );
 
   const search: EmailService["search"] = (
     accountId,
@@ -382,67 +475,147 @@ const makeEmailServiceLive = (): EmailService => {
         filter = updateFilter(filter, { inMailbox: options.mailboxId });
       }
 
-      const queryResult = yield* query({
+      const request = makeRequestBuilder();
+      const queryCall = request.call(
+        "Email/query",
+        {
+          accountId,
+          filter,
+          limit: options.limit
+            ? Common.createUnsignedInt(options.limit)
+            : undefined,
+        },
+        EmailQueryResponse,
+      );
+
+      const getArgs: ReferenceArguments<EmailGetArguments, "ids"> = {
+        accountId,
+        "#ids": queryCall.ref(ResultPaths.IDS),
+        properties: options.properties,
+      };
+      const getCall = request.call("Email/get", getArgs, EmailGetResponse);
+
+      // Snippets must be computed with the same filter the emails matched
+      const snippetArgs: ReferenceArguments<SearchSnippetGetArguments, "emailIds"> = {
         accountId,
         filter,
-        limit: options.limit
-          ? Common.createUnsignedInt(options.limit)
-          : undefined,
-      });
+        "#emailIds": queryCall.ref(ResultPaths.IDS),
+      };
+      const snippetCall = request.call(
+        "SearchSnippet/get",
+        snippetArgs,
+        SearchSnippetGetResponse,
+      );
 
-      if (queryResult.ids.length === 0) {
-        return [];
-      }
+      const [getResult, snippetResult] = yield* request.execute([getCall, snippetCall]);
 
-      const getResult = yield* get({
-        accountId,
-        ids: queryResult.ids,
-        properties: options.properties,
-      });
+      const snippets = new Map(
+        snippetResult.list.map((snippet) => [snippet.emailId, snippet]),
+      );
 
-      return getResult.list.filter((email): email is EmailType => email.blobId != null);
+      return getResult.list
+        .filter((email): email is EmailType => email.blobId != null)
+        .map((email) => ({
+          email,
+          snippet: snippets.get(email.id) ?? {
+            emailId: email.id,
+            subject: null,
+            preview: null,
+          },
+        }));
     });
 
-  const getUnread: EmailService["getUnread"] = (accountId, mailboxId, limit) =>
+  const createDraft: EmailService["createDraft"] = (accountId, mailboxId, draft) =>
     Effect.gen(function* () {
-      let filter: EmailFilterCondition = {
-        notKeyword: StandardKeywords.SEEN,
-      };
+      const creationId = "draft";
 
-      if (mailboxId) {
-        filter = updateFilter(filter, { inMailbox: mailboxId });
+      const result = yield* set({
+        accountId,
+        create: {
+          [creationId]: buildDraft(draft, mailboxId),
+        },
+      });
+
+      const created = result.created?.[creationId];
+      if (!created) {
+        const error = result.notCreated?.[creationId] || { type: "serverFail", description: "Unknown error creating draft" };
+        return yield* Effect.fail(
+          JMAPMethodError.fromMethodError(error, `create-${creationId}`),
+        );
       }
 
-      const queryResult = yield* query({
+      return created;
+    });
+
+  const getUnread: EmailService["getUnread"] = (accountId, mailboxId, limit) => {
+    let filter: EmailFilterCondition = {
+      notKeyword: StandardKeywords.SEEN,
+    };
+
+    if (mailboxId) {
+      filter = updateFilter(filter, { inMailbox: mailboxId });
+    }
+
+    return queryAndGet(
+      {
         accountId,
         filter,
         sort: [{ property: "receivedAt", isAscending: false }],
         limit: limit ? Common.createUnsignedInt(limit) : undefined,
-      });
+      },
+      StandardProperties.METADATA,
+    );
+  };
 
-      if (queryResult.ids.length === 0) {
-        return [];
-      }
+  const syncChanges: EmailService["syncChanges"] = (
+    accountId,
+    sinceState,
+    properties,
+  ) =>
+    Effect.gen(function* () {
+      const request = makeRequestBuilder();
+      const changesCall = request.call(
+        "Email/changes",
+        { accountId, sinceState },
+        EmailChangesResponse,
+      );
 
-      const getResult = yield* get({
+      const createdArgs: ReferenceArguments<EmailGetArguments, "ids"> = {
         accountId,
-        ids: queryResult.ids,
-        properties: StandardProperties.METADATA,
+        "#ids": changesCall.ref(ResultPaths.CREATED),
+        properties,
+      };
+      const createdCall = request.call("Email/get", createdArgs, EmailGetResponse);
+
+      const updatedArgs: ReferenceArguments<EmailGetArguments, "ids"> = {
+        accountId,
+        "#ids": changesCall.ref(ResultPaths.UPDATED),
+        properties,
+      };
+      const updatedCall = request.call("Email/get", updatedArgs, EmailGetResponse);
+
+      const results = yield* request.execute({
+        changes: changesCall,
+        created: createdCall,
+        updated: updatedCall,
       });
 
-      return getResult.list.filter((email): email is EmailType => email.blobId != null);
+      return {
+        changes: results.changes,
+        created: results.created.list,
+        updated: results.updated.list,
+      };
     });
 
   const markRead: EmailService["markRead"] = (accountId, emailIds, read) =>
     Effect.gen(function* () {
-      const updates: Record<Id, Partial<EmailMutable>> = {};
+      const updates: Record<Id, PatchObject> = {};
+      const patch = read
+        ? EmailPatch.keywords([StandardKeywords.SEEN])
+        : EmailPatch.keywords([], [StandardKeywords.SEEN]);
 
       for (const emailId of emailIds) {
-        const keywords = read
-          ? { [StandardKeywords.SEEN]: true }
-          : { [StandardKeywords.SEEN]: false };
-
-        updates[emailId] = { keywords };
+        updates[emailId] = patch;
       }
 
       const result = yield* set({
@@ -465,14 +638,13 @@ const makeEmailServiceLive = (): EmailService => {
 
   const flag: EmailService["flag"] = (accountId, emailIds, flagged) =>
     Effect.gen(function* () {
-      const updates: Record<Id, Partial<EmailMutable>> = {};
+      const updates: Record<Id, PatchObject> = {};
+      const patch = flagged
+        ? EmailPatch.keywords([StandardKeywords.FLAGGED])
+        : EmailPatch.keywords([], [StandardKeywords.FLAGGED]);
 
       for (const emailId of emailIds) {
-        const keywords = flagged
-          ? EmailHelpers.createKeywords([StandardKeywords.FLAGGED])
-          : { [StandardKeywords.FLAGGED]: false };
-
-        updates[emailId] = { keywords };
+        updates[emailId] = patch;
       }
 
       const result = yield* set({
@@ -499,15 +671,11 @@ const makeEmailServiceLive = (): EmailService => {
     toMailboxId,
   ) =>
     Effect.gen(function* () {
-      const updates: Record<Id, Partial<EmailMutable>> = {};
+      const updates: Record<Id, PatchObject> = {};
+      const patch = EmailPatch.mailboxes([toMailboxId], [fromMailboxId]);
 
       for (const emailId of emailIds) {
-        updates[emailId] = {
-          mailboxIds: {
-            [fromMailboxId]: false,
-            [toMailboxId]: true,
-          },
-        };
+        updates[emailId] = patch;
       }
 
       const result = yield* set({
@@ -534,22 +702,12 @@ const makeEmailServiceLive = (): EmailService => {
     keywordsToRemove,
   ) =>
     Effect.gen(function* () {
-      const updates: Record<Id, Partial<EmailMutable>> = {};
+      const updates: Record<Id, PatchObject> = {};
+      // A keyword both added and removed ends up removed
+      const patch = EmailPatch.keywords(keywordsToAdd, keywordsToRemove);
 
       for (const emailId of emailIds) {
-        let keywords: Keywords = {};
-
-        // Add keywords
-        for (const keyword of keywordsToAdd) {
-          keywords = BodyUtils.addKeyword(keywords, keyword);
-        }
-
-        // Remove keywords
-        for (const keyword of keywordsToRemove) {
-          keywords = BodyUtils.removeKeyword(keywords, keyword);
-        }
-
-        updates[emailId] = { keywords };
+        updates[emailId] = patch;
       }
 
       const result = yield* set({
@@ -606,13 +764,19 @@ const makeEmailServiceLive = (): EmailService => {
   return {
     get,
     set,
+    changes,
     query,
     queryChanges,
     copy,
     import: emailImport,
+    parse,
+    parseAttachedEmails,
+    getSearchSnippets,
     getByMailbox,
     search,
+    createDraft,
     getUnread,
+    syncChanges,
     markRead,
     flag,
     move,
@@ -685,34 +849,52 @@ export const EmailOperations = {
     }),
 
   /**
-   * Get email thread
+   * Get every email change since a known state, following hasMoreChanges
    */
-  getEmailThread: (accountId: string, threadId: Id) =>
+  getAllChanges: (accountId: string, sinceState: string, maxChanges?: number) =>
     Effect.gen(function* () {
       const service = yield* EmailService;
-      const queryResult = yield* service.query({
-        accountId,
-        filter: {
-          // Note: JMAP doesn't have a direct threadId filter
-          // This would typically be done through Thread/get method
-          // For now, we'll use a text search as placeholder
-        },
-        sort: [{ property: "receivedAt", isAscending: true }],
-      });
+      return yield* collectChanges(
+        (state) =>
+          service.changes({
+            accountId,
+            sinceState: state,
+            maxChanges: maxChanges
+              ? Common.createUnsignedInt(maxChanges)
+              : undefined,
+          }),
+        sinceState,
+      );
+    }),
 
-      if (queryResult.ids.length === 0) {
-        return [];
-      }
+  /**
+   * Compose a draft and store it in the Drafts mailbox
+   */
+  saveDraft: (accountId: string, draft: Draft) =>
+    Effect.gen(function* () {
+      const service = yield* EmailService;
+      const drafts = yield* MailboxOperations.getDrafts(accountId);
 
-      const getResult = yield* service.get({
-        accountId,
-        ids: queryResult.ids,
-      });
+      if (!drafts) {
+        return yield* Effect.fail(
+          JMAPMethodError.fromMethodError({ type: "notFound", description: "Account has no Drafts mailbox" }),
+        );
+      }
 
-      // Filter by threadId (this should be done server-side in real implementation)
-      return getResult.list.filter((email) => email.threadId === threadId);
+      return yield* service.createDraft(accountId, drafts.id, draft);
     }),
 
+  /**
+   * Get email thread
+   *
+   * Needs only the client: the thread service is provided here
+   */
+  getEmailThread: (accountId: string, threadId: Id) =>
+    Effect.gen(function* () {
+      const threads = yield* ThreadService;
+      return yield* threads.getEmails(accountId, threadId);
+    }).pipe(Effect.provide(ThreadServiceLive)),
+
   /**
    * Mark all emails in mailbox as read
    */
@@ -748,25 +930,14 @@ export const EmailOperations = {
         properties: ["id", "mailboxIds"],
       });
 
-      const updates: Record<Id, Partial<EmailMutable>> = {};
+      const updates: Record<Id, PatchObject> = {};
 
       for (const email of getResult.list) {
-        // Remove from current mailboxes and add to trash
-        const newMailboxIds: Record<Id, boolean> = {};
-
-        // Remove from all current mailboxes
-        if (email.mailboxIds) {
-          for (const mailboxId of Object.keys(email.mailboxIds)) {
-            if (email.mailboxIds[mailboxId as Id]) {
-              newMailboxIds[mailboxId as Id] = false;
-            }
-          }
-        }
-
-        // Add to trash
-        newMailboxIds[trashMailboxId] = true;
-
-        updates[email.id] = { mailboxIds: newMailboxIds };
+        // Leave every current mailbox and join the trash
+        const current = Object.keys(email.mailboxIds ?? {}).filter(
+          (mailboxId) => mailboxId !== trashMailboxId,
+        );
+        updates[email.id] = EmailPatch.mailboxes([trashMailboxId], current);
       }
 
       const result = yield* service.set({
@@ -800,24 +971,14 @@ export const EmailOperations = {
         properties: ["id", "mailboxIds"],
       });
 
-      const updates: Record<Id, Partial<EmailMutable>> = {};
+      const updates: Record<Id, PatchObject> = {};
 
       for (const email of getResult.list) {
-        const newMailboxIds: Record<Id, boolean> = {};
-
-        // Remove from current mailboxes
-        if (email.mailboxIds) {
-          for (const mailboxId of Object.keys(email.mailboxIds)) {
-            if (email.mailboxIds[mailboxId as Id]) {
-              newMailboxIds[mailboxId as Id] = false;
-            }
-          }
-        }
-
-        // Add to archive
-        newMailboxIds[archiveMailboxId] = true;
-
-        updates[email.id] = { mailboxIds: newMailboxIds };
+        // Leave every current mailbox and join the archive
+        const current = Object.keys(email.mailboxIds ?? {}).filter(
+          (mailboxId) => mailboxId !== archiveMailboxId,
+        );
+        updates[email.id] = EmailPatch.mailboxes([archiveMailboxId], current);
       }
 
       const result = yield* service.set({
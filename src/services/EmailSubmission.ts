@@ -0,0 +1,283 @@
+import { Context, Effect, Layer } from 'effect'
+import { HttpClient } from '@effect/platform'
+import type { JMAPClientInterface } from '../core/JMAPClient.ts'
+import { JMAPMethodError, NetworkError, AuthenticationError, SessionError, ConfigurationError } from '../core/Errors.ts'
+import { makeRequestBuilder, callMethod, decodeResult, ResultPaths, type ReferenceArguments } from '../core/RequestBuilder.ts'
+import { extractMethodResponse } from '../core/ResponseUtils.ts'
+import { EmailPatch } from '../core/Patch.ts'
+import {
+  type PartialEmailSubmission,
+  type EmailSubmissionCreate,
+  EmailSubmissionGetArguments,
+  EmailSubmissionGetResponse,
+  EmailSubmissionSetArguments,
+  EmailSubmissionSetResponse,
+  EmailSubmissionChangesArguments,
+  EmailSubmissionChangesResponse,
+  EmailSubmissionQueryArguments,
+  EmailSubmissionQueryResponse,
+  EmailSubmissionQueryChangesArguments,
+  EmailSubmissionQueryChangesResponse
+} from '../schemas/EmailSubmission.ts'
+import { EmailSetResponse } from '../schemas/Email.ts'
+import { Id, StandardKeywords } from '../schemas/Common.ts'
+import { MailboxOperations } from './Mailbox.ts'
+import * as Schema from 'effect/Schema'
+
+/**
+ * What happens to the email once its submission succeeds
+ */
+export interface SendOptions {
+  /**
+   * Move the email to this mailbox (normally the Sent mailbox)
+   */
+  readonly sentMailboxId?: Id
+
+  /**
+   * Destroy the email instead of keeping it
+   */
+  readonly destroyEmail?: boolean
+}
+
+/**
+ * Outcome of sending an email
+ */
+export interface SendResult {
+  readonly submission: PartialEmailSubmission
+
+  /**
+   * The implicit Email/set the server ran for onSuccessUpdateEmail or
+   * onSuccessDestroyEmail, null if the server did not report one
+   */
+  readonly emailUpdate: EmailSetResponse | null
+}
+
+/**
+ * EmailSubmission Service Interface
+ */
+export interface EmailSubmissionService {
+  /**
+   * Get email submissions by ID
+   */
+  readonly get: (
+    args: EmailSubmissionGetArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof EmailSubmissionGetResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get email submission changes since a known state
+   */
+  readonly changes: (
+    args: EmailSubmissionChangesArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof EmailSubmissionChangesResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Query email submissions with filters and sorting
+   */
+  readonly query: (
+    args: EmailSubmissionQueryArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof EmailSubmissionQueryResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get query result changes since a known query state
+   */
+  readonly queryChanges: (
+    args: EmailSubmissionQueryChangesArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof EmailSubmissionQueryChangesResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Create, cancel, or destroy email submissions
+   */
+  readonly set: (
+    args: EmailSubmissionSetArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof EmailSubmissionSetResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Submit an email for delivery. On success the server atomically removes
+   * the $draft keyword and moves it to sentMailboxId, or destroys it.
+   */
+  readonly send: (
+    accountId: string,
+    submission: EmailSubmissionCreate,
+    options?: SendOptions
+  ) => Effect.Effect<
+    SendResult,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Undo-send: cancel a submission whose undoStatus is still "pending"
+   */
+  readonly cancel: (
+    accountId: string,
+    submissionId: Id
+  ) => Effect.Effect<
+    PartialEmailSubmission | null,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+}
+
+/**
+ * EmailSubmission Service Tag
+ */
+export const EmailSubmissionService = Context.GenericTag<EmailSubmissionService>('EmailSubmissionService')
+
+/**
+ * Live implementation of EmailSubmission Service
+ */
+const makeEmailSubmissionServiceLive = (): EmailSubmissionService => {
+
+  const get: EmailSubmissionService['get'] = (args) =>
+    callMethod('EmailSubmission/get', args, EmailSubmissionGetResponse)
+
+  const changes: EmailSubmissionService['changes'] = (args) =>
+    callMethod('EmailSubmission/changes', args, EmailSubmissionChangesResponse)
+
+  const query: EmailSubmissionService['query'] = (args) =>
+    callMethod('EmailSubmission/query', args, EmailSubmissionQueryResponse)
+
+  const queryChanges: EmailSubmissionService['queryChanges'] = (args) =>
+    callMethod('EmailSubmission/queryChanges', args, EmailSubmissionQueryChangesResponse)
+
+  const set: EmailSubmissionService['set'] = (args) =>
+    callMethod('EmailSubmission/set', args, EmailSubmissionSetResponse)
+
+  const send: EmailSubmissionService['send'] = (accountId, submission, options = {}) =>
+    Effect.gen(function* () {
+      const creationId = 'send'
+      const createdRef = `#${creationId}`
+
+      const args: EmailSubmissionSetArguments = {
+        accountId,
+        create: { [creationId]: submission },
+        ...(options.destroyEmail
+          ? { onSuccessDestroyEmail: [createdRef] }
+          : {
+              onSuccessUpdateEmail: {
+                // The sent copy leaves every other mailbox for sentMailboxId
+                [createdRef]: (options.sentMailboxId === undefined
+                  ? EmailPatch.builder()
+                  : EmailPatch.builder().set('mailboxIds', { [options.sentMailboxId]: true })
+                ).setEntry('keywords', StandardKeywords.DRAFT, null).build()
+              }
+            })
+      }
+
+      const request = makeRequestBuilder()
+      const submissionCall = request.call('EmailSubmission/set', args, EmailSubmissionSetResponse)
+      const response = yield* request.send
+      const result = yield* decodeResult(response, submissionCall)
+
+      const created = result.created?.[creationId]
+      if (!created) {
+        const error = result.notCreated?.[creationId] || { type: 'serverFail', description: 'Unknown error creating submission' }
+        return yield* Effect.fail(
+          JMAPMethodError.fromMethodError(error, submissionCall.callId)
+        )
+      }
+
+      // The implicit Email/set shares the call id of the EmailSubmission/set
+      const hasEmailUpdate = response.methodResponses.some(
+        ([name, , callId]) => name === 'Email/set' && callId === submissionCall.callId
+      )
+      const emailUpdate = hasEmailUpdate
+        ? yield* extractMethodResponse(response, 'Email/set', submissionCall.callId, EmailSetResponse)
+        : null
+
+      return { submission: created, emailUpdate }
+    })
+
+  const cancel: EmailSubmissionService['cancel'] = (accountId, submissionId) =>
+    Effect.gen(function* () {
+      const result = yield* set({
+        accountId,
+        update: {
+          [submissionId]: { undoStatus: 'canceled' }
+        }
+      })
+
+      if (result.notUpdated && result.notUpdated[submissionId]) {
+        const error = result.notUpdated[submissionId]
+        yield* Effect.fail(
+          JMAPMethodError.fromMethodError(error, `update-${submissionId}`)
+        )
+      }
+
+      return result.updated?.[submissionId] || null
+    })
+
+  return {
+    get,
+    changes,
+    query,
+    queryChanges,
+    set,
+    send,
+    cancel
+  }
+}
+
+/**
+ * Live layer for EmailSubmission Service
+ */
+export const EmailSubmissionServiceLive = Layer.succeed(EmailSubmissionService, makeEmailSubmissionServiceLive())
+
+/**
+ * Convenience functions for sending mail
+ */
+export const EmailSubmissionOperations = {
+  /**
+   * Send a draft and file it in the Sent mailbox
+   */
+  sendDraft: (accountId: string, identityId: Id, emailId: Id) =>
+    Effect.gen(function* () {
+      const service = yield* EmailSubmissionService
+      const sent = yield* MailboxOperations.getSent(accountId)
+      return yield* service.send(
+        accountId,
+        { identityId, emailId },
+        sent ? { sentMailboxId: sent.id } : {}
+      )
+    }),
+
+  /**
+   * Get the submissions that can still be canceled, with EmailSubmission/query
+   * and an EmailSubmission/get of its ids in a single request
+   */
+  getPending: (accountId: string) =>
+    Effect.gen(function* () {
+      const request = makeRequestBuilder()
+      const queryArgs: EmailSubmissionQueryArguments = { accountId, filter: { undoStatus: 'pending' } }
+      const queryCall = request.call('EmailSubmission/query', queryArgs, EmailSubmissionQueryResponse)
+
+      const getArgs: ReferenceArguments<EmailSubmissionGetArguments, 'ids'> = {
+        accountId,
+        '#ids': queryCall.ref(ResultPaths.IDS)
+      }
+      const getCall = request.call('EmailSubmission/get', getArgs, EmailSubmissionGetResponse)
+
+      const [getResult] = yield* request.execute([getCall])
+      return getResult.list
+    })
+}
@@ -0,0 +1,224 @@
+import { Context, Effect, Layer } from 'effect'
+import { HttpClient } from '@effect/platform'
+import type { JMAPClientInterface } from '../core/JMAPClient.ts'
+import { JMAPMethodError, NetworkError, AuthenticationError, SessionError, ConfigurationError } from '../core/Errors.ts'
+import { callMethod } from '../core/RequestBuilder.ts'
+import {
+  type Identity,
+  type IdentityCreate,
+  type IdentityMutable,
+  IdentityGetArguments,
+  IdentityGetResponse,
+  IdentityChangesArguments,
+  IdentityChangesResponse,
+  IdentitySetArguments,
+  IdentitySetResponse,
+  IdentityHelpers
+} from '../schemas/Identity.ts'
+import type { Email } from '../schemas/Email.ts'
+import { Id } from '../schemas/Common.ts'
+import * as Schema from 'effect/Schema'
+
+/**
+ * Identity Service Interface
+ */
+export interface IdentityService {
+  /**
+   * Get identities by ID
+   */
+  readonly get: (
+    args: IdentityGetArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof IdentityGetResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get identity changes since a known state
+   */
+  readonly changes: (
+    args: IdentityChangesArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof IdentityChangesResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Create, update, or destroy identities
+   */
+  readonly set: (
+    args: IdentitySetArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof IdentitySetResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get every identity of an account
+   */
+  readonly getAll: (
+    accountId: string
+  ) => Effect.Effect<
+    readonly Identity[],
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Create a new identity, returning its id
+   */
+  readonly create: (
+    accountId: string,
+    identity: IdentityCreate
+  ) => Effect.Effect<
+    Id,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Update an existing identity
+   */
+  readonly update: (
+    accountId: string,
+    identityId: Id,
+    updates: IdentityMutable
+  ) => Effect.Effect<
+    void,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Delete identities
+   */
+  readonly destroy: (
+    accountId: string,
+    identityIds: Id[]
+  ) => Effect.Effect<
+    readonly Id[],
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Pick the identity to reply to an email from, based on the addresses it
+   * was delivered to. Null only when the account has no identities.
+   */
+  readonly findReplyIdentity: (
+    accountId: string,
+    email: Pick<Email, 'to' | 'cc' | 'headers'>
+  ) => Effect.Effect<
+    Identity | null,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+}
+
+/**
+ * Identity Service Tag
+ */
+export const IdentityService = Context.GenericTag<IdentityService>('IdentityService')
+
+/**
+ * Live implementation of Identity Service
+ */
+const makeIdentityServiceLive = (): IdentityService => {
+
+  const get: IdentityService['get'] = (args) =>
+    callMethod('Identity/get', args, IdentityGetResponse)
+
+  const changes: IdentityService['changes'] = (args) =>
+    callMethod('Identity/changes', args, IdentityChangesResponse)
+
+  const set: IdentityService['set'] = (args) =>
+    callMethod('Identity/set', args, IdentitySetResponse)
+
+  const getAll: IdentityService['getAll'] = (accountId) =>
+    Effect.gen(function* () {
+      const result = yield* get({ accountId, ids: null })
+      return result.list
+    })
+
+  const create: IdentityService['create'] = (accountId, identity) =>
+    Effect.gen(function* () {
+      const tempId = `temp-${Date.now()}`
+
+      const result = yield* set({
+        accountId,
+        create: {
+          [tempId]: identity
+        }
+      })
+
+      const created = result.created?.[tempId]
+      if (!created) {
+        const error = result.notCreated?.[tempId] || { type: 'serverFail', description: 'Unknown error creating identity' }
+        return yield* Effect.fail(
+          JMAPMethodError.fromMethodError(error, `create-${tempId}`)
+        )
+      }
+
+      return created.id
+    })
+
+  const update: IdentityService['update'] = (accountId, identityId, updates) =>
+    Effect.gen(function* () {
+      const result = yield* set({
+        accountId,
+        update: {
+          [identityId]: updates
+        }
+      })
+
+      if (result.notUpdated && result.notUpdated[identityId]) {
+        const error = result.notUpdated[identityId]
+        yield* Effect.fail(
+          JMAPMethodError.fromMethodError(error, `update-${identityId}`)
+        )
+      }
+    })
+
+  const destroy: IdentityService['destroy'] = (accountId, identityIds) =>
+    Effect.gen(function* () {
+      const result = yield* set({
+        accountId,
+        destroy: identityIds
+      })
+
+      const notDestroyed = result.notDestroyed
+      if (notDestroyed) {
+        const errorIds = Object.keys(notDestroyed)
+        if (errorIds.length > 0) {
+          const firstError = notDestroyed[errorIds[0] as Id]
+          yield* Effect.fail(
+            JMAPMethodError.fromMethodError(firstError, `destroy-${errorIds[0]}`)
+          )
+        }
+      }
+
+      return result.destroyed || []
+    })
+
+  const findReplyIdentity: IdentityService['findReplyIdentity'] = (accountId, email) =>
+    Effect.map(getAll(accountId), (identities) => IdentityHelpers.findReplyIdentity(identities, email))
+
+  return {
+    get,
+    changes,
+    set,
+    getAll,
+    create,
+    update,
+    destroy,
+    findReplyIdentity
+  }
+}
+
+/**
+ * Live layer for Identity Service
+ */
+export const IdentityServiceLive = Layer.succeed(IdentityService, makeIdentityServiceLive())
@@ -1,16 +1,19 @@
 import { Context, Effect, Layer } from 'effect'
 import { HttpClient } from '@effect/platform'
-import { JMAPClientService } from '../core/JMAPClient.ts'
 import type { JMAPClientInterface } from '../core/JMAPClient.ts'
-import { Invocation } from '../core/Types.ts'
-import { JMAPMethodError, NetworkError, AuthenticationError, SessionError } from '../core/Errors.ts'
-import { extractMethodResponse } from '../core/ResponseUtils.ts'
+import { JMAPMethodError, NetworkError, AuthenticationError, SessionError, ConfigurationError } from '../core/Errors.ts'
+import { collectChanges } from '../core/ChangesUtils.ts'
+import { MailboxPatch } from '../core/Patch.ts'
+import { makeRequestBuilder, callMethod, ResultPaths, type ReferenceArguments } from '../core/RequestBuilder.ts'
 import {
   type Mailbox as MailboxType,
+  PartialMailbox,
   MailboxGetArguments,
   MailboxGetResponse,
   MailboxSetArguments,
   MailboxSetResponse,
+  MailboxChangesArguments,
+  MailboxChangesResponse,
   MailboxQueryArguments,
   MailboxQueryResponse,
   MailboxQueryChangesArguments,
@@ -20,7 +23,7 @@ import {
   StandardRoles,
   MailboxHelpers
 } from '../schemas/Mailbox.ts'
-import { Id, Common } from '../schemas/Common.ts'
+import { Id, Common, type PatchObject } from '../schemas/Common.ts'
 import * as Schema from 'effect/Schema'
 
 /**
@@ -34,7 +37,7 @@ export interface MailboxService {
     args: MailboxGetArguments
   ) => Effect.Effect<
     Schema.Schema.Type<typeof MailboxGetResponse>,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
@@ -45,7 +48,18 @@ export interface MailboxService {
     args: MailboxSetArguments
   ) => Effect.Effect<
     Schema.Schema.Type<typeof MailboxSetResponse>,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get mailbox changes since a known state
+   */
+  readonly changes: (
+    args: MailboxChangesArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof MailboxChangesResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
@@ -56,7 +70,7 @@ export interface MailboxService {
     args: MailboxQueryArguments
   ) => Effect.Effect<
     Schema.Schema.Type<typeof MailboxQueryResponse>,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
@@ -67,7 +81,25 @@ export interface MailboxService {
     args: MailboxQueryChangesArguments
   ) => Effect.Effect<
     Schema.Schema.Type<typeof MailboxQueryChangesResponse>,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get one page of changes together with the created and updated mailboxes,
+   * in a single Mailbox/changes → Mailbox/get request. When only counts
+   * changed, updated mailboxes carry just the updatedProperties.
+   */
+  readonly syncChanges: (
+    accountId: string,
+    sinceState: string
+  ) => Effect.Effect<
+    {
+      readonly changes: MailboxChangesResponse
+      readonly created: MailboxGetResponse['list']
+      readonly updated: ReadonlyArray<PartialMailbox>
+    },
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
@@ -78,7 +110,7 @@ export interface MailboxService {
     accountId: string
   ) => Effect.Effect<
     readonly MailboxType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
@@ -90,7 +122,7 @@ export interface MailboxService {
     role: MailboxRole | null
   ) => Effect.Effect<
     readonly MailboxType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
@@ -102,7 +134,7 @@ export interface MailboxService {
     parentId?: Id
   ) => Effect.Effect<
     readonly MailboxType[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
@@ -114,20 +146,20 @@ export interface MailboxService {
     mailbox: MailboxMutable & { name: string }
   ) => Effect.Effect<
     MailboxType,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
   /**
-   * Update an existing mailbox
+   * Update an existing mailbox with its new properties or a PatchObject
    */
   readonly update: (
     accountId: string,
     mailboxId: Id,
-    updates: Partial<MailboxMutable>
+    updates: Partial<MailboxMutable> | PatchObject
   ) => Effect.Effect<
     MailboxType | null,
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 
@@ -139,7 +171,7 @@ export interface MailboxService {
     mailboxIds: Id[]
   ) => Effect.Effect<
     readonly Id[],
-    JMAPMethodError | NetworkError | AuthenticationError | SessionError,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
     JMAPClientInterface | HttpClient.HttpClient
   >
 }
@@ -149,69 +181,64 @@ export interface MailboxService {
  */
 export const MailboxService = Context.GenericTag<MailboxService>('MailboxService')
 
+/**
+ * Mailbox/get response restricted to a subset of properties
+ */
+const MailboxPartialGetResponse = Schema.Struct({
+  ...MailboxGetResponse.fields,
+  list: Schema.Array(PartialMailbox)
+})
+
 /**
  * Live implementation of Mailbox Service
  */
 const makeMailboxServiceLive = (): MailboxService => {
 
   const get: MailboxService['get'] = (args) =>
-    Effect.gen(function* () {
-      const client = yield* JMAPClientService
-      const callId = `mailbox-get-${Date.now()}`
-
-      const methodCall: Invocation = [
-        'Mailbox/get',
-        args,
-        callId
-      ]
-
-      const response = yield* client.batch([methodCall])
-      return yield* extractMethodResponse(response, 'Mailbox/get', callId, MailboxGetResponse)
-    })
+    callMethod('Mailbox/get', args, MailboxGetResponse)
 
   const set: MailboxService['set'] = (args) =>
-    Effect.gen(function* () {
-      const client = yield* JMAPClientService
-      const callId = `mailbox-set-${Date.now()}`
-
-      const methodCall: Invocation = [
-        'Mailbox/set',
-        args,
-        callId
-      ]
+    callMethod('Mailbox/set', args, MailboxSetResponse)
 
-      const response = yield* client.batch([methodCall])
-      return yield* extractMethodResponse(response, 'Mailbox/set', callId, MailboxSetResponse)
-    })
+  const changes: MailboxService['changes'] = (args) =>
+    callMethod('Mailbox/changes', args, MailboxChangesResponse)
 
   const query: MailboxService['query'] = (args) =>
-    Effect.gen(function* () {
-      const client = yield* JMAPClientService
-      const callId = `mailbox-query-${Date.now()}`
-
-      const methodCall: Invocation = [
-        'Mailbox/query',
-        args,
-        callId
-      ]
-
-      const response = yield* client.batch([methodCall])
-      return yield* extractMethodResponse(response, 'Mailbox/query', callId, MailboxQueryResponse)
-    })
+    callMethod('Mailbox/query', args, MailboxQueryResponse)
 
   const queryChanges: MailboxService['queryChanges'] = (args) =>
+    callMethod('Mailbox/queryChanges', args, MailboxQueryChangesResponse)
+
+  const syncChanges: MailboxService['syncChanges'] = (accountId, sinceState) =>
     Effect.gen(function* () {
-      const client = yield* JMAPClientService
-      const callId = `mailbox-queryChanges-${Date.now()}`
+      const request = makeRequestBuilder()
+      const changesCall = request.call('Mailbox/changes', { accountId, sinceState }, MailboxChangesResponse)
+
+      const createdArgs: ReferenceArguments<MailboxGetArguments, 'ids'> = {
+        accountId,
+        '#ids': changesCall.ref(ResultPaths.CREATED)
+      }
+      const createdCall = request.call('Mailbox/get', createdArgs, MailboxGetResponse)
+
+      // A null updatedProperties resolves to properties: null, i.e. all properties
+      const updatedArgs: ReferenceArguments<MailboxGetArguments, 'ids' | 'properties'> = {
+        accountId,
+        '#ids': changesCall.ref(ResultPaths.UPDATED),
+        '#properties': changesCall.ref('/updatedProperties')
+      }
+      const updatedCall = request.call('Mailbox/get', updatedArgs, MailboxPartialGetResponse)
 
-      const methodCall: Invocation = [
-        'Mailbox/queryChanges',
-        args,
-        callId
-      ]
+      const results = yield* request.execute({
+        changes: changesCall,
+        created: createdCall,
+        updated: updatedCall
+      })
 
-      const response = yield* client.batch([methodCall])
-      return yield* extractMethodResponse(response, 'Mailbox/queryChanges', callId, MailboxQueryChangesResponse)
+      return {
+        changes: results.changes,
+        created: results.created.list,
+        updated: results.updated.list
+      }
     })
 
   const getAll: MailboxService['getAll'] = (accountId) =>
@@ -328,8 +355,10 @@ const makeMailboxServiceLive = (): MailboxService => {
   return {
     get,
     set,
+    changes,
     query,
     queryChanges,
+    syncChanges,
     getAll,
     findByRole,
     getHierarchy,
@@ -388,6 +417,22 @@ export const MailboxOperations = {
       return trashBoxes[0] || null
     }),
 
+  /**
+   * Get every mailbox change since a known state, following hasMoreChanges
+   */
+  getAllChanges: (accountId: string, sinceState: string, maxChanges?: number) =>
+    Effect.gen(function* () {
+      const service = yield* MailboxService
+      return yield* collectChanges(
+        (state) => service.changes({
+          accountId,
+          sinceState: state,
+          maxChanges: maxChanges ? Common.createUnsignedInt(maxChanges) : undefined
+        }),
+        sinceState
+      )
+    }),
+
   /**
    * Create a folder hierarchy
    */
@@ -417,9 +462,7 @@ export const MailboxOperations = {
   moveMailbox: (accountId: string, mailboxId: Id, newParentId: Id | null) =>
     Effect.gen(function* () {
       const service = yield* MailboxService
-      return yield* service.update(accountId, mailboxId, {
-        parentId: newParentId
-      })
+      return yield* service.update(accountId, mailboxId, MailboxPatch.builder().set('parentId', newParentId).build())
     }),
 
   /**
@@ -428,8 +471,6 @@ export const MailboxOperations = {
   renameMailbox: (accountId: string, mailboxId: Id, newName: string) =>
     Effect.gen(function* () {
       const service = yield* MailboxService
-      return yield* service.update(accountId, mailboxId, {
-        name: newName
-      })
+      return yield* service.update(accountId, mailboxId, MailboxPatch.builder().set('name', newName).build())
     })
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { Context, Duration, Effect, Layer, Option, Schedule, Stream } from 'effect'
+import { HttpClient, HttpClientRequest } from '@effect/platform'
+import { JMAPClientService } from '../core/JMAPClient.ts'
+import type { JMAPClientInterface } from '../core/JMAPClient.ts'
+import { NetworkError, AuthenticationError, SessionError, Errors } from '../core/Errors.ts'
+import { decodeServerSentEvents } from '../core/EventSource.ts'
+import { expandUrlTemplate } from '../core/UrlTemplate.ts'
+import { StateChange } from '../schemas/Push.ts'
+import * as Schema from 'effect/Schema'
+
+/**
+ * Options for an event source connection - RFC 8620 Section 7.3
+ */
+export interface EventSourceOptions {
+  /**
+   * Data type names to be notified about, or "*" for all (default)
+   */
+  readonly types?: ReadonlyArray<string> | '*'
+
+  /**
+   * "state" makes the server end the response after each state event,
+   * "no" (default) keeps the connection open
+   */
+  readonly closeAfter?: 'state' | 'no'
+
+  /**
+   * Seconds between server pings, 0 to disable (default 30)
+   */
+  readonly ping?: number
+
+  /**
+   * Delays between reconnection attempts after a dropped connection
+   * (default exponential from 1 second, capped at 30 seconds). A retry time
+   * sent by the server replaces the delays, the schedule still decides
+   * whether to reconnect.
+   */
+  readonly reconnect?: Schedule.Schedule<unknown>
+}
+
+/**
+ * Push Service Interface
+ */
+export interface PushService {
+  /**
+   * Stream StateChange events from the session eventSourceUrl. Dropped
+   * connections are reopened with Last-Event-ID so no change is missed.
+   * State events that do not decode as a StateChange are skipped. A 401 or
+   * 403 ends the stream with an AuthenticationError, other 4xx statuses
+   * except 429 end it with a NetworkError.
+   */
+  readonly stateChanges: (
+    options?: EventSourceOptions
+  ) => Stream.Stream<
+    StateChange,
+    NetworkError | AuthenticationError | SessionError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+}
+
+/**
+ * Push Service Tag
+ */
+export const PushService = Context.GenericTag<PushService>('PushService')
+
+const defaultReconnect = Schedule.exponential('1 second').pipe(
+  Schedule.union(Schedule.spaced('30 seconds'))
+)
+
+const decodeStateChange = Schema.decodeUnknownOption(Schema.parseJson(StateChange))
+
+/**
+ * Live implementation of Push Service
+ */
+const makePushServiceLive = (): PushService => {
+
+  const stateChanges: PushService['stateChanges'] = (options = {}) =>
+    Stream.suspend(() => {
+      // Shared by every connection of this stream, so reconnects resume where the last one stopped
+      let lastEventId: string | undefined
+      let serverRetry: Duration.Duration | undefined
+      let received = false
+
+      const connection = Stream.unwrap(
+        Effect.gen(function* () {
+          const client = yield* JMAPClientService
+          const session = yield* client.getSession
+          const types = options.types ?? '*'
+
+          const url = expandUrlTemplate(session.eventSourceUrl, {
+            types: types === '*' ? '*' : types.join(','),
+            closeafter: options.closeAfter ?? 'no',
+            ping: options.ping ?? 30
+          })
+
+          let request = HttpClientRequest.get(url).pipe(
+            HttpClientRequest.setHeader('Accept', 'text/event-stream')
+          )
+          if (lastEventId !== undefined) {
+            request = HttpClientRequest.setHeader(request, 'Last-Event-ID', lastEventId)
+          }
+
+          const response = yield* client.execute(request)
+          if (response.status === 401 || response.status === 403) {
+            return yield* Effect.fail(Errors.authentication(`Event source returned HTTP ${response.status}`))
+          }
+          if (response.status !== 200) {
+            return yield* Effect.fail(Errors.network(`Event source returned HTTP ${response.status}`, undefined, response.status))
+          }
+
+          received = false
+          return decodeServerSentEvents(
+            response.stream.pipe(
+              Stream.mapError(error => Errors.network('Event source connection lost', error)),
+              // Anything the server sends, pings and comments included, shows the connection works
+              Stream.tap(() => Effect.sync(() => {
+                received = true
+              }))
+            )
+          )
+        })
+      ).pipe(
+        Stream.tap((event) => Effect.sync(() => {
+          if (event.id !== undefined) lastEventId = event.id
+          if (event.retry !== undefined) serverRetry = Duration.millis(event.retry)
+        })),
+        // A connection the server closes without sending anything counts as failed, so it is retried with backoff
+        Stream.concat(
+          Stream.suspend(() => received ? Stream.empty : Stream.fail(Errors.network('Event source closed without events')))
+        )
+      )
+
+      // Lost connections, rate limits and server errors are retried, other client errors would only fail again
+      const retryable = Schedule.recurWhile<NetworkError | AuthenticationError | SessionError>(
+        (error) =>
+          error._tag === 'NetworkError' &&
+          (error.status === undefined || error.status === 429 || error.status >= 500)
+      )
+
+      const reconnect = Schedule.intersect(options.reconnect ?? defaultReconnect, retryable).pipe(
+        Schedule.modifyDelay((_, delay) => serverRetry ?? delay)
+      )
+
+      return Stream.forever(connection).pipe(
+        Stream.retry(reconnect),
+        Stream.filterMap((event) =>
+          event.event === 'state' ? decodeStateChange(event.data) : Option.none()
+        )
+      )
+    })
+
+  return {
+    stateChanges
+  }
+}
+
+/**
+ * Live layer for Push Service
+ */
+export const PushServiceLive = Layer.succeed(PushService, makePushServiceLive())
+
+/**
+ * Convenience functions for following state changes
+ */
+export const PushOperations = {
+  /**
+   * Stream the new states of one data type in an account, e.g. to refetch
+   * with Foo/changes instead of polling
+   */
+  typeStates: (accountId: string, type: string, options?: EventSourceOptions) =>
+    Stream.unwrap(
+      Effect.map(PushService, (service) =>
+        service.stateChanges({ types: [type], ...options }).pipe(
+          Stream.filterMap((change) => Option.fromNullable(change.changed[accountId]?.[type])),
+          Stream.changes
+        )
+      )
+    )
+}
@@ -0,0 +1,99 @@
+import { Context, Effect, Layer } from 'effect'
+import { HttpClient } from '@effect/platform'
+import type { JMAPClientInterface } from '../core/JMAPClient.ts'
+import { JMAPMethodError, NetworkError, AuthenticationError, SessionError, ConfigurationError } from '../core/Errors.ts'
+import { makeRequestBuilder, callMethod, ResultPaths, type ReferenceArguments } from '../core/RequestBuilder.ts'
+import {
+  ThreadGetArguments,
+  ThreadGetResponse,
+  ThreadChangesArguments,
+  ThreadChangesResponse
+} from '../schemas/Thread.ts'
+import { EmailGetArguments, EmailGetResponse } from '../schemas/Email.ts'
+import { Id } from '../schemas/Common.ts'
+import * as Schema from 'effect/Schema'
+
+/**
+ * Thread Service Interface
+ */
+export interface ThreadService {
+  /**
+   * Get threads by ID
+   */
+  readonly get: (
+    args: ThreadGetArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof ThreadGetResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get thread changes since a known state
+   */
+  readonly changes: (
+    args: ThreadChangesArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof ThreadChangesResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get all emails in a thread with a single Thread/get → Email/get request
+   */
+  readonly getEmails: (
+    accountId: string,
+    threadId: Id,
+    properties?: ReadonlyArray<string>
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof EmailGetResponse>['list'],
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+}
+
+/**
+ * Thread Service Tag
+ */
+export const ThreadService = Context.GenericTag<ThreadService>('ThreadService')
+
+/**
+ * Live implementation of Thread Service
+ */
+const makeThreadServiceLive = (): ThreadService => {
+
+  const get: ThreadService['get'] = (args) =>
+    callMethod('Thread/get', args, ThreadGetResponse)
+
+  const changes: ThreadService['changes'] = (args) =>
+    callMethod('Thread/changes', args, ThreadChangesResponse)
+
+  const getEmails: ThreadService['getEmails'] = (accountId, threadId, properties) =>
+    Effect.gen(function* () {
+      const request = makeRequestBuilder()
+      const threadCall = request.call('Thread/get', { accountId, ids: [threadId] }, ThreadGetResponse)
+
+      // Email/get reads its ids from the Thread/get result in the same request
+      const emailArgs: ReferenceArguments<EmailGetArguments, 'ids'> = {
+        accountId,
+        '#ids': threadCall.ref(ResultPaths.THREAD_EMAIL_IDS),
+        properties
+      }
+      const emailCall = request.call('Email/get', emailArgs, EmailGetResponse)
+
+      const [threadResult, emailResult] = yield* request.execute([threadCall, emailCall])
+      return threadResult.list.length === 0 ? [] : emailResult.list
+    })
+
+  return {
+    get,
+    changes,
+    getEmails
+  }
+}
+
+/**
+ * Live layer for Thread Service
+ */
+export const ThreadServiceLive = Layer.succeed(ThreadService, makeThreadServiceLive())
@@ -0,0 +1,222 @@
+import { Context, Effect, Layer } from 'effect'
+import { HttpClient } from '@effect/platform'
+import type { JMAPClientInterface } from '../core/JMAPClient.ts'
+import { JMAPMethodError, NetworkError, AuthenticationError, SessionError, ConfigurationError } from '../core/Errors.ts'
+import { callMethod } from '../core/RequestBuilder.ts'
+import {
+  type VacationResponse,
+  type VacationResponseMutable,
+  VACATION_RESPONSE_ID,
+  VacationResponseGetArguments,
+  VacationResponseGetResponse,
+  VacationResponseSetArguments,
+  VacationResponseSetResponse
+} from '../schemas/VacationResponse.ts'
+import { Common, dateToJMAPDate } from '../schemas/Common.ts'
+import * as Schema from 'effect/Schema'
+
+/**
+ * The auto-reply message
+ */
+export interface VacationReply {
+  readonly subject?: string | null
+  readonly textBody?: string | null
+  readonly htmlBody?: string | null
+}
+
+/**
+ * VacationResponse Service Interface
+ */
+export interface VacationResponseService {
+  /**
+   * Get the vacation response
+   */
+  readonly get: (
+    args: VacationResponseGetArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof VacationResponseGetResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Update the vacation response. Any id other than "singleton", and any
+   * create or destroy, fails with a "singleton" error without a request.
+   */
+  readonly set: (
+    args: VacationResponseSetArguments
+  ) => Effect.Effect<
+    Schema.Schema.Type<typeof VacationResponseSetResponse>,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Get the account's vacation response
+   */
+  readonly getCurrent: (
+    accountId: string
+  ) => Effect.Effect<
+    VacationResponse,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Update properties of the account's vacation response
+   */
+  readonly update: (
+    accountId: string,
+    updates: VacationResponseMutable
+  ) => Effect.Effect<
+    void,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Enable auto-reply for mail received from `from` until `to`. Both ends
+   * are optional; an omitted end leaves the range open on that side.
+   */
+  readonly enable: (
+    accountId: string,
+    reply: VacationReply,
+    range?: { readonly from?: Date; readonly to?: Date }
+  ) => Effect.Effect<
+    void,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+
+  /**
+   * Turn auto-reply off, keeping the message for next time
+   */
+  readonly disable: (
+    accountId: string
+  ) => Effect.Effect<
+    void,
+    JMAPMethodError | NetworkError | AuthenticationError | SessionError | ConfigurationError,
+    JMAPClientInterface | HttpClient.HttpClient
+  >
+}
+
+/**
+ * VacationResponse Service Tag
+ */
+export const VacationResponseService = Context.GenericTag<VacationResponseService>('VacationResponseService')
+
+/**
+ * Live implementation of VacationResponse Service
+ */
+const makeVacationResponseServiceLive = (): VacationResponseService => {
+
+  const get: VacationResponseService['get'] = (args) =>
+    callMethod('VacationResponse/get', args, VacationResponseGetResponse)
+
+  const set: VacationResponseService['set'] = (args) =>
+    Effect.gen(function* () {
+      // Callers may bypass the types; the server would only answer with SetErrors
+      const createsOrDestroys = 'create' in args || 'destroy' in args
+      const invalidId = Object.keys(args.update ?? {}).find(id => id !== VACATION_RESPONSE_ID)
+
+      if (createsOrDestroys || invalidId !== undefined) {
+        return yield* Effect.fail(
+          JMAPMethodError.fromMethodError({
+            type: 'singleton',
+            description: invalidId !== undefined
+              ? `VacationResponse id must be "${VACATION_RESPONSE_ID}", got "${invalidId}"`
+              : 'VacationResponse cannot be created or destroyed'
+          })
+        )
+      }
+
+      return yield* callMethod('VacationResponse/set', args, VacationResponseSetResponse)
+    })
+
+  const getCurrent: VacationResponseService['getCurrent'] = (accountId) =>
+    Effect.gen(function* () {
+      const result = yield* get({ accountId, ids: [Common.createId(VACATION_RESPONSE_ID)] })
+
+      const vacationResponse = result.list[0]
+      if (!vacationResponse) {
+        return yield* Effect.fail(
+          JMAPMethodError.fromMethodError({ type: 'notFound', description: 'Account has no VacationResponse' })
+        )
+      }
+
+      return vacationResponse
+    })
+
+  const update: VacationResponseService['update'] = (accountId, updates) =>
+    Effect.gen(function* () {
+      const result = yield* set({
+        accountId,
+        update: {
+          [VACATION_RESPONSE_ID]: updates
+        }
+      })
+
+      if (result.notUpdated && result.notUpdated[VACATION_RESPONSE_ID]) {
+        const error = result.notUpdated[VACATION_RESPONSE_ID]
+        yield* Effect.fail(
+          JMAPMethodError.fromMethodError(error, `update-${VACATION_RESPONSE_ID}`)
+        )
+      }
+    })
+
+  const enable: VacationResponseService['enable'] = (accountId, reply, range = {}) =>
+    Effect.gen(function* () {
+      if (range.from && range.to && range.from >= range.to) {
+        return yield* Effect.fail(
+          JMAPMethodError.fromMethodError({ type: 'invalidArguments', description: 'Vacation response must end after it starts' })
+        )
+      }
+
+      yield* update(accountId, {
+        ...reply,
+        isEnabled: true,
+        fromDate: range.from ? dateToJMAPDate(range.from) : null,
+        toDate: range.to ? dateToJMAPDate(range.to) : null
+      })
+    })
+
+  const disable: VacationResponseService['disable'] = (accountId) =>
+    update(accountId, { isEnabled: false })
+
+  return {
+    get,
+    set,
+    getCurrent,
+    update,
+    enable,
+    disable
+  }
+}
+
+/**
+ * Live layer for VacationResponse Service
+ */
+export const VacationResponseServiceLive = Layer.succeed(VacationResponseService, makeVacationResponseServiceLive())
+
+/**
+ * Convenience functions for scheduling auto-replies
+ */
+export const VacationResponseOperations = {
+  /**
+   * Auto-reply to mail received between two dates
+   */
+  enableForRange: (accountId: string, from: Date, to: Date, reply: VacationReply) =>
+    Effect.gen(function* () {
+      const service = yield* VacationResponseService
+      return yield* service.enable(accountId, reply, { from, to })
+    }),
+
+  /**
+   * Auto-reply from now until a date
+   */
+  enableUntil: (accountId: string, to: Date, reply: VacationReply) =>
+    Effect.gen(function* () {
+      const service = yield* VacationResponseService
+      return yield* service.enable(accountId, reply, { to })
+    })
+}
@@ -21,7 +21,9 @@ export const JMAPFixtures = {
         "maxSizeAttachmentsPerEmail": 20000000,
         "emailQuerySortOptions": ["receivedAt", "sentAt", "size", "from", "to", "subject"],
         "mayCreateTopLevelMailbox": true
-      }
+      },
+      "urn:ietf:params:jmap:submission": {},
+      "urn:ietf:params:jmap:vacationresponse": {}
     },
     accounts: {
       "account-1": {
@@ -30,7 +32,12 @@ export const JMAPFixtures = {
         "isReadOnly": false,
         "accountCapabilities": {
           "urn:ietf:params:jmap:core": {},
-          "urn:ietf:params:jmap:mail": {}
+          "urn:ietf:params:jmap:mail": {},
+          "urn:ietf:params:jmap:submission": {
+            "maxDelayedSend": 44236800,
+            "submissionExtensions": { "SIZE": ["50000000"], "FUTURERELEASE": ["86400", "2024-12-31T23:59:59Z"] }
+          },
+          "urn:ietf:params:jmap:vacationresponse": {}
         }
       }
     },
@@ -139,7 +146,107 @@ export const JMAPFixtures = {
         }
       ]
     }
-  ]
+  ],
+
+  emailSubmissions: [
+    {
+      id: "submission-1",
+      identityId: "identity-1",
+      emailId: "email-1",
+      threadId: "thread-1",
+      envelope: null,
+      sendAt: "2024-01-01T12:00:00Z",
+      undoStatus: "pending",
+      deliveryStatus: null,
+      dsnBlobIds: [],
+      mdnBlobIds: []
+    },
+    {
+      id: "submission-final",
+      identityId: "identity-1",
+      emailId: "email-2",
+      threadId: "thread-2",
+      envelope: {
+        mailFrom: { email: "sender@example.com", parameters: null },
+        rcptTo: [{ email: "recipient@example.com", parameters: null }]
+      },
+      sendAt: "2024-01-01T11:00:00Z",
+      undoStatus: "final",
+      deliveryStatus: {
+        "recipient@example.com": { smtpReply: "250 2.0.0 OK", delivered: "yes", displayed: "unknown" }
+      },
+      dsnBlobIds: [],
+      mdnBlobIds: []
+    }
+  ],
+
+  identities: [
+    {
+      id: "identity-1",
+      name: "Test User",
+      email: "test@example.com",
+      replyTo: null,
+      bcc: null,
+      textSignature: "",
+      htmlSignature: "",
+      mayDelete: false
+    },
+    {
+      id: "identity-2",
+      name: "Sales",
+      email: "sales@example.com",
+      replyTo: [{ name: "Sales Team", email: "sales@example.com" }],
+      bcc: null,
+      textSignature: "-- \nSales",
+      htmlSignature: "<p>Sales</p>",
+      mayDelete: true
+    },
+    {
+      id: "identity-3",
+      name: "Catch-all",
+      email: "*@example.org",
+      replyTo: null,
+      bcc: null,
+      textSignature: "",
+      htmlSignature: "",
+      mayDelete: true
+    }
+  ],
+
+  vacationResponse: {
+    id: "singleton",
+    isEnabled: false,
+    fromDate: null,
+    toDate: null,
+    subject: "Out of office",
+    textBody: "I am away and will reply when I am back.",
+    htmlBody: null
+  },
+
+  // Messages by blobId, as Email/parse returns them
+  parsedEmails: {
+    "blob-forwarded": {
+      id: null,
+      blobId: "blob-forwarded",
+      threadId: null,
+      mailboxIds: null,
+      keywords: null,
+      receivedAt: null,
+      size: 1024,
+      messageId: ["<forwarded@example.com>"],
+      from: [{ name: "Alice", email: "alice@example.com" }],
+      to: [{ name: "John Doe", email: "john@example.com" }],
+      subject: "Original message",
+      sentAt: "2024-01-10T09:00:00Z",
+      preview: "The message that was forwarded",
+      bodyValues: {
+        "1": { value: "The message that was forwarded", isEncodingProblem: false, isTruncated: false }
+      },
+      textBody: [{ partId: "1", type: "text/plain", size: 30 }],
+      htmlBody: [{ partId: "1", type: "text/plain", size: 30 }],
+      attachments: []
+    }
+  } as Record<string, object>
 }
 
 // Email-specific mock responses
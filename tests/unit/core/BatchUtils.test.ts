@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import { Either, Schema } from 'effect'
+import { BatchUtils } from '../../../src/core/BatchUtils.ts'
+import { CapabilityUris, Session } from '../../../src/core/Types.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+
+describe('BatchUtils', () => {
+  const limits = { maxCallsInRequest: 16, maxObjectsInGet: 2, maxObjectsInSet: 2 }
+
+  describe('limits', () => {
+    const session = Schema.decodeUnknownSync(Session)(JMAPFixtures.session)
+
+    it('should read the core capability limits', () => {
+      expect(BatchUtils.limits(session)).toEqual({
+        maxCallsInRequest: 16,
+        maxObjectsInGet: 500,
+        maxObjectsInSet: 500,
+        maxConcurrentRequests: 4
+      })
+    })
+
+    it('should let maxBatchSize lower maxCallsInRequest but not raise it', () => {
+      expect(BatchUtils.limits(session, 8).maxCallsInRequest).toBe(8)
+      expect(BatchUtils.limits(session, 50).maxCallsInRequest).toBe(16)
+    })
+
+    it('should fall back to maxBatchSize, then 50, without a server limit', () => {
+      const { maxCallsInRequest: _, ...core } = JMAPFixtures.session.capabilities[CapabilityUris.CORE]
+      const unlimited = Schema.decodeUnknownSync(Session)({
+        ...JMAPFixtures.session,
+        capabilities: { ...JMAPFixtures.session.capabilities, [CapabilityUris.CORE]: core }
+      })
+
+      expect(BatchUtils.limits(unlimited, 8).maxCallsInRequest).toBe(8)
+      expect(BatchUtils.limits(unlimited).maxCallsInRequest).toBe(50)
+    })
+  })
+
+  describe('splitCalls', () => {
+    it('should leave calls within the limits alone', () => {
+      const calls: Array<[string, unknown, string]> = [
+        ['Email/get', { accountId: 'a', ids: ['e1', 'e2'] }, 'c0'],
+        ['Email/set', { accountId: 'a', destroy: ['e1'] }, 'c1']
+      ]
+
+      expect(BatchUtils.splitCalls(calls, limits)).toEqual({ methodCalls: calls, parts: new Map() })
+    })
+
+    it('should split create, update and destroy together', () => {
+      const { methodCalls, parts } = BatchUtils.splitCalls([['Mailbox/set', {
+        accountId: 'a',
+        create: { k1: { name: 'One' } },
+        update: { m1: { name: 'Two' } },
+        destroy: ['m2', 'm3', 'm4']
+      }, 'c0']], limits)
+
+      expect(methodCalls).toEqual([
+        ['Mailbox/set', { accountId: 'a', create: { k1: { name: 'One' } }, update: { m1: { name: 'Two' } } }, 'c0:0'],
+        ['Mailbox/set', { accountId: 'a', destroy: ['m2', 'm3'] }, 'c0:1'],
+        ['Mailbox/set', { accountId: 'a', destroy: ['m4'] }, 'c0:2']
+      ])
+      expect(parts.get('c0')).toEqual(['c0:0', 'c0:1', 'c0:2'])
+    })
+
+    it('should not split calls that use or give a result reference', () => {
+      const calls: Array<[string, unknown, string]> = [
+        ['Email/get', { accountId: 'a', ids: ['e1', 'e2', 'e3'] }, 'c0'],
+        ['Thread/get', { accountId: 'a', '#ids': { resultOf: 'c0', name: 'Email/get', path: '/list/*/threadId' } }, 'c1'],
+        ['EmailSubmission/set', { accountId: 'a', create: { k1: {}, k2: {}, k3: {} }, onSuccessDestroyEmail: ['#k1'] }, 'c2']
+      ]
+
+      expect(BatchUtils.splitCalls(calls, limits).methodCalls).toEqual(calls)
+    })
+  })
+
+  describe('chunk', () => {
+    const small = { maxCallsInRequest: 3 }
+    const callIds = (chunks: Either.Either<Array<Array<[string, unknown, string]>>, unknown>) =>
+      Either.map(chunks, list => list.map(chunk => chunk.map(([, , callId]) => callId)))
+
+    it('should keep calls using each other\'s results or creation ids in one request', () => {
+      const chunks = BatchUtils.chunk([
+        ['Mailbox/set', { accountId: 'a', create: { k1: { name: 'Clients' } } }, 'c0'],
+        ['Core/echo', {}, 'c1'],
+        ['Core/echo', {}, 'c2'],
+        ['Email/query', { accountId: 'a' }, 'c3'],
+        ['Email/set', { accountId: 'a', update: { e1: { 'mailboxIds/#k1': true } } }, 'c4'],
+        ['Email/get', { accountId: 'a', '#ids': { resultOf: 'c3', name: 'Email/query', path: '/ids' } }, 'c5']
+      ], small)
+
+      expect(callIds(chunks)).toEqual(Either.right([['c0', 'c1', 'c4'], ['c2', 'c3', 'c5']]))
+    })
+
+    it('should fail when a chain of dependent calls does not fit in a request', () => {
+      const chunks = BatchUtils.chunk([
+        ['Email/query', { accountId: 'a' }, 'c0'],
+        ['Email/get', { accountId: 'a', '#ids': { resultOf: 'c0', name: 'Email/query', path: '/ids' } }, 'c1'],
+        ['Thread/get', { accountId: 'a', '#ids': { resultOf: 'c1', name: 'Email/get', path: '/list/*/threadId' } }, 'c2'],
+        ['Email/get', { accountId: 'a', '#ids': { resultOf: 'c2', name: 'Thread/get', path: '/list/*/emailIds' } }, 'c3']
+      ], small)
+
+      expect(Either.flip(chunks).pipe(Either.map(error => [error._tag, error.field]))).toEqual(
+        Either.right(['ConfigurationError', 'maxCallsInRequest'])
+      )
+    })
+  })
+
+  describe('mergeResponses', () => {
+    const split = {
+      methodCalls: [
+        ['Core/echo', {}, 'before'],
+        ['Email/set', { accountId: 'a', update: { e1: {} } }, 'c0:0'],
+        ['Email/set', { accountId: 'a', update: { e2: {} }, destroy: ['e3'] }, 'c0:1'],
+        ['Core/echo', {}, 'after']
+      ] as Array<[string, unknown, string]>,
+      parts: new Map([['c0', ['c0:0', 'c0:1']]])
+    }
+
+    it('should merge get parts in place of the call', () => {
+      const merged = BatchUtils.mergeResponses([
+        ['Core/echo', {}, 'before'],
+        ['Email/get', { accountId: 'a', state: 's1', list: [{ id: 'e1' }], notFound: [] }, 'c0:0'],
+        ['Email/get', { accountId: 'a', state: 's2', list: [], notFound: ['e2'] }, 'c0:1'],
+        ['Core/echo', {}, 'after']
+      ], split)
+
+      expect(merged).toEqual([
+        ['Core/echo', {}, 'before'],
+        ['Email/get', { accountId: 'a', state: 's1', list: [{ id: 'e1' }], notFound: ['e2'] }, 'c0'],
+        ['Core/echo', {}, 'after']
+      ])
+    })
+
+    it('should put responses from several requests back in the order of the calls', () => {
+      const merged = BatchUtils.mergeResponses([
+        ['Core/echo', {}, 'after'],
+        ['Email/get', { accountId: 'a', state: 's1', list: [], notFound: ['e2'] }, 'c0:1'],
+        ['Core/echo', {}, 'before'],
+        ['Email/get', { accountId: 'a', state: 's1', list: [{ id: 'e1' }], notFound: [] }, 'c0:0']
+      ], split)
+
+      expect(merged.map(([, , callId]) => callId)).toEqual(['before', 'c0', 'after'])
+      expect(merged[1]![1]).toMatchObject({ list: [{ id: 'e1' }], notFound: ['e2'] })
+    })
+
+    it('should keep results that no part returned null', () => {
+      const [merged] = BatchUtils.mergeResponses([
+        ['Email/set', { accountId: 'a', oldState: 's1', newState: 's2', updated: { e1: null }, notUpdated: null }, 'c0:0'],
+        ['Email/set', { accountId: 'a', oldState: 's2', newState: 's3', updated: null, notUpdated: { e2: { type: 'notFound' } } }, 'c0:1']
+      ], split)
+
+      expect(merged![1]).toMatchObject({
+        oldState: 's1',
+        newState: 's3',
+        updated: { e1: null },
+        notUpdated: { e2: { type: 'notFound' } },
+        created: null,
+        destroyed: null
+      })
+    })
+
+    it('should report the objects of a failed set part next to the applied parts', () => {
+      const merged = BatchUtils.mergeResponses([
+        ['Email/set', { accountId: 'a', oldState: 's1', newState: 's2', updated: { e1: null } }, 'c0:0'],
+        ['error', { type: 'serverFail', description: 'Disk full' }, 'c0:1']
+      ], split)
+
+      expect(merged).toEqual([['Email/set', expect.objectContaining({
+        oldState: 's1',
+        newState: 's2',
+        updated: { e1: null },
+        notUpdated: { e2: { type: 'serverFail', description: 'Disk full' } },
+        notDestroyed: { e3: { type: 'serverFail', description: 'Disk full' } }
+      }), 'c0']])
+    })
+
+    it('should answer with the error when every part failed', () => {
+      const merged = BatchUtils.mergeResponses([
+        ['error', { type: 'stateMismatch' }, 'c0:0'],
+        ['error', { type: 'stateMismatch' }, 'c0:1']
+      ], split)
+
+      expect(merged).toEqual([['error', { type: 'stateMismatch' }, 'c0']])
+    })
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import { CapabilityUtils } from '../../../src/core/Capabilities.ts'
+import { CapabilityUris, Session } from '../../../src/core/Types.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+
+describe('CapabilityUtils', () => {
+  const session = Schema.decodeUnknownSync(Session)(JMAPFixtures.session)
+
+  describe('forMethodCalls', () => {
+    it('should always use core', () => {
+      expect(CapabilityUtils.forMethodCalls([])).toEqual([CapabilityUris.CORE])
+      expect(CapabilityUtils.forMethodCalls([['Blob/copy', {}, 'c0']])).toEqual([CapabilityUris.CORE])
+    })
+
+    it('should add the capabilities of each data type once, in a stable order', () => {
+      expect(CapabilityUtils.forMethodCalls([
+        ['VacationResponse/get', {}, 'c0'],
+        ['EmailSubmission/set', {}, 'c1'],
+        ['Email/get', {}, 'c2']
+      ])).toEqual([
+        CapabilityUris.CORE,
+        CapabilityUris.MAIL,
+        CapabilityUris.SUBMISSION,
+        CapabilityUris.VACATION_RESPONSE
+      ])
+    })
+  })
+
+  describe('unsupported', () => {
+    it('should list the capabilities the server does not advertise', () => {
+      expect(CapabilityUtils.unsupported(session, [CapabilityUris.CORE, CapabilityUris.MAIL])).toEqual([])
+      expect(CapabilityUtils.unsupported(session, [CapabilityUris.CORE, CapabilityUris.WEBSOCKET]))
+        .toEqual([CapabilityUris.WEBSOCKET])
+    })
+  })
+
+  describe('mail', () => {
+    it('should read the mail limits', () => {
+      expect(CapabilityUtils.maxMailboxDepth(session, 'account-1')).toBe(10)
+      expect(CapabilityUtils.maxSizeAttachmentsPerEmail(session, 'account-1')).toBe(20000000)
+      expect(CapabilityUtils.emailQuerySortOptions(session, 'account-1')).toContain('receivedAt')
+      expect(CapabilityUtils.mayCreateTopLevelMailbox(session, 'account-1')).toBe(true)
+    })
+
+    it('should prefer the account capability over the session one', () => {
+      const withAccountLimits = Schema.decodeUnknownSync(Session)({
+        ...JMAPFixtures.session,
+        accounts: {
+          'account-1': {
+            ...JMAPFixtures.session.accounts['account-1'],
+            accountCapabilities: {
+              [CapabilityUris.MAIL]: {
+                maxMailboxesPerEmail: null,
+                maxMailboxDepth: null,
+                maxSizeMailboxName: 100,
+                maxSizeAttachmentsPerEmail: 1000,
+                emailQuerySortOptions: ['receivedAt'],
+                mayCreateTopLevelMailbox: false
+              }
+            }
+          }
+        }
+      })
+
+      expect(CapabilityUtils.maxMailboxDepth(withAccountLimits, 'account-1')).toBeNull()
+      expect(CapabilityUtils.maxSizeAttachmentsPerEmail(withAccountLimits, 'account-1')).toBe(1000)
+      expect(CapabilityUtils.emailQuerySortOptions(withAccountLimits, 'account-1')).toEqual(['receivedAt'])
+    })
+
+    it('should have nothing for an unknown account', () => {
+      expect(CapabilityUtils.mail(session, 'account-unknown')).toBeUndefined()
+      expect(CapabilityUtils.emailQuerySortOptions(session, 'account-unknown')).toEqual([])
+    })
+  })
+
+  describe('submission', () => {
+    it('should read the submission capability of the account', () => {
+      expect(CapabilityUtils.maxDelayedSend(session, 'account-1')).toBe(44236800)
+      expect(CapabilityUtils.submissionExtensions(session, 'account-1')).toEqual({
+        SIZE: ['50000000'],
+        FUTURERELEASE: ['86400', '2024-12-31T23:59:59Z']
+      })
+    })
+  })
+
+  describe('extension', () => {
+    it('should return capabilities without a schema as they are', () => {
+      expect(CapabilityUtils.extension(session, CapabilityUris.VACATION_RESPONSE, 'account-1')).toEqual({})
+      expect(CapabilityUtils.extension(session, 'urn:example:unknown')).toBeUndefined()
+    })
+  })
+})
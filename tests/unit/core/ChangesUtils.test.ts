@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { Effect } from 'effect'
+import { mergeChanges, collectChanges, type ChangesPage } from '../../../src/core/ChangesUtils.ts'
+
+const emptyDelta = {
+  oldState: 's1',
+  newState: 's1',
+  created: [],
+  updated: [],
+  destroyed: []
+}
+
+const page = (overrides: Partial<ChangesPage>): ChangesPage => ({
+  oldState: 's1',
+  newState: 's2',
+  hasMoreChanges: false,
+  created: [],
+  updated: [],
+  destroyed: [],
+  ...overrides
+})
+
+describe('ChangesUtils', () => {
+  describe('mergeChanges', () => {
+    it('should drop ids created and destroyed within the delta', () => {
+      const first = mergeChanges(emptyDelta, page({ created: ['a'] }))
+      const merged = mergeChanges(first, page({ oldState: 's2', newState: 's3', destroyed: ['a'] }))
+
+      expect(merged).toEqual({ oldState: 's1', newState: 's3', created: [], updated: [], destroyed: [] })
+    })
+
+    it('should keep created ids as created when later updated', () => {
+      const first = mergeChanges(emptyDelta, page({ created: ['a'] }))
+      const merged = mergeChanges(first, page({ updated: ['a', 'b'] }))
+
+      expect(merged.created).toEqual(['a'])
+      expect(merged.updated).toEqual(['b'])
+    })
+
+    it('should report updated then destroyed ids as destroyed only', () => {
+      const first = mergeChanges(emptyDelta, page({ updated: ['a'] }))
+      const merged = mergeChanges(first, page({ destroyed: ['a'] }))
+
+      expect(merged.updated).toEqual([])
+      expect(merged.destroyed).toEqual(['a'])
+    })
+  })
+
+  describe('collectChanges', () => {
+    it('should follow hasMoreChanges until it is false', async () => {
+      const requestedStates: string[] = []
+      const pages: Record<string, ChangesPage> = {
+        s1: page({ oldState: 's1', newState: 's2', hasMoreChanges: true, created: ['a'] }),
+        s2: page({ oldState: 's2', newState: 's3', updated: ['b'] })
+      }
+
+      const result = await Effect.runPromise(
+        collectChanges((state) => {
+          requestedStates.push(state)
+          return Effect.succeed(pages[state]!)
+        }, 's1')
+      )
+
+      expect(requestedStates).toEqual(['s1', 's2'])
+      expect(result).toEqual({ oldState: 's1', newState: 's3', created: ['a'], updated: ['b'], destroyed: [] })
+    })
+
+    it('should fail when the server does not advance the state', async () => {
+      const result = await Effect.runPromise(
+        Effect.either(
+          collectChanges(() => Effect.succeed(page({ oldState: 's1', newState: 's1', hasMoreChanges: true })), 's1')
+        )
+      )
+
+      expect(result._tag).toBe('Left')
+    })
+  })
+})
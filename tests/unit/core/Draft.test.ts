@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import { buildDraft, toEmailAddress } from '../../../src/core/Draft.ts'
+import { EmailCreate } from '../../../src/schemas/Email.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+
+describe('Draft', () => {
+  const draftsId = Common.createId('mailbox-drafts')
+  const base = {
+    from: 'Alice <alice@example.com>',
+    to: ['bob@example.com'],
+    subject: 'Hello'
+  }
+
+  describe('toEmailAddress', () => {
+    it('should parse plain and named addresses', () => {
+      expect(toEmailAddress('bob@example.com')).toEqual({ name: null, email: 'bob@example.com' })
+      expect(toEmailAddress('"Bob Smith" <bob@example.com>')).toEqual({ name: 'Bob Smith', email: 'bob@example.com' })
+      expect(toEmailAddress({ name: 'Carol', email: 'carol@example.com' })).toEqual({ name: 'Carol', email: 'carol@example.com' })
+    })
+  })
+
+  describe('buildDraft', () => {
+    it('should build a single text part for a plain text draft', () => {
+      const email = buildDraft({ ...base, textBody: 'Hi Bob' }, draftsId)
+
+      expect(email).toEqual({
+        mailboxIds: { 'mailbox-drafts': true },
+        keywords: { $draft: true, $seen: true },
+        from: [{ name: 'Alice', email: 'alice@example.com' }],
+        to: [{ name: null, email: 'bob@example.com' }],
+        subject: 'Hello',
+        bodyStructure: { partId: 'text', type: 'text/plain' },
+        bodyValues: { text: { value: 'Hi Bob' } }
+      })
+    })
+
+    it('should use multipart/alternative for text and HTML', () => {
+      const email = buildDraft({ ...base, textBody: 'Hi Bob', htmlBody: '<p>Hi Bob</p>' }, draftsId)
+
+      expect(email.bodyStructure).toEqual({
+        type: 'multipart/alternative',
+        subParts: [
+          { partId: 'text', type: 'text/plain' },
+          { partId: 'html', type: 'text/html' }
+        ]
+      })
+      expect(email.bodyValues).toEqual({ text: { value: 'Hi Bob' }, html: { value: '<p>Hi Bob</p>' } })
+    })
+
+    it('should put inline images with the HTML in multipart/related', () => {
+      const email = buildDraft({
+        ...base,
+        htmlBody: '<img src="cid:logo">',
+        inlineImages: [{ blobId: 'blob-logo', type: 'image/png', cid: 'logo' }]
+      }, draftsId)
+
+      expect(email.bodyStructure).toEqual({
+        type: 'multipart/related',
+        subParts: [
+          { partId: 'html', type: 'text/html' },
+          { blobId: 'blob-logo', type: 'image/png', disposition: 'inline', cid: 'logo' }
+        ]
+      })
+      expect(email.bodyValues).toEqual({ html: { value: '<img src="cid:logo">' } })
+    })
+
+    it('should wrap the body and attachments in multipart/mixed', () => {
+      const email = buildDraft({
+        ...base,
+        textBody: 'See attached',
+        htmlBody: '<p>See attached <img src="cid:logo"></p>',
+        inlineImages: [{ blobId: 'blob-logo', type: 'image/png', cid: 'logo' }],
+        attachments: [{ blobId: 'blob-report', type: 'application/pdf', name: 'report.pdf' }]
+      }, draftsId)
+
+      expect(email.bodyStructure).toEqual({
+        type: 'multipart/mixed',
+        subParts: [
+          {
+            type: 'multipart/alternative',
+            subParts: [
+              { partId: 'text', type: 'text/plain' },
+              {
+                type: 'multipart/related',
+                subParts: [
+                  { partId: 'html', type: 'text/html' },
+                  { blobId: 'blob-logo', type: 'image/png', disposition: 'inline', cid: 'logo' }
+                ]
+              }
+            ]
+          },
+          { blobId: 'blob-report', type: 'application/pdf', disposition: 'attachment', name: 'report.pdf' }
+        ]
+      })
+    })
+
+    it('should give a draft without a body an empty text part', () => {
+      const email = buildDraft({
+        from: 'alice@example.com',
+        attachments: [{ blobId: 'blob-report', type: 'application/pdf' }]
+      }, draftsId)
+
+      expect(email.bodyValues).toEqual({ text: { value: '' } })
+      expect(email.bodyStructure?.subParts?.[0]).toEqual({ partId: 'text', type: 'text/plain' })
+      expect(email.to).toBeUndefined()
+    })
+
+    it('should produce a valid Email/set create', () => {
+      const email = buildDraft({
+        ...base,
+        cc: [{ name: 'Carol', email: 'carol@example.com' }],
+        textBody: 'Hi',
+        htmlBody: '<p>Hi</p>',
+        attachments: [{ blobId: 'blob-report', type: 'application/pdf', name: 'report.pdf' }],
+        inReplyTo: ['<original@example.com>'],
+        sentAt: new Date('2024-01-01T12:00:00Z')
+      }, draftsId)
+
+      expect(Schema.decodeUnknownSync(EmailCreate)(email)).toEqual(email)
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { Either, Schema } from 'effect'
+import { CollationAlgorithms, EmailQueryUtils } from '../../../src/core/EmailQuery.ts'
+import { EmailFilters } from '../../../src/core/FilterUtils.ts'
+import { Email } from '../../../src/schemas/Email.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+
+describe('EmailQueryUtils', () => {
+  const email = (overrides: Record<string, unknown> = {}): Email =>
+    Schema.decodeUnknownSync(Email)({ ...JMAPFixtures.emails[0], ...overrides })
+
+  const plain = email()
+  const html = Schema.decodeUnknownSync(Email)(JMAPFixtures.emails[1])
+  const reply = email({
+    id: 'email-3',
+    threadId: 'thread-1',
+    keywords: {},
+    size: 512,
+    receivedAt: '2024-01-17T09:00:00Z',
+    subject: 'Re: [dev] test email 1',
+    from: [{ name: 'Zoe', email: 'zoe@example.com' }],
+    headers: { 'List-Id': ['<dev.example.com>'] }
+  })
+  const emails = [plain, html, reply]
+
+  const threadEmails = (member: Email) => emails.filter(other => other.threadId === member.threadId)
+
+  const ids = (list: ReadonlyArray<Email>) => list.map(item => item.id)
+
+  describe('matches', () => {
+    it('should match mailbox, date, size and keyword conditions with server semantics', () => {
+      const archived = email({ id: 'email-4', mailboxIds: { 'mailbox-1': true, 'mailbox-2': true } })
+
+      expect(EmailQueryUtils.matches({ inMailboxOtherThan: [Common.createId('mailbox-1')] }, plain)).toBe(false)
+      expect(EmailQueryUtils.matches({ inMailboxOtherThan: [Common.createId('mailbox-1')] }, archived)).toBe(true)
+      // after is inclusive and before exclusive
+      expect(ids(EmailQueryUtils.filter(emails, { after: '2024-01-16T14:20:00Z', before: '2024-01-17T09:00:00Z' }))).toEqual(['email-2'])
+      // minSize is inclusive and maxSize exclusive
+      expect(ids(EmailQueryUtils.filter(emails, { minSize: 512, maxSize: 4096 }))).toEqual(['email-1', 'email-3'])
+      expect(ids(EmailQueryUtils.filter(emails, EmailFilters.unread()))).toEqual(['email-2', 'email-3'])
+      expect(ids(EmailQueryUtils.filter(emails, { hasAttachment: true }))).toEqual(['email-2'])
+    })
+
+    it('should evaluate thread keyword conditions over the whole thread', () => {
+      const alone = EmailQueryUtils.filter(emails, { someInThreadHaveKeyword: '$seen' })
+      const threaded = EmailQueryUtils.filter(emails, { someInThreadHaveKeyword: '$seen' }, { threadEmails })
+
+      expect(ids(alone)).toEqual(['email-1'])
+      expect(ids(threaded)).toEqual(['email-1', 'email-3'])
+      expect(ids(EmailQueryUtils.filter(emails, { allInThreadHaveKeyword: '$seen' }, { threadEmails }))).toEqual([])
+      expect(ids(EmailQueryUtils.filter(emails, { noneInThreadHaveKeyword: '$seen' }, { threadEmails }))).toEqual(['email-2'])
+    })
+
+    it('should match text conditions as case-insensitive substrings', () => {
+      expect(ids(EmailQueryUtils.filter(emails, { from: 'JOHN DOE <john@' }))).toEqual(['email-1'])
+      expect(ids(EmailQueryUtils.filter(emails, { subject: 'test email 1' }))).toEqual(['email-1', 'email-3'])
+      // HTML bodies are searched without their tags
+      expect(ids(EmailQueryUtils.filter(emails, { body: 'is html content' }))).toEqual(['email-2'])
+      expect(ids(EmailQueryUtils.filter(emails, { body: 'strong' }))).toEqual([])
+      expect(ids(EmailQueryUtils.filter(emails, { text: 'zoe@example' }))).toEqual(['email-3'])
+    })
+
+    it('should match header conditions by name and value', () => {
+      expect(ids(EmailQueryUtils.filter(emails, EmailFilters.header('list-id')))).toEqual(['email-3'])
+      expect(ids(EmailQueryUtils.filter(emails, EmailFilters.header('List-Id', 'DEV.example')))).toEqual(['email-3'])
+      expect(ids(EmailQueryUtils.filter(emails, EmailFilters.header('List-Id', 'ops')))).toEqual([])
+      // Without raw headers, the parsed properties stand in for them
+      expect(ids(EmailQueryUtils.filter(emails, EmailFilters.header('Message-ID', 'message-2')))).toEqual(['email-2'])
+    })
+
+    it('should combine conditions with AND, OR and NOT', () => {
+      const filter = EmailFilters.or(
+        EmailFilters.and(EmailFilters.flagged(), EmailFilters.hasAttachment()),
+        EmailFilters.not(EmailFilters.from('example.com'))
+      )
+
+      expect(ids(EmailQueryUtils.filter(emails, filter))).toEqual(['email-2'])
+      expect(ids(EmailQueryUtils.filter(emails, EmailFilters.not(filter)))).toEqual(['email-1', 'email-3'])
+    })
+  })
+
+  describe('sort', () => {
+    it('should sort by each comparator in turn', () => {
+      const sorted = EmailQueryUtils.sort(emails, [
+        { property: 'hasKeyword', keyword: '$seen', isAscending: false },
+        { property: 'receivedAt', isAscending: false }
+      ])
+
+      expect(Either.map(sorted, ids)).toEqual(Either.right(['email-1', 'email-3', 'email-2']))
+    })
+
+    it('should sort subjects by their base subject', () => {
+      expect(EmailQueryUtils.baseSubject('Re: [dev] Fwd: Lunch (fwd)')).toBe('Lunch')
+      expect(Either.map(EmailQueryUtils.sort([reply, html, plain], [{ property: 'subject' }]), ids))
+        .toEqual(Either.right(['email-3', 'email-1', 'email-2']))
+    })
+
+    it('should sort addresses by the first name, or the email without one', () => {
+      const nameless = email({ id: 'email-4', from: [{ name: null, email: 'adam@example.com' }] })
+      const empty = email({ id: 'email-5', from: [{ name: '', email: 'kim@example.com' }] })
+
+      // Jane Smith, John Doe, Zoe, with adam and kim sorted by their email
+      expect(Either.map(EmailQueryUtils.sort([reply, empty, plain, nameless, html], [{ property: 'from' }]), ids))
+        .toEqual(Either.right(['email-4', 'email-2', 'email-1', 'email-5', 'email-3']))
+    })
+
+    it('should sort thread keywords over the whole thread', () => {
+      const sorted = EmailQueryUtils.sort(emails, [{ property: 'someInThreadHaveKeyword', keyword: '$seen' }], { threadEmails })
+
+      expect(Either.map(sorted, ids)).toEqual(Either.right(['email-2', 'email-1', 'email-3']))
+    })
+
+    it('should reject sort properties and collations the RFC does not define', () => {
+      const property = EmailQueryUtils.sort(emails, [{ property: 'preview' }])
+      const collation = EmailQueryUtils.sort(emails, [{ property: 'subject', collation: 'i;klingon' }])
+
+      expect(Either.flip(property).pipe(Either.map(error => error.type))).toEqual(Either.right('unsupportedSort'))
+      expect(Either.flip(collation).pipe(Either.map(error => error.type))).toEqual(Either.right('unsupportedSort'))
+    })
+  })
+
+  describe('collate', () => {
+    it('should fold case by collation', () => {
+      expect(EmailQueryUtils.collate(CollationAlgorithms.OCTET, 'a', 'B')).toBe(1)
+      expect(EmailQueryUtils.collate(CollationAlgorithms.ASCII_CASEMAP, 'a', 'A')).toBe(0)
+      expect(EmailQueryUtils.collate(CollationAlgorithms.ASCII_CASEMAP, 'É', 'é')).not.toBe(0)
+      expect(EmailQueryUtils.collate(CollationAlgorithms.UNICODE_CASEMAP, 'É', 'é')).toBe(0)
+    })
+  })
+})
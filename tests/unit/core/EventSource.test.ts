@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { Chunk, Effect, Stream } from 'effect'
+import { decodeServerSentEvents } from '../../../src/core/EventSource.ts'
+
+const decode = (...chunks: Array<string>) =>
+  Effect.runSync(
+    Stream.runCollect(
+      decodeServerSentEvents(Stream.fromIterable(chunks.map((chunk) => new TextEncoder().encode(chunk))))
+    ).pipe(Effect.map(Chunk.toArray))
+  )
+
+describe('decodeServerSentEvents', () => {
+  it('should dispatch events on blank lines across chunk boundaries', () => {
+    expect(decode('event: state\nda', 'ta: {"a":1}\n\n', 'data: plain\n\n')).toEqual([
+      { event: 'state', data: '{"a":1}' },
+      { event: 'message', data: 'plain' }
+    ])
+  })
+
+  it('should join multi-line data and skip comments', () => {
+    expect(decode(': keep-alive\r\ndata: one\r\ndata:two\r\n\r\n')).toEqual([
+      { event: 'message', data: 'one\ntwo' }
+    ])
+  })
+
+  it('should carry the last event id and retry time', () => {
+    expect(decode('id: 7\nretry: 5000\ndata: a\n\ndata: b\n\n')).toEqual([
+      { event: 'message', data: 'a', id: '7', retry: 5000 },
+      { event: 'message', data: 'b', id: '7' }
+    ])
+  })
+
+  it('should not dispatch events without data', () => {
+    expect(decode('event: ping\n\n')).toEqual([])
+  })
+})
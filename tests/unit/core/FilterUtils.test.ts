@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import { FilterUtils, EmailFilters, MailboxFilters } from '../../../src/core/FilterUtils.ts'
+import { EmailFilter, EmailQueryArguments } from '../../../src/schemas/Email.ts'
+import { MailboxQueryArguments } from '../../../src/schemas/Mailbox.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+
+describe('FilterUtils', () => {
+  const inboxId = Common.createId('mailbox-inbox')
+
+  describe('EmailFilters', () => {
+    it('should build "unread in Inbox OR flagged anywhere" as one filter', () => {
+      const filter = EmailFilters.or(
+        EmailFilters.and(EmailFilters.inMailbox(inboxId), EmailFilters.unread()),
+        EmailFilters.flagged()
+      )
+
+      expect(filter).toEqual({
+        operator: 'OR',
+        conditions: [
+          { operator: 'AND', conditions: [{ inMailbox: 'mailbox-inbox' }, { notKeyword: '$seen' }] },
+          { hasKeyword: '$flagged' }
+        ]
+      })
+    })
+
+    it('should convert dates to JMAP dates', () => {
+      expect(EmailFilters.before(new Date('2024-01-01T00:00:00Z'))).toEqual({ before: '2024-01-01T00:00:00.000Z' })
+    })
+
+    it('should build header conditions with and without a value', () => {
+      expect(EmailFilters.header('List-Id')).toEqual({ header: ['List-Id'] })
+      expect(EmailFilters.header('List-Id', 'dev.example.com')).toEqual({ header: ['List-Id', 'dev.example.com'] })
+    })
+
+    it('should negate with NOT', () => {
+      expect(EmailFilters.not(EmailFilters.from('noreply@'))).toEqual({
+        operator: 'NOT',
+        conditions: [{ from: 'noreply@' }]
+      })
+    })
+  })
+
+  describe('MailboxFilters', () => {
+    it('should combine mailbox conditions', () => {
+      const filter = MailboxFilters.and(MailboxFilters.parentId(null), MailboxFilters.not(MailboxFilters.hasAnyRole()))
+
+      expect(Schema.decodeUnknownSync(MailboxQueryArguments)({ accountId: 'account-1', filter }).filter).toEqual(filter)
+    })
+  })
+
+  describe('isOperator', () => {
+    it('should tell operators from conditions', () => {
+      expect(FilterUtils.isOperator(EmailFilters.and())).toBe(true)
+      expect(FilterUtils.isOperator(EmailFilters.unread())).toBe(false)
+    })
+  })
+
+  describe('filter schemas', () => {
+    it('should decode nested operators in query arguments', () => {
+      const filter = EmailFilters.or(
+        EmailFilters.and(EmailFilters.inMailbox(inboxId), EmailFilters.unread()),
+        EmailFilters.not(EmailFilters.hasAttachment())
+      )
+
+      const args = Schema.decodeUnknownSync(EmailQueryArguments)({ accountId: 'account-1', filter })
+
+      expect(args.filter).toEqual(filter)
+    })
+
+    it('should still accept a plain condition', () => {
+      expect(Schema.decodeUnknownSync(EmailFilter)({ text: 'invoice' })).toEqual({ text: 'invoice' })
+    })
+
+    it('should reject invalid conditions nested in operators', () => {
+      expect(() => Schema.decodeUnknownSync(EmailFilter)({
+        operator: 'AND',
+        conditions: [{ operator: 'OR', conditions: [{ minSize: -1 }] }]
+      })).toThrow()
+    })
+
+    it('should reject unknown operators instead of matching everything', () => {
+      expect(() => Schema.decodeUnknownSync(EmailFilter)({ operator: 'XOR', conditions: [] })).toThrow()
+    })
+  })
+})
@@ -0,0 +1,287 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Either, Layer, Schema } from 'effect'
+import { JMAPClientLive, JMAPClientService } from '../../../src/core/JMAPClient.ts'
+import { makeRequestBuilder } from '../../../src/core/RequestBuilder.ts'
+import { EmailSetResponse } from '../../../src/schemas/Email.ts'
+import { CapabilityUris, type Invocation, type MethodResponse } from '../../../src/core/Types.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+import { fakeJMAPServer, fakeSessionUrl, replyEach } from '../../utils/test-utils.ts'
+
+const config = {
+  sessionUrl: fakeSessionUrl,
+  bearerToken: 'token',
+  maxRetries: 0
+}
+
+/**
+ * Answers Email/set calls, failing the ones whose accountId is "missing"
+ */
+const emailSetServer = fakeJMAPServer(replyEach(([name, args, callId]) =>
+  args.accountId === 'missing'
+    ? ['error', { type: 'accountNotFound' }, callId]
+    : [name, { accountId: args.accountId, oldState: 's1', newState: 's2', updated: {} }, callId]
+))
+
+const layer = Layer.provideMerge(JMAPClientLive(config), emailSetServer.layer)
+
+describe('JMAPClientLive', () => {
+  describe('method errors', () => {
+    it('should fail the whole batch on the first method error by default', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch([
+          ['Email/set', { accountId: 'a' }, 'c0'],
+          ['Email/set', { accountId: 'missing' }, 'c1']
+        ])
+      })
+
+      const error = await Effect.runPromise(Effect.flip(Effect.provide(program, layer)))
+
+      expect(error._tag).toBe('JMAPMethodError')
+      expect(error._tag === 'JMAPMethodError' && error.callId).toBe('c1')
+    })
+
+    it('should return error responses in place when failOnMethodError is false', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch(
+          [
+            ['Email/set', { accountId: 'a' }, 'c0'],
+            ['Email/set', { accountId: 'missing' }, 'c1']
+          ],
+          undefined,
+          { failOnMethodError: false }
+        )
+      })
+
+      const response = await Effect.runPromise(Effect.provide(program, layer))
+
+      expect(response.methodResponses.map(([name]) => name)).toEqual(['Email/set', 'error'])
+    })
+  })
+
+  describe('with the request builder', () => {
+    const accounts = Array.from({ length: 20 }, (_, i) => (i === 7 ? 'missing' : `account-${i}`))
+
+    it('should keep successful results next to failed ones with executeEither', async () => {
+      const program = Effect.gen(function* () {
+        const request = makeRequestBuilder()
+        const calls = accounts.map((accountId) => request.call('Email/set', { accountId }, EmailSetResponse))
+        return yield* request.executeEither(calls)
+      })
+
+      const outcomes = await Effect.runPromise(Effect.provide(program, layer))
+
+      expect(outcomes.filter(Either.isRight)).toHaveLength(19)
+      const failed = outcomes[7]!
+      expect(Either.isLeft(failed) && failed.left.type).toBe('accountNotFound')
+      expect(Either.isLeft(failed) && failed.left.callId).toBe('c7')
+    })
+
+    it('should collect every method error with executeAll', async () => {
+      const program = Effect.gen(function* () {
+        const request = makeRequestBuilder()
+        return yield* request.executeAll({
+          ok: request.call('Email/set', { accountId: 'a' }, EmailSetResponse),
+          first: request.call('Email/set', { accountId: 'missing' }, EmailSetResponse),
+          second: request.call('Email/set', { accountId: 'missing' }, Schema.Unknown)
+        })
+      })
+
+      const error = await Effect.runPromise(Effect.flip(Effect.provide(program, layer)))
+
+      expect(error._tag).toBe('JMAPBatchError')
+      expect(error._tag === 'JMAPBatchError' && error.errors.map((e) => e.callId)).toEqual(['c1', 'c2'])
+    })
+
+    it('should succeed with every result when no call fails', async () => {
+      const program = Effect.gen(function* () {
+        const request = makeRequestBuilder()
+        return yield* request.executeAll([
+          request.call('Email/set', { accountId: 'a' }, EmailSetResponse),
+          request.call('Email/set', { accountId: 'b' }, EmailSetResponse)
+        ])
+      })
+
+      const [first, second] = await Effect.runPromise(Effect.provide(program, layer))
+
+      expect(first.accountId).toBe('a')
+      expect(second.accountId).toBe('b')
+    })
+  })
+
+  describe('capabilities', () => {
+    const recordingServer = () => {
+      const server = fakeJMAPServer(replyEach(([name, args, callId]) =>
+        [name, { accountId: args.accountId, state: 's1', list: [], notFound: [] }, callId]
+      ))
+      return { requests: server.requests, layer: Layer.provideMerge(JMAPClientLive(config), server.layer) }
+    }
+
+    it('should use the capabilities of the methods called', async () => {
+      const { requests, layer } = recordingServer()
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        yield* client.batch([
+          ['Identity/get', { accountId: 'account-1' }, 'c0'],
+          ['Mailbox/get', { accountId: 'account-1' }, 'c1']
+        ])
+        yield* client.batch([['Core/echo', {}, 'c0']])
+      })
+
+      await Effect.runPromise(Effect.provide(program, layer))
+
+      expect(requests.map((request) => request.using)).toEqual([
+        [CapabilityUris.CORE, CapabilityUris.MAIL, CapabilityUris.SUBMISSION],
+        [CapabilityUris.CORE]
+      ])
+    })
+
+    it('should fail with ConfigurationError before sending an unsupported capability', async () => {
+      const { requests, layer } = recordingServer()
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch(
+          [['CalendarEvent/get', { accountId: 'account-1' }, 'c0']],
+          [CapabilityUris.CORE, 'urn:ietf:params:jmap:calendars']
+        )
+      })
+
+      const error = await Effect.runPromise(Effect.flip(Effect.provide(program, layer)))
+
+      expect(error._tag).toBe('ConfigurationError')
+      expect(error.message).toContain('urn:ietf:params:jmap:calendars')
+      expect(requests).toHaveLength(0)
+    })
+  })
+
+  describe('request limits', () => {
+    const session = {
+      ...JMAPFixtures.session,
+      capabilities: {
+        ...JMAPFixtures.session.capabilities,
+        [CapabilityUris.CORE]: {
+          ...JMAPFixtures.session.capabilities[CapabilityUris.CORE],
+          maxCallsInRequest: 4,
+          maxObjectsInGet: 3,
+          maxObjectsInSet: 2,
+          maxConcurrentRequests: 2
+        }
+      }
+    }
+
+    /**
+     * Server with small limits, answering gets and sets for the ids in each call
+     */
+    const makeLimitedServer = () => {
+      const respond = ([name, args, callId]: Invocation): MethodResponse =>
+        name.endsWith('/get')
+          ? [name, { accountId: args.accountId, state: 's1', list: args.ids.map((id: string) => ({ id })), notFound: [] }, callId]
+          : name.endsWith('/set')
+            ? [name, {
+                accountId: args.accountId,
+                oldState: `before-${callId}`,
+                newState: `after-${callId}`,
+                updated: Object.fromEntries(Object.keys(args.update ?? {}).map((id) => [id, null])),
+                destroyed: args.destroy ?? []
+              }, callId]
+            : [name, args, callId]
+
+      const server = fakeJMAPServer(
+        (request) => Effect.as(Effect.sleep('5 millis'), replyEach(respond)(request)),
+        session
+      )
+      return { ...server, layer: Layer.provideMerge(JMAPClientLive(config), server.layer) }
+    }
+
+    it('should split a get over maxObjectsInGet and merge its results', async () => {
+      const server = makeLimitedServer()
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch([['Email/get', { accountId: 'account-1', ids: ['e1', 'e2', 'e3', 'e4', 'e5'] }, 'c0']])
+      })
+
+      const response = await Effect.runPromise(Effect.provide(program, server.layer))
+
+      expect(server.requests).toHaveLength(1)
+      expect(server.requests[0]!.methodCalls.map(([, args]) => args.ids)).toEqual([['e1', 'e2', 'e3'], ['e4', 'e5']])
+      expect(response.methodResponses).toHaveLength(1)
+      expect(response.methodResponses[0]![2]).toBe('c0')
+      expect(response.methodResponses[0]![1].list).toEqual([{ id: 'e1' }, { id: 'e2' }, { id: 'e3' }, { id: 'e4' }, { id: 'e5' }])
+    })
+
+    it('should split a set over maxObjectsInSet and merge its results', async () => {
+      const server = makeLimitedServer()
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch([['Email/set', {
+          accountId: 'account-1',
+          update: { e1: { 'keywords/$seen': true }, e2: { 'keywords/$seen': true } },
+          destroy: ['e3']
+        }, 'c0']])
+      })
+
+      const response = await Effect.runPromise(Effect.provide(program, server.layer))
+      const [name, result, callId] = response.methodResponses[0]!
+
+      expect(server.requests[0]!.methodCalls.map(([, , callId]) => callId)).toEqual(['c0:0', 'c0:1'])
+      expect([name, callId]).toEqual(['Email/set', 'c0'])
+      expect(result.updated).toEqual({ e1: null, e2: null })
+      expect(result.destroyed).toEqual(['e3'])
+      expect(result.oldState).toBe('before-c0:0')
+      expect(result.newState).toBe('after-c0:1')
+    })
+
+    it('should send a set guarded by ifInState whole, over maxObjectsInSet', async () => {
+      const server = makeLimitedServer()
+      const update = { m1: { name: 'One' }, m2: { name: 'Two' }, m3: { name: 'Three' } }
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch([['Mailbox/set', { accountId: 'account-1', ifInState: 's1', update }, 'c0']])
+      })
+
+      const response = await Effect.runPromise(Effect.provide(program, server.layer))
+
+      expect(server.requests[0]!.methodCalls).toEqual([['Mailbox/set', { accountId: 'account-1', ifInState: 's1', update }, 'c0']])
+      expect(response.methodResponses[0]![1].updated).toEqual({ m1: null, m2: null, m3: null })
+    })
+
+    it('should send calls over maxCallsInRequest as several requests within maxConcurrentRequests', async () => {
+      const server = makeLimitedServer()
+      const calls = Array.from({ length: 10 }, (_, i) => ['Core/echo', { n: i }, `c${i}`] as [string, unknown, string])
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch(calls)
+      })
+
+      const response = await Effect.runPromise(Effect.provide(program, server.layer))
+
+      expect(server.requests.map((request) => request.methodCalls.length)).toEqual([4, 4, 2])
+      expect(server.maxInFlight()).toBeLessThanOrEqual(2)
+      expect(response.methodResponses.map(([, , callId]) => callId)).toEqual(calls.map(([, , callId]) => callId))
+    })
+
+    it('should keep dependent calls in one request and send requests with sets one at a time', async () => {
+      const server = makeLimitedServer()
+      const calls: Array<[string, unknown, string]> = [
+        ['Core/echo', {}, 'c0'],
+        ['Core/echo', {}, 'c1'],
+        ['Core/echo', {}, 'c2'],
+        ['Mailbox/set', { accountId: 'account-1', create: { k1: { name: 'Clients' } } }, 'c3'],
+        ['Email/set', { accountId: 'account-1', update: { e1: { 'mailboxIds/#k1': true } } }, 'c4'],
+        ['Core/echo', {}, 'c5']
+      ]
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch(calls)
+      })
+
+      const response = await Effect.runPromise(Effect.provide(program, server.layer))
+
+      expect(server.requests.map((request) => request.methodCalls.map(([, , callId]) => callId)))
+        .toEqual([['c0', 'c1', 'c2'], ['c3', 'c4', 'c5']])
+      expect(server.maxInFlight()).toBe(1)
+      expect(response.methodResponses.map(([, , callId]) => callId)).toEqual(['c0', 'c1', 'c2', 'c3', 'c4', 'c5'])
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Either } from 'effect'
+import { HttpClient, HttpClientRequest, HttpRouter, HttpServer } from '@effect/platform'
+import { NodeHttpServer } from '@effect/platform-node'
+import * as Schema from 'effect/Schema'
+import { type MethodHandler, makeJMAPServer, typedMethod } from '../../../src/core/JMAPServer.ts'
+import { Errors } from '../../../src/core/Errors.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+
+const MAIL = ['urn:ietf:params:jmap:core', 'urn:ietf:params:jmap:mail']
+
+describe('JMAPServer', () => {
+  const notes = new Map([['n1', 'Buy milk'], ['n2', 'Call Bob']])
+
+  const methods: Record<string, MethodHandler> = {
+    'Mailbox/query': () => Effect.succeed({ accountId: 'account-1', ids: [...notes.keys()] }),
+    'Mailbox/get': (args) =>
+      Effect.succeed({
+        accountId: 'account-1',
+        list: (args.ids as string[]).map(id => ({ id, name: notes.get(id) }))
+      }),
+    'Mailbox/set': (args, { createdIds }) =>
+      Effect.sync(() => {
+        const created: Record<string, unknown> = {}
+        const create = (args.create ?? {}) as Record<string, { name: string }>
+        for (const [creationId, mailbox] of Object.entries(create)) {
+          const id = `n${notes.size + 1}`
+          notes.set(id, mailbox.name)
+          createdIds.set(creationId, id)
+          created[creationId] = { id }
+        }
+        return { accountId: 'account-1', created }
+      }),
+    'Mailbox/changes': () => Effect.fail(Errors.methodError('cannotCalculateChanges', 'No history')),
+    'Thread/get': () => Effect.die('boom')
+  }
+
+  const server = makeJMAPServer({ session: JMAPFixtures.session, methods })
+
+  const handle = (body: unknown) => Effect.runSync(Effect.either(server.handle(body)))
+
+  it('should resolve result references between calls', () => {
+    const result = handle({
+      using: MAIL,
+      methodCalls: [
+        ['Mailbox/query', { accountId: 'account-1' }, 'q'],
+        ['Mailbox/get', { accountId: 'account-1', '#ids': { resultOf: 'q', name: 'Mailbox/query', path: '/ids' } }, 'g'],
+        ['Mailbox/get', { accountId: 'account-1', '#ids': { resultOf: 'q', name: 'Mailbox/get', path: '/ids' } }, 'bad']
+      ]
+    })
+
+    expect(Either.getOrThrow(result).methodResponses).toEqual([
+      ['Mailbox/query', { accountId: 'account-1', ids: ['n1', 'n2'] }, 'q'],
+      ['Mailbox/get', { accountId: 'account-1', list: [{ id: 'n1', name: 'Buy milk' }, { id: 'n2', name: 'Call Bob' }] }, 'g'],
+      ['error', expect.objectContaining({ type: 'invalidResultReference' }), 'bad']
+    ])
+  })
+
+  it('should track created ids and return them when the request sent some', () => {
+    const withIds = Either.getOrThrow(handle({
+      using: MAIL,
+      methodCalls: [['Mailbox/set', { accountId: 'account-1', create: { k1: { name: 'Water plants' } } }, '0']],
+      createdIds: { earlier: 'n0' }
+    }))
+    const without = Either.getOrThrow(handle({
+      using: MAIL,
+      methodCalls: [['Mailbox/set', { accountId: 'account-1', create: { k2: { name: 'Pay rent' } } }, '0']]
+    }))
+
+    expect(withIds.createdIds).toEqual({ earlier: 'n0', k1: 'n3' })
+    expect(without.createdIds).toBeUndefined()
+    expect(without.sessionState).toBe(JMAPFixtures.session.state)
+  })
+
+  it('should answer failing calls with method errors and carry on', () => {
+    const result = Either.getOrThrow(handle({
+      using: ['urn:ietf:params:jmap:core'],
+      methodCalls: [
+        ['Mailbox/changes', { accountId: 'account-1', sinceState: '1' }, 'a'],
+        ['Core/echo', { hello: true }, 'b'],
+        ['Email/get', { accountId: 'account-1' }, 'c'],
+        ['Thread/get', { accountId: 'account-1' }, 'd']
+      ]
+    }))
+
+    expect(result.methodResponses).toEqual([
+      // Mailbox methods need the mail capability in using
+      ['error', { type: 'unknownMethod', description: 'Unknown method Mailbox/changes' }, 'a'],
+      ['Core/echo', { hello: true }, 'b'],
+      ['error', { type: 'unknownMethod', description: 'Unknown method Email/get' }, 'c'],
+      ['error', { type: 'unknownMethod', description: 'Unknown method Thread/get' }, 'd']
+    ])
+
+    const failing = Either.getOrThrow(handle({
+      using: MAIL,
+      methodCalls: [
+        ['Mailbox/changes', { accountId: 'account-1', sinceState: '1' }, 'a'],
+        ['Thread/get', { accountId: 'account-1' }, 'd']
+      ]
+    }))
+    expect(failing.methodResponses).toEqual([
+      ['error', { type: 'cannotCalculateChanges', description: 'No history' }, 'a'],
+      ['error', { type: 'serverFail', description: 'Unexpected failure in Thread/get' }, 'd']
+    ])
+  })
+
+  it('should reject requests it cannot process with request-level errors', () => {
+    const problem = (body: unknown) => Either.flip(handle(body)).pipe(Either.map(error => error.toProblem()))
+
+    expect(problem({ using: 'mail' })).toEqual(Either.right({
+      type: 'urn:ietf:params:jmap:error:notRequest', status: 400, detail: 'Not a JMAP Request object'
+    }))
+    expect(problem({ using: ['urn:example:unknown'], methodCalls: [] })).toEqual(Either.right({
+      type: 'urn:ietf:params:jmap:error:unknownCapability', status: 400, detail: 'Unknown capabilities: urn:example:unknown'
+    }))
+    expect(problem({
+      using: MAIL,
+      methodCalls: Array.from({ length: 17 }, (_, i) => ['Core/echo', {}, String(i)])
+    })).toEqual(Either.right({
+      type: 'urn:ietf:params:jmap:error:limit', status: 400, limit: 'maxCallsInRequest', detail: 'More than 16 method calls'
+    }))
+  })
+
+  it('should decode arguments and encode results of typed methods', () => {
+    const typed = makeJMAPServer({
+      session: JMAPFixtures.session,
+      methods: {
+        'Mailbox/get': typedMethod(
+          Schema.Struct({ accountId: Schema.String, ids: Schema.Array(Schema.String) }),
+          Schema.Struct({ accountId: Schema.String, count: Schema.NumberFromString }),
+          (args) => Effect.succeed({ accountId: args.accountId, count: args.ids.length })
+        )
+      }
+    })
+
+    const result = Effect.runSync(typed.handle({
+      using: MAIL,
+      methodCalls: [
+        ['Mailbox/get', { accountId: 'account-1', ids: ['a', 'b'] }, 'ok'],
+        ['Mailbox/get', { accountId: 'account-1', ids: 'a' }, 'bad']
+      ]
+    }))
+
+    expect(result.methodResponses[0]).toEqual(['Mailbox/get', { accountId: 'account-1', count: '2' }, 'ok'])
+    expect(result.methodResponses[1]).toEqual(['error', expect.objectContaining({ type: 'invalidArguments' }), 'bad'])
+  })
+
+  it('should be mountable on an HttpRouter', async () => {
+    const app = HttpRouter.empty.pipe(HttpRouter.mount('/jmap', server.router))
+
+    const [session, api, notJSON] = await Effect.gen(function* () {
+      yield* HttpServer.serveEffect(app)
+      const client = yield* HttpClient.HttpClient
+      const session = yield* Effect.flatMap(client.get('/jmap/session'), response => response.json)
+      const api = yield* client.execute(
+        HttpClientRequest.post('/jmap/api').pipe(HttpClientRequest.bodyUnsafeJson({
+          using: MAIL,
+          methodCalls: [['Mailbox/query', { accountId: 'account-1' }, '0']]
+        }))
+      ).pipe(Effect.flatMap(response => response.json))
+      const notJSON = yield* client.execute(HttpClientRequest.post('/jmap/api').pipe(HttpClientRequest.bodyText('{')))
+      return [session, api, { status: notJSON.status, body: yield* notJSON.json }] as const
+    }).pipe(Effect.provide(NodeHttpServer.layerTest), Effect.scoped, Effect.runPromise)
+
+    expect(session).toEqual(JMAPFixtures.session)
+    expect(api).toEqual({
+      methodResponses: [['Mailbox/query', { accountId: 'account-1', ids: expect.any(Array) }, '0']],
+      sessionState: JMAPFixtures.session.state
+    })
+    expect(notJSON).toEqual({
+      status: 400,
+      body: { type: 'urn:ietf:params:jmap:error:notJSON', status: 400, detail: 'The request body is not JSON' }
+    })
+  })
+})
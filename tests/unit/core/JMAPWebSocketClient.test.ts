@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Layer, Schema, Stream } from 'effect'
+import { NodeSocket, NodeSocketServer } from '@effect/platform-node'
+import { JMAPClientService } from '../../../src/core/JMAPClient.ts'
+import { JMAPWebSocketClientLive, JMAPWebSocketClientService } from '../../../src/core/JMAPWebSocketClient.ts'
+import { CapabilityUris, type Invocation, type MethodResponse, Request } from '../../../src/core/Types.ts'
+import { MailboxService, MailboxServiceLive } from '../../../src/services/Mailbox.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+import { fakeHttpClient, fakeSessionUrl } from '../../utils/test-utils.ts'
+
+/**
+ * Answer one method call the way a minimal server would
+ */
+const respond = ([name, args, callId]: Invocation): MethodResponse => {
+  if (args.accountId === 'missing') {
+    return ['error', { type: 'accountNotFound' }, callId]
+  }
+  if (name.endsWith('/get')) {
+    return [name, { accountId: args.accountId, state: 's1', list: [], notFound: args.ids ?? [] }, callId]
+  }
+  return [name, { accountId: args.accountId }, callId]
+}
+
+/**
+ * Messages a client sends over the socket - RFC 8887 Section 4
+ */
+const ClientMessage = Schema.Union(
+  Schema.extend(Request, Schema.Struct({ '@type': Schema.Literal('Request'), id: Schema.String })),
+  Schema.Struct({ '@type': Schema.Literal('WebSocketPushEnable'), dataTypes: Schema.NullOr(Schema.Array(Schema.String)) })
+)
+
+/**
+ * In-process JMAP WebSocket server. Requests whose first call is "Test/hold"
+ * are answered only after the next request, to check responses are matched by
+ * id, and those whose first call is "Test/drop" never.
+ */
+const startServer = Effect.gen(function* () {
+  const server = yield* NodeSocketServer.makeWebSocket({ host: '127.0.0.1', port: 0 })
+  const protocols: Array<string | undefined> = []
+  const received: Array<unknown> = []
+
+  yield* Effect.forkScoped(
+    server.run((socket) =>
+      Effect.gen(function* () {
+        const request = yield* NodeSocketServer.IncomingMessage
+        protocols.push(request.headers['sec-websocket-protocol'])
+        const write = yield* socket.writer
+        const send = (message: unknown) => write(JSON.stringify(message))
+        let held: object | null = null
+
+        yield* socket.runRaw((data) =>
+          Effect.gen(function* () {
+            const json: unknown = JSON.parse(typeof data === 'string' ? data : new TextDecoder().decode(data))
+            received.push(json)
+            const message = Schema.decodeUnknownSync(ClientMessage)(json)
+
+            switch (message['@type']) {
+              case 'Request': {
+                if (message.using.includes('urn:example:unknown')) {
+                  return yield* send({
+                    '@type': 'RequestError',
+                    requestId: message.id,
+                    type: 'urn:ietf:params:jmap:error:unknownCapability',
+                    status: 400,
+                    detail: 'Unknown capability urn:example:unknown'
+                  })
+                }
+                if (message.using.includes('urn:example:anonymous')) {
+                  // A request error the server cannot tie to a request
+                  return yield* send({ '@type': 'RequestError', type: 'urn:ietf:params:jmap:error:notRequest', status: 400 })
+                }
+                if (message.methodCalls[0][0] === 'Test/drop') {
+                  return
+                }
+                const response = {
+                  '@type': 'Response',
+                  requestId: message.id,
+                  methodResponses: message.methodCalls.map(respond),
+                  sessionState: 'ws-state'
+                }
+                if (message.methodCalls[0][0] === 'Test/hold') {
+                  held = response
+                  return
+                }
+                yield* send(response)
+                if (held !== null) {
+                  yield* send(held)
+                  held = null
+                }
+                return
+              }
+              case 'WebSocketPushEnable':
+                return yield* send({
+                  '@type': 'StateChange',
+                  changed: { 'account-1': { Email: 'e2' } },
+                  pushState: 'push-1'
+                })
+            }
+          })
+        )
+      }).pipe(Effect.scoped)
+    )
+  )
+
+  const address = server.address
+  const url = address._tag === 'TcpAddress' ? `ws://${address.hostname}:${address.port}` : ''
+  return { url, protocols, received }
+})
+
+const clientLayer = (url: string) =>
+  Layer.provideMerge(
+    JMAPWebSocketClientLive({ sessionUrl: fakeSessionUrl, bearerToken: 'token', timeout: 200 }),
+    Layer.merge(
+      NodeSocket.layerWebSocketConstructor,
+      fakeHttpClient(() => ({
+        body: {
+          ...JMAPFixtures.session,
+          capabilities: {
+            ...JMAPFixtures.session.capabilities,
+            [CapabilityUris.WEBSOCKET]: { url, supportsPush: true },
+            // Advertised in the session but refused by the socket, for request-level errors
+            'urn:example:unknown': {},
+            'urn:example:anonymous': {}
+          }
+        }
+      }))
+    )
+  )
+
+const testLayer = (url: string) => Layer.merge(clientLayer(url), MailboxServiceLive)
+
+const runWithServer = <A, E>(
+  test: (
+    server: Effect.Effect.Success<typeof startServer>
+  ) => Effect.Effect<A, E, Layer.Layer.Success<ReturnType<typeof testLayer>>>
+) =>
+  Effect.runPromise(
+    Effect.scoped(
+      Effect.gen(function* () {
+        const server = yield* startServer
+        return yield* test(server).pipe(Effect.provide(testLayer(server.url)))
+      })
+    )
+  )
+
+describe('JMAPWebSocketClientLive', () => {
+  it('should send requests over the jmap subprotocol', async () => {
+    const result = await runWithServer((server) =>
+      Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        const response = yield* client.batch([['Email/get', { accountId: 'account-1', ids: ['email-1'] }, 'c0']])
+        return { response, server }
+      })
+    )
+
+    expect(result.response.sessionState).toBe('ws-state')
+    expect(result.response.methodResponses[0]![0]).toBe('Email/get')
+    expect(result.server.protocols).toEqual(['jmap'])
+    expect(result.server.received[0]).toMatchObject({
+      '@type': 'Request',
+      using: ['urn:ietf:params:jmap:core', 'urn:ietf:params:jmap:mail']
+    })
+  })
+
+  it('should match concurrent responses to their requests by id', async () => {
+    const [held, immediate] = await runWithServer(() =>
+      Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        const first = yield* Effect.fork(client.batch([['Test/hold', { accountId: 'held' }, 'c0']]))
+        // Make sure the held request is on the wire before the second one
+        yield* Effect.sleep('20 millis')
+        const second = yield* client.batch([['Test/now', { accountId: 'immediate' }, 'c0']])
+        return [yield* first, second] as const
+      })
+    )
+
+    expect(held.methodResponses[0]![1].accountId).toBe('held')
+    expect(immediate.methodResponses[0]![1].accountId).toBe('immediate')
+  })
+
+  it('should keep the method error and request error contract', async () => {
+    const [methodError, requestError] = await runWithServer(() =>
+      Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        const methodError = yield* Effect.flip(client.batch([['Email/get', { accountId: 'missing' }, 'c0']]))
+        const requestError = yield* Effect.flip(
+          client.batch([['Email/get', { accountId: 'account-1' }, 'c0']], ['urn:example:unknown'])
+        )
+        return [methodError, requestError] as const
+      })
+    )
+
+    expect(methodError._tag === 'JMAPMethodError' && methodError.type).toBe('accountNotFound')
+    expect(requestError._tag).toBe('NetworkError')
+    expect(requestError._tag === 'NetworkError' && requestError.status).toBe(400)
+  })
+
+  it('should fail every waiting request on a request error without a requestId', async () => {
+    const [waiting, anonymous] = await runWithServer(() =>
+      Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        const waiting = yield* Effect.fork(Effect.flip(client.batch([['Test/hold', { accountId: 'held' }, 'c0']])))
+        yield* Effect.sleep('20 millis')
+        const anonymous = yield* Effect.flip(
+          client.batch([['Email/get', { accountId: 'account-1' }, 'c0']], ['urn:example:anonymous'])
+        )
+        return [yield* waiting, anonymous] as const
+      })
+    )
+
+    expect(waiting._tag === 'NetworkError' && waiting.status).toBe(400)
+    expect(anonymous._tag === 'NetworkError' && anonymous.status).toBe(400)
+  })
+
+  it('should give up on a response after the configured timeout', async () => {
+    const error = await runWithServer(() =>
+      Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* Effect.flip(client.batch([['Test/drop', { accountId: 'account-1' }, 'c0']]))
+      })
+    )
+
+    expect(error._tag).toBe('NetworkError')
+    expect(error.message).toContain('200ms')
+  })
+
+  it('should let services run unchanged over the socket', async () => {
+    const result = await runWithServer(() =>
+      Effect.gen(function* () {
+        const mailboxes = yield* MailboxService
+        return yield* mailboxes.get({ accountId: 'account-1', ids: null })
+      })
+    )
+
+    expect(result.state).toBe('s1')
+  })
+
+  it('should deliver StateChange push on the same connection', async () => {
+    const result = await runWithServer((server) =>
+      Effect.gen(function* () {
+        const client = yield* JMAPWebSocketClientService
+        const change = yield* Stream.runHead(client.stateChanges({ dataTypes: ['Email'] }))
+        yield* client.batch([['Email/get', { accountId: 'account-1', ids: [] }, 'c0']])
+        return { change, server }
+      })
+    )
+
+    expect(result.change._tag === 'Some' && result.change.value.pushState).toBe('push-1')
+    expect(result.server.protocols).toHaveLength(1)
+    expect(result.server.received[0]).toEqual({ '@type': 'WebSocketPushEnable', dataTypes: ['Email'] })
+  })
+})
@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Exit } from 'effect'
+import { MimeParser, MimeSerializer, MimeUtils } from '../../../src/core/Mime.ts'
+import { buildDraft } from '../../../src/core/Draft.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+import { TestUtils } from '../../utils/test-utils.ts'
+
+const crlf = (lines: string[]) => lines.join('\r\n')
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+describe('Mime', () => {
+  describe('MimeUtils', () => {
+    it('should round-trip quoted-printable with soft line breaks', () => {
+      const original = `Grüße ${'x'.repeat(100)} = done \nnext line`
+      const encoded = MimeUtils.encodeQuotedPrintable(new TextEncoder().encode(original))
+
+      expect(encoded.split('\r\n').every(line => line.length <= 76)).toBe(true)
+      expect(encoded).toContain('Gr=C3=BC=C3=9Fe')
+      expect(encoded).toContain('done=20\r\nnext line')
+      expect(text(MimeUtils.decodeQuotedPrintable(encoded))).toBe(original.replace('\n', '\r\n'))
+    })
+
+    it('should decode B and Q encoded words', () => {
+      expect(MimeUtils.decodeEncodedWords('=?UTF-8?B?R3LDvMOfZQ==?= from =?ISO-8859-1?Q?J=F6rg_M?=')).toBe('Grüße from Jörg M')
+    })
+
+    it('should join adjacent encoded words split inside a character', () => {
+      // "€" is E2 82 AC, split across two words
+      expect(MimeUtils.decodeEncodedWords('=?UTF-8?Q?10_=E2=82?=\r\n =?UTF-8?Q?=AC?=')).toBe('10 €')
+    })
+
+    it('should round-trip encoded words', () => {
+      const subject = 'Überraschung — a much longer subject that needs more than one encoded word 🎉'
+      const encoded = MimeUtils.encodeEncodedWords(subject)
+
+      expect(encoded.split(' ').every(word => word.length <= 75)).toBe(true)
+      expect(MimeUtils.decodeEncodedWords(encoded)).toBe(subject)
+      expect(MimeUtils.encodeEncodedWords('plain')).toBe('plain')
+    })
+
+    it('should join RFC 2231 continuations and decode their charset', () => {
+      const { value, params } = MimeUtils.parseParameters(
+        `attachment; filename*0*=utf-8''R%C3%A9sum; filename*1*=%C3%A9; filename*2=".pdf"; size=1024`
+      )
+
+      expect(value).toBe('attachment')
+      expect(params).toEqual({ filename: 'Résumé.pdf', size: '1024' })
+    })
+
+    it('should keep separators inside quoted parameters', () => {
+      expect(MimeUtils.parseParameters('text/plain; name="a; b.txt"; charset=UTF-8').params)
+        .toEqual({ name: 'a; b.txt', charset: 'UTF-8' })
+    })
+  })
+
+  describe('MimeParser', () => {
+    const multipart = crlf([
+      'From: =?UTF-8?Q?J=C3=B6rg?= <joerg@example.com>',
+      'To: "Doe, Jane" <jane@example.com>, bob@example.com (Bob),',
+      '  Team: carol@example.com, dave@example.com;',
+      'Subject: =?UTF-8?B?R3LDvMOfZQ==?=',
+      '  again',
+      'Date: Mon, 15 Jan 2024 11:29:00 +0100',
+      'Message-ID: <message-1@example.com>',
+      'References: <root@example.com>\r\n <parent@example.com>',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="outer"',
+      '',
+      'This is the preamble.',
+      '--outer',
+      'Content-Type: multipart/alternative; boundary=inner',
+      '',
+      '--inner',
+      'Content-Type: text/plain; charset=iso-8859-1',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Hallo J=F6rg,=',
+      '',
+      'see attached.',
+      '--inner',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>Hallo Jörg,</p><p>see attached.</p>',
+      '--inner--',
+      '--outer',
+      'Content-Type: application/pdf; name="report.pdf"',
+      'Content-Disposition: attachment; filename="report.pdf"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'JVBERi0xLjQK',
+      '--outer--',
+      'Epilogue'
+    ])
+
+    it('should parse headers', () => {
+      const { email } = MimeParser.parse(multipart)
+
+      expect(email.from).toEqual([{ name: 'Jörg', email: 'joerg@example.com' }])
+      expect(email.to).toEqual([
+        { name: 'Doe, Jane', email: 'jane@example.com' },
+        { name: 'Bob', email: 'bob@example.com' },
+        { name: null, email: 'carol@example.com' },
+        { name: null, email: 'dave@example.com' }
+      ])
+      expect(email.subject).toBe('Grüße  again')
+      expect(email.sentAt).toBe('2024-01-15T10:29:00.000Z')
+      expect(email.messageId).toEqual(['message-1@example.com'])
+      expect(email.references).toEqual(['root@example.com', 'parent@example.com'])
+      expect(email.cc).toBeNull()
+      expect(email.headers?.['MIME-Version']).toEqual(['1.0'])
+    })
+
+    it('should parse nested multiparts into body parts', () => {
+      const { email, blobs } = MimeParser.parse(multipart)
+
+      expect(email.bodyStructure.type).toBe('multipart/mixed')
+      expect(email.bodyStructure.subParts?.map(part => part.type)).toEqual(['multipart/alternative', 'application/pdf'])
+      expect(email.textBody?.map(part => part.partId)).toEqual(['1'])
+      expect(email.htmlBody?.map(part => part.partId)).toEqual(['2'])
+      expect(email.bodyValues?.['1']?.value).toBe('Hallo Jörg,\r\nsee attached.')
+      expect(email.bodyValues?.['2']?.value).toBe('<p>Hallo Jörg,</p><p>see attached.</p>')
+      expect(email.preview).toBe('Hallo Jörg, see attached.')
+
+      expect(email.attachments).toEqual([{
+        blobId: 'mime-part-3',
+        type: 'application/pdf',
+        name: 'report.pdf',
+        size: 9,
+        cid: null,
+        disposition: 'attachment',
+        isInline: false
+      }])
+      expect(email.hasAttachment).toBe(true)
+      expect(text(blobs['mime-part-3']!)).toBe('%PDF-1.4\n')
+    })
+
+    it('should parse a single part message without MIME headers', () => {
+      const { email } = MimeParser.parse(new TextEncoder().encode('Subject: Hi\n\nJust text\n'))
+
+      expect(email.bodyStructure).toMatchObject({ partId: '1', type: 'text/plain', charset: 'us-ascii' })
+      expect(email.textBody).toEqual(email.htmlBody)
+      expect(email.bodyValues?.['1']?.value).toBe('Just text\n')
+      expect(email.attachments).toEqual([])
+    })
+
+    it('should keep inline images of multipart/related with the HTML body', () => {
+      const { email } = MimeParser.parse(crlf([
+        'Content-Type: multipart/related; boundary=b',
+        '',
+        '--b',
+        'Content-Type: text/html',
+        '',
+        '<img src="cid:logo">',
+        '--b',
+        'Content-Type: image/png',
+        'Content-ID: <logo>',
+        'Content-Disposition: inline',
+        'Content-Transfer-Encoding: base64',
+        '',
+        'iVBORw0KGgo=',
+        '--b--'
+      ]))
+
+      expect(email.htmlBody?.map(part => part.type)).toEqual(['text/html'])
+      expect(email.attachments?.map(attachment => attachment.cid)).toEqual(['logo'])
+      expect(email.hasAttachment).toBe(false)
+    })
+  })
+
+  describe('MimeSerializer', () => {
+    const draftsId = Common.createId('mailbox-drafts')
+    const draft = buildDraft({
+      from: { name: 'Jörg Müller', email: 'joerg@example.com' },
+      to: ['"Doe, Jane" <jane@example.com>'],
+      subject: 'Grüße aus Köln',
+      textBody: 'Hallo,\nanbei der Bericht.',
+      htmlBody: '<p>Hallo,</p><p>anbei der Bericht.</p>',
+      attachments: [{ blobId: 'blob-report', type: 'application/pdf', name: 'Bericht Köln.pdf' }],
+      inReplyTo: ['<original@example.com>'],
+      sentAt: new Date('2024-01-15T10:29:00Z')
+    }, draftsId)
+    const report = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x00, 0xff])
+
+    it('should serialize a draft that parses back to the same email', async () => {
+      const raw = await Effect.runPromise(MimeSerializer.serialize(draft, { 'blob-report': report }))
+      const { email, blobs } = MimeParser.parse(raw)
+
+      expect(email.from).toEqual([{ name: 'Jörg Müller', email: 'joerg@example.com' }])
+      expect(email.to).toEqual([{ name: 'Doe, Jane', email: 'jane@example.com' }])
+      expect(email.subject).toBe('Grüße aus Köln')
+      expect(email.sentAt).toBe('2024-01-15T10:29:00.000Z')
+      expect(email.inReplyTo).toEqual(['original@example.com'])
+      expect(email.messageId).toHaveLength(1)
+      expect(email.messageId?.[0]).toMatch(/@example\.com$/)
+
+      expect(email.textBody?.map(part => email.bodyValues?.[part.partId!]?.value)).toEqual(['Hallo,\r\nanbei der Bericht.'])
+      expect(email.htmlBody?.map(part => email.bodyValues?.[part.partId!]?.value)).toEqual(['<p>Hallo,</p><p>anbei der Bericht.</p>'])
+      expect(email.attachments?.map(attachment => attachment.name)).toEqual(['Bericht Köln.pdf'])
+      expect(Array.from(blobs[email.attachments![0]!.blobId]!)).toEqual(Array.from(report))
+    })
+
+    it('should write a 7-bit message with CRLF line endings', async () => {
+      const raw = text(await Effect.runPromise(MimeSerializer.serialize(draft, { 'blob-report': report })))
+
+      expect(raw).toMatch(/^From: =\?UTF-8\?B\?[^?]+\?= <joerg@example\.com>\r\n/)
+      expect(raw).toContain('To: "Doe, Jane" <jane@example.com>\r\n')
+      expect(raw).toContain('Date: Mon, 15 Jan 2024 10:29:00 +0000\r\n')
+      expect(raw).toContain(`Content-Disposition: attachment; filename*=utf-8''Bericht%20K%C3%B6ln.pdf`)
+      expect(raw.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/)
+      expect(raw.split('\r\n').every(line => line.length <= 998)).toBe(true)
+    })
+
+    it('should write internationalised addresses as UTF-8', async () => {
+      const raw = await Effect.runPromise(MimeSerializer.serialize({
+        mailboxIds: { [draftsId]: true },
+        from: [{ name: 'José', email: 'josé@exämple.org' }],
+        to: [{ name: null, email: 'ünal@exämple.org' }]
+      }))
+      const { email } = MimeParser.parse(raw)
+
+      expect(text(raw)).toContain('To: ünal@exämple.org\r\n')
+      expect(email.from).toEqual([{ name: 'José', email: 'josé@exämple.org' }])
+      expect(email.to).toEqual([{ name: null, email: 'ünal@exämple.org' }])
+    })
+
+    it('should attach a message with an identity encoding', async () => {
+      const attached = new TextEncoder().encode(crlf(['Subject: =?UTF-8?Q?Gr=C3=BC=C3=9Fe?=', 'Content-Type: text/plain; charset=utf-8', '', 'Grüße aus Köln']))
+      const forward = buildDraft({
+        from: { name: null, email: 'joerg@example.com' },
+        subject: 'Fwd: Grüße',
+        textBody: 'See below.',
+        attachments: [{ blobId: 'blob-message', type: 'message/rfc822', name: 'Grüße.eml' }]
+      }, draftsId)
+
+      const raw = await Effect.runPromise(MimeSerializer.serialize(forward, { 'blob-message': attached }))
+      const { email, blobs } = MimeParser.parse(raw)
+      const attachment = email.attachments![0]!
+
+      expect(text(raw)).toMatch(/Content-Type: message\/rfc822;[^]*?Content-Transfer-Encoding: 8bit\r\n/)
+      expect(attachment.type).toBe('message/rfc822')
+      expect(Array.from(blobs[attachment.blobId]!)).toEqual(Array.from(attached))
+      expect(MimeParser.parse(blobs[attachment.blobId]!).email.subject).toBe('Grüße')
+    })
+
+    it('should date a message without sentAt now', async () => {
+      const { sentAt: _, ...undated } = draft
+      const raw = await TestUtils.runEffect(MimeSerializer.serialize(undated, { 'blob-report': report }))
+
+      expect(MimeParser.parse(raw).email.sentAt).toBe('1970-01-01T00:00:00.000Z')
+    })
+
+    it('should fail when blob content is missing', async () => {
+      const exit = await Effect.runPromiseExit(MimeSerializer.serialize(draft))
+
+      expect(exit).toEqual(Exit.fail(expect.objectContaining({
+        _tag: 'EmailProcessingError',
+        message: 'No content for blob blob-report'
+      })))
+    })
+
+    it('should serialize an email without a body as an empty text part', async () => {
+      const raw = await Effect.runPromise(MimeSerializer.serialize({ mailboxIds: { [draftsId]: true }, subject: 'Empty' }))
+      const { email } = MimeParser.parse(raw)
+
+      expect(email.subject).toBe('Empty')
+      expect(email.bodyValues?.['1']?.value).toBe('')
+    })
+  })
+})
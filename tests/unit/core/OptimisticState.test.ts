@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Layer, Schema } from 'effect'
+import { JMAPClientLive } from '../../../src/core/JMAPClient.ts'
+import { withOptimisticState } from '../../../src/core/OptimisticState.ts'
+import { EmailPatch } from '../../../src/core/Patch.ts'
+import { CapabilityUris, type Invocation, type MethodResponse } from '../../../src/core/Types.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+import { fakeJMAPServer, fakeSessionUrl, replyEach } from '../../utils/test-utils.ts'
+
+const Labelled = Schema.Struct({
+  id: Schema.String,
+  keywords: Schema.Record({ key: Schema.String, value: Schema.Boolean })
+})
+
+/**
+ * Server keeping email keywords, a state counter and the ids changed at each
+ * state. beforeSet and beforeGet run before each Email/set and Email/get, to
+ * play another client. maxObjectsInSet, when given, is advertised in the session.
+ */
+const makeServer = (
+  beforeSet: (edit: (id: string, keyword: string) => void, sets: number) => void = () => {},
+  beforeGet: (edit: (id: string, keyword: string) => void, gets: number) => void = () => {},
+  maxObjectsInSet?: number
+) => {
+  const keywords = new Map<string, Record<string, boolean>>([['e1', { $seen: true }], ['e2', {}]])
+  const history: string[][] = []
+  const state = () => `s${history.length}`
+  const methods: string[] = []
+  let sets = 0
+  let gets = 0
+
+  const edit = (id: string, keyword: string) => {
+    keywords.set(id, { ...keywords.get(id), [keyword]: true })
+    history.push([id])
+  }
+
+  const respond = ([name, args, callId]: Invocation): MethodResponse => {
+    methods.push(name)
+    switch (name) {
+      case 'Email/get':
+        beforeGet(edit, gets++)
+        return [name, {
+          accountId: args.accountId,
+          state: state(),
+          list: args.ids.map((id: string) => ({ id, keywords: keywords.get(id) })),
+          notFound: []
+        }, callId]
+      case 'Email/changes': {
+        const since = Number(args.sinceState.slice(1))
+        return [name, {
+          accountId: args.accountId,
+          oldState: args.sinceState,
+          newState: state(),
+          hasMoreChanges: false,
+          created: [],
+          updated: [...new Set(history.slice(since).flat())],
+          destroyed: []
+        }, callId]
+      }
+      case 'Email/set': {
+        beforeSet(edit, sets++)
+        if (args.ifInState !== state()) {
+          return ['error', { type: 'stateMismatch' }, callId]
+        }
+        const oldState = state()
+        for (const [id, patch] of Object.entries<Record<string, unknown>>(args.update ?? {})) {
+          const next = { ...keywords.get(id) }
+          for (const [path, value] of Object.entries(patch)) {
+            const keyword = path.slice('keywords/'.length)
+            if (value === null) delete next[keyword]
+            else next[keyword] = value as boolean
+          }
+          keywords.set(id, next)
+        }
+        history.push(Object.keys(args.update ?? {}))
+        return [name, { accountId: args.accountId, oldState, newState: state(), updated: {} }, callId]
+      }
+      default:
+        return ['error', { type: 'unknownMethod' }, callId]
+    }
+  }
+
+  const session = maxObjectsInSet === undefined ? JMAPFixtures.session : {
+    ...JMAPFixtures.session,
+    capabilities: {
+      ...JMAPFixtures.session.capabilities,
+      [CapabilityUris.CORE]: { ...JMAPFixtures.session.capabilities[CapabilityUris.CORE], maxObjectsInSet }
+    }
+  }
+  const server = fakeJMAPServer(replyEach(respond), session)
+  const layer = Layer.provideMerge(
+    JMAPClientLive({ sessionUrl: fakeSessionUrl, bearerToken: 'token', maxRetries: 0 }),
+    server.layer
+  )
+  return { keywords, methods, requests: server.requests, layer }
+}
+
+/**
+ * Add a label unless the email already has three
+ */
+const addLabel = (label: string) => (emails: ReadonlyArray<typeof Labelled.Type>) => ({
+  update: Object.fromEntries(
+    emails
+      .filter(email => Object.keys(email.keywords).length < 3)
+      .map(email => [email.id, EmailPatch.keywords([label])])
+  )
+})
+
+const options = { accountId: 'account-1', dataType: 'Email', ids: ['e1'], properties: ['keywords'], schema: Labelled }
+
+describe('withOptimisticState', () => {
+  it('should send the changes guarded by the state read', async () => {
+    const server = makeServer()
+
+    const result = await Effect.runPromise(Effect.provide(withOptimisticState(options, addLabel('work')), server.layer))
+
+    expect(result).toMatchObject({ oldState: 's0', newState: 's1' })
+    expect(server.keywords.get('e1')).toEqual({ $seen: true, work: true })
+    expect(server.methods).toEqual(['Email/get', 'Email/set'])
+  })
+
+  it('should rebase on the changes of another client after a stateMismatch', async () => {
+    const server = makeServer((edit, sets) => {
+      if (sets === 0) edit('e1', 'home')
+    })
+
+    const result = await Effect.runPromise(Effect.provide(withOptimisticState(options, addLabel('work')), server.layer))
+
+    expect(result).toMatchObject({ oldState: 's1', newState: 's2' })
+    expect(server.keywords.get('e1')).toEqual({ $seen: true, home: true, work: true })
+    expect(server.methods).toEqual(['Email/get', 'Email/set', 'Email/changes', 'Email/get', 'Email/set'])
+  })
+
+  it('should compute again from the rebased objects', async () => {
+    const server = makeServer((edit, sets) => {
+      if (sets === 0) edit('e1', 'home')
+    })
+
+    // After the other client's label e1 has three keywords, so nothing is left to change
+    const result = await Effect.runPromise(Effect.provide(
+      withOptimisticState(options, (emails) => ({
+        update: Object.fromEntries(
+          emails
+            .filter(email => Object.keys(email.keywords).length < 2)
+            .map(email => [email.id, EmailPatch.keywords(['work'])])
+        )
+      })),
+      server.layer
+    ))
+
+    expect(result).toEqual({ accountId: 'account-1', oldState: 's1', newState: 's1' })
+    expect(server.keywords.get('e1')).toEqual({ $seen: true, home: true })
+  })
+
+  it('should fail with stateMismatch once the retries are used up', async () => {
+    const server = makeServer((edit) => edit('e2', 'busy'))
+
+    const error = await Effect.runPromise(Effect.flip(Effect.provide(
+      withOptimisticState({ ...options, maxRetries: 2 }, addLabel('work')),
+      server.layer
+    )))
+
+    expect(error._tag === 'JMAPMethodError' && error.type).toBe('stateMismatch')
+    expect(server.methods.filter(name => name === 'Email/set')).toHaveLength(3)
+    expect(server.keywords.get('e1')).toEqual({ $seen: true })
+  })
+
+  it('should count rebase rounds toward maxRetries when the objects keep changing', async () => {
+    // Every read after the first lands after another client's edit
+    const server = makeServer(
+      (edit, sets) => {
+        if (sets === 0) edit('e1', 'home')
+      },
+      (edit, gets) => {
+        if (gets > 0) edit('e1', `busy-${gets}`)
+      }
+    )
+
+    const error = await Effect.runPromise(Effect.flip(Effect.provide(
+      withOptimisticState({ ...options, maxRetries: 2 }, addLabel('work')),
+      server.layer
+    )))
+
+    expect(error._tag === 'JMAPMethodError' && error.type).toBe('stateMismatch')
+    expect(server.methods).toEqual(['Email/get', 'Email/set', 'Email/changes', 'Email/get', 'Email/changes', 'Email/get'])
+  })
+
+  it('should send the guarded set whole when it is over maxObjectsInSet', async () => {
+    const server = makeServer((edit, sets) => {
+      if (sets === 0) edit('e1', 'home')
+    }, undefined, 1)
+
+    const result = await Effect.runPromise(Effect.provide(
+      withOptimisticState({ ...options, ids: ['e1', 'e2'] }, addLabel('work')),
+      server.layer
+    ))
+
+    // A split set would have applied e2 unguarded alongside the mismatch
+    const sets = server.requests.flatMap(request => request.methodCalls).filter(([name]) => name === 'Email/set')
+    expect(sets.map(([, args]) => [args.ifInState, Object.keys(args.update)])).toEqual([
+      ['s0', ['e1', 'e2']],
+      ['s1', ['e1', 'e2']]
+    ])
+    expect(result).toMatchObject({ oldState: 's1', newState: 's2' })
+    expect(server.keywords.get('e1')).toEqual({ $seen: true, home: true, work: true })
+    expect(server.keywords.get('e2')).toEqual({ work: true })
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { EmailPatch, MailboxPatch, escapePointerToken, makePatchBuilder, pointerPath } from '../../../src/core/Patch.ts'
+import type { EmailMutable } from '../../../src/schemas/Email.ts'
+import { Common, StandardKeywords } from '../../../src/schemas/Common.ts'
+
+describe('Patch', () => {
+  describe('JSON Pointer', () => {
+    it('should escape "~" before "/"', () => {
+      expect(escapePointerToken('a/b~c')).toBe('a~1b~0c')
+      expect(escapePointerToken('~1')).toBe('~01')
+      expect(pointerPath('keywords', 'work/urgent')).toBe('keywords/work~1urgent')
+    })
+  })
+
+  describe('makePatchBuilder', () => {
+    it('should patch single entries of map properties', () => {
+      const patch = makePatchBuilder<EmailMutable>()
+        .setEntry('keywords', StandardKeywords.SEEN, true)
+        .setEntry('keywords', StandardKeywords.FLAGGED, null)
+        .setEntry('mailboxIds', 'mailbox-inbox', null)
+        .build()
+
+      expect(patch).toEqual({
+        'keywords/$seen': true,
+        'keywords/$flagged': null,
+        'mailboxIds/mailbox-inbox': null
+      })
+    })
+
+    it('should never emit a path that is a prefix of another', () => {
+      const replaced = EmailPatch.builder()
+        .setEntry('keywords', StandardKeywords.SEEN, true)
+        .set('keywords', { [StandardKeywords.FLAGGED]: true })
+        .build()
+      const amended = EmailPatch.builder()
+        .set('mailboxIds', { [Common.createId('mailbox-inbox')]: true })
+        .setEntry('mailboxIds', 'mailbox-inbox', null)
+        .setEntry('mailboxIds', 'mailbox-archive', true)
+        .build()
+
+      expect(replaced).toEqual({ keywords: { $flagged: true } })
+      expect(amended).toEqual({ mailboxIds: { 'mailbox-archive': true } })
+    })
+
+    it('should leave earlier builders unchanged', () => {
+      const base = MailboxPatch.builder().set('name', 'Archive')
+
+      expect(base.set('parentId', null).build()).toEqual({ name: 'Archive', parentId: null })
+      expect(base.build()).toEqual({ name: 'Archive' })
+    })
+  })
+
+  describe('EmailPatch', () => {
+    it('should add and remove keywords, removal winning', () => {
+      expect(EmailPatch.keywords(['work', StandardKeywords.SEEN], ['work', StandardKeywords.DRAFT])).toEqual({
+        'keywords/work': null,
+        'keywords/$seen': true,
+        'keywords/$draft': null
+      })
+    })
+
+    it('should move between mailboxes without touching the others', () => {
+      expect(EmailPatch.mailboxes(['mailbox-archive'], ['mailbox-inbox'])).toEqual({
+        'mailboxIds/mailbox-inbox': null,
+        'mailboxIds/mailbox-archive': true
+      })
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import { baseSubject, buildForward, buildReply, buildReplyAll } from '../../../src/core/Reply.ts'
+import { buildDraft } from '../../../src/core/Draft.ts'
+import { Email, EmailCreate } from '../../../src/schemas/Email.ts'
+import { Identity } from '../../../src/schemas/Identity.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+
+describe('Reply', () => {
+  const identities = JMAPFixtures.identities.map(identity => Schema.decodeUnknownSync(Identity)(identity))
+  const [primary, sales, catchAll] = identities as [Identity, Identity, Identity]
+
+  const email = (overrides: Record<string, unknown> = {}): Email =>
+    Schema.decodeUnknownSync(Email)({ ...JMAPFixtures.emails[0], ...overrides })
+
+  describe('baseSubject', () => {
+    it('should strip repeated and localized prefixes', () => {
+      expect(baseSubject('Re: RE: Fwd: Lunch')).toBe('Lunch')
+      expect(baseSubject('AW: Re[2]: Lunch')).toBe('Lunch')
+      expect(baseSubject('Lunch: Friday')).toBe('Lunch: Friday')
+      expect(baseSubject(null)).toBe('')
+    })
+  })
+
+  describe('buildReply', () => {
+    it('should reply to the sender with threading headers', () => {
+      const draft = buildReply(email({
+        subject: 'Re: Re: Test',
+        inReplyTo: ['<message-0@example.com>'],
+        references: ['<root@example.com>', '<message-0@example.com>']
+      }), primary, { textBody: 'Thanks!' })
+
+      expect(draft.from).toEqual({ name: 'Test User', email: 'test@example.com' })
+      expect(draft.to).toEqual([{ name: 'John Doe', email: 'john@example.com' }])
+      expect(draft.subject).toBe('Re: Test')
+      expect(draft.inReplyTo).toEqual(['<message-1@example.com>'])
+      expect(draft.references).toEqual(['<root@example.com>', '<message-0@example.com>', '<message-1@example.com>'])
+    })
+
+    it('should prefer Reply-To over From', () => {
+      const draft = buildReply(email({ replyTo: [{ name: null, email: 'list@example.com' }] }), primary)
+
+      expect(draft.to).toEqual([{ name: null, email: 'list@example.com' }])
+    })
+
+    it('should quote the text body below the reply', () => {
+      const draft = buildReply(email(), primary, { textBody: 'Thanks!' })
+
+      expect(draft.textBody).toBe(
+        'Thanks!\n\nOn 2024-01-15T10:29:00Z, John Doe <john@example.com> wrote:\n> This is the email content for email 1.'
+      )
+      expect(draft.htmlBody).toBeUndefined()
+    })
+
+    it('should leave the quote out on request', () => {
+      expect(buildReply(email(), primary, { textBody: 'Thanks!', quote: false }).textBody).toBe('Thanks!')
+    })
+
+    it('should quote HTML in a blockquote and add the signature', () => {
+      const original = email({ ...JMAPFixtures.emails[1], attachments: [] })
+      const draft = buildReply(original, sales, { textBody: 'Got it', htmlBody: '<p>Got it</p>' })
+
+      expect(draft.htmlBody).toBe(
+        '<p>Got it</p><br><br>-- <br><p>Sales</p><br><br><div>On 2024-01-16T14:19:00Z, Jane Smith &lt;jane@example.com&gt; wrote:</div>' +
+        '<blockquote type="cite"><p>This is <strong>HTML</strong> content.</p></blockquote>'
+      )
+      expect(draft.textBody).toMatch(/^Got it\n\n-- \nSales\n\nOn /)
+      expect(draft.replyTo).toEqual([{ name: 'Sales Team', email: 'sales@example.com' }])
+    })
+
+    it('should reply to the recipients of an email we sent', () => {
+      const draft = buildReply(email({
+        from: [{ name: 'Test User', email: 'test@example.com' }],
+        to: [{ name: 'John Doe', email: 'john@example.com' }]
+      }), primary)
+
+      expect(draft.to).toEqual([{ name: 'John Doe', email: 'john@example.com' }])
+    })
+
+    it('should send from the address a wildcard identity received on', () => {
+      const draft = buildReply(email({ to: [{ name: null, email: 'hello@example.org' }] }), catchAll)
+
+      expect(draft.from).toEqual({ name: 'Catch-all', email: 'hello@example.org' })
+    })
+  })
+
+  describe('buildReplyAll', () => {
+    it('should remove our own addresses and duplicates', () => {
+      const draft = buildReplyAll(email({
+        to: [
+          { name: 'Test User', email: 'test@example.com' },
+          { name: 'Bob', email: 'bob@example.com' },
+          { name: null, email: 'JOHN@example.com' }
+        ],
+        cc: [
+          { name: null, email: 'bob@example.com' },
+          { name: 'Carol', email: 'carol@example.com' },
+          { name: 'Sales', email: 'sales@example.com' },
+          { name: null, email: 'carol@example.com' }
+        ]
+      }), primary, { identities })
+
+      expect(draft.to).toEqual([
+        { name: 'John Doe', email: 'john@example.com' },
+        { name: 'Bob', email: 'bob@example.com' }
+      ])
+      expect(draft.cc).toEqual([{ name: 'Carol', email: 'carol@example.com' }])
+    })
+
+    it('should leave out cc when nobody else is left', () => {
+      const draft = buildReplyAll(email({ cc: [{ name: null, email: 'test@example.com' }] }), primary)
+
+      expect(draft.to).toEqual([{ name: 'John Doe', email: 'john@example.com' }])
+      expect(draft.cc).toBeUndefined()
+    })
+  })
+
+  describe('buildForward', () => {
+    const withAttachments = () => email({
+      ...JMAPFixtures.emails[1],
+      attachments: [
+        { blobId: 'blob-doc', type: 'application/pdf', name: 'doc.pdf', size: 1024, cid: null, disposition: 'attachment' },
+        { blobId: 'blob-logo', type: 'image/png', name: null, size: 512, cid: 'logo', disposition: 'inline', isInline: true }
+      ]
+    })
+
+    it('should carry attachments and inline images by blobId', () => {
+      const draft = buildForward(withAttachments(), primary, { textBody: 'FYI' })
+
+      expect(draft.subject).toBe('Fwd: Test Email 2')
+      expect(draft.to).toBeUndefined()
+      expect(draft.inReplyTo).toBeUndefined()
+      expect(draft.references).toEqual(['<message-2@example.com>'])
+      expect(draft.attachments).toEqual([{ blobId: 'blob-doc', type: 'application/pdf', name: 'doc.pdf' }])
+      expect(draft.inlineImages).toEqual([{ blobId: 'blob-logo', type: 'image/png', cid: 'logo' }])
+      expect(draft.textBody).toContain('---------- Forwarded message ----------\nFrom: Jane Smith <jane@example.com>\n')
+      expect(draft.textBody).toContain('Subject: Test Email 2\nTo: Test User <test@example.com>\n\nThis is the second test email')
+    })
+
+    it('should drop inline images when the original is not forwarded', () => {
+      const draft = buildForward(withAttachments(), primary, { textBody: 'FYI', quote: false })
+
+      expect(draft.inlineImages).toBeUndefined()
+      expect(draft.attachments).toHaveLength(1)
+    })
+
+    it('should build a valid Email/set create', () => {
+      const create = buildDraft(buildForward(withAttachments(), sales), Common.createId('mailbox-drafts'))
+
+      expect(Schema.decodeUnknownSync(EmailCreate)(create)).toEqual(create)
+    })
+  })
+})
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Layer, Schema } from 'effect'
+import { JMAPClientService } from '../../../src/core/JMAPClient.ts'
+import { evaluateResultPath, resolveResultReferences } from '../../../src/core/ResponseUtils.ts'
+import { makeRequestBuilder, decodeResult, ResultPaths } from '../../../src/core/RequestBuilder.ts'
+import type { Invocation } from '../../../src/core/Types.ts'
+import { EmailGetResponse, EmailQueryResponse } from '../../../src/schemas/Email.ts'
+import { testJMAPClient } from '../../utils/test-utils.ts'
+
+describe('Result references', () => {
+  describe('evaluateResultPath', () => {
+    const threadGet = {
+      list: [
+        { id: 't1', emailIds: ['e1', 'e2'] },
+        { id: 't2', emailIds: ['e3'] }
+      ]
+    }
+
+    it('should follow a plain JSON pointer', async () => {
+      const result = await Effect.runPromise(evaluateResultPath(threadGet, '/list/1/id'))
+      expect(result).toBe('t2')
+    })
+
+    it('should map "*" over arrays and flatten array results', async () => {
+      const result = await Effect.runPromise(evaluateResultPath(threadGet, '/list/*/emailIds'))
+      expect(result).toEqual(['e1', 'e2', 'e3'])
+    })
+
+    it('should unescape ~0 and ~1 in tokens', async () => {
+      const result = await Effect.runPromise(evaluateResultPath({ 'a/b': { 'c~d': 1 } }, '/a~1b/c~0d'))
+      expect(result).toBe(1)
+    })
+
+    it('should fail with invalidResultReference for missing paths', async () => {
+      const result = await Effect.runPromise(Effect.flip(evaluateResultPath(threadGet, '/missing')))
+      expect(result.type).toBe('invalidResultReference')
+    })
+  })
+
+  describe('resolveResultReferences', () => {
+    const responses: Invocation[] = [
+      ['Email/query', { ids: ['e1', 'e2'] }, 'c0']
+    ]
+
+    it('should replace "#" arguments with referenced values', async () => {
+      const result = await Effect.runPromise(
+        resolveResultReferences(
+          { accountId: 'a', '#ids': { resultOf: 'c0', name: 'Email/query', path: '/ids' } },
+          responses
+        )
+      )
+      expect(result).toEqual({ accountId: 'a', ids: ['e1', 'e2'] })
+    })
+
+    it('should reject references to a call with a different method name', async () => {
+      const result = await Effect.runPromise(
+        Effect.flip(
+          resolveResultReferences(
+            { '#ids': { resultOf: 'c0', name: 'Email/get', path: '/ids' } },
+            responses,
+            'c1'
+          )
+        )
+      )
+      expect(result.type).toBe('invalidResultReference')
+      expect(result.callId).toBe('c1')
+    })
+
+    it('should reject arguments given both directly and by reference', async () => {
+      const result = await Effect.runPromise(
+        Effect.flip(
+          resolveResultReferences(
+            { ids: [], '#ids': { resultOf: 'c0', name: 'Email/query', path: '/ids' } },
+            responses
+          )
+        )
+      )
+      expect(result.type).toBe('invalidResultReference')
+    })
+  })
+})
+
+describe('RequestBuilder', () => {
+  it('should assign call ids and build references', () => {
+    const request = makeRequestBuilder()
+    const query = request.call('Email/query', { accountId: 'a' }, EmailQueryResponse)
+    request.call('Email/get', { accountId: 'a', '#ids': query.ref(ResultPaths.IDS) }, EmailGetResponse)
+
+    expect(request.invocations()).toEqual([
+      ['Email/query', { accountId: 'a' }, 'c0'],
+      ['Email/get', { accountId: 'a', '#ids': { resultOf: 'c0', name: 'Email/query', path: '/ids' } }, 'c1']
+    ])
+  })
+
+  it('should send chained calls as one request and decode each result', async () => {
+    const batches: Array<ReadonlyArray<Invocation>> = []
+    const recordingClient = Layer.effect(
+      JMAPClientService,
+      Effect.map(JMAPClientService, (client) => ({
+        ...client,
+        batch: (methodCalls: ReadonlyArray<Invocation>) => {
+          batches.push(methodCalls)
+          return client.batch(methodCalls)
+        }
+      }))
+    ).pipe(Layer.provide(testJMAPClient))
+
+    const program = Effect.gen(function* () {
+      const request = makeRequestBuilder()
+      const query = request.call('Email/query', { accountId: 'a' }, EmailQueryResponse)
+      const get = request.call('Email/get', { accountId: 'a', '#ids': query.ref(ResultPaths.IDS) }, EmailGetResponse)
+
+      const response = yield* request.send
+      return {
+        query: yield* decodeResult(response, query),
+        get: yield* decodeResult(response, get)
+      }
+    })
+
+    const result = await Effect.runPromise(Effect.provide(program, recordingClient))
+
+    expect(batches).toHaveLength(1)
+    expect(result.query.ids).toEqual(['email-1'])
+    expect(result.get.list.map((email) => email.id)).toEqual(['email-1'])
+  })
+
+  it('should execute calls into a typed tuple', async () => {
+    const program = Effect.gen(function* () {
+      const request = makeRequestBuilder()
+      const query = request.call('Email/query', { accountId: 'a' }, EmailQueryResponse)
+      const get = request.call('Email/get', { accountId: 'a', '#ids': query.ref(ResultPaths.IDS) }, EmailGetResponse)
+      return yield* request.execute([query, get])
+    })
+
+    const [query, get] = await Effect.runPromise(Effect.provide(program, testJMAPClient))
+
+    expect(query.queryState).toBe('query-state-123')
+    expect(get.list).toHaveLength(1)
+  })
+
+  it('should execute calls into a typed record', async () => {
+    const program = Effect.gen(function* () {
+      const request = makeRequestBuilder()
+      return yield* request.execute({
+        query: request.call('Email/query', { accountId: 'a' }, EmailQueryResponse),
+        mailboxes: request.call('Mailbox/get', { accountId: 'a', ids: null }, Schema.Struct({ state: Schema.String }))
+      })
+    })
+
+    const result = await Effect.runPromise(Effect.provide(program, testJMAPClient))
+
+    expect(result.query.ids).toEqual(['email-1'])
+    expect(result.mailboxes.state).toBe('state-1')
+  })
+
+  it('should fail with the method error of the exact call that errored', async () => {
+    const failingClient = Layer.effect(
+      JMAPClientService,
+      Effect.map(JMAPClientService, (client) => ({
+        ...client,
+        batch: (methodCalls: ReadonlyArray<Invocation>) =>
+          Effect.map(client.batch(methodCalls), (response) => ({
+            ...response,
+            methodResponses: response.methodResponses.map(([name, result, callId]) =>
+              callId === 'c1'
+                ? ['error', { type: 'notFound', description: 'gone' }, callId] as const
+                : [name, result, callId] as const
+            )
+          }))
+      }))
+    ).pipe(Layer.provide(testJMAPClient))
+
+    const program = Effect.gen(function* () {
+      const request = makeRequestBuilder()
+      return yield* request.execute([
+        request.call('Email/query', { accountId: 'a' }, EmailQueryResponse),
+        request.call('Email/get', { accountId: 'a', ids: ['email-1'] }, EmailGetResponse)
+      ])
+    })
+
+    const error = await Effect.runPromise(Effect.flip(Effect.provide(program, failingClient)))
+
+    expect(error._tag).toBe('JMAPMethodError')
+    expect(error.type).toBe('notFound')
+    expect(error.callId).toBe('c1')
+  })
+
+  it('should fail decoding when the response does not match the schema', async () => {
+    const request = makeRequestBuilder()
+    const call = request.call('Core/echo', {}, Schema.Struct({ hello: Schema.String }))
+
+    const result = await Effect.runPromise(
+      Effect.flip(decodeResult({ methodResponses: [['Core/echo', {}, call.callId]], sessionState: 's' }, call))
+    )
+    expect(result.type).toBe('serverFail')
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest'
+import { Duration, Effect, Fiber, Layer, Metric, TestClock } from 'effect'
+import { JMAPClientLive, JMAPClientService } from '../../../src/core/JMAPClient.ts'
+import { RetryMetrics, RetryUtils, defaultRetryPolicy, parseRetryAfter } from '../../../src/core/RetryPolicy.ts'
+import type { Invocation, Request } from '../../../src/core/Types.ts'
+import { fakeJMAPServer, fakeSessionUrl, replyEach, type FakeHttpResponse, TestUtils } from '../../utils/test-utils.ts'
+
+const ok = replyEach(([name, args, callId]) => [name, { accountId: args.accountId }, callId])
+
+const methodError = (type: string) => replyEach(([, , callId]) => ['error', { type }, callId])
+
+/**
+ * Server answering each API request with the next reply, repeating the last one
+ */
+const makeServer = (...replies: Array<(request: Request) => FakeHttpResponse>) => {
+  const server = fakeJMAPServer((request) => replies[Math.min(server.requests.length, replies.length) - 1]!(request))
+  const layer = Layer.provideMerge(
+    JMAPClientLive({ sessionUrl: fakeSessionUrl, bearerToken: 'token', retryPolicy: { baseDelay: '1 second', maxRetries: 2 } }),
+    server.layer
+  )
+  return { requests: server.requests, layer }
+}
+
+const retries = (reason: string) =>
+  Metric.value(Metric.tagged(RetryMetrics.retries, 'reason', reason)).pipe(Effect.map((state) => state.count))
+
+const getCall: Invocation = ['Email/get', { accountId: 'account-1', ids: ['e1'] }, 'c0']
+
+describe('RetryPolicy', () => {
+  describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-15T10:00:00Z')
+
+      expect(parseRetryAfter('120', now)).toEqual(Duration.seconds(120))
+      expect(parseRetryAfter('Mon, 15 Jan 2024 10:00:30 GMT', now)).toEqual(Duration.millis(30000))
+      expect(parseRetryAfter('Mon, 15 Jan 2024 09:00:00 GMT', now)).toEqual(Duration.zero)
+      expect(parseRetryAfter('soon', now)).toBeUndefined()
+      expect(parseRetryAfter(undefined, now)).toBeUndefined()
+    })
+  })
+
+  describe('RetryUtils', () => {
+    it('should only retry sets guarded with ifInState', () => {
+      const request = (calls: Invocation[]) => ({ using: [], methodCalls: calls })
+
+      expect(RetryUtils.isRetryable(request([getCall]))).toBe(true)
+      expect(RetryUtils.isRetryable(request([getCall, ['Email/set', { accountId: 'a', destroy: ['e1'] }, 'c1']]))).toBe(false)
+      expect(RetryUtils.isRetryable(request([['Email/set', { accountId: 'a', ifInState: 's1' }, 'c1']]))).toBe(true)
+      expect(RetryUtils.isRetryable(request([['Email/import', { accountId: 'a', emails: {} }, 'c1']]))).toBe(false)
+    })
+
+    it('should double the backoff up to maxDelay', () => {
+      const policy = { ...defaultRetryPolicy, baseDelay: '1 second', maxDelay: '5 seconds' } as const
+
+      expect([0, 1, 2, 3].map((attempt) => Duration.toSeconds(RetryUtils.backoff(policy, attempt)))).toEqual([1, 2, 4, 5])
+    })
+  })
+
+  describe('JMAPClientLive', () => {
+    it('should wait for Retry-After before retrying a 429', async () => {
+      const server = makeServer(() => ({ status: 429, headers: { 'retry-after': '5' } }), ok)
+      const program = Effect.gen(function* () {
+        const before = yield* retries('429')
+        const client = yield* JMAPClientService
+        const fiber = yield* Effect.fork(client.batch([getCall]))
+
+        yield* TestClock.adjust('4 seconds')
+        const beforeRetryAfter = server.requests.length
+        yield* TestClock.adjust('1 second')
+        const response = yield* Fiber.join(fiber)
+
+        return { beforeRetryAfter, response, counted: (yield* retries('429')) - before }
+      })
+
+      const { beforeRetryAfter, response, counted } = await TestUtils.runEffect(Effect.provide(program, server.layer))
+
+      expect(beforeRetryAfter).toBe(1)
+      expect(server.requests).toHaveLength(2)
+      expect(response.methodResponses[0]![0]).toBe('Email/get')
+      expect(counted).toBe(1)
+    })
+
+    it('should retry retryable method errors with backoff', async () => {
+      const server = makeServer(methodError('rateLimit'), methodError('serverUnavailable'), ok)
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        const fiber = yield* Effect.fork(client.batch([getCall]))
+
+        yield* TestClock.adjust('1 second')
+        const afterFirstBackoff = server.requests.length
+        yield* TestClock.adjust('2 seconds')
+
+        return { afterFirstBackoff, response: yield* Fiber.join(fiber) }
+      })
+
+      const { afterFirstBackoff, response } = await TestUtils.runEffect(Effect.provide(program, server.layer))
+
+      expect(afterFirstBackoff).toBe(2)
+      expect(server.requests).toHaveLength(3)
+      expect(response.methodResponses[0]![0]).toBe('Email/get')
+    })
+
+    it('should cap a Retry-After at maxDelay', async () => {
+      const server = makeServer(() => ({ status: 503, headers: { 'retry-after': '86400' } }), ok)
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        const fiber = yield* Effect.fork(client.batch([getCall]))
+
+        yield* TestClock.adjust(defaultRetryPolicy.maxDelay)
+        return yield* Fiber.join(fiber)
+      })
+
+      const response = await TestUtils.runEffect(Effect.provide(program, server.layer))
+
+      expect(server.requests).toHaveLength(2)
+      expect(response.methodResponses[0]![0]).toBe('Email/get')
+    })
+
+    it('should not send a request again once a set in it succeeded', async () => {
+      const server = makeServer(() => ({
+        body: {
+          methodResponses: [
+            ['Email/set', { accountId: 'account-1', oldState: 's1', newState: 's2', destroyed: ['e1'] }, 'c0'],
+            ['error', { type: 'serverFail' }, 'c1']
+          ],
+          sessionState: 'session-1'
+        }
+      }), ok)
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* client.batch([
+          ['Email/set', { accountId: 'account-1', ifInState: 's1', destroy: ['e1'] }, 'c0'],
+          ['Email/get', { accountId: 'account-1', ids: ['e2'] }, 'c1']
+        ], undefined, { failOnMethodError: false })
+      })
+
+      const response = await TestUtils.runEffect(Effect.provide(program, server.layer))
+
+      expect(server.requests).toHaveLength(1)
+      expect(response.methodResponses.map(([name]) => name)).toEqual(['Email/set', 'error'])
+    })
+
+    it('should not retry other method errors', async () => {
+      const server = makeServer(methodError('invalidArguments'), ok)
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* Effect.flip(client.batch([getCall]))
+      })
+
+      const error = await TestUtils.runEffect(Effect.provide(program, server.layer))
+
+      expect(error._tag === 'JMAPMethodError' && error.type).toBe('invalidArguments')
+      expect(server.requests).toHaveLength(1)
+    })
+
+    it('should never retry a set without ifInState', async () => {
+      const server = makeServer(() => ({ status: 503 }), ok)
+      const program = Effect.gen(function* () {
+        const client = yield* JMAPClientService
+        return yield* Effect.flip(client.batch([['Email/set', { accountId: 'account-1', destroy: ['e1'] }, 'c0']]))
+      })
+
+      const error = await TestUtils.runEffect(Effect.provide(program, server.layer))
+
+      expect(error._tag === 'NetworkError' && error.status).toBe(503)
+      expect(server.requests).toHaveLength(1)
+    })
+
+    it('should give up after maxRetries', async () => {
+      const server = makeServer(() => ({ status: 503 }))
+      const program = Effect.gen(function* () {
+        const before = (yield* Metric.value(RetryMetrics.exhausted)).count
+        const client = yield* JMAPClientService
+        const fiber = yield* Effect.fork(Effect.flip(
+          client.batch([['Email/set', { accountId: 'account-1', ifInState: 's1', destroy: ['e1'] }, 'c0']])
+        ))
+
+        yield* TestClock.adjust('3 seconds')
+        const error = yield* Fiber.join(fiber)
+
+        return { error, exhausted: (yield* Metric.value(RetryMetrics.exhausted)).count - before }
+      })
+
+      const { error, exhausted } = await TestUtils.runEffect(Effect.provide(program, server.layer))
+
+      expect(error._tag === 'NetworkError' && error.status).toBe(503)
+      expect(server.requests).toHaveLength(3)
+      expect(exhausted).toBe(1)
+    })
+  })
+})
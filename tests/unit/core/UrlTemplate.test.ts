@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { expandUrlTemplate } from '../../../src/core/UrlTemplate.ts'
+
+describe('expandUrlTemplate', () => {
+  it('should substitute and percent-encode variables', () => {
+    expect(
+      expandUrlTemplate('https://example.com/download/{accountId}/{blobId}/{name}?accept={type}', {
+        accountId: 'a1',
+        blobId: 'b/1',
+        name: "it's a file.txt",
+        type: 'text/plain'
+      })
+    ).toBe('https://example.com/download/a1/b%2F1/it%27s%20a%20file.txt?accept=text%2Fplain')
+  })
+
+  it('should expand missing variables to an empty string', () => {
+    expect(expandUrlTemplate('https://example.com/events?types={types}&ping={ping}', { ping: 30 }))
+      .toBe('https://example.com/events?types=&ping=30')
+  })
+})
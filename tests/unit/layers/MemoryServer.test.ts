@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Either, Layer } from 'effect'
+import { HttpClient, HttpClientRequest, HttpServer } from '@effect/platform'
+import { NodeHttpServer } from '@effect/platform-node'
+import * as Schema from 'effect/Schema'
+import { type JMAPClient, JMAPClientService } from '../../../src/core/JMAPClient.ts'
+import { withOptimisticState } from '../../../src/core/OptimisticState.ts'
+import { EmailService, EmailServiceLive } from '../../../src/services/Email.ts'
+import { MailboxService, MailboxServiceLive } from '../../../src/services/Mailbox.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+import { type MemoryServer, makeMemoryServer } from '../../../src/layers/MemoryServer.ts'
+import { JMAPClientMemory } from '../../../src/layers/JMAPClientMemory.ts'
+
+const MAIL = ['urn:ietf:params:jmap:core', 'urn:ietf:params:jmap:mail']
+
+const address = (email: string) => [{ name: null, email }]
+
+const seededServer = () =>
+  makeMemoryServer({
+    mailboxes: [
+      { id: 'inbox', name: 'Inbox', role: 'inbox' },
+      { id: 'archive', name: 'Archive', role: 'archive', sortOrder: 2 },
+      { id: 'projects', name: 'projects', sortOrder: 1 }
+    ],
+    emails: [
+      {
+        id: 'e1',
+        mailboxIds: { inbox: true },
+        keywords: { $seen: true },
+        subject: 'Quarterly report',
+        from: address('alice@example.com'),
+        messageId: ['report@example.com'],
+        receivedAt: '2026-01-01T10:00:00Z',
+        textBody: [{ partId: '1', type: 'text/plain' }],
+        bodyValues: { 1: { value: 'Numbers are up' } }
+      },
+      {
+        id: 'e2',
+        mailboxIds: { inbox: true },
+        subject: 'Re: Quarterly report',
+        from: address('bob@example.com'),
+        inReplyTo: ['report@example.com'],
+        receivedAt: '2026-01-02T10:00:00Z'
+      },
+      {
+        id: 'e3',
+        mailboxIds: { archive: true },
+        keywords: { $flagged: true },
+        subject: 'Lunch',
+        from: address('carol@example.com'),
+        receivedAt: '2026-01-03T10:00:00Z'
+      }
+    ]
+  })
+
+const run = <A, E>(
+  server: MemoryServer,
+  effect: Effect.Effect<A, E, EmailService | MailboxService | JMAPClient | HttpClient.HttpClient>
+) =>
+  Effect.runPromise(
+    Effect.provide(effect, Layer.mergeAll(EmailServiceLive, MailboxServiceLive).pipe(Layer.provideMerge(JMAPClientMemory(server))))
+  )
+
+const batch = (server: MemoryServer, methodCalls: ReadonlyArray<readonly [string, Record<string, unknown>, string]>) =>
+  run(server, Effect.flatMap(JMAPClientService, client =>
+    client.batch(methodCalls.map(([name, args, callId]) => [name, args, callId] as const), MAIL, { failOnMethodError: false })))
+
+describe('MemoryServer', () => {
+  it('should actually move an email between mailboxes', async () => {
+    const server = seededServer()
+
+    const mailboxes = await run(server, Effect.gen(function* () {
+      const emails = yield* EmailService
+      yield* emails.move('account-1', [Common.createId('e2')], Common.createId('inbox'), Common.createId('archive'))
+      const mailbox = yield* MailboxService
+      return yield* mailbox.get({ accountId: 'account-1', ids: [Common.createId('inbox'), Common.createId('archive')] })
+    }))
+
+    const stored = server.objects('Email').find(email => email.id === 'e2')
+    expect(stored?.mailboxIds).toEqual({ archive: true })
+    expect(mailboxes.list.map(mailbox => [mailbox.id, mailbox.totalEmails, mailbox.unreadEmails])).toEqual([
+      ['inbox', 1, 0],
+      ['archive', 2, 2]
+    ])
+  })
+
+  it('should thread replies by their references', async () => {
+    const server = seededServer()
+
+    const [, thread] = (await batch(server, [
+      ['Email/get', { accountId: 'account-1', ids: ['e2'], properties: ['threadId'] }, 'e'],
+      ['Thread/get', { accountId: 'account-1', '#ids': { resultOf: 'e', name: 'Email/get', path: '/list/*/threadId' } }, 't']
+    ])).methodResponses
+
+    expect(thread?.[1].list).toEqual([{ id: expect.any(String), emailIds: ['e1', 'e2'] }])
+  })
+
+  it('should filter, sort and collapse query results', async () => {
+    const server = seededServer()
+
+    const { methodResponses } = await batch(server, [
+      ['Email/query', {
+        accountId: 'account-1',
+        filter: { operator: 'OR', conditions: [{ inMailbox: 'inbox' }, { hasKeyword: '$flagged' }] },
+        sort: [{ property: 'receivedAt', isAscending: false }],
+        calculateTotal: true
+      }, 'all'],
+      ['Email/query', { accountId: 'account-1', filter: { subject: 'quarterly' }, collapseThreads: true }, 'collapsed'],
+      ['Email/query', { accountId: 'account-1', sort: [{ property: 'subject' }], position: 1, limit: 1 }, 'page'],
+      ['Email/query', { accountId: 'account-1', filter: { header: ['Message-ID', 'report@'] } }, 'header'],
+      ['Email/query', { accountId: 'account-1', filter: { isUnread: true } }, 'unsupported'],
+      ['Email/query', { accountId: 'account-1', filter: { minSize: 'big' } }, 'invalid']
+    ])
+
+    expect(methodResponses[0]?.[1]).toMatchObject({ ids: ['e3', 'e2', 'e1'], total: 3, position: 0 })
+    expect(methodResponses[1]?.[1].ids).toEqual(['e1'])
+    // "Re: Quarterly report" sorts by its base subject, after "Lunch" and as "Quarterly report"
+    expect(methodResponses[2]?.[1]).toMatchObject({ ids: ['e1'], position: 1 })
+    expect(methodResponses[3]?.[1].ids).toEqual(['e1'])
+    expect(methodResponses[4]).toEqual(['error', expect.objectContaining({ type: 'unsupportedFilter' }), 'unsupported'])
+    expect(methodResponses[5]).toEqual(['error', expect.objectContaining({ type: 'invalidArguments' }), 'invalid'])
+  })
+
+  it('should report changes and query changes since a state', async () => {
+    const server = seededServer()
+
+    const before = await batch(server, [
+      ['Email/query', { accountId: 'account-1', filter: { inMailbox: 'inbox' } }, 'q']
+    ])
+    const queryState = before.methodResponses[0]?.[1].queryState
+
+    const after = await run(server, Effect.gen(function* () {
+      const emails = yield* EmailService
+      yield* emails.markRead('account-1', [Common.createId('e2')], true)
+      yield* emails.move('account-1', [Common.createId('e1')], Common.createId('inbox'), Common.createId('projects'))
+      const client = yield* JMAPClientService
+      return yield* client.batch([
+        ['Email/changes', { accountId: 'account-1', sinceState: '0' }, 'changes'],
+        ['Email/changes', { accountId: 'account-1', sinceState: '0', maxChanges: 1 }, 'paged'],
+        ['Mailbox/changes', { accountId: 'account-1', sinceState: '0' }, 'mailboxes'],
+        ['Email/queryChanges', { accountId: 'account-1', filter: { inMailbox: 'inbox' }, sinceQueryState: queryState }, 'query']
+      ], MAIL)
+    }))
+
+    const [changes, paged, mailboxes, query] = after.methodResponses.map(([, result]) => result)
+    expect(changes).toMatchObject({ oldState: '0', newState: '2', hasMoreChanges: false, created: [], updated: ['e2', 'e1'], destroyed: [] })
+    expect(paged).toMatchObject({ newState: '1', hasMoreChanges: true, updated: ['e2'] })
+    expect(mailboxes).toMatchObject({ updated: ['inbox', 'projects'], updatedProperties: ['totalEmails', 'unreadEmails', 'totalThreads', 'unreadThreads'] })
+    expect(query).toMatchObject({ oldQueryState: '0', newQueryState: '2', removed: ['e1', 'e2'], added: [{ id: 'e2', index: 0 }] })
+  })
+
+  it('should forget the least recently used query states', async () => {
+    const server = seededServer()
+    const query = (subject: string) => ['Email/query', { accountId: 'account-1', filter: { subject } }, subject] as const
+    const queryChanges = (subject: string) =>
+      ['Email/queryChanges', { accountId: 'account-1', filter: { subject }, sinceQueryState: '0' }, subject] as const
+
+    await batch(server, [query('first'), query('second')])
+    await batch(server, [queryChanges('first')])
+    await batch(server, Array.from({ length: 99 }, (_, i) => query(`other ${i}`)))
+
+    const { methodResponses } = await batch(server, [queryChanges('first'), queryChanges('second')])
+
+    expect(methodResponses[0]?.[0]).toBe('Email/queryChanges')
+    expect(methodResponses[1]).toEqual(['error', expect.objectContaining({ type: 'cannotCalculateChanges' }), 'second'])
+  })
+
+  it('should create objects referring to each other by creation id', async () => {
+    const server = seededServer()
+
+    const { methodResponses } = await batch(server, [
+      ['Mailbox/set', { accountId: 'account-1', create: { parent: { name: 'Clients' }, child: { name: 'Acme', parentId: '#parent' } } }, 'm'],
+      ['Email/set', {
+        accountId: 'account-1',
+        create: { draft: { mailboxIds: { '#child': true }, keywords: { $draft: true }, subject: 'Hello' } }
+      }, 'e'],
+      ['Email/set', { accountId: 'account-1', create: { bad: { mailboxIds: {} } }, destroy: ['missing'] }, 'bad'],
+      ['Mailbox/set', { accountId: 'account-1', destroy: ['#parent', 'inbox'] }, 'destroy']
+    ])
+
+    const created = methodResponses[0]?.[1].created
+    expect(created.child).toMatchObject({ parentId: created.parent.id, totalEmails: 0 })
+    expect(methodResponses[1]?.[1].created.draft).toEqual({
+      id: expect.any(String), blobId: expect.any(String), threadId: expect.any(String), size: expect.any(Number)
+    })
+    expect(methodResponses[2]?.[1]).toMatchObject({
+      notCreated: { bad: { type: 'invalidProperties', properties: ['mailboxIds'] } },
+      notDestroyed: { missing: { type: 'notFound' } }
+    })
+    expect(methodResponses[3]?.[1].notDestroyed).toEqual({
+      '#parent': { type: 'mailboxHasChild' },
+      inbox: { type: 'mailboxHasEmail' }
+    })
+  })
+
+  it('should reject a set guarded by an old state, so optimistic updates rebase', async () => {
+    const server = seededServer()
+    let competing = false
+
+    const result = await run(server, withOptimisticState(
+      { accountId: 'account-1', dataType: 'Mailbox', ids: ['projects'], schema: Schema.Struct({ id: Schema.String, name: Schema.String }) },
+      (mailboxes) => {
+        if (!competing) {
+          competing = true
+          // Another client renames the mailbox between the read and the write
+          Effect.runSync(server.handle({
+            using: MAIL,
+            methodCalls: [['Mailbox/set', { accountId: 'account-1', update: { projects: { name: 'Projects' } } }, '0']]
+          }))
+        }
+        return { update: Object.fromEntries(mailboxes.map(mailbox => [mailbox.id, { name: `${mailbox.name} (old)` }])) }
+      }
+    ))
+
+    expect(result.newState).toBe('2')
+    expect(server.objects('Mailbox').find(mailbox => mailbox.id === 'projects')?.name).toBe('Projects (old)')
+  })
+
+  it('should reject requests using unknown capabilities', () => {
+    const server = makeMemoryServer()
+
+    const result = Effect.runSync(Effect.either(server.handle({ using: ['urn:example:unknown'], methodCalls: [] })))
+
+    expect(Either.isLeft(result) && result.left.toProblem()).toEqual({
+      type: 'urn:ietf:params:jmap:error:unknownCapability',
+      status: 400,
+      detail: 'Unknown capabilities: urn:example:unknown'
+    })
+  })
+
+  it('should be served by a local HttpServer', async () => {
+    const server = makeMemoryServer({ mailboxes: [{ id: 'inbox', name: 'Inbox', role: 'inbox' }] })
+
+    const [session, api, notJSON] = await Effect.gen(function* () {
+      yield* HttpServer.serveEffect(server.httpApp)
+      const client = yield* HttpClient.HttpClient
+      const session = yield* Effect.flatMap(client.get('/jmap/session'), response => response.json)
+      const api = yield* client.execute(
+        HttpClientRequest.post('/jmap/api/').pipe(HttpClientRequest.bodyUnsafeJson({
+          using: MAIL,
+          methodCalls: [['Mailbox/get', { accountId: 'account-1', ids: null, properties: ['name'] }, '0']]
+        }))
+      ).pipe(Effect.flatMap(response => response.json))
+      const notJSON = yield* client.execute(HttpClientRequest.post('/jmap/api/').pipe(HttpClientRequest.bodyText('{')))
+      return [session, api, notJSON.status] as const
+    }).pipe(Effect.provide(NodeHttpServer.layerTest), Effect.scoped, Effect.runPromise)
+
+    expect(session).toMatchObject({ apiUrl: 'http://localhost/jmap/api/', primaryAccounts: { 'urn:ietf:params:jmap:mail': 'account-1' } })
+    expect(api).toEqual({
+      methodResponses: [['Mailbox/get', { accountId: 'account-1', state: '0', list: [{ id: 'inbox', name: 'Inbox' }], notFound: [] }, '0']],
+      sessionState: '0'
+    })
+    expect(notJSON).toBe(400)
+  })
+})
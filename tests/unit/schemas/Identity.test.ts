@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import { Identity, IdentityHelpers } from '../../../src/schemas/Identity.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+
+describe('Identity Schema', () => {
+  const identities = JMAPFixtures.identities.map(identity => Schema.decodeUnknownSync(Identity)(identity))
+
+  describe('Identity', () => {
+    it('should decode identities with and without replyTo', () => {
+      expect(identities[1]!.replyTo).toEqual([{ name: 'Sales Team', email: 'sales@example.com' }])
+      expect(identities[0]!.replyTo).toBeNull()
+    })
+
+    it('should reject identities without mayDelete', () => {
+      const { mayDelete: _, ...incomplete } = JMAPFixtures.identities[0]!
+      expect(() => Schema.decodeUnknownSync(Identity)(incomplete)).toThrow()
+    })
+  })
+
+  describe('IdentityHelpers', () => {
+    it('should match addresses exactly and by wildcard, ignoring case', () => {
+      expect(IdentityHelpers.matchesAddress(identities[1]!, 'Sales@Example.com')).toBe(true)
+      expect(IdentityHelpers.matchesAddress(identities[1]!, 'support@example.com')).toBe(false)
+      expect(IdentityHelpers.matchesAddress(identities[2]!, 'anyone@example.org')).toBe(true)
+      expect(IdentityHelpers.matchesAddress(identities[2]!, 'anyone@notexample.org')).toBe(false)
+    })
+
+    it('should reply from the identity the email was sent to', () => {
+      const identity = IdentityHelpers.findReplyIdentity(identities, {
+        to: [{ name: 'Someone', email: 'someone@elsewhere.com' }],
+        cc: [{ name: 'Sales', email: 'sales@example.com' }],
+        headers: null
+      })
+
+      expect(identity?.id).toBe('identity-2')
+    })
+
+    it('should prefer an exact match over a wildcard', () => {
+      const identity = IdentityHelpers.findReplyIdentity(identities, {
+        to: [{ name: null, email: 'alias@example.org' }],
+        cc: [{ name: null, email: 'test@example.com' }],
+        headers: null
+      })
+
+      expect(identity?.id).toBe('identity-1')
+    })
+
+    it('should fall back to the Delivered-To header for bcc and forwarded mail', () => {
+      const identity = IdentityHelpers.findReplyIdentity(identities, {
+        to: [{ name: null, email: 'list@lists.example.net' }],
+        cc: null,
+        headers: { 'Delivered-To': ['<Sales@example.com>'] }
+      })
+
+      expect(identity?.id).toBe('identity-2')
+    })
+
+    it('should use a wildcard identity when no address matches exactly', () => {
+      const identity = IdentityHelpers.findReplyIdentity(identities, {
+        to: [{ name: null, email: 'orders@example.org' }],
+        cc: null,
+        headers: null
+      })
+
+      expect(identity?.id).toBe('identity-3')
+    })
+
+    it('should fall back to the primary identity', () => {
+      const identity = IdentityHelpers.findReplyIdentity([identities[1]!, identities[0]!], {
+        to: [{ name: null, email: 'nobody@elsewhere.com' }],
+        cc: null,
+        headers: null
+      })
+
+      expect(identity?.id).toBe('identity-1')
+      expect(IdentityHelpers.findReplyIdentity([], { to: null, cc: null, headers: null })).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import { SearchSnippetGetResponse, SearchSnippetHelpers } from '../../../src/schemas/SearchSnippet.ts'
+
+describe('SearchSnippet Schema', () => {
+  describe('SearchSnippetGetResponse', () => {
+    it('should decode snippets with null parts and a null notFound', () => {
+      const response = Schema.decodeUnknownSync(SearchSnippetGetResponse)({
+        accountId: 'account-1',
+        list: [{ emailId: 'email-1', subject: null, preview: 'a <mark>match</mark>' }],
+        notFound: null
+      })
+
+      expect(response.list[0]!.subject).toBeNull()
+      expect(response.notFound).toBeNull()
+    })
+  })
+
+  describe('SearchSnippetHelpers', () => {
+    it('should list the highlighted terms in order', () => {
+      expect(SearchSnippetHelpers.highlightedTerms('<mark>Quarterly</mark> report and <mark>quarterly</mark> plan'))
+        .toEqual(['Quarterly', 'quarterly'])
+      expect(SearchSnippetHelpers.highlightedTerms(null)).toEqual([])
+    })
+
+    it('should convert a snippet to plain text', () => {
+      expect(SearchSnippetHelpers.toPlainText('<mark>R&amp;D</mark> &lt;draft&gt;')).toBe('R&D <draft>')
+      expect(SearchSnippetHelpers.toPlainText(null)).toBeNull()
+    })
+  })
+})
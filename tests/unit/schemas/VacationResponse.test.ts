@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { Schema } from 'effect'
+import { VacationResponse, VacationResponseHelpers } from '../../../src/schemas/VacationResponse.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+
+describe('VacationResponse Schema', () => {
+  const decode = (overrides: object = {}) =>
+    Schema.decodeUnknownSync(VacationResponse)({ ...JMAPFixtures.vacationResponse, ...overrides })
+
+  describe('VacationResponse', () => {
+    it('should decode the singleton with typed dates', () => {
+      const vacationResponse = decode({ fromDate: '2024-07-01T00:00:00Z', toDate: '2024-07-15T00:00:00Z' })
+
+      expect(vacationResponse.id).toBe('singleton')
+      expect(vacationResponse.fromDate).toBe('2024-07-01T00:00:00Z')
+    })
+
+    it('should reject any other id', () => {
+      expect(() => decode({ id: 'vacation-1' })).toThrow()
+    })
+
+    it('should reject malformed dates', () => {
+      expect(() => decode({ fromDate: '1 July 2024' })).toThrow()
+    })
+  })
+
+  describe('VacationResponseHelpers', () => {
+    const ranged = decode({ isEnabled: true, fromDate: '2024-07-01T00:00:00Z', toDate: '2024-07-15T00:00:00Z' })
+
+    it('should be active only within the date range', () => {
+      expect(VacationResponseHelpers.isActive(ranged, new Date('2024-06-30T23:59:59Z'))).toBe(false)
+      expect(VacationResponseHelpers.isActive(ranged, new Date('2024-07-01T00:00:00Z'))).toBe(true)
+      expect(VacationResponseHelpers.isActive(ranged, new Date('2024-07-15T00:00:00Z'))).toBe(false)
+    })
+
+    it('should treat missing dates as open-ended', () => {
+      const open = decode({ isEnabled: true })
+
+      expect(VacationResponseHelpers.isActive(open, new Date('2000-01-01T00:00:00Z'))).toBe(true)
+      expect(VacationResponseHelpers.isScheduled(open)).toBe(false)
+    })
+
+    it('should never be active while disabled', () => {
+      const disabled = decode({ fromDate: '2024-07-01T00:00:00Z' })
+
+      expect(VacationResponseHelpers.isActive(disabled, new Date('2024-07-02T00:00:00Z'))).toBe(false)
+      expect(VacationResponseHelpers.isScheduled(disabled, new Date('2024-06-01T00:00:00Z'))).toBe(false)
+    })
+
+    it('should report a future range as scheduled', () => {
+      expect(VacationResponseHelpers.isScheduled(ranged, new Date('2024-06-01T00:00:00Z'))).toBe(true)
+      expect(VacationResponseHelpers.isScheduled(ranged, new Date('2024-07-02T00:00:00Z'))).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Layer, Stream } from 'effect'
+import type { HttpClientRequest } from '@effect/platform'
+import { JMAPClientLive } from '../../../src/core/JMAPClient.ts'
+import { BlobService, BlobServiceLive, BlobOperations } from '../../../src/services/Blob.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+import { fakeHttpClient, fakeSessionUrl, requestBytes, type FakeHttpResponse } from '../../utils/test-utils.ts'
+
+const session = {
+  ...JMAPFixtures.session,
+  capabilities: {
+    ...JMAPFixtures.session.capabilities,
+    'urn:ietf:params:jmap:core': {
+      ...JMAPFixtures.session.capabilities['urn:ietf:params:jmap:core'],
+      maxSizeUpload: 16,
+      maxConcurrentUpload: 2
+    }
+  }
+}
+
+/**
+ * Blob server storing uploads in memory and recording every request it sees
+ */
+const makeBlobServer = () => {
+  const blobs = new Map<string, { type: string, bytes: Uint8Array }>()
+  const requests: Array<HttpClientRequest.HttpClientRequest> = []
+  let inFlight = 0
+  let maxInFlight = 0
+
+  const handle = (request: HttpClientRequest.HttpClientRequest): Effect.Effect<FakeHttpResponse, unknown> =>
+    Effect.gen(function* () {
+      if (request.url === fakeSessionUrl) {
+        return { body: session }
+      }
+      requests.push(request)
+
+      if (request.url === 'https://api.fastmail.com/jmap/upload/account-1/') {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        const bytes = yield* requestBytes(request).pipe(Effect.ensuring(Effect.sync(() => inFlight--)))
+        yield* Effect.sleep('5 millis')
+        const blobId = `blob-${blobs.size + 1}`
+        const type = request.headers['content-type'] ?? ''
+        blobs.set(blobId, { type, bytes })
+        return { status: 201, body: { accountId: 'account-1', blobId, type, size: bytes.length } }
+      }
+
+      const download = request.url.match(/^https:\/\/api\.fastmail\.com\/jmap\/download\/account-1\/([^/]+)\/([^?]+)\?accept=(.+)$/)
+      const blob = download ? blobs.get(decodeURIComponent(download[1]!)) : undefined
+      return blob ? { body: new TextDecoder().decode(blob.bytes) } : { status: 404 }
+    })
+
+  const layer = Layer.provideMerge(
+    BlobServiceLive,
+    Layer.provideMerge(JMAPClientLive({ sessionUrl: fakeSessionUrl, bearerToken: 'token', maxRetries: 0 }), fakeHttpClient(handle))
+  )
+
+  return { blobs, requests, layer, maxInFlight: () => maxInFlight }
+}
+
+const chunks = (...parts: Array<string>) => Stream.fromIterable(parts.map((part) => new TextEncoder().encode(part)))
+
+describe('BlobService', () => {
+  describe('upload', () => {
+    it('should stream data to the expanded uploadUrl with credentials', async () => {
+      const server = makeBlobServer()
+      const program = Effect.gen(function* () {
+        const service = yield* BlobService
+        return yield* service.upload('account-1', chunks('hello ', 'world'), { type: 'text/plain' })
+      })
+
+      const result = await Effect.runPromise(Effect.provide(program, server.layer))
+
+      expect(result).toEqual({ accountId: 'account-1', blobId: 'blob-1', type: 'text/plain', size: 11 })
+      expect(server.requests[0]!.headers['authorization']).toBe('Bearer token')
+      expect(new TextDecoder().decode(server.blobs.get('blob-1')!.bytes)).toBe('hello world')
+    })
+
+    it('should reject a known size over maxSizeUpload without sending', async () => {
+      const server = makeBlobServer()
+      const program = Effect.gen(function* () {
+        const service = yield* BlobService
+        return yield* service.upload('account-1', chunks('small'), { type: 'text/plain', size: 17 })
+      })
+
+      const error = await Effect.runPromise(Effect.flip(Effect.provide(program, server.layer)))
+
+      expect(error._tag).toBe('BlobError')
+      expect(error._tag === 'BlobError' && error.reason).toBe('tooLarge')
+      expect(server.requests).toHaveLength(0)
+    })
+
+    it('should stop a stream that grows past maxSizeUpload', async () => {
+      const server = makeBlobServer()
+      const program = Effect.gen(function* () {
+        const service = yield* BlobService
+        return yield* service.upload('account-1', chunks('0123456789', '0123456789'), { type: 'text/plain' })
+      })
+
+      const error = await Effect.runPromise(Effect.flip(Effect.provide(program, server.layer)))
+
+      expect(error._tag === 'BlobError' && error.reason).toBe('tooLarge')
+      expect(server.blobs.size).toBe(0)
+    })
+
+    it('should run no more uploads at once than maxConcurrentUpload', async () => {
+      const server = makeBlobServer()
+      const program = Effect.forEach(
+        ['a', 'b', 'c', 'd', 'e'],
+        (text) => BlobOperations.uploadBytes('account-1', text, 'text/plain'),
+        { concurrency: 'unbounded' }
+      )
+
+      const results = await Effect.runPromise(Effect.provide(program, server.layer))
+
+      expect(results).toHaveLength(5)
+      expect(server.maxInFlight()).toBeLessThanOrEqual(2)
+    })
+  })
+
+  describe('download', () => {
+    it('should stream a blob from the expanded downloadUrl', async () => {
+      const server = makeBlobServer()
+      const program = Effect.gen(function* () {
+        const uploaded = yield* BlobOperations.uploadBytes('account-1', 'attachment body', 'text/plain')
+        return yield* BlobOperations.downloadBytes('account-1', uploaded.blobId, { name: 'notes final.txt', type: 'text/plain' })
+      })
+
+      const bytes = await Effect.runPromise(Effect.provide(program, server.layer))
+
+      expect(new TextDecoder().decode(bytes)).toBe('attachment body')
+      expect(server.requests[1]!.url).toBe(
+        'https://api.fastmail.com/jmap/download/account-1/blob-1/notes%20final.txt?accept=text%2Fplain'
+      )
+    })
+
+    it('should fail with notFound for an unknown blob', async () => {
+      const server = makeBlobServer()
+      const program = Effect.gen(function* () {
+        const service = yield* BlobService
+        return yield* Stream.runDrain(service.download('account-1', 'blob-missing'))
+      })
+
+      const error = await Effect.runPromise(Effect.flip(Effect.provide(program, server.layer)))
+
+      expect(error._tag === 'BlobError' && error.reason).toBe('notFound')
+    })
+  })
+})
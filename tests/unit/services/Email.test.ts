@@ -17,7 +17,7 @@ import {
 } from '../../../src/schemas/Email.ts'
 import { Common, StandardKeywords } from '../../../src/schemas/Common.ts'
 import { JMAPClient } from '../../../src/core/JMAPClient.ts'
-import { testJMAPClient } from '../../utils/test-utils.ts'
+import { recordBatches, testJMAPClient } from '../../utils/test-utils.ts'
 import {
   mockEmailGetResponse,
   mockEmailSetResponse,
@@ -161,6 +161,26 @@ describe('Email Service', () => {
     })
   })
 
+  describe('changes method', () => {
+    it('should get one page of changes since a state', () => {
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.changes({
+            accountId: 'test-account',
+            sinceState: 'state-123',
+            maxChanges: Common.createUnsignedInt(10)
+          })
+        })
+      )
+
+      expect(result.oldState).toBe('state-123')
+      expect(result.newState).toBe('state-124')
+      expect(result.hasMoreChanges).toBe(true)
+      expect(result.created).toEqual(['email-3'])
+    })
+  })
+
   describe('query method', () => {
     it('should query emails with filters', () => {
       const result = runTest(
@@ -280,6 +300,64 @@ describe('Email Service', () => {
     })
   })
 
+  describe('parse method', () => {
+    it('should report parsed, unparsable and missing blobs', () => {
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.parse({
+            accountId: 'test-account',
+            blobIds: ['blob-forwarded', 'blob-unparsable', 'blob-missing'],
+            bodyProperties: ['partId', 'type'],
+            fetchTextBodyValues: true
+          })
+        })
+      )
+
+      expect(result.parsed?.['blob-forwarded']?.subject).toBe('Original message')
+      expect(result.parsed?.['blob-forwarded']?.id).toBeNull()
+      expect(result.notParsable).toEqual(['blob-unparsable'])
+      expect(result.notFound).toEqual(['blob-missing'])
+    })
+
+    it('should parse the message/rfc822 attachments of an email', () => {
+      const attachment = (blobId: string, type: string) => ({
+        blobId, type, name: null, size: 1024, cid: null, disposition: 'attachment'
+      })
+      const email = Schema.decodeUnknownSync(Email)({
+        ...sampleEmails[1],
+        attachments: [
+          attachment('blob-forwarded', 'message/rfc822'),
+          attachment('blob-report', 'application/pdf'),
+          attachment('blob-unparsable', 'Message/RFC822')
+        ]
+      })
+
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.parseAttachedEmails('test-account', email)
+        })
+      )
+
+      expect(result).toHaveLength(1)
+      expect(result[0]!.attachment.blobId).toBe('blob-forwarded')
+      expect(result[0]!.email.from).toEqual([{ name: 'Alice', email: 'alice@example.com' }])
+      expect(result[0]!.email.bodyValues?.['1']?.value).toBe('The message that was forwarded')
+    })
+
+    it('should return nothing for an email without attached messages', () => {
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.parseAttachedEmails('test-account', { attachments: null })
+        })
+      )
+
+      expect(result).toEqual([])
+    })
+  })
+
   describe('convenience methods', () => {
     it('should get emails by mailbox', () => {
       const result = runTest(
@@ -318,6 +396,70 @@ describe('Email Service', () => {
       expect(result).toBeDefined()
     })
 
+    it('should pair each search result with its highlighted snippet', () => {
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.search('test-account', 'test email')
+        })
+      )
+
+      expect(result).toHaveLength(1)
+      expect(result[0].email.id).toBe('email-1')
+      expect(result[0].snippet).toEqual({
+        emailId: 'email-1',
+        subject: '<mark>Test Email</mark> 1',
+        preview: 'This is a <mark>test email</mark> for our JMAP implementation...'
+      })
+    })
+
+    it('should give emails without a snippet an empty one', () => {
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.search('test-account', 'invoice')
+        })
+      )
+
+      expect(result[0].snippet).toEqual({ emailId: 'email-1', subject: null, preview: null })
+    })
+
+    it('should get search snippets for a filter', () => {
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.getSearchSnippets({
+            accountId: 'test-account',
+            filter: { text: 'attachment' },
+            emailIds: [Common.createId('email-2'), Common.createId('email-9')]
+          })
+        })
+      )
+
+      expect(result.list).toEqual([{
+        emailId: 'email-2',
+        subject: null,
+        preview: 'Second test email with <mark>attachment</mark>...'
+      }])
+      expect(result.notFound).toEqual(['email-9'])
+    })
+
+    it('should create a draft from a high-level description', () => {
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.createDraft('test-account', Common.createId('drafts'), {
+            from: 'test@example.com',
+            to: ['recipient@example.com'],
+            subject: 'Draft',
+            textBody: 'Hello'
+          })
+        })
+      )
+
+      expect(result).toEqual({ id: 'email-draft', blobId: 'blob-draft', threadId: 'thread-draft', size: 1024 })
+    })
+
     it('should get unread emails', () => {
       const result = runTest(
         Effect.gen(function* () {
@@ -333,6 +475,19 @@ describe('Email Service', () => {
       expect(result).toHaveLength(1)
     })
 
+    it('should sync changes with the changed emails in one request', () => {
+      const result = runTest(
+        Effect.gen(function* () {
+          const service = yield* EmailService
+          return yield* service.syncChanges('test-account', 'state-123', ['id', 'keywords'])
+        })
+      )
+
+      expect(result.changes.newState).toBe('state-124')
+      expect(result.created).toEqual([])
+      expect(result.updated.map(email => email.id)).toEqual(['email-1'])
+    })
+
     it('should mark emails as read', () => {
       const result = runTest(
         Effect.gen(function* () {
@@ -452,11 +607,31 @@ describe('EmailOperations', () => {
     }
   })
 
+  it('should merge all changes across pages', () => {
+    const result = runTest(EmailOperations.getAllChanges('test-account', 'state-123'))
+
+    expect(result).toEqual({
+      oldState: 'state-123',
+      newState: 'state-125',
+      created: [],
+      updated: ['email-1', 'email-2'],
+      destroyed: []
+    })
+  })
+
   it('should get email thread', () => {
     const result = runTest(
-      EmailOperations.getEmailThread('test-account', Common.createId('thread1'))
+      EmailOperations.getEmailThread('test-account', Common.createId('thread-1'))
     )
     expect(result).toBeDefined()
+    expect(result.length).toBeGreaterThan(0)
+  })
+
+  it('should return no emails for an unknown thread', () => {
+    const result = runTest(
+      EmailOperations.getEmailThread('test-account', Common.createId('thread-unknown'))
+    )
+    expect(result).toEqual([])
   })
 
   it('should mark mailbox as read', () => {
@@ -487,4 +662,47 @@ describe('EmailOperations', () => {
     )
     expect(result).toBeDefined()
   })
-})
\ No newline at end of file
+})
+
+describe('Email mutators', () => {
+  /**
+   * Email service over the mock client, recording every method call sent
+   */
+  const recordCalls = () => {
+    const { batches, layer } = recordBatches(EmailServiceLive)
+    const updates = () => batches
+      .flatMap(batch => batch.methodCalls)
+      .filter(([name]) => name === 'Email/set')
+      .map(([, args]) => args.update)
+    return { layer, updates }
+  }
+
+  it('should patch only the keywords it changes', () => {
+    const { layer, updates } = recordCalls()
+    const email1 = Common.createId('email1')
+
+    Effect.runSync(Effect.provide(Effect.gen(function* () {
+      const service = yield* EmailService
+      yield* service.markRead('test-account', [email1], false)
+      yield* service.flag('test-account', [email1], true)
+      yield* service.updateKeywords('test-account', [email1], ['work/urgent'], [StandardKeywords.DRAFT])
+    }), layer))
+
+    expect(updates()).toEqual([
+      { email1: { 'keywords/$seen': null } },
+      { email1: { 'keywords/$flagged': true } },
+      { email1: { 'keywords/work~1urgent': true, 'keywords/$draft': null } }
+    ])
+  })
+
+  it('should move without dropping the other mailboxes', () => {
+    const { layer, updates } = recordCalls()
+
+    Effect.runSync(Effect.provide(Effect.gen(function* () {
+      const service = yield* EmailService
+      return yield* service.move('test-account', [Common.createId('email1')], Common.createId('inbox'), Common.createId('archive'))
+    }), layer))
+
+    expect(updates()).toEqual([{ email1: { 'mailboxIds/inbox': null, 'mailboxIds/archive': true } }])
+  })
+})
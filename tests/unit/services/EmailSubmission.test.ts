@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Layer } from 'effect'
+import { CapabilityUris } from '../../../src/core/Types.ts'
+import { EmailSubmissionService, EmailSubmissionServiceLive, EmailSubmissionOperations } from '../../../src/services/EmailSubmission.ts'
+import { MailboxServiceLive } from '../../../src/services/Mailbox.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+import { TestUtils, recordBatches, testJMAPClient } from '../../utils/test-utils.ts'
+
+describe('EmailSubmissionService', () => {
+  const testLayer = Layer.provideMerge(EmailSubmissionServiceLive, testJMAPClient)
+
+  const recordSubmissionBatches = () => recordBatches(Layer.merge(EmailSubmissionServiceLive, MailboxServiceLive))
+
+  describe('get', () => {
+    it('should retrieve submissions by id', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* EmailSubmissionService
+        return yield* service.get({
+          accountId: 'account-1',
+          ids: [Common.createId('submission-final')]
+        })
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result.list).toHaveLength(1)
+      expect(result.list[0]!.undoStatus).toBe('final')
+      expect(result.list[0]!.deliveryStatus?.['recipient@example.com']?.delivered).toBe('yes')
+    })
+
+    it('should declare the submission capability', async () => {
+      const { batches, layer } = recordSubmissionBatches()
+      const effect = Effect.gen(function* () {
+        const service = yield* EmailSubmissionService
+        return yield* service.get({ accountId: 'account-1', ids: null })
+      })
+
+      await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(batches[0]!.using).toEqual([CapabilityUris.CORE, CapabilityUris.MAIL, CapabilityUris.SUBMISSION])
+    })
+  })
+
+  describe('send', () => {
+    it('should clear $draft and move the email in the same request', async () => {
+      const { batches, layer } = recordSubmissionBatches()
+      const effect = Effect.gen(function* () {
+        const service = yield* EmailSubmissionService
+        return yield* service.send(
+          'account-1',
+          { identityId: Common.createId('identity-1'), emailId: Common.createId('email-1') },
+          { sentMailboxId: Common.createId('mailbox-sent') }
+        )
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(batches).toHaveLength(1)
+      expect(batches[0]!.methodCalls[0]![1]).toMatchObject({
+        create: { send: { identityId: 'identity-1', emailId: 'email-1' } },
+        onSuccessUpdateEmail: {
+          '#send': { 'keywords/$draft': null, mailboxIds: { 'mailbox-sent': true } }
+        }
+      })
+      expect(result.submission.undoStatus).toBe('pending')
+      expect(result.emailUpdate?.updated).toEqual({ 'email-1': null })
+    })
+
+    it('should destroy the email when asked to', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* EmailSubmissionService
+        return yield* service.send(
+          'account-1',
+          { identityId: Common.createId('identity-1'), emailId: Common.createId('email-1') },
+          { destroyEmail: true }
+        )
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result.emailUpdate?.destroyed).toEqual(['email-1'])
+      expect(result.emailUpdate?.updated).toBeUndefined()
+    })
+
+    it('should fail with the SetError when the submission is rejected', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* EmailSubmissionService
+        return yield* Effect.flip(service.send(
+          'account-1',
+          { identityId: Common.createId('identity-1'), emailId: Common.createId('email-missing') }
+        ))
+      })
+
+      const error = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(error._tag).toBe('JMAPMethodError')
+      expect(error._tag === 'JMAPMethodError' && error.type).toBe('invalidProperties')
+    })
+  })
+
+  describe('cancel', () => {
+    it('should set undoStatus to canceled', async () => {
+      const { batches, layer } = recordSubmissionBatches()
+      const effect = Effect.gen(function* () {
+        const service = yield* EmailSubmissionService
+        return yield* service.cancel('account-1', Common.createId('submission-1'))
+      })
+
+      await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(batches[0]!.methodCalls[0]![1]).toMatchObject({
+        update: { 'submission-1': { undoStatus: 'canceled' } }
+      })
+    })
+
+    it('should fail once the submission can no longer be canceled', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* EmailSubmissionService
+        return yield* Effect.flip(service.cancel('account-1', Common.createId('submission-final')))
+      })
+
+      const error = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(error._tag === 'JMAPMethodError' && error.type).toBe('cannotUnsend')
+    })
+  })
+
+  describe('EmailSubmissionOperations', () => {
+    it('should list the pending submissions in a single request', async () => {
+      const { batches, layer } = recordSubmissionBatches()
+      const effect = EmailSubmissionOperations.getPending('account-1')
+
+      const result = await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(result.map(submission => submission.id)).toEqual(['submission-1'])
+      expect(batches).toHaveLength(1)
+      expect(batches[0]!.methodCalls.map(([name]) => name)).toEqual(['EmailSubmission/query', 'EmailSubmission/get'])
+    })
+
+    it('should send a draft to the Sent mailbox', async () => {
+      const { batches, layer } = recordSubmissionBatches()
+      const effect = EmailSubmissionOperations.sendDraft(
+        'account-1',
+        Common.createId('identity-1'),
+        Common.createId('email-1')
+      )
+
+      const result = await TestUtils.runEffectWithLayer(effect, layer)
+
+      const submissionCall = batches.flatMap(batch => batch.methodCalls).find(([name]) => name === 'EmailSubmission/set')
+      expect(submissionCall?.[1]).toHaveProperty(['onSuccessUpdateEmail', '#send', 'mailboxIds'])
+      expect(result.emailUpdate?.updated).toHaveProperty('email-1')
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Layer } from 'effect'
+import { CapabilityUris } from '../../../src/core/Types.ts'
+import { IdentityService, IdentityServiceLive } from '../../../src/services/Identity.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+import { TestUtils, recordBatches, testJMAPClient } from '../../utils/test-utils.ts'
+
+describe('IdentityService', () => {
+  const testLayer = Layer.provideMerge(IdentityServiceLive, testJMAPClient)
+
+  describe('getAll', () => {
+    it('should fetch every identity with the submission capability', async () => {
+      const { batches, layer } = recordBatches(IdentityServiceLive)
+
+      const effect = Effect.gen(function* () {
+        const service = yield* IdentityService
+        return yield* service.getAll('account-1')
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(result.map(identity => identity.email)).toEqual(['test@example.com', 'sales@example.com', '*@example.org'])
+      expect(batches.map(batch => batch.using)).toEqual([[CapabilityUris.CORE, CapabilityUris.SUBMISSION]])
+    })
+  })
+
+  describe('set', () => {
+    it('should create an identity and return its id', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* IdentityService
+        return yield* service.create('account-1', { name: 'Support', email: 'support@example.com' })
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result).toMatch(/^identity-temp-/)
+    })
+
+    it('should fail to destroy the primary identity', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* IdentityService
+        return yield* Effect.flip(service.destroy('account-1', [Common.createId('identity-1')]))
+      })
+
+      const error = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(error._tag === 'JMAPMethodError' && error.type).toBe('forbidden')
+    })
+  })
+
+  describe('findReplyIdentity', () => {
+    it('should pick the identity matching the recipients', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* IdentityService
+        return yield* service.findReplyIdentity('account-1', {
+          to: [{ name: 'Sales', email: 'sales@example.com' }],
+          cc: null,
+          headers: null
+        })
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result?.id).toBe('identity-2')
+    })
+  })
+})
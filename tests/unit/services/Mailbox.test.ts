@@ -47,6 +47,51 @@ describe('MailboxService', () => {
     })
   })
 
+  describe('changes', () => {
+    it('should return mailbox changes with updated properties', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* MailboxService
+        return yield* service.changes({
+          accountId: 'account-1',
+          sinceState: 'state-1'
+        })
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result.newState).toBe('state-2')
+      expect(result.updated).toEqual(['mailbox-1'])
+      expect(result.updatedProperties).toEqual(['totalEmails', 'unreadEmails'])
+    })
+
+    it('should sync changes with the changed mailboxes in one request', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* MailboxService
+        return yield* service.syncChanges('account-1', 'state-1')
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result.changes.updatedProperties).toEqual(['totalEmails', 'unreadEmails'])
+      expect(result.updated.map(mailbox => mailbox.id)).toEqual(['mailbox-1'])
+    })
+
+    it('should collect the full delta', async () => {
+      const result = await TestUtils.runEffectWithLayer(
+        MailboxOperations.getAllChanges('account-1', 'state-1'),
+        testLayer
+      )
+
+      expect(result).toEqual({
+        oldState: 'state-1',
+        newState: 'state-2',
+        created: [],
+        updated: ['mailbox-1'],
+        destroyed: []
+      })
+    })
+  })
+
   describe('query', () => {
     it('should query mailboxes with filters', async () => {
       const effect = Effect.gen(function* () {
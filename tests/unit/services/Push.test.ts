@@ -0,0 +1,237 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { Chunk, Effect, Layer, Option, Schedule, Stream } from 'effect'
+import { NodeHttpClient } from '@effect/platform-node'
+import { JMAPClientLive } from '../../../src/core/JMAPClient.ts'
+import { PushService, PushServiceLive, PushOperations } from '../../../src/services/Push.ts'
+import { JMAPFixtures } from '../../fixtures/jmap-responses.ts'
+import { startLocalServer, type LocalServer } from '../../utils/test-utils.ts'
+
+const stateChange = (emailState: string) =>
+  JSON.stringify({ '@type': 'StateChange', changed: { 'account-1': { Email: emailState, Mailbox: 'm1' } } })
+
+/**
+ * SSE stand-in: serves the session and hands each event source connection to onConnect
+ */
+const startPushServer = async (
+  onConnect: (connection: number, request: IncomingMessage, response: ServerResponse) => void
+) => {
+  const connections: Array<IncomingMessage> = []
+  const local: LocalServer = await startLocalServer((request, response) => {
+    if (request.url === '/session') {
+      response.setHeader('Content-Type', 'application/json')
+      response.end(JSON.stringify({
+        ...JMAPFixtures.session,
+        eventSourceUrl: `${local.url}/events?types={types}&closeafter={closeafter}&ping={ping}`
+      }))
+      return
+    }
+    connections.push(request)
+    onConnect(connections.length, request, response)
+  })
+
+  const layer = Layer.provideMerge(
+    PushServiceLive,
+    Layer.provideMerge(
+      JMAPClientLive({ sessionUrl: `${local.url}/session`, bearerToken: 'token', maxRetries: 0 }),
+      NodeHttpClient.layerUndici
+    )
+  )
+
+  return { ...local, connections, layer }
+}
+
+const openStream = (response: ServerResponse) =>
+  response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+
+const fastReconnect = Schedule.spaced('10 millis')
+
+// Longer than any test runs, for reconnects that must not wait on the schedule
+const slowReconnect = Schedule.spaced('1 hour')
+
+describe('PushService', () => {
+  let server: LocalServer | undefined
+
+  afterEach(async () => {
+    await server?.close()
+    server = undefined
+  })
+
+  it('should stream StateChange events and ignore pings', async () => {
+    const push = await startPushServer((_, __, response) => {
+      openStream(response)
+      response.write('event: ping\ndata: {"interval":30}\n\n')
+      response.write(`event: state\nid: 1\ndata: ${stateChange('e1')}\n\n`)
+      response.write(`event: state\nid: 2\ndata: ${stateChange('e2')}\n\n`)
+    })
+    server = push
+
+    const program = Effect.gen(function* () {
+      const service = yield* PushService
+      return yield* Stream.runCollect(service.stateChanges({ types: ['Email', 'Mailbox'], ping: 15 }).pipe(Stream.take(2)))
+    })
+
+    const changes = Chunk.toArray(await Effect.runPromise(Effect.provide(program, push.layer)))
+
+    expect(changes.map((change) => change.changed['account-1']?.['Email'])).toEqual(['e1', 'e2'])
+    expect(push.connections[0]!.url).toBe('/events?types=Email%2CMailbox&closeafter=no&ping=15')
+    expect(push.connections[0]!.headers['authorization']).toBe('Bearer token')
+    expect(push.connections[0]!.headers['accept']).toBe('text/event-stream')
+  })
+
+  it('should reconnect with Last-Event-ID after the connection closes', async () => {
+    const push = await startPushServer((connection, _, response) => {
+      openStream(response)
+      response.write(`event: state\nid: ${connection}\ndata: ${stateChange(`e${connection}`)}\n\n`)
+      if (connection === 1) {
+        response.end()
+      }
+    })
+    server = push
+
+    const program = PushOperations.typeStates('account-1', 'Email', { closeAfter: 'state', reconnect: fastReconnect }).pipe(
+      Stream.take(2),
+      Stream.runCollect
+    )
+
+    const states = Chunk.toArray(await Effect.runPromise(Effect.provide(program, push.layer)))
+
+    expect(states).toEqual(['e1', 'e2'])
+    expect(push.connections[0]!.headers['last-event-id']).toBeUndefined()
+    expect(push.connections[1]!.headers['last-event-id']).toBe('1')
+    expect(push.connections[1]!.url).toContain('closeafter=state')
+  })
+
+  it('should back off and retry when the server is unavailable', async () => {
+    const push = await startPushServer((connection, _, response) => {
+      if (connection < 3) {
+        response.writeHead(503).end()
+        return
+      }
+      openStream(response)
+      response.write(`event: state\nid: 1\ndata: ${stateChange('e1')}\n\n`)
+    })
+    server = push
+
+    const program = Effect.gen(function* () {
+      const service = yield* PushService
+      return yield* Stream.runHead(service.stateChanges({ reconnect: fastReconnect }))
+    })
+
+    const change = await Effect.runPromise(Effect.provide(program, push.layer))
+
+    expect(change._tag).toBe('Some')
+    expect(push.connections).toHaveLength(3)
+  })
+
+  it.each([401, 403])('should end the stream with an AuthenticationError on HTTP %i', async (status) => {
+    const push = await startPushServer((_, __, response) => {
+      response.writeHead(status).end()
+    })
+    server = push
+
+    const program = Effect.gen(function* () {
+      const service = yield* PushService
+      return yield* Stream.runDrain(service.stateChanges({ reconnect: fastReconnect }))
+    })
+
+    const error = await Effect.runPromise(Effect.flip(Effect.provide(program, push.layer)))
+
+    expect(error._tag).toBe('AuthenticationError')
+    expect(push.connections).toHaveLength(1)
+  })
+
+  it('should not retry other client errors', async () => {
+    const push = await startPushServer((_, __, response) => {
+      response.writeHead(404).end()
+    })
+    server = push
+
+    const program = Effect.gen(function* () {
+      const service = yield* PushService
+      return yield* Stream.runDrain(service.stateChanges({ reconnect: fastReconnect }))
+    })
+
+    const error = await Effect.runPromise(Effect.flip(Effect.provide(program, push.layer)))
+
+    expect(error).toMatchObject({ _tag: 'NetworkError', status: 404 })
+    expect(push.connections).toHaveLength(1)
+  })
+
+  it('should retry rate limited connections', async () => {
+    const push = await startPushServer((connection, _, response) => {
+      if (connection === 1) {
+        response.writeHead(429).end()
+        return
+      }
+      openStream(response)
+      response.write(`event: state\nid: 1\ndata: ${stateChange('e1')}\n\n`)
+    })
+    server = push
+
+    const program = PushOperations.typeStates('account-1', 'Email', { reconnect: fastReconnect }).pipe(Stream.runHead)
+
+    const state = await Effect.runPromise(Effect.provide(program, push.layer))
+
+    expect(state).toEqual(Option.some('e1'))
+    expect(push.connections).toHaveLength(2)
+  })
+
+  it('should skip state events that are not a StateChange', async () => {
+    const push = await startPushServer((_, __, response) => {
+      openStream(response)
+      response.write('event: state\nid: 1\ndata: {"@type":"StateChange"\n\n')
+      response.write('event: state\nid: 2\ndata: {"@type":"Other"}\n\n')
+      response.write(`event: state\nid: 3\ndata: ${stateChange('e3')}\n\n`)
+    })
+    server = push
+
+    const program = PushOperations.typeStates('account-1', 'Email').pipe(Stream.runHead)
+
+    const state = await Effect.runPromise(Effect.provide(program, push.layer))
+
+    expect(state).toEqual(Option.some('e3'))
+  })
+
+  it('should reconnect at once after a connection that only sent pings', async () => {
+    const push = await startPushServer((connection, _, response) => {
+      openStream(response)
+      if (connection === 1) {
+        response.end(': keep-alive\n\nevent: ping\n\n')
+        return
+      }
+      response.write(`event: state\nid: 1\ndata: ${stateChange('e1')}\n\n`)
+    })
+    server = push
+
+    const program = PushOperations.typeStates('account-1', 'Email', { reconnect: slowReconnect }).pipe(Stream.runHead)
+
+    const state = await Effect.runPromise(Effect.provide(program, push.layer))
+
+    expect(state).toEqual(Option.some('e1'))
+    expect(push.connections).toHaveLength(2)
+  })
+
+  it('should wait the retry time the server sent before reconnecting', async () => {
+    const push = await startPushServer((connection, _, response) => {
+      if (connection === 2) {
+        response.writeHead(503).end()
+        return
+      }
+      openStream(response)
+      if (connection === 1) {
+        response.end('retry: 10\nevent: ping\ndata: {"interval":30}\n\n')
+        return
+      }
+      response.write(`event: state\nid: 1\ndata: ${stateChange('e1')}\n\n`)
+    })
+    server = push
+
+    const program = PushOperations.typeStates('account-1', 'Email', { reconnect: slowReconnect }).pipe(Stream.runHead)
+
+    const state = await Effect.runPromise(Effect.provide(program, push.layer))
+
+    expect(state).toEqual(Option.some('e1'))
+    expect(push.connections).toHaveLength(3)
+  })
+})
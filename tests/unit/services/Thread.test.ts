@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Layer } from 'effect'
+import { ThreadService, ThreadServiceLive } from '../../../src/services/Thread.ts'
+import { Common } from '../../../src/schemas/Common.ts'
+import { TestUtils, recordBatches, testJMAPClient } from '../../utils/test-utils.ts'
+
+describe('ThreadService', () => {
+  const testLayer = Layer.provideMerge(ThreadServiceLive, testJMAPClient)
+
+  describe('get', () => {
+    it('should retrieve threads by id', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* ThreadService
+        return yield* service.get({
+          accountId: 'account-1',
+          ids: [Common.createId('thread-1'), Common.createId('thread-missing')]
+        })
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result.list).toEqual([{ id: 'thread-1', emailIds: ['email-1'] }])
+      expect(result.notFound).toEqual(['thread-missing'])
+    })
+  })
+
+  describe('changes', () => {
+    it('should return thread changes since a state', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* ThreadService
+        return yield* service.changes({
+          accountId: 'account-1',
+          sinceState: 'thread-state-1'
+        })
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result.oldState).toBe('thread-state-1')
+      expect(result.newState).toBe('thread-state-2')
+      expect(result.hasMoreChanges).toBe(false)
+      expect(result.updated).toEqual(['thread-1'])
+    })
+  })
+
+  describe('getEmails', () => {
+    it('should fetch thread and emails in a single request', async () => {
+      const { batches, layer } = recordBatches(ThreadServiceLive)
+
+      const effect = Effect.gen(function* () {
+        const service = yield* ThreadService
+        return yield* service.getEmails('account-1', Common.createId('thread-1'))
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(result.map(email => email.id)).toEqual(['email-1'])
+      expect(batches.map(batch => batch.methodCalls.map(([name]) => name))).toEqual([['Thread/get', 'Email/get']])
+    })
+
+    it('should return an empty list when the thread does not exist', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* ThreadService
+        return yield* service.getEmails('account-1', Common.createId('thread-missing'))
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(result).toEqual([])
+    })
+  })
+})
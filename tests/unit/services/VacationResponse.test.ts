@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { Effect, Layer } from 'effect'
+import { CapabilityUris } from '../../../src/core/Types.ts'
+import { VacationResponseService, VacationResponseServiceLive, VacationResponseOperations } from '../../../src/services/VacationResponse.ts'
+import type { VacationResponseSetArguments } from '../../../src/schemas/VacationResponse.ts'
+import { TestUtils, invalidInput, recordBatches, testJMAPClient } from '../../utils/test-utils.ts'
+
+describe('VacationResponseService', () => {
+  const testLayer = Layer.provideMerge(VacationResponseServiceLive, testJMAPClient)
+
+  describe('getCurrent', () => {
+    it('should fetch the singleton with the vacationresponse capability', async () => {
+      const { batches, layer } = recordBatches(VacationResponseServiceLive)
+      const effect = Effect.gen(function* () {
+        const service = yield* VacationResponseService
+        return yield* service.getCurrent('account-1')
+      })
+
+      const result = await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(result.subject).toBe('Out of office')
+      expect(batches[0]!.methodCalls[0]![1]).toMatchObject({ ids: ['singleton'] })
+      expect(batches[0]!.using).toEqual([CapabilityUris.CORE, CapabilityUris.VACATION_RESPONSE])
+    })
+  })
+
+  describe('set', () => {
+    it('should reject ids other than singleton without a request', async () => {
+      const { batches, layer } = recordBatches(VacationResponseServiceLive)
+      const effect = Effect.gen(function* () {
+        const service = yield* VacationResponseService
+        return yield* Effect.flip(service.set(invalidInput<VacationResponseSetArguments>({
+          accountId: 'account-1',
+          update: { 'vacation-1': { isEnabled: true } }
+        })))
+      })
+
+      const error = await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(error._tag === 'JMAPMethodError' && error.type).toBe('singleton')
+      expect(batches).toEqual([])
+    })
+
+    it('should reject creating another vacation response', async () => {
+      const effect = Effect.gen(function* () {
+        const service = yield* VacationResponseService
+        return yield* Effect.flip(service.set(invalidInput<VacationResponseSetArguments>({
+          accountId: 'account-1',
+          create: { new: { isEnabled: true } }
+        })))
+      })
+
+      const error = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(error._tag === 'JMAPMethodError' && error.type).toBe('singleton')
+    })
+  })
+
+  describe('enable', () => {
+    it('should enable auto-reply for a date range', async () => {
+      const { batches, layer } = recordBatches(VacationResponseServiceLive)
+      const effect = VacationResponseOperations.enableForRange(
+        'account-1',
+        new Date('2024-07-01T00:00:00Z'),
+        new Date('2024-07-15T00:00:00Z'),
+        { subject: 'Away', textBody: 'Back on the 15th' }
+      )
+
+      await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(batches[0]!.methodCalls[0]).toEqual(['VacationResponse/set', {
+        accountId: 'account-1',
+        update: {
+          singleton: {
+            subject: 'Away',
+            textBody: 'Back on the 15th',
+            isEnabled: true,
+            fromDate: '2024-07-01T00:00:00.000Z',
+            toDate: '2024-07-15T00:00:00.000Z'
+          }
+        }
+      }, 'c0'])
+    })
+
+    it('should reject a range that ends before it starts', async () => {
+      const effect = Effect.flip(VacationResponseOperations.enableForRange(
+        'account-1',
+        new Date('2024-07-15T00:00:00Z'),
+        new Date('2024-07-01T00:00:00Z'),
+        { textBody: 'Away' }
+      ))
+
+      const error = await TestUtils.runEffectWithLayer(effect, testLayer)
+
+      expect(error._tag === 'JMAPMethodError' && error.type).toBe('invalidArguments')
+    })
+
+    it('should disable without touching the message', async () => {
+      const { batches, layer } = recordBatches(VacationResponseServiceLive)
+      const effect = Effect.gen(function* () {
+        const service = yield* VacationResponseService
+        return yield* service.disable('account-1')
+      })
+
+      await TestUtils.runEffectWithLayer(effect, layer)
+
+      expect(batches[0]!.methodCalls[0]![1]).toEqual({
+        accountId: 'account-1',
+        update: { singleton: { isEnabled: false } }
+      })
+    })
+  })
+})
@@ -1,5 +1,11 @@
-import { Effect, Layer, TestContext } from 'effect'
+import * as http from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Chunk, Effect, Layer, Schema, Stream, TestContext } from 'effect'
+import { HttpClient, HttpClientError, HttpClientRequest, HttpClientResponse } from '@effect/platform'
 import { JMAPClientService, JMAPClient } from '../../src/core/JMAPClient.ts'
+import { type Invocation, type MethodResponse, Request } from '../../src/core/Types.ts'
+import { resolveResultReferences } from '../../src/core/ResponseUtils.ts'
+import { Errors } from '../../src/core/Errors.ts'
 import { JMAPFixtures, sampleEmails, mockEmailGetResponse, mockEmailSetResponse, mockEmailQueryResponse, mockEmailCopyResponse, mockEmailImportResponse } from '../fixtures/jmap-responses.ts'
 
 /**
@@ -28,6 +34,388 @@ export const TestUtils = {
   }
 }
 
+/**
+ * Mock response for a single method call
+ */
+const mockMethodResponse = ([methodName, methodArgs, callId]: Invocation): MethodResponse => {
+  const args = methodArgs as any
+
+  // Mailbox methods
+  if (methodName === 'Mailbox/get') {
+    return ['Mailbox/get', {
+      accountId: 'account-1',
+      state: 'state-1',
+      list: JMAPFixtures.mailboxes,
+      notFound: []
+    }, callId]
+  }
+
+  if (methodName === 'Mailbox/changes') {
+    return ['Mailbox/changes', {
+      accountId: args.accountId,
+      oldState: args.sinceState,
+      newState: 'state-2',
+      hasMoreChanges: false,
+      created: [],
+      updated: ['mailbox-1'],
+      destroyed: [],
+      updatedProperties: ['totalEmails', 'unreadEmails']
+    }, callId]
+  }
+
+  if (methodName === 'Mailbox/query') {
+    return ['Mailbox/query', {
+      accountId: 'account-1',
+      queryState: 'query-state-1',
+      canCalculateChanges: true,
+      position: 0,
+      ids: ['mailbox-1'],
+      total: 1
+    }, callId]
+  }
+
+  if (methodName === 'Mailbox/set') {
+    return ['Mailbox/set', {
+      accountId: args.accountId,
+      oldState: 'state-1',
+      newState: 'state-2',
+      created: args.create ? Object.fromEntries(
+        Object.entries(args.create).map(([tempId, mailbox]) => [
+          tempId,
+          {
+            ...mailbox,
+            id: `mailbox-${Date.now()}`,
+            parentId: (mailbox as any).parentId || null,
+            role: null,
+            totalEmails: 0,
+            unreadEmails: 0,
+            totalThreads: 0,
+            unreadThreads: 0,
+            myRights: {
+              mayReadItems: true,
+              mayAddItems: true,
+              mayRemoveItems: true,
+              maySetSeen: true,
+              maySetKeywords: true,
+              mayCreateChild: true,
+              mayRename: true,
+              mayDelete: true,
+              maySubmit: true
+            },
+            isSubscribed: true
+          }
+        ])
+      ) : undefined,
+      updated: args.update ? Object.fromEntries(
+        Object.entries(args.update).map(([id, updates]) => [id, {
+          ...JMAPFixtures.mailboxes[0],
+          ...updates
+        }])
+      ) : undefined,
+      destroyed: args.destroy || []
+    }, callId]
+  }
+
+  // Email methods
+  if (methodName === 'Email/get') {
+    // If no IDs specified, return all emails. Back-references are resolved by now.
+    if (args.ids === null || args.ids === undefined) {
+      return ['Email/get', mockEmailGetResponse, callId]
+    }
+
+    // Filter emails based on requested IDs
+    // Handle both 'email1' and 'email-1' ID formats for test compatibility
+    const requestedIds = args.ids
+    const filteredEmails = sampleEmails.filter(email => {
+      return requestedIds.includes(email.id) ||
+             requestedIds.some((id: string) => {
+               // Handle email1 -> email-1 mapping for tests
+               const normalizedId = id.replace(/^email(\d+)$/, 'email-$1')
+               return normalizedId === email.id
+             })
+    })
+
+    return ['Email/get', {
+      ...mockEmailGetResponse,
+      list: filteredEmails
+    }, callId]
+  }
+
+  if (methodName === 'Email/set') {
+    return ['Email/set', {
+      ...mockEmailSetResponse,
+      accountId: args.accountId,
+      created: args.create ? Object.fromEntries(
+        Object.keys(args.create).map(creationId => [creationId, {
+          id: `email-${creationId}`,
+          blobId: `blob-${creationId}`,
+          threadId: `thread-${creationId}`,
+          size: 1024
+        }])
+      ) : undefined,
+      updated: args.update ? Object.fromEntries(
+        Object.keys(args.update).map(id => [id, sampleEmails[0]])
+      ) : undefined,
+      destroyed: args.destroy || []
+    }, callId]
+  }
+
+  if (methodName === 'Email/changes') {
+    // Two pages: email-3 is created on the first and destroyed on the second
+    const pages: Record<string, object> = {
+      'state-123': {
+        newState: 'state-124',
+        hasMoreChanges: true,
+        created: ['email-3'],
+        updated: ['email-1'],
+        destroyed: []
+      },
+      'state-124': {
+        newState: 'state-125',
+        hasMoreChanges: false,
+        created: [],
+        updated: ['email-2'],
+        destroyed: ['email-3']
+      }
+    }
+
+    return ['Email/changes', {
+      accountId: args.accountId,
+      oldState: args.sinceState,
+      newState: args.sinceState,
+      hasMoreChanges: false,
+      created: [],
+      updated: [],
+      destroyed: [],
+      ...pages[args.sinceState]
+    }, callId]
+  }
+
+  if (methodName === 'Email/query') {
+    return ['Email/query', {
+      ...mockEmailQueryResponse,
+      collapseThreads: args.collapseThreads || undefined
+    }, callId]
+  }
+
+  if (methodName === 'Email/queryChanges') {
+    return ['Email/queryChanges', {
+      accountId: 'test-account',
+      oldQueryState: 'query-state-123',
+      newQueryState: 'query-state-124',
+      removed: [],
+      added: [{ id: 'email-1', index: 0 }]
+    }, callId]
+  }
+
+  if (methodName === 'Email/copy') {
+    return ['Email/copy', mockEmailCopyResponse, callId]
+  }
+
+  if (methodName === 'Email/import') {
+    return ['Email/import', mockEmailImportResponse, callId]
+  }
+
+  if (methodName === 'Email/parse') {
+    // "blob-unparsable" is not a message; unknown blobs are not found
+    const blobIds: string[] = args.blobIds
+    const parsed = blobIds.filter(blobId => JMAPFixtures.parsedEmails[blobId])
+    return ['Email/parse', {
+      accountId: args.accountId,
+      parsed: parsed.length > 0
+        ? Object.fromEntries(parsed.map(blobId => [blobId, JMAPFixtures.parsedEmails[blobId]]))
+        : null,
+      notParsable: blobIds.filter(blobId => blobId === 'blob-unparsable'),
+      notFound: blobIds.filter(blobId => !JMAPFixtures.parsedEmails[blobId] && blobId !== 'blob-unparsable')
+    }, callId]
+  }
+
+  if (methodName === 'SearchSnippet/get') {
+    // Highlight the text filter wherever it occurs in the subject or preview
+    const text: string | undefined = args.filter?.text
+    const highlight = (value: string | null | undefined) => {
+      if (!text || !value) return null
+      const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      const marked = value.replace(new RegExp(escaped, 'gi'), match => `<mark>${match}</mark>`)
+      return marked === value ? null : marked
+    }
+    const emailIds: string[] = args.emailIds
+
+    return ['SearchSnippet/get', {
+      accountId: args.accountId,
+      list: sampleEmails.filter(email => emailIds.includes(email.id)).map(email => ({
+        emailId: email.id,
+        subject: highlight(email.subject),
+        preview: highlight(email.preview)
+      })),
+      notFound: emailIds.filter(id => !sampleEmails.some(email => email.id === id))
+    }, callId]
+  }
+
+  // Thread methods
+  if (methodName === 'Thread/get') {
+    const requestedIds: string[] = args.ids ?? [...new Set(sampleEmails.map(email => email.threadId))]
+    const threads = requestedIds.map(id => ({
+      id,
+      emailIds: sampleEmails.filter(email => email.threadId === id).map(email => email.id)
+    }))
+
+    return ['Thread/get', {
+      accountId: args.accountId,
+      state: 'thread-state-1',
+      list: threads.filter(thread => thread.emailIds.length > 0),
+      notFound: threads.filter(thread => thread.emailIds.length === 0).map(thread => thread.id)
+    }, callId]
+  }
+
+  if (methodName === 'Thread/changes') {
+    return ['Thread/changes', {
+      accountId: args.accountId,
+      oldState: args.sinceState,
+      newState: 'thread-state-2',
+      hasMoreChanges: false,
+      created: [],
+      updated: ['thread-1'],
+      destroyed: []
+    }, callId]
+  }
+
+  // EmailSubmission methods
+  if (methodName === 'EmailSubmission/get') {
+    return ['EmailSubmission/get', {
+      accountId: args.accountId,
+      state: 'submission-state-1',
+      list: JMAPFixtures.emailSubmissions.filter(submission => args.ids === null || args.ids.includes(submission.id)),
+      notFound: []
+    }, callId]
+  }
+
+  if (methodName === 'EmailSubmission/query') {
+    return ['EmailSubmission/query', {
+      accountId: args.accountId,
+      queryState: 'submission-query-1',
+      canCalculateChanges: false,
+      position: 0,
+      ids: JMAPFixtures.emailSubmissions
+        .filter(submission => !args.filter?.undoStatus || submission.undoStatus === args.filter.undoStatus)
+        .map(submission => submission.id)
+    }, callId]
+  }
+
+  if (methodName === 'EmailSubmission/set') {
+    // Drafts with id "email-missing" cannot be sent, "final" submissions cannot be canceled
+    const create: Record<string, any> = args.create ?? {}
+    const update: Record<string, any> = args.update ?? {}
+    const accepted = Object.entries(create).filter(([, submission]) => submission.emailId !== 'email-missing')
+    const rejected = Object.keys(create).filter(creationId => !accepted.some(([id]) => id === creationId))
+    const cancelable = Object.keys(update).filter(id => id !== 'submission-final')
+
+    return ['EmailSubmission/set', {
+      accountId: args.accountId,
+      oldState: 'submission-state-1',
+      newState: 'submission-state-2',
+      created: Object.fromEntries(accepted.map(([creationId]) => [creationId, {
+        id: `submission-${creationId}`,
+        threadId: 'thread-1',
+        sendAt: '2024-01-01T12:00:00Z',
+        undoStatus: 'pending'
+      }])),
+      updated: Object.fromEntries(cancelable.map(id => [id, null])),
+      notCreated: Object.fromEntries(rejected.map(creationId => [creationId, {
+        type: 'invalidProperties',
+        properties: ['emailId']
+      }])),
+      notUpdated: Object.fromEntries(Object.keys(update).filter(id => !cancelable.includes(id)).map(id => [id, {
+        type: 'cannotUnsend'
+      }]))
+    }, callId]
+  }
+
+  // Identity methods
+  if (methodName === 'Identity/get') {
+    return ['Identity/get', {
+      accountId: args.accountId,
+      state: 'identity-state-1',
+      list: JMAPFixtures.identities.filter(identity => args.ids === null || args.ids.includes(identity.id)),
+      notFound: (args.ids ?? []).filter((id: string) => !JMAPFixtures.identities.some(identity => identity.id === id))
+    }, callId]
+  }
+
+  if (methodName === 'Identity/set') {
+    // The primary identity cannot be destroyed
+    const destroy: string[] = args.destroy ?? []
+    const forbidden = destroy.filter(id => JMAPFixtures.identities.some(identity => identity.id === id && !identity.mayDelete))
+
+    return ['Identity/set', {
+      accountId: args.accountId,
+      oldState: 'identity-state-1',
+      newState: 'identity-state-2',
+      created: Object.fromEntries(Object.keys(args.create ?? {}).map(creationId => [creationId, {
+        id: `identity-${creationId}`,
+        mayDelete: true
+      }])),
+      updated: Object.fromEntries(Object.keys(args.update ?? {}).map(id => [id, null])),
+      destroyed: destroy.filter(id => !forbidden.includes(id)),
+      notDestroyed: Object.fromEntries(forbidden.map(id => [id, { type: 'forbidden' }]))
+    }, callId]
+  }
+
+  // VacationResponse methods
+  if (methodName === 'VacationResponse/get') {
+    const found = args.ids === null || args.ids.includes('singleton')
+    return ['VacationResponse/get', {
+      accountId: args.accountId,
+      state: 'vacation-state-1',
+      list: found ? [JMAPFixtures.vacationResponse] : [],
+      notFound: (args.ids ?? []).filter((id: string) => id !== 'singleton')
+    }, callId]
+  }
+
+  if (methodName === 'VacationResponse/set') {
+    return ['VacationResponse/set', {
+      accountId: args.accountId,
+      oldState: 'vacation-state-1',
+      newState: 'vacation-state-2',
+      updated: Object.fromEntries(Object.keys(args.update ?? {}).map(id => [id, null]))
+    }, callId]
+  }
+
+  // Default fallback
+  return [methodName, {}, callId]
+}
+
+/**
+ * Responses the server adds after a method call, such as the Email/set
+ * implied by EmailSubmission/set onSuccessUpdateEmail and onSuccessDestroyEmail
+ */
+const implicitMethodResponses = ([methodName, methodArgs, callId]: Invocation, response: MethodResponse): MethodResponse[] => {
+  const args = methodArgs as any
+  if (methodName !== 'EmailSubmission/set' || response[0] !== 'EmailSubmission/set') {
+    return []
+  }
+
+  // "#creationId" refers to the email of the submission created in this call
+  const emailIdOf = (ref: string) =>
+    ref.startsWith('#') && response[1].created?.[ref.slice(1)] ? args.create[ref.slice(1)].emailId : null
+  const update = Object.entries(args.onSuccessUpdateEmail ?? {}).flatMap(([ref, patch]) => {
+    const emailId = emailIdOf(ref)
+    return emailId ? [[emailId, patch] as const] : []
+  })
+  const destroy = (args.onSuccessDestroyEmail ?? []).map(emailIdOf).filter((id: string | null) => id !== null)
+
+  if (update.length === 0 && destroy.length === 0) {
+    return []
+  }
+
+  return [['Email/set', {
+    accountId: args.accountId,
+    oldState: 'state-1',
+    newState: 'state-2',
+    ...(update.length > 0 && { updated: Object.fromEntries(update.map(([id]) => [id, null])) }),
+    ...(destroy.length > 0 && { destroyed: destroy })
+  }, callId]]
+}
+
 /**
  * Mock JMAP Client for testing
  */
@@ -35,188 +423,224 @@ const mockJMAPClient: JMAPClient = {
   getSession: Effect.succeed(JMAPFixtures.session as any),
   getSessionState: Effect.succeed('mock-session-state'),
   request: Effect.succeed({} as any),
-  batch: (methodCalls) => {
-    const [methodName] = methodCalls[0]
-
-    // Mailbox methods
-    if (methodName === 'Mailbox/get') {
-      return Effect.succeed({
-        methodResponses: [
-          ['Mailbox/get', {
-            accountId: 'account-1',
-            state: 'state-1',
-            list: JMAPFixtures.mailboxes,
-            notFound: []
-          }, methodCalls[0][2]]
-        ]
-      })
-    }
+  batch: (methodCalls) => Effect.gen(function* () {
+    const methodResponses: MethodResponse[] = []
 
-    if (methodName === 'Mailbox/query') {
-      return Effect.succeed({
-        methodResponses: [
-          ['Mailbox/query', {
-            accountId: 'account-1',
-            queryState: 'query-state-1',
-            canCalculateChanges: true,
-            position: 0,
-            ids: ['mailbox-1'],
-            total: 1
-          }, methodCalls[0][2]]
-        ]
-      })
+    // Resolve result references against the responses produced so far
+    for (const [methodName, args, callId] of methodCalls) {
+      const resolved = yield* Effect.either(resolveResultReferences(args, methodResponses, callId))
+      if (resolved._tag === 'Left') {
+        methodResponses.push(['error', { type: resolved.left.type, description: resolved.left.description }, callId])
+        continue
+      }
+      const invocation: Invocation = [methodName, resolved.right, callId]
+      const response = mockMethodResponse(invocation)
+      methodResponses.push(response, ...implicitMethodResponses(invocation, response))
     }
 
-    if (methodName === 'Mailbox/set') {
-      const args = methodCalls[0][1] as any
-      return Effect.succeed({
-        methodResponses: [
-          ['Mailbox/set', {
-            accountId: args.accountId,
-            oldState: 'state-1',
-            newState: 'state-2',
-            created: args.create ? Object.fromEntries(
-              Object.entries(args.create).map(([tempId, mailbox]) => [
-                tempId,
-                {
-                  ...mailbox,
-                  id: `mailbox-${Date.now()}`,
-                  parentId: (mailbox as any).parentId || null,
-                  role: null,
-                  totalEmails: 0,
-                  unreadEmails: 0,
-                  totalThreads: 0,
-                  unreadThreads: 0,
-                  myRights: {
-                    mayReadItems: true,
-                    mayAddItems: true,
-                    mayRemoveItems: true,
-                    maySetSeen: true,
-                    maySetKeywords: true,
-                    mayCreateChild: true,
-                    mayRename: true,
-                    mayDelete: true,
-                    maySubmit: true
-                  },
-                  isSubscribed: true
-                }
-              ])
-            ) : undefined,
-            updated: args.update ? Object.fromEntries(
-              Object.entries(args.update).map(([id, updates]) => [id, {
-                ...JMAPFixtures.mailboxes[0],
-                ...updates
-              }])
-            ) : undefined,
-            destroyed: args.destroy || []
-          }, methodCalls[0][2]]
-        ]
-      })
-    }
+    return { methodResponses, sessionState: 'mock-session-state' }
+  }),
+  execute: (request) => Effect.gen(function* () {
+    const httpClient = yield* HttpClient.HttpClient
+    return yield* httpClient.execute(request).pipe(
+      Effect.catchAll((error) => Effect.fail(Errors.network('Mock HTTP request failed', error)))
+    )
+  })
+}
 
-    // Email methods
-    if (methodName === 'Email/get') {
-      const args = methodCalls[0][1] as any
+/**
+ * Test layer with mocked JMAP client
+ */
+export const testJMAPClient = Layer.succeed(JMAPClientService, mockJMAPClient)
 
-      // If no IDs specified (null), return all emails
-      if (args.ids === null || args.ids === undefined) {
-        return Effect.succeed({
-          methodResponses: [
-            ['Email/get', mockEmailGetResponse, methodCalls[0][2]]
-          ]
+/**
+ * Canned HTTP answer for the fake HttpClient
+ */
+export interface FakeHttpResponse {
+  readonly status?: number
+  readonly body?: unknown
+  readonly headers?: Record<string, string>
+}
+
+/**
+ * Read the JSON body of a request sent through the fake HttpClient
+ */
+export const requestJson = (request: HttpClientRequest.HttpClientRequest): unknown =>
+  request.body._tag === 'Uint8Array'
+    ? JSON.parse(new TextDecoder().decode(request.body.body))
+    : undefined
+
+/**
+ * Read the whole body of a request sent through the fake HttpClient, draining streamed bodies
+ */
+export const requestBytes = (request: HttpClientRequest.HttpClientRequest): Effect.Effect<Uint8Array, unknown> => {
+  switch (request.body._tag) {
+    case 'Uint8Array':
+      return Effect.succeed(request.body.body)
+    case 'Stream':
+      return Stream.runCollect(request.body.stream).pipe(
+        Effect.map((chunks) => {
+          const bytes = new Uint8Array(Chunk.reduce(chunks, 0, (total, chunk) => total + chunk.length))
+          let offset = 0
+          for (const chunk of chunks) {
+            bytes.set(chunk, offset)
+            offset += chunk.length
+          }
+          return bytes
         })
-      }
+      )
+    default:
+      return Effect.succeed(new Uint8Array())
+  }
+}
 
-      // Filter emails based on requested IDs
-      // Handle both 'email1' and 'email-1' ID formats for test compatibility
-      const requestedIds = args.ids
-      const filteredEmails = sampleEmails.filter(email => {
-        return requestedIds.includes(email.id) ||
-               requestedIds.some((id: string) => {
-                 // Handle email1 -> email-1 mapping for tests
-                 const normalizedId = id.replace(/^email(\d+)$/, 'email-$1')
-                 return normalizedId === email.id
-               })
-      })
+type FakeHttpHandler = (
+  request: HttpClientRequest.HttpClientRequest
+) => FakeHttpResponse | Effect.Effect<FakeHttpResponse, unknown>
 
-      return Effect.succeed({
-        methodResponses: [
-          ['Email/get', {
-            ...mockEmailGetResponse,
-            list: filteredEmails
-          }, methodCalls[0][2]]
-        ]
-      })
-    }
+/**
+ * HttpClient layer answering every request with the given handler,
+ * for exercising the live client without a server. Handler failures
+ * surface as transport errors.
+ */
+export const fakeHttpClient = (handler: FakeHttpHandler) =>
+  Layer.succeed(
+    HttpClient.HttpClient,
+    HttpClient.make((request) =>
+      Effect.suspend(() => {
+        const result = handler(request)
+        return Effect.isEffect(result) ? result : Effect.succeed(result)
+      }).pipe(
+        Effect.map(({ status = 200, body, headers }) => {
+          const text = body === undefined || typeof body === 'string' ? body : JSON.stringify(body)
+          return HttpClientResponse.fromWeb(request, new Response(text ?? null, { status, ...(headers && { headers }) }))
+        }),
+        Effect.mapError((cause) => new HttpClientError.RequestError({ request, reason: 'Transport', cause }))
+      )
+    )
+  )
 
-    if (methodName === 'Email/set') {
-      const args = methodCalls[0][1] as any
-      return Effect.succeed({
-        methodResponses: [
-          ['Email/set', {
-            ...mockEmailSetResponse,
-            accountId: args.accountId,
-            updated: args.update ? Object.fromEntries(
-              Object.keys(args.update).map(id => [id, sampleEmails[0]])
-            ) : undefined,
-            destroyed: args.destroy || []
-          }, methodCalls[0][2]]
-        ]
-      })
-    }
+/**
+ * Session URL served by the fake JMAP server
+ */
+export const fakeSessionUrl = 'https://api.fastmail.com/jmap/session'
 
-    if (methodName === 'Email/query') {
-      const args = methodCalls[0][1] as any
-      return Effect.succeed({
-        methodResponses: [
-          ['Email/query', {
-            ...mockEmailQueryResponse,
-            collapseThreads: args.collapseThreads || undefined
-          }, methodCalls[0][2]]
-        ]
-      })
-    }
+/**
+ * Fake JMAP server with the requests it received
+ */
+export interface FakeJMAPServer {
+  /**
+   * API requests in the order they arrived
+   */
+  readonly requests: ReadonlyArray<Request>
 
-    if (methodName === 'Email/queryChanges') {
-      return Effect.succeed({
-        methodResponses: [
-          ['Email/queryChanges', {
-            accountId: 'test-account',
-            oldQueryState: 'query-state-123',
-            newQueryState: 'query-state-124',
-            removed: [],
-            added: [{ id: 'email-1', index: 0 }]
-          }, methodCalls[0][2]]
-        ]
-      })
-    }
+  /**
+   * Most API requests that were being answered at once
+   */
+  readonly maxInFlight: () => number
+  readonly layer: Layer.Layer<HttpClient.HttpClient>
+}
 
-    if (methodName === 'Email/copy') {
-      return Effect.succeed({
-        methodResponses: [
-          ['Email/copy', mockEmailCopyResponse, methodCalls[0][2]]
-        ]
-      })
-    }
+/**
+ * Fake JMAP server: serves the session, fixture one by default, answers API
+ * requests with reply and any other URL with a 404. A reply may be an
+ * effect that takes time, to overlap concurrent requests.
+ */
+export const fakeJMAPServer = (
+  reply: (request: Request) => FakeHttpResponse | Effect.Effect<FakeHttpResponse>,
+  session: unknown = JMAPFixtures.session
+): FakeJMAPServer => {
+  const requests: Array<Request> = []
+  let inFlight = 0
+  let maxInFlight = 0
 
-    if (methodName === 'Email/import') {
-      return Effect.succeed({
-        methodResponses: [
-          ['Email/import', mockEmailImportResponse, methodCalls[0][2]]
-        ]
-      })
+  const layer = fakeHttpClient((httpRequest) => {
+    if (httpRequest.url === fakeSessionUrl) {
+      return { body: session }
+    }
+    if (httpRequest.url !== JMAPFixtures.session.apiUrl) {
+      return { status: 404 }
     }
 
-    // Default fallback
-    return Effect.succeed({
-      methodResponses: [
-        [methodName, {}, methodCalls[0][2]]
-      ]
-    })
-  }
+    const request = Schema.decodeUnknownSync(Request)(requestJson(httpRequest))
+    requests.push(request)
+    inFlight++
+    maxInFlight = Math.max(maxInFlight, inFlight)
+    const answer = reply(request)
+    return (Effect.isEffect(answer) ? answer : Effect.succeed(answer)).pipe(
+      Effect.ensuring(Effect.sync(() => inFlight--))
+    )
+  })
+
+  return { requests, maxInFlight: () => maxInFlight, layer }
 }
 
 /**
- * Test layer with mocked JMAP client
+ * Reply to a request with one method response per call, in order
+ */
+export const replyEach = (respond: (invocation: Invocation) => MethodResponse) =>
+  (request: Request): FakeHttpResponse => ({
+    body: { methodResponses: request.methodCalls.map(respond), sessionState: 'session-1' }
+  })
+
+/**
+ * Pass a value its type rejects, for tests of the checks made at runtime
  */
-export const testJMAPClient = Layer.succeed(JMAPClientService, mockJMAPClient)
\ No newline at end of file
+export const invalidInput = <T>(value: unknown): T => value as T
+
+/**
+ * A batch sent through the recording client
+ */
+export interface RecordedBatch {
+  readonly methodCalls: ReadonlyArray<Invocation>
+  readonly using: ReadonlyArray<string> | undefined
+}
+
+/**
+ * The given service layer over the mock client, recording every batch the
+ * services send
+ */
+export const recordBatches = <ROut, E, RIn>(serviceLayer: Layer.Layer<ROut, E, RIn>) => {
+  const batches: Array<RecordedBatch> = []
+  const recordingClient = Layer.effect(
+    JMAPClientService,
+    Effect.map(JMAPClientService, (client): JMAPClient => ({
+      ...client,
+      batch: (...args) => {
+        batches.push({ methodCalls: args[0], using: args[1] })
+        return client.batch(...args)
+      }
+    }))
+  )
+  const layer = Layer.provideMerge(serviceLayer, Layer.provideMerge(recordingClient, testJMAPClient))
+  return { batches, layer }
+}
+
+/**
+ * A node:http server listening on a random local port
+ */
+export interface LocalServer {
+  readonly url: string
+  readonly server: http.Server
+  readonly close: () => Promise<void>
+}
+
+/**
+ * Start a local HTTP server for tests that need real sockets (streaming responses, upgrades)
+ */
+export const startLocalServer = (handler: http.RequestListener): Promise<LocalServer> =>
+  new Promise((resolve) => {
+    const server = http.createServer(handler)
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        server,
+        close: () =>
+          new Promise((done) => {
+            server.closeAllConnections()
+            server.close(() => done())
+          })
+      })
+    })
+  })